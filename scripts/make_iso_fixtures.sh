@@ -22,3 +22,12 @@ make_iso -JD test/fixtures/isofs/test_joliet.iso
 # -hide-rr-moved:
 # -R: Enable Rock Ridge
 make_iso "-R -hide-rr-moved" test/fixtures/isofs/test_rock_ridge.iso
+
+
+# test_udf.iso is a UDF-only image (UDF 2.01, no ISO9660 descriptors) of the
+# same files as test_rock_ridge.iso. mkisofs cannot create those; mkudffs
+# creates an empty UDF file system, which then has to be mounted (as root)
+# and filled, e.g.:
+#   truncate -s 2M test/fixtures/isofs/test_udf.iso
+#   mkudffs --media-type=hd --blocksize=2048 --udfrev=0x0201 test/fixtures/isofs/test_udf.iso
+#   mount -o loop test/fixtures/isofs/test_udf.iso /mnt && bsdtar -xf test/fixtures/isofs/test_rock_ridge.iso -C /mnt && umount /mnt
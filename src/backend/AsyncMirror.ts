@@ -12,6 +12,56 @@ import * as path from 'path';
 interface IAsyncOperation {
   apiMethod: string;
   arguments: any[];
+  // When the operation was performed on the synchronous file system.
+  time?: number;
+}
+
+/**
+ * How to resolve a conflict: apply the local change, keep the remote one, or
+ * keep both by also writing the local contents to a copy of the file.
+ */
+export type AsyncMirrorResolution = 'local' | 'remote' | 'both';
+
+/**
+ * Describes a local change that conflicts with a change that was made to the
+ * asynchronous file system by someone else, e.g. another tab that writes to
+ * the same IndexedDB.
+ */
+export interface AsyncMirrorConflict {
+  // The path of the file.
+  path: string;
+  // The local operation: 'writeFile' or 'unlink'.
+  apiMethod: string;
+  // When the local change was made.
+  localTime: Date;
+  // The stats of the remote file, or null if it was deleted.
+  remoteStats: Stats | null;
+}
+
+/**
+ * Decides how to resolve a conflict.
+ */
+export type AsyncMirrorConflictHandler = (conflict: AsyncMirrorConflict, cb: (resolution: AsyncMirrorResolution) => void) => void;
+
+/**
+ * Identifies the version of a file in the asynchronous file system, or its
+ * absence. A remote write that keeps the size of a file and happens within
+ * the same millisecond as the last one that this file system saw, or that
+ * restores the modification time, goes unnoticed.
+ * @hidden
+ */
+function versionStamp(stats: Stats | null): string {
+  return stats ? `${stats.mtime.getTime()}:${stats.size}` : '';
+}
+
+/**
+ * Returns the path to write the local contents of a conflicting file to, e.g.
+ * `/notes (conflict 1540000000000).txt`.
+ * @hidden
+ */
+function conflictCopyPath(p: string, time: number): string {
+  const ext = path.extname(p);
+  return path.join(path.dirname(p), `${path.basename(p, ext)} (conflict ${time})${ext}`);
 }
 
 /**
@@ -42,6 +92,8 @@ export interface AsyncMirrorOptions {
   sync: FileSystem;
   // The asynchronous file system to mirror.
   async: FileSystem;
+  // How to resolve conflicts with changes that someone else made to the asynchronous file system (optional; defaults to 'last-writer-wins').
+  conflictPolicy?: 'last-writer-wins' | 'keep-both' | AsyncMirrorConflictHandler;
 }
 
 /**
@@ -84,6 +136,30 @@ export interface AsyncMirrorOptions {
  *   });
  * });
  * ```
+ *
+ * AsyncMirror remembers the version (modification time and size) of each file
+ * in the asynchronous store. If a file was changed by someone else, e.g.
+ * another tab, when a local write or delete of it is replayed, the
+ * `conflictPolicy` option decides what happens:
+ *
+ * * `'last-writer-wins'` (the default) keeps the most recent change.
+ * * `'keep-both'` keeps the remote file, and writes the local contents to a
+ *   copy of it, e.g. `notes (conflict 1540000000000).txt`.
+ * * A function `(conflict, cb)` calls `cb` with `'local'`, `'remote'` or
+ *   `'both'`.
+ *
+ * Files that end up with the remote contents are reloaded into the synchronous
+ * store. Other operations, e.g. renames and `chmod`, are replayed as is.
+ *
+ * To know when changes are durable, wait for the promise from `flush()`, or
+ * listen to `'queue'` events, which report the number of operations that are
+ * yet to be replayed. `'conflict'` events report each conflict, and how it was
+ * resolved. `'error'` events report operations that failed to replay, which
+ * leaves the two stores out of sync.
+ *
+ * Versions are compared by modification time and size, so a remote change
+ * that leaves both alone, e.g. a write of the same size within the same
+ * millisecond, is not detected as a conflict.
  */
 export default class AsyncMirror extends SynchronousFileSystem implements FileSystem {
   public static readonly Name = "AsyncMirror";
@@ -103,6 +179,18 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
     async: {
       type: "object",
       description: "The asynchronous file system to mirror."
+    },
+    conflictPolicy: {
+      type: ["string", "function"],
+      optional: true,
+      description: "How to resolve conflicts with changes that someone else made to the asynchronous file system: 'last-writer-wins', 'keep-both', or a function that decides for each conflict. Defaults to 'last-writer-wins'.",
+      validator: (v: any, cb: BFSOneArgCallback) => {
+        if (typeof(v) === 'function' || v === 'last-writer-wins' || v === 'keep-both') {
+          cb();
+        } else {
+          cb(new ApiError(ErrorCode.EINVAL, `'conflictPolicy' option must be 'last-writer-wins', 'keep-both', or a function`));
+        }
+      }
     }
   };
 
@@ -111,7 +199,7 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
    */
   public static Create(opts: AsyncMirrorOptions, cb: BFSCallback<AsyncMirror>): void {
     try {
-      const fs = new AsyncMirror(opts.sync, opts.async);
+      const fs = new AsyncMirror(opts.sync, opts.async, opts.conflictPolicy);
       fs._initialize((e?) => {
         if (e) {
           cb(e);
@@ -133,8 +221,17 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
    */
   private _queue: IAsyncOperation[] = [];
   private _queueRunning: boolean = false;
+  // The number of operations that have not been replayed yet, including the
+  // one that is running.
+  private _pending: number = 0;
+  private _flushCallbacks: BFSOneArgCallback[] = [];
   private _sync: FileSystem;
   private _async: FileSystem;
+  private _conflictPolicy: 'last-writer-wins' | 'keep-both' | AsyncMirrorConflictHandler;
+  // The version stamp of each file in the asynchronous file system, as of the
+  // last time this file system read or wrote it.
+  private _versions: {[path: string]: string} = {};
+  private _listeners: {[event: string]: Function[]} = {};
   private _isInitialized: boolean = false;
   private _initializeCallbacks: ((e?: ApiError) => void)[] = [];
 
@@ -146,11 +243,13 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
    * **IMPORTANT**: You must call `initialize` on the file system before it can be used.
    * @param sync The synchronous file system to mirror the asynchronous file system to.
    * @param async The asynchronous file system to mirror.
+   * @param conflictPolicy How to resolve conflicts with changes that someone else made to the asynchronous file system.
    */
-  constructor(sync: FileSystem, async: FileSystem) {
+  constructor(sync: FileSystem, async: FileSystem, conflictPolicy: 'last-writer-wins' | 'keep-both' | AsyncMirrorConflictHandler = 'last-writer-wins') {
     super();
     this._sync = sync;
     this._async = async;
+    this._conflictPolicy = conflictPolicy;
   }
 
   public getName(): string {
@@ -161,11 +260,72 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
     this._sync.writeFileSync(fd.getPath(), fd.getBuffer(), null, FileFlag.getFileFlag('w'), fd.getStats().mode);
     this.enqueueOp({
       apiMethod: 'writeFile',
-      arguments: [fd.getPath(), fd.getBuffer(), null, fd.getFlag(), fd.getStats().mode]
+      arguments: [fd.getPath(), fd.getBuffer(), null, FileFlag.getFileFlag('w'), fd.getStats().mode]
+    });
+  }
+
+  /**
+   * Returns a promise that resolves once all pending operations have been
+   * replayed on the asynchronous file system, or rejects if one of them fails.
+   * Operations that fail are not retried.
+   */
+  public flush(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (this._pending === 0) {
+        resolve();
+      } else {
+        this._flushCallbacks.push((e?: ApiError | null) => e ? reject(e) : resolve());
+      }
+    });
+  }
+
+  /**
+   * The number of operations that have not been replayed on the asynchronous
+   * file system yet.
+   */
+  public getQueueLength(): number {
+    return this._pending;
+  }
+
+  /**
+   * Adds a listener for `'queue'` events, with the new queue length,
+   * `'conflict'` events, with the conflict and its resolution, or `'error'`
+   * events, with the error, method and path of an operation that could not be
+   * replayed.
+   */
+  public on(event: string, listener: Function): this {
+    if (!this._listeners.hasOwnProperty(event)) {
+      this._listeners[event] = [];
+    }
+    this._listeners[event].push(listener);
+    return this;
+  }
+
+  public removeListener(event: string, listener: Function): this {
+    const listeners = this._listeners[event];
+    if (listeners) {
+      const idx = listeners.indexOf(listener);
+      if (idx !== -1) {
+        listeners.splice(idx, 1);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Reports the tighter of the two file systems' limits, as every file is
+   * stored in both.
+   */
+  public diskSpace(p: string, cb: (total: number, free: number) => any): void {
+    this._sync.diskSpace(p, (syncTotal, syncFree) => {
+      this._async.diskSpace(p, (asyncTotal, asyncFree) => {
+        cb(Math.min(syncTotal, asyncTotal), Math.min(syncFree, asyncFree));
+      });
     });
   }
 
   public isReadOnly(): boolean { return false; }
+  public isReadOnlyAt(p: string): boolean { return this._sync.isReadOnlyAt(p) || this._async.isReadOnlyAt(p); }
   public supportsSynch(): boolean { return true; }
   public supportsLinks(): boolean { return false; }
   public supportsProps(): boolean { return this._sync.supportsProps() && this._async.supportsProps(); }
@@ -245,6 +405,30 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
     });
   }
 
+  public getxattrSync(p: string, name: string): Buffer {
+    return this._sync.getxattrSync(p, name);
+  }
+
+  public setxattrSync(p: string, name: string, value: Buffer, flags: number): void {
+    this._sync.setxattrSync(p, name, value, flags);
+    this.enqueueOp({
+      apiMethod: 'setxattr',
+      arguments: [p, name, value, flags]
+    });
+  }
+
+  public listxattrSync(p: string): string[] {
+    return this._sync.listxattrSync(p);
+  }
+
+  public removexattrSync(p: string, name: string): void {
+    this._sync.removexattrSync(p, name);
+    this.enqueueOp({
+      apiMethod: 'removexattr',
+      arguments: [p, name]
+    });
+  }
+
   /**
    * Called once to load up files from async storage into sync storage.
    */
@@ -273,8 +457,8 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
               if (err) {
                 cb(err);
               } else if (i < files!.length) {
-                copyItem(path.join(p, files![i]), copyNextFile);
-                i++;
+                // Advance first, as the callback may run synchronously.
+                copyItem(path.join(p, files![i++]), copyNextFile);
               } else {
                 cb();
               }
@@ -285,13 +469,14 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
               copyNextFile();
             }
           });
-        }, copyFile = (p: string, mode: number, cb: BFSOneArgCallback) => {
+        }, copyFile = (p: string, stats: Stats, cb: BFSOneArgCallback) => {
           this._async.readFile(p, null, FileFlag.getFileFlag('r'), (err, data) => {
             if (err) {
               cb(err);
             } else {
               try {
-                this._sync.writeFileSync(p, data!, null, FileFlag.getFileFlag('w'), mode);
+                this._sync.writeFileSync(p, data!, null, FileFlag.getFileFlag('w'), stats.mode);
+                this._versions[p] = versionStamp(stats);
               } catch (e) {
                 err = e;
               } finally {
@@ -299,18 +484,44 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
               }
             }
           });
+        }, copyXattrs = (p: string, cb: BFSOneArgCallback) => {
+          this._async.listxattr(p, (err, names) => {
+            if (err) {
+              // Nothing to copy if the async file system has no attributes.
+              return cb(err.errno === ErrorCode.ENOTSUP ? null : err);
+            }
+            let i = 0;
+            const copyNextXattr = (err?: ApiError | null) => {
+              if (err || i >= names!.length) {
+                return cb(err);
+              }
+              const name = names![i++];
+              this._async.getxattr(p, name, (err, value) => {
+                if (!err) {
+                  try {
+                    this._sync.setxattrSync(p, name, value!, 0);
+                  } catch (e) {
+                    err = e;
+                  }
+                }
+                copyNextXattr(err);
+              });
+            };
+            copyNextXattr();
+          });
         }, copyItem = (p: string, cb: BFSOneArgCallback) => {
           this._async.stat(p, false, (err, stats) => {
+            const copyItemXattrs = (err?: ApiError | null) => err ? cb(err) : copyXattrs(p, cb);
             if (err) {
               cb(err);
             } else if (stats!.isDirectory()) {
-              copyDirectory(p, stats!.mode, cb);
+              copyDirectory(p, stats!.mode, copyItemXattrs);
             } else {
-              copyFile(p, stats!.mode, cb);
+              copyFile(p, stats!, copyItemXattrs);
             }
           });
         };
-        copyDirectory('/', 0, end);
+        copyDirectory('/', 0, (e?: ApiError) => e ? end(e) : copyXattrs('/', end));
       }
     } else {
       userCb();
@@ -318,18 +529,24 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
   }
 
   private enqueueOp(op: IAsyncOperation) {
+    op.time = Date.now();
     this._queue.push(op);
+    this._setPending(this._pending + 1);
     if (!this._queueRunning) {
       this._queueRunning = true;
-      const doNextOp = (err?: ApiError) => {
-        if (err) {
-          throw new Error(`WARNING: File system has desynchronized. Received following error: ${err}\n$`);
-        }
+      const doNextOp = () => {
         if (this._queue.length > 0) {
-          const op = this._queue.shift()!,
-            args = op.arguments;
-          args.push(doNextOp);
-          (<Function> (<any> this._async)[op.apiMethod]).apply(this._async, args);
+          const nextOp = this._queue.shift()!;
+          this._replayOp(nextOp, (err?: ApiError | null) => {
+            if (err) {
+              // The file systems have desynchronized. Give up on the
+              // operation, but keep replaying the ones after it.
+              this._flushCallbacks.splice(0).forEach((cb) => cb(err));
+              this._emit('error', err, nextOp.apiMethod, nextOp.arguments[0]);
+            }
+            this._setPending(this._pending - 1);
+            doNextOp();
+          });
         } else {
           this._queueRunning = false;
         }
@@ -337,4 +554,166 @@ export default class AsyncMirror extends SynchronousFileSystem implements FileSy
       doNextOp();
     }
   }
+
+  private _setPending(pending: number): void {
+    this._pending = pending;
+    this._emit('queue', pending);
+    if (pending === 0) {
+      this._flushCallbacks.splice(0).forEach((cb) => cb());
+    }
+  }
+
+  private _emit(event: string, ...args: any[]): void {
+    const listeners = this._listeners[event];
+    if (listeners) {
+      // Copy, as listeners may remove themselves.
+      listeners.slice(0).forEach((listener) => listener.apply(this, args));
+    }
+  }
+
+  /**
+   * Replays an operation on the asynchronous file system. Writes and deletes
+   * first check that the file has not changed since this file system last
+   * read or wrote it.
+   */
+  private _replayOp(op: IAsyncOperation, cb: BFSOneArgCallback): void {
+    if (op.apiMethod !== 'writeFile' && op.apiMethod !== 'unlink') {
+      return this._applyOp(op, cb);
+    }
+    const p: string = op.arguments[0];
+    this._async.stat(p, false, (err, stats?) => {
+      if (err && err.errno !== ErrorCode.ENOENT) {
+        return cb(err);
+      }
+      const remoteStats = err ? null : stats!;
+      if (versionStamp(remoteStats) === (this._versions[p] || '')) {
+        this._applyOp(op, cb);
+      } else if (op.apiMethod === 'unlink' && remoteStats === null) {
+        // Someone else deleted it too.
+        delete this._versions[p];
+        cb();
+      } else {
+        const conflict: AsyncMirrorConflict = {
+          path: p,
+          apiMethod: op.apiMethod,
+          localTime: new Date(op.time!),
+          remoteStats: remoteStats
+        };
+        this._resolveConflict(conflict, (resolution) => {
+          this._emit('conflict', conflict, resolution);
+          if (resolution === 'local' || (resolution === 'both' && remoteStats === null)) {
+            this._applyOp(op, cb);
+          } else if (resolution === 'both' && op.apiMethod === 'writeFile') {
+            const copyPath = conflictCopyPath(p, op.time!),
+              data: Buffer = op.arguments[1],
+              mode: number = op.arguments[4];
+            try {
+              this._sync.writeFileSync(copyPath, data, null, FileFlag.getFileFlag('w'), mode);
+            } catch (e) {
+              return cb(e);
+            }
+            this._applyOp({
+              apiMethod: 'writeFile',
+              arguments: [copyPath, data, null, FileFlag.getFileFlag('w'), mode]
+            }, (err?: ApiError | null) => err ? cb(err) : this._reloadRemote(p, remoteStats!, cb));
+          } else {
+            // A delete that keeps both keeps the remote file.
+            this._reloadRemote(p, remoteStats, cb);
+          }
+        });
+      }
+    });
+  }
+
+  private _resolveConflict(conflict: AsyncMirrorConflict, cb: (resolution: AsyncMirrorResolution) => void): void {
+    const policy = this._conflictPolicy;
+    if (typeof(policy) === 'function') {
+      policy(conflict, cb);
+    } else if (policy === 'keep-both') {
+      cb('both');
+    } else {
+      // We do not know when a remote file was deleted, so a local change wins.
+      cb(conflict.remoteStats !== null && conflict.remoteStats.mtime.getTime() > conflict.localTime.getTime() ? 'remote' : 'local');
+    }
+  }
+
+  /**
+   * Applies an operation to the asynchronous file system, and updates the
+   * version stamps of the files it changed.
+   */
+  private _applyOp(op: IAsyncOperation, cb: BFSOneArgCallback): void {
+    const p: string = op.arguments[0];
+    (<Function> (<any> this._async)[op.apiMethod]).apply(this._async, op.arguments.concat([(err?: ApiError | null) => {
+      if (err) {
+        return cb(err);
+      }
+      switch (op.apiMethod) {
+        case 'unlink':
+        case 'rmdir':
+          delete this._versions[p];
+          cb();
+          break;
+        case 'rename':
+          const newPath: string = op.arguments[1];
+          Object.keys(this._versions).forEach((oldPath) => {
+            if (oldPath === p || oldPath.indexOf(p + '/') === 0) {
+              this._versions[newPath + oldPath.slice(p.length)] = this._versions[oldPath];
+              delete this._versions[oldPath];
+            }
+          });
+          cb();
+          break;
+        default:
+          // Writes and metadata changes may update the modification time.
+          this._async.stat(p, false, (err, stats?) => {
+            if (err) {
+              cb(err);
+            } else {
+              if (stats!.isFile()) {
+                this._versions[p] = versionStamp(stats!);
+              }
+              cb();
+            }
+          });
+          break;
+      }
+    }]));
+  }
+
+  /**
+   * Replaces the synchronous file system's copy of a file with the remote
+   * version, or deletes it if the remote file was deleted.
+   */
+  private _reloadRemote(p: string, remoteStats: Stats | null, cb: BFSOneArgCallback): void {
+    if (remoteStats === null) {
+      delete this._versions[p];
+    } else {
+      this._versions[p] = versionStamp(remoteStats);
+    }
+    if (this._queue.some((op) => op.arguments[0] === p || (op.apiMethod === 'rename' && op.arguments[1] === p))) {
+      // Later local changes to the file replace the remote version anyway.
+      return cb();
+    }
+    if (remoteStats === null) {
+      try {
+        if (this._sync.existsSync(p)) {
+          this._sync.unlinkSync(p);
+        }
+      } catch (e) {
+        return cb(e);
+      }
+      return cb();
+    }
+    this._async.readFile(p, null, FileFlag.getFileFlag('r'), (err, data?) => {
+      if (err) {
+        return cb(err);
+      }
+      try {
+        this._sync.writeFileSync(p, data!, null, FileFlag.getFileFlag('w'), remoteStats.mode);
+      } catch (e) {
+        return cb(e);
+      }
+      cb();
+    });
+  }
 }
@@ -4,15 +4,19 @@ import {
     BFSOneArgCallback,
     BFSCallback,
     FileSystemOptions,
-    BFSThreeArgCallback
+    BFSThreeArgCallback,
+    COPYFILE_EXCL,
+    COPYFILE_FICLONE_FORCE
 } from '../core/file_system'
 import { FileFlag, ActionType } from '../core/file_flag'
 import { default as Stats, FileType } from '../core/node_fs_stats'
+import Dirent from '../core/node_fs_dirent'
 import { ApiError, ErrorCode } from '../core/api_error'
 import { File, BaseFile } from '../core/file'
 import setImmediate from '../generic/setImmediate'
 
 type RecursiveFolder = { name: string; items?: RecursiveFolder[] }
+type DirEntry = { name: string; type: 'directory' | 'file' | 'symlink' }
 
 interface IDsFs {
     /**
@@ -78,6 +82,21 @@ interface IDsFs {
      * @throws ENOTDIR, EFAULT
      */
     readdirRecursive(dirname: string): Promise<RecursiveFolder[]>
+    /**
+     * Lists the files in a directory along with their types. Optional;
+     * without it, the type of each entry is looked up separately.
+     * @throws ENOENT, ENOTDIR, EFAULT
+     */
+    readdirWithTypes?(dirname: string): Promise<DirEntry[]>
+    /**
+     * Lists one page of the files in a directory, ordered by name. Optional;
+     * without it, directories are listed in one request.
+     * @param after The last name of the previous page, or null for the first page.
+     * @param limit The maximum number of entries to return.
+     * @returns The entries, and whether more follow.
+     * @throws ENOENT, ENOTDIR, EFAULT
+     */
+    readdirPage?(dirname: string, after: string | null, limit: number): Promise<{ items: DirEntry[]; more: boolean }>
     /**
      * Truncate a file.
      * @param size The new size
@@ -128,6 +147,10 @@ function getApiError(e: string, path: string): ApiError {
     }
 }
 
+function getFileType(type: 'directory' | 'file' | 'symlink'): FileType {
+    return type === 'directory' ? FileType.DIRECTORY : type === 'file' ? FileType.FILE : FileType.SYMLINK
+}
+
 class DsFsFile extends BaseFile implements File {
     constructor(private filename: string, private client: IDsFs, private mode?: number) {
         super()
@@ -328,7 +351,7 @@ export default class DsFsFileSystem extends BaseFileSystem implements FileSystem
                 cb(
                     null,
                     new Stats(
-                        metadata.type === 'directory' ? FileType.DIRECTORY : metadata.type === 'file' ? FileType.FILE : FileType.SYMLINK,
+                        getFileType(metadata.type),
                         metadata.size,
                         this._mode,
                         metadata.atime,
@@ -437,6 +460,85 @@ export default class DsFsFileSystem extends BaseFileSystem implements FileSystem
             })
     }
 
+    /**
+     * Delete a file, or a directory and all of its contents, using the
+     * backend's native bulk removal.
+     */
+    public rimraf(path: string, cb: BFSOneArgCallback): void {
+        this._backend
+            .rimraf(path)
+            .then(() => {
+                cb()
+            })
+            .catch((e: string) => {
+                if (e === 'ENOTDIR') {
+                    // Not a directory, so a plain remove will do.
+                    this.unlink(path, cb)
+                } else {
+                    cb(getApiError(e, path))
+                }
+            })
+    }
+
+    /**
+     * Copy a file on the backend, without moving its contents through the
+     * browser.
+     */
+    public copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void {
+        if (flags & COPYFILE_FICLONE_FORCE) {
+            return cb(new ApiError(ErrorCode.ENOTSUP, 'Copy-on-write is not supported.'))
+        }
+        const copy = () => {
+            this._backend
+                .copyFile(src, dest)
+                .then(() => {
+                    cb()
+                })
+                .catch((e: string) => {
+                    cb(getApiError(e, src))
+                })
+        }
+        if (flags & COPYFILE_EXCL) {
+            this._backend.getattr(dest).then(() => {
+                cb(ApiError.EEXIST(dest))
+            }, (e: string) => {
+                if (e === 'ENOENT') {
+                    copy()
+                } else {
+                    cb(getApiError(e, dest))
+                }
+            })
+        } else {
+            copy()
+        }
+    }
+
+    /**
+     * List everything below a directory with the backend's recursive listing,
+     * instead of one request per directory. The listing only tells folders
+     * from files, so symbolic links are reported as files.
+     */
+    public readdirRecursive(path: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+        this._backend
+            .readdirRecursive(path)
+            .then(res => {
+                const rv: Dirent[] = []
+                const flatten = (items: RecursiveFolder[], prefix: string, depth: number) => {
+                    for (const item of items) {
+                        rv.push(new Dirent(prefix + item.name, item.items ? FileType.DIRECTORY : FileType.FILE))
+                        if (item.items && depth < maxDepth) {
+                            flatten(item.items, `${prefix}${item.name}/`, depth + 1)
+                        }
+                    }
+                }
+                flatten(res, '', 1)
+                cb(null, rv)
+            })
+            .catch((e: string) => {
+                cb(getApiError(e, path))
+            })
+    }
+
     /**
      * Create a directory
      */
@@ -465,6 +567,44 @@ export default class DsFsFileSystem extends BaseFileSystem implements FileSystem
             })
     }
 
+    /**
+     * Get the names and types of the files in a directory in one request, if
+     * the backend supports it. The recursive listing is no substitute, as it
+     * fetches the whole tree and does not tell symbolic links from files.
+     */
+    public readdirWithTypes(path: string, cb: BFSCallback<Dirent[]>): void {
+        if (!this._backend.readdirWithTypes) {
+            return super.readdirWithTypes(path, cb)
+        }
+        this._backend
+            .readdirWithTypes(path)
+            .then(res => {
+                cb(null, res.map(item => new Dirent(item.name, getFileType(item.type))))
+            })
+            .catch((e: string) => {
+                cb(getApiError(e, path))
+            })
+    }
+
+    /**
+     * Get one page of the entries of a directory. The cursor is the last name
+     * of the previous page.
+     */
+    public readdirPage(path: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+        if (!this._backend.readdirPage) {
+            return super.readdirPage(path, cursor, limit, cb)
+        }
+        this._backend
+            .readdirPage(path, cursor, limit)
+            .then(res => {
+                const entries = res.items.map(item => new Dirent(item.name, getFileType(item.type)))
+                cb(null, entries, res.more && entries.length > 0 ? entries[entries.length - 1].name : null)
+            })
+            .catch((e: string) => {
+                cb(getApiError(e, path))
+            })
+    }
+
     public symlink(srcpath: string, dstpath: string, type: string, cb: BFSOneArgCallback) {
         this._backend.symlink(srcpath, dstpath).then(() => {
             cb()
@@ -72,6 +72,7 @@ export default class FolderAdapter extends BaseFileSystem implements FileSystem
 
   public getName(): string { return this._wrapped.getName(); }
   public isReadOnly(): boolean { return this._wrapped.isReadOnly(); }
+  public isReadOnlyAt(p: string): boolean { return this._wrapped.isReadOnlyAt(path.join(this._folder, p)); }
   public supportsProps(): boolean { return this._wrapped.supportsProps(); }
   public supportsSynch(): boolean { return this._wrapped.supportsSynch(); }
   public supportsLinks(): boolean { return false; }
@@ -163,15 +164,30 @@ function wrapFunction(name: string, wrapFirst: boolean, wrapSecond: boolean): Fu
 
 // First argument is a path.
 ['diskSpace', 'stat', 'statSync', 'open', 'openSync', 'unlink', 'unlinkSync',
- 'rmdir', 'rmdirSync', 'mkdir', 'mkdirSync', 'readdir', 'readdirSync', 'exists',
+ 'rmdir', 'rmdirSync', 'mkdir', 'mkdirSync', 'readdir', 'readdirSync',
+ 'readdirWithTypes', 'readdirWithTypesSync', 'readdirPage', 'readdirPageSync',
+ 'readdirRecursive', 'readdirRecursiveSync', 'exists',
  'existsSync', 'realpath', 'realpathSync', 'truncate', 'truncateSync', 'readFile',
  'readFileSync', 'writeFile', 'writeFileSync', 'appendFile', 'appendFileSync',
  'chmod', 'chmodSync', 'chown', 'chownSync', 'utimes', 'utimesSync', 'readlink',
- 'readlinkSync'].forEach((name: string) => {
+ 'readlinkSync', 'getxattr', 'getxattrSync', 'setxattr', 'setxattrSync', 'listxattr',
+ 'listxattrSync', 'removexattr', 'removexattrSync'].forEach((name: string) => {
   (<any> FolderAdapter.prototype)[name] = wrapFunction(name, true, false);
 });
 
 // First and second arguments are paths.
-['rename', 'renameSync', 'link', 'linkSync', 'symlink', 'symlinkSync'].forEach((name: string) => {
+['rename', 'renameSync', 'link', 'linkSync'].forEach((name: string) => {
   (<any> FolderAdapter.prototype)[name] = wrapFunction(name, true, true);
 });
+
+// The second argument is a path, and the first is a symbolic link target that
+// is only a path in the folder if it is absolute.
+['symlink', 'symlinkSync'].forEach((name: string) => {
+  const fcn = wrapFunction(name, false, true);
+  (<any> FolderAdapter.prototype)[name] = function(this: FolderAdapter) {
+    if (arguments[0].charAt(0) === '/') {
+      arguments[0] = path.join(this._folder, arguments[0]);
+    }
+    return fcn.apply(this, arguments);
+  };
+});
@@ -4,6 +4,7 @@ import {FileFlag, ActionType} from '../core/file_flag';
 import {copyingSlice} from '../core/util';
 import {File} from '../core/file';
 import Stats from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import {NoSyncFile} from '../generic/preload_file';
 import {xhrIsAvailable, asyncDownloadFile, syncDownloadFile, getFileSizeAsync, getFileSizeSync} from '../generic/xhr';
 import {fetchIsAvailable, fetchFileAsync, fetchFileSizeAsync} from '../generic/fetch';
@@ -359,6 +360,23 @@ export default class HTTPRequest extends BaseFileSystem implements FileSystem {
       throw ApiError.ENOTDIR(path);
     }
   }
+  public readdirRecursive(path: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    try {
+      cb(null, this.readdirRecursiveSync(path, maxDepth));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public readdirRecursiveSync(path: string, maxDepth: number): Dirent[] {
+    // The index already knows every path; no need to walk the tree.
+    const rv = this._index.lsRecursive(path, maxDepth);
+    if (rv === null) {
+      throw this._index.getInode(path) === null ? ApiError.ENOENT(path) : ApiError.ENOTDIR(path);
+    }
+    return rv;
+  }
+
 
   /**
    * We have the entire file as a buffer; optimize readFile.
@@ -31,6 +31,14 @@ export class InMemoryStore implements SyncKeyValueStore, SimpleSyncStore {
   }
 }
 
+/**
+ * Configuration options for the InMemory file system.
+ */
+export interface InMemoryFileSystemOptions {
+  // The maximum number of bytes of file contents to store. Defaults to no limit.
+  quota?: number;
+}
+
 /**
  * A simple in-memory file system backed by an InMemoryStore.
  * Files are not persisted across page loads.
@@ -38,15 +46,21 @@ export class InMemoryStore implements SyncKeyValueStore, SimpleSyncStore {
 export default class InMemoryFileSystem extends SyncKeyValueFileSystem {
   public static readonly Name = "InMemory";
 
-  public static readonly Options: FileSystemOptions = {};
+  public static readonly Options: FileSystemOptions = {
+    quota: {
+      type: "number",
+      optional: true,
+      description: "The maximum number of bytes of file contents to store. Writes that would exceed it fail with ENOSPC. Defaults to no limit."
+    }
+  };
 
   /**
    * Creates an InMemoryFileSystem instance.
    */
-  public static Create(options: any, cb: BFSCallback<InMemoryFileSystem>): void {
-    cb(null, new InMemoryFileSystem());
+  public static Create(options: InMemoryFileSystemOptions, cb: BFSCallback<InMemoryFileSystem>): void {
+    cb(null, new InMemoryFileSystem(options ? options.quota : undefined));
   }
-  private constructor() {
-    super({ store: new InMemoryStore() });
+  private constructor(quota?: number) {
+    super({ store: new InMemoryStore(), quota: quota });
   }
 }
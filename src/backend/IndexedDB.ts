@@ -1,5 +1,5 @@
 import {BFSOneArgCallback, BFSCallback, FileSystemOptions} from '../core/file_system';
-import {AsyncKeyValueROTransaction, AsyncKeyValueRWTransaction, AsyncKeyValueStore, AsyncKeyValueFileSystem} from '../generic/key_value_filesystem';
+import {AsyncKeyValueROTransaction, AsyncKeyValueRWTransaction, AsyncKeyValueStore, AsyncKeyValueFileSystem, StoreSpace} from '../generic/key_value_filesystem';
 import {ApiError, ErrorCode} from '../core/api_error';
 import global from '../core/global';
 import {arrayBuffer2Buffer, buffer2ArrayBuffer} from '../core/util';
@@ -170,6 +170,22 @@ export class IndexedDBStore implements AsyncKeyValueStore {
     }
   }
 
+  /**
+   * Reports the storage estimate of the origin, which all of its IndexedDB
+   * databases share.
+   */
+  public space(cb: BFSCallback<StoreSpace>): void {
+    const storage = typeof navigator !== 'undefined' ? (<any> navigator).storage : undefined;
+    if (!storage || typeof storage.estimate !== 'function') {
+      return cb(new ApiError(ErrorCode.ENOTSUP, 'navigator.storage.estimate is not available.'));
+    }
+    storage.estimate().then((estimate: {quota?: number, usage?: number}) => {
+      cb(null, { total: estimate.quota || 0, used: estimate.usage || 0 });
+    }, (e: {name: string}) => {
+      cb(convertError(e));
+    });
+  }
+
   public beginTransaction(type: 'readonly'): AsyncKeyValueROTransaction;
   public beginTransaction(type: 'readwrite'): AsyncKeyValueRWTransaction;
   public beginTransaction(type: 'readonly' | 'readwrite' = 'readonly'): AsyncKeyValueROTransaction {
@@ -194,6 +210,9 @@ export interface IndexedDBFileSystemOptions {
   storeName?: string;
   // The size of the inode cache. Defaults to 100. A size of 0 or below disables caching.
   cacheSize?: number;
+  // The maximum number of bytes of file contents to store. Defaults to no limit
+  // besides that of the browser.
+  quota?: number;
 }
 
 /**
@@ -212,6 +231,11 @@ export default class IndexedDBFileSystem extends AsyncKeyValueFileSystem {
       type: "number",
       optional: true,
       description: "The size of the inode cache. Defaults to 100. A size of 0 or below disables caching."
+    },
+    quota: {
+      type: "number",
+      optional: true,
+      description: "The maximum number of bytes of file contents to store. Writes that would exceed it fail with ENOSPC. Defaults to no limit besides that of the browser."
     }
   };
 
@@ -221,7 +245,7 @@ export default class IndexedDBFileSystem extends AsyncKeyValueFileSystem {
   public static Create(opts: IndexedDBFileSystemOptions, cb: BFSCallback<IndexedDBFileSystem>): void {
     IndexedDBStore.Create(opts.storeName ? opts.storeName : 'browserfs', (e, store?) => {
       if (store) {
-        const idbfs = new IndexedDBFileSystem(typeof(opts.cacheSize) === 'number' ? opts.cacheSize : 100);
+        const idbfs = new IndexedDBFileSystem(typeof(opts.cacheSize) === 'number' ? opts.cacheSize : 100, typeof(opts.quota) === 'number' ? opts.quota : null);
         idbfs.init(store, (e) => {
           if (e) {
             cb(e);
@@ -245,7 +269,8 @@ export default class IndexedDBFileSystem extends AsyncKeyValueFileSystem {
       return false;
     }
   }
-  private constructor(cacheSize: number) {
+  private constructor(cacheSize: number, quota: number | null) {
     super(cacheSize);
+    this._quota = quota;
   }
 }
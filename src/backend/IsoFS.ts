@@ -1,10 +1,13 @@
 import {ApiError, ErrorCode} from '../core/api_error';
 import {default as Stats, FileType} from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import {SynchronousFileSystem, FileSystem, BFSCallback, FileSystemOptions} from '../core/file_system';
 import {File} from '../core/file';
 import {FileFlag, ActionType} from '../core/file_flag';
 import {NoSyncFile} from '../generic/preload_file';
 import {copyingSlice, bufferValidator} from '../core/util';
+import {hasUDF, UDFVolume} from '../generic/udf';
+import setImmediate from '../generic/setImmediate';
 import * as path from 'path';
 
 /**
@@ -27,6 +30,11 @@ const enum VolumeDescriptorTypeCode {
  */
 type TGetString = (d: Buffer, i: number, len: number) => string;
 
+/**
+ * @hidden
+ */
+type TSetString = (d: Buffer, i: number, len: number, str: string) => void;
+
 /**
  * @hidden
  */
@@ -34,6 +42,13 @@ function getASCIIString(data: Buffer, startIndex: number, length: number) {
   return data.toString('ascii', startIndex, startIndex + length).trim();
 }
 
+/**
+ * @hidden
+ */
+function getUTF8String(data: Buffer, startIndex: number, length: number): string {
+  return data.toString('utf8', startIndex, startIndex + length);
+}
+
 /**
  * @hidden
  */
@@ -64,8 +79,8 @@ function getDate(data: Buffer, startIndex: number): Date {
   const min = parseInt(getASCIIString(data, startIndex + 10, 2), 10);
   const sec = parseInt(getASCIIString(data, startIndex + 12, 2), 10);
   const hundrethsSec = parseInt(getASCIIString(data, startIndex + 14, 2), 10);
-  // Last is a time-zone offset, but JavaScript dates don't support time zones well.
-  return new Date(year, mon, day, hour, min, sec, hundrethsSec * 100);
+  // Last is the offset from GMT in 15 minute intervals.
+  return new Date(Date.UTC(year, mon - 1, day, hour, min, sec, hundrethsSec * 10) - data.readInt8(startIndex + 16) * 900000);
 }
 
 /**
@@ -78,9 +93,98 @@ function getShortFormDate(data: Buffer, startIndex: number): Date {
   const hour = data[startIndex + 3];
   const minute = data[startIndex + 4];
   const second = data[startIndex + 5];
-  // JavaScript's Date support isn't so great; ignore timezone.
-  // const offsetFromGMT = this._data[24];
-  return new Date(yearsSince1900, month - 1, day, hour, minute, second);
+  // Last is the offset from GMT in 15 minute intervals.
+  return new Date(Date.UTC(1900 + yearsSince1900, month - 1, day, hour, minute, second) - data.readInt8(startIndex + 6) * 900000);
+}
+
+/**
+ * Writes a number in both byte orders, as ISO9660 does for most numbers.
+ * @hidden
+ */
+function setBothEndianUInt32(data: Buffer, value: number, startIndex: number): void {
+  data.writeUInt32LE(value, startIndex);
+  data.writeUInt32BE(value, startIndex + 4);
+}
+
+/**
+ * @hidden
+ */
+function setBothEndianUInt16(data: Buffer, value: number, startIndex: number): void {
+  data.writeUInt16LE(value, startIndex);
+  data.writeUInt16BE(value, startIndex + 2);
+}
+
+/**
+ * Writes a string into a field, padded with spaces.
+ * @hidden
+ */
+function setASCIIString(data: Buffer, startIndex: number, length: number, str: string): void {
+  data.fill(0x20, startIndex, startIndex + length);
+  data.write(str.slice(0, length), startIndex, length, 'ascii');
+}
+
+/**
+ * @hidden
+ */
+function encodeJolietString(str: string): Buffer {
+  const data = Buffer.alloc(str.length * 2);
+  for (let i = 0; i < str.length; i++) {
+    data.writeUInt16BE(str.charCodeAt(i), i << 1);
+  }
+  return data;
+}
+
+/**
+ * Writes a string into a field, padded with spaces.
+ * @hidden
+ */
+function setJolietString(data: Buffer, startIndex: number, length: number, str: string): void {
+  const chars = length >> 1;
+  encodeJolietString((str + ' '.repeat(chars)).slice(0, chars)).copy(data, startIndex);
+}
+
+/**
+ * Writes a date in the format that getDate reads, in UTC. Dates that are not
+ * specified are all zeroes.
+ * @hidden
+ */
+function setDate(data: Buffer, startIndex: number, date: Date | null): void {
+  if (date === null) {
+    data.write('0000000000000000', startIndex, 16, 'ascii');
+    data[startIndex + 16] = 0;
+    return;
+  }
+  const pad = (n: number, len: number) => `0000${n}`.slice(-len);
+  const str = pad(date.getUTCFullYear(), 4) + pad(date.getUTCMonth() + 1, 2) + pad(date.getUTCDate(), 2) +
+    pad(date.getUTCHours(), 2) + pad(date.getUTCMinutes(), 2) + pad(date.getUTCSeconds(), 2) + pad(Math.floor(date.getUTCMilliseconds() / 10), 2);
+  data.write(str, startIndex, 16, 'ascii');
+  data[startIndex + 16] = 0;
+}
+
+/**
+ * Writes a date in the format that getShortFormDate reads, in UTC.
+ * @hidden
+ */
+function setShortFormDate(data: Buffer, startIndex: number, date: Date): void {
+  data[startIndex] = Math.max(0, Math.min(255, date.getUTCFullYear() - 1900));
+  data[startIndex + 1] = date.getUTCMonth() + 1;
+  data[startIndex + 2] = date.getUTCDate();
+  data[startIndex + 3] = date.getUTCHours();
+  data[startIndex + 4] = date.getUTCMinutes();
+  data[startIndex + 5] = date.getUTCSeconds();
+  data[startIndex + 6] = 0;
+}
+
+/**
+ * Allocates a system use entry with the given signature and length.
+ * @hidden
+ */
+function allocSystemUseEntry(signature: string, length: number): Buffer {
+  const data = Buffer.alloc(length);
+  data.write(signature, 0, 2, 'ascii');
+  data[2] = length;
+  data[3] = 1;
+  return data;
 }
 
 /**
@@ -161,10 +265,23 @@ function constructSystemUseEntries(data: Buffer, i: number, len: number, isoData
  * @hidden
  */
 class VolumeDescriptor {
+  /**
+   * Creates an empty volume descriptor of the given type.
+   */
+  public static createEmpty(type: VolumeDescriptorTypeCode): VolumeDescriptor {
+    const data = Buffer.alloc(2048);
+    data[0] = type;
+    data.write('CD001', 1, 5, 'ascii');
+    data[6] = 1;
+    return new VolumeDescriptor(data);
+  }
   protected _data: Buffer;
   constructor(data: Buffer) {
     this._data = data;
   }
+  public buffer(): Buffer {
+    return this._data.slice(0, 2048);
+  }
   public type(): VolumeDescriptorTypeCode {
     return this._data[0];
   }
@@ -183,6 +300,30 @@ class VolumeDescriptor {
  * @hidden
  */
 abstract class PrimaryOrSupplementaryVolumeDescriptor extends VolumeDescriptor {
+  /**
+   * Fills in the fields of a new volume descriptor.
+   * @param pathTables The sectors of the type L and type M path tables.
+   */
+  protected static _fill(data: Buffer, setString: TSetString, volumeIdentifier: string, volumeSpaceSize: number, pathTableSize: number, pathTables: [number, number], root: DirectoryRecord, date: Date): void {
+    setString(data, 8, 32, '');
+    setString(data, 40, 32, volumeIdentifier);
+    setBothEndianUInt32(data, volumeSpaceSize, 80);
+    setBothEndianUInt16(data, 1, 120);
+    setBothEndianUInt16(data, 1, 124);
+    setBothEndianUInt16(data, 2048, 128);
+    setBothEndianUInt32(data, pathTableSize, 132);
+    data.writeUInt32LE(pathTables[0], 140);
+    data.writeUInt32BE(pathTables[1], 148);
+    root.buffer().copy(data, 156);
+    for (const [start, length] of [[190, 128], [318, 128], [446, 128], [574, 128], [702, 37], [739, 37], [776, 37]]) {
+      setString(data, start, length, '');
+    }
+    setDate(data, 813, date);
+    setDate(data, 830, date);
+    setDate(data, 847, null);
+    setDate(data, 864, null);
+    data[881] = 1;
+  }
   private _root: DirectoryRecord | null = null;
   constructor(data: Buffer) {
     super(data);
@@ -281,6 +422,11 @@ abstract class PrimaryOrSupplementaryVolumeDescriptor extends VolumeDescriptor {
  * @hidden
  */
 class PrimaryVolumeDescriptor extends PrimaryOrSupplementaryVolumeDescriptor {
+  public static create(volumeIdentifier: string, volumeSpaceSize: number, pathTableSize: number, pathTables: [number, number], root: DirectoryRecord, date: Date): PrimaryVolumeDescriptor {
+    const data = VolumeDescriptor.createEmpty(VolumeDescriptorTypeCode.PrimaryVolumeDescriptor).buffer();
+    PrimaryOrSupplementaryVolumeDescriptor._fill(data, setASCIIString, volumeIdentifier, volumeSpaceSize, pathTableSize, pathTables, root, date);
+    return new PrimaryVolumeDescriptor(data);
+  }
   constructor(data: Buffer) {
     super(data);
     if (this.type() !== VolumeDescriptorTypeCode.PrimaryVolumeDescriptor) {
@@ -294,7 +440,7 @@ class PrimaryVolumeDescriptor extends PrimaryOrSupplementaryVolumeDescriptor {
     return new ISODirectoryRecord(data, -1);
   }
   protected _getString(idx: number, len: number): string {
-    return this._getString(idx, len);
+    return getASCIIString(this._data, idx, len);
   }
 }
 
@@ -302,6 +448,15 @@ class PrimaryVolumeDescriptor extends PrimaryOrSupplementaryVolumeDescriptor {
  * @hidden
  */
 class SupplementaryVolumeDescriptor extends PrimaryOrSupplementaryVolumeDescriptor {
+  /**
+   * Creates a Joliet volume descriptor, with UCS-2 level 3 names.
+   */
+  public static create(volumeIdentifier: string, volumeSpaceSize: number, pathTableSize: number, pathTables: [number, number], root: DirectoryRecord, date: Date): SupplementaryVolumeDescriptor {
+    const data = VolumeDescriptor.createEmpty(VolumeDescriptorTypeCode.SupplementaryVolumeDescriptor).buffer();
+    PrimaryOrSupplementaryVolumeDescriptor._fill(data, setJolietString, volumeIdentifier, volumeSpaceSize, pathTableSize, pathTables, root, date);
+    data.write('%/E', 88, 3, 'ascii');
+    return new SupplementaryVolumeDescriptor(data);
+  }
   constructor(data: Buffer) {
     super(data);
     if (this.type() !== VolumeDescriptorTypeCode.SupplementaryVolumeDescriptor) {
@@ -346,6 +501,31 @@ const enum FileFlags {
  * @hidden
  */
 abstract class DirectoryRecord {
+  /**
+   * Creates a directory record.
+   * @param identifier The encoded file identifier.
+   * @param systemUse The system use area, which holds Rock Ridge entries.
+   */
+  public static create<T extends DirectoryRecord>(this: {new (data: Buffer, rockRidgeOffset: number): T}, identifier: Buffer, lba: number, dataLength: number, flags: number, date: Date, systemUse: Buffer, rockRidgeOffset: number): T {
+    // The identifier is padded to an even length, and so is the record.
+    const padding = identifier.length % 2 === 0 ? 1 : 0;
+    let length = 33 + identifier.length + padding + systemUse.length;
+    length += length % 2;
+    if (length > 255) {
+      throw new ApiError(ErrorCode.EINVAL, `Directory record is too long.`);
+    }
+    const data = Buffer.alloc(length);
+    data[0] = length;
+    setBothEndianUInt32(data, lba, 2);
+    setBothEndianUInt32(data, dataLength, 10);
+    setShortFormDate(data, 18, date);
+    data[25] = flags;
+    setBothEndianUInt16(data, 1, 28);
+    data[32] = identifier.length;
+    identifier.copy(data, 33);
+    systemUse.copy(data, 33 + identifier.length + padding);
+    return new this(data, rockRidgeOffset);
+  }
   protected _data: Buffer;
   // Offset at which system use entries begin. Set to -1 if not enabled.
   protected _rockRidgeOffset: number;
@@ -355,6 +535,9 @@ abstract class DirectoryRecord {
     this._data = data;
     this._rockRidgeOffset = rockRidgeOffset;
   }
+  public buffer(): Buffer {
+    return this._data.slice(0, this.length());
+  }
   public hasRockRidge(): boolean {
     return this._rockRidgeOffset > -1;
   }
@@ -572,7 +755,8 @@ class ISODirectoryRecord extends DirectoryRecord {
     return new ISODirectory(this, isoData);
   }
   protected _getGetString(): TGetString {
-    return getASCIIString;
+    // Rock Ridge names are in UTF-8 by convention.
+    return getUTF8String;
   }
 }
 
@@ -624,6 +808,9 @@ class SystemUseEntry {
   constructor(data: Buffer) {
     this._data = data;
   }
+  public buffer(): Buffer {
+    return this._data.slice(0, this.length());
+  }
   public signatureWord(): SystemUseEntrySignatures {
     return this._data.readUInt16BE(0);
   }
@@ -643,6 +830,13 @@ class SystemUseEntry {
  * @hidden
  */
 class CEEntry extends SystemUseEntry {
+  public static create(lba: number, offset: number, length: number): CEEntry {
+    const data = allocSystemUseEntry('CE', 28);
+    setBothEndianUInt32(data, lba, 4);
+    setBothEndianUInt32(data, offset, 12);
+    setBothEndianUInt32(data, length, 20);
+    return new CEEntry(data);
+  }
   private _entries: SystemUseEntry[] | null = null;
   constructor(data: Buffer) {
     super(data);
@@ -668,7 +862,7 @@ class CEEntry extends SystemUseEntry {
   public getEntries(isoData: Buffer): SystemUseEntry[] {
     if (!this._entries) {
       const start = this.continuationLba() * 2048 + this.continuationLbaOffset();
-      this._entries = constructSystemUseEntries(isoData, start, this.continuationLength(), isoData);
+      this._entries = constructSystemUseEntries(isoData, start, start + this.continuationLength(), isoData);
     }
     return this._entries;
   }
@@ -689,6 +883,13 @@ class PDEntry extends SystemUseEntry {
  * @hidden
  */
 class SPEntry extends SystemUseEntry {
+  public static create(bytesSkipped: number): SPEntry {
+    const data = allocSystemUseEntry('SP', 7);
+    data[4] = 0xBE;
+    data[5] = 0xEF;
+    data[6] = bytesSkipped;
+    return new SPEntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -715,6 +916,15 @@ class STEntry extends SystemUseEntry {
  * @hidden
  */
 class EREntry extends SystemUseEntry {
+  public static create(identifier: string, descriptor: string, source: string): EREntry {
+    const data = allocSystemUseEntry('ER', 8 + identifier.length + descriptor.length + source.length);
+    data[4] = identifier.length;
+    data[5] = descriptor.length;
+    data[6] = source.length;
+    data[7] = 1;
+    data.write(identifier + descriptor + source, 8, data.length - 8, 'ascii');
+    return new EREntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -768,6 +978,15 @@ class RREntry extends SystemUseEntry {
  * @hidden
  */
 class PXEntry extends SystemUseEntry {
+  public static create(mode: number, fileLinks: number, uid: number, gid: number, inode: number): PXEntry {
+    const data = allocSystemUseEntry('PX', 44);
+    setBothEndianUInt32(data, mode, 4);
+    setBothEndianUInt32(data, fileLinks, 12);
+    setBothEndianUInt32(data, uid, 20);
+    setBothEndianUInt32(data, gid, 28);
+    setBothEndianUInt32(data, inode, 36);
+    return new PXEntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -809,6 +1028,16 @@ class PNEntry extends SystemUseEntry {
  * @hidden
  */
 class SLEntry extends SystemUseEntry {
+  /**
+   * @param continueFlag Whether the link continues in the next SL entry.
+   */
+  public static create(components: SLComponentRecord[], continueFlag: boolean): SLEntry {
+    const records = Buffer.concat(components.map((c) => c.buffer()));
+    const data = allocSystemUseEntry('SL', 5 + records.length);
+    data[4] = continueFlag ? 1 : 0;
+    records.copy(data, 5);
+    return new SLEntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -844,10 +1073,20 @@ const enum SLComponentFlags {
  * @hidden
  */
 class SLComponentRecord {
+  public static create(flags: SLComponentFlags, content: Buffer): SLComponentRecord {
+    const data = Buffer.alloc(2 + content.length);
+    data[0] = flags;
+    data[1] = content.length;
+    content.copy(data, 2);
+    return new SLComponentRecord(data);
+  }
   private _data: Buffer;
   constructor(data: Buffer) {
     this._data = data;
   }
+  public buffer(): Buffer {
+    return this._data.slice(0, this.length());
+  }
   public flags(): SLComponentFlags {
     return this._data[0];
   }
@@ -876,6 +1115,12 @@ const enum NMFlags {
  * @hidden
  */
 class NMEntry extends SystemUseEntry {
+  public static create(flags: NMFlags, name: Buffer): NMEntry {
+    const data = allocSystemUseEntry('NM', 5 + name.length);
+    data[4] = flags;
+    name.copy(data, 5);
+    return new NMEntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -942,6 +1187,17 @@ const enum TFFlags {
  * @hidden
  */
 class TFEntry extends SystemUseEntry {
+  /**
+   * Creates an entry with short form creation, modification, access and
+   * attribute change times.
+   */
+  public static create(creation: Date, modify: Date, access: Date, attributes: Date): TFEntry {
+    const dates = [creation, modify, access, attributes];
+    const data = allocSystemUseEntry('TF', 5 + dates.length * 7);
+    data[4] = TFFlags.CREATION | TFFlags.MODIFY | TFFlags.ACCESS | TFFlags.ATTRIBUTES;
+    dates.forEach((date, i) => setShortFormDate(data, 5 + i * 7, date));
+    return new TFEntry(data);
+  }
   constructor(data: Buffer) {
     super(data);
   }
@@ -962,7 +1218,7 @@ class TFEntry extends SystemUseEntry {
   public modify(): Date | null {
     if (this.flags() & TFFlags.MODIFY) {
       const previousDates = (this.flags() & TFFlags.CREATION) ? 1 : 0;
-      if (this._longFormDates) {
+      if (this._longFormDates()) {
         return getDate(this._data, 5 + (previousDates * 17));
       } else {
         return getShortFormDate(this._data, 5 + (previousDates * 7));
@@ -975,7 +1231,7 @@ class TFEntry extends SystemUseEntry {
     if (this.flags() & TFFlags.ACCESS) {
       let previousDates = (this.flags() & TFFlags.CREATION) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.MODIFY) ? 1 : 0;
-      if (this._longFormDates) {
+      if (this._longFormDates()) {
         return getDate(this._data, 5 + (previousDates * 17));
       } else {
         return getShortFormDate(this._data, 5 + (previousDates * 7));
@@ -989,7 +1245,7 @@ class TFEntry extends SystemUseEntry {
       let previousDates = (this.flags() & TFFlags.CREATION) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.MODIFY) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.ACCESS) ? 1 : 0;
-      if (this._longFormDates) {
+      if (this._longFormDates()) {
         return getDate(this._data, 5 + (previousDates * 17));
       } else {
         return getShortFormDate(this._data, 5 + (previousDates * 7));
@@ -1004,7 +1260,7 @@ class TFEntry extends SystemUseEntry {
       previousDates += (this.flags() & TFFlags.MODIFY) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.ACCESS) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.BACKUP) ? 1 : 0;
-      if (this._longFormDates) {
+      if (this._longFormDates()) {
         return getDate(this._data, 5 + (previousDates * 17));
       } else {
         return getShortFormDate(this._data, 5 + (previousDates * 7));
@@ -1020,7 +1276,7 @@ class TFEntry extends SystemUseEntry {
       previousDates += (this.flags() & TFFlags.ACCESS) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.BACKUP) ? 1 : 0;
       previousDates += (this.flags() & TFFlags.EXPIRATION) ? 1 : 0;
-      if (this._longFormDates) {
+      if (this._longFormDates()) {
         return getDate(this._data, 5 + (previousDates * 17));
       } else {
         return getShortFormDate(this._data, 5 + (previousDates * 7));
@@ -1030,7 +1286,7 @@ class TFEntry extends SystemUseEntry {
     }
   }
   private _longFormDates(): boolean {
-    return !!(this.flags() && TFFlags.LONG_FORM);
+    return !!(this.flags() & TFFlags.LONG_FORM);
   }
 }
 
@@ -1136,6 +1392,707 @@ class JolietDirectory extends Directory<JolietDirectoryRecord> {
   }
 }
 
+
+/**
+ * El Torito boot catalog platform IDs.
+ * @hidden
+ */
+const bootPlatformNames: {[id: number]: string} = {
+  0x00: 'x86',
+  0x01: 'PowerPC',
+  0x02: 'Mac',
+  0xEF: 'EFI'
+};
+
+/**
+ * El Torito boot media types, and the size of the emulated floppy disks.
+ * @hidden
+ */
+const enum BootMediaType {
+  NoEmulation = 0,
+  Floppy12M = 1,
+  Floppy144M = 2,
+  Floppy288M = 3,
+  HardDisk = 4
+}
+
+/**
+ * @hidden
+ */
+const bootMediaNames = ['NoEmul', 'Floppy-1.2M', 'Floppy-1.44M', 'Floppy-2.88M', 'HardDisk'];
+
+/**
+ * @hidden
+ */
+const floppySizes = [0, 1200 * 1024, 1440 * 1024, 2880 * 1024];
+
+/**
+ * Reads the El Torito boot catalog ("El Torito" Bootable CD-ROM Format
+ * Specification, Version 1.0), and returns the boot images it lists by name.
+ * @hidden
+ */
+function getBootImages(isoData: Buffer, catalogSector: number): {[name: string]: Buffer} {
+  const catalog = isoData.slice(catalogSector * 2048);
+  const images: {[name: string]: Buffer} = {};
+  // The validation entry, which must sum up to zero.
+  let checksum = 0;
+  for (let i = 0; i < 32 && catalog.length >= 32; i += 2) {
+    checksum = (checksum + catalog.readUInt16LE(i)) & 0xFFFF;
+  }
+  if (catalog.length < 64 || catalog[0] !== 1 || catalog[30] !== 0x55 || catalog[31] !== 0xAA || checksum !== 0) {
+    throw new ApiError(ErrorCode.EIO, `Invalid El Torito boot catalog.`);
+  }
+  let platform = catalog[1], count = 0;
+  const addImage = (entry: Buffer) => {
+    const media = entry[1] & 0xF, sectorCount = entry.readUInt16LE(6), start = entry.readUInt32LE(8) * 2048;
+    let size = Math.max(sectorCount, 1) * 512;
+    if (media >= BootMediaType.Floppy12M && media <= BootMediaType.Floppy288M) {
+      size = floppySizes[media];
+    } else if (media === BootMediaType.HardDisk && start + 512 <= isoData.length && isoData.readUInt16LE(start + 510) === 0xAA55) {
+      // The image ends with the first partition in its master boot record.
+      const partition = start + 446;
+      size = Math.max(size, (isoData.readUInt32LE(partition + 8) + isoData.readUInt32LE(partition + 12)) * 512);
+    }
+    count++;
+    if (start < isoData.length && media <= BootMediaType.HardDisk) {
+      const platformName = bootPlatformNames.hasOwnProperty(platform) ? bootPlatformNames[platform] : `Platform${platform}`;
+      images[`${count}-${platformName}-${bootMediaNames[media]}.img`] = isoData.slice(start, Math.min(start + size, isoData.length));
+    }
+  };
+  // The initial/default entry comes first, followed by sections of entries.
+  addImage(catalog.slice(32, 64));
+  let i = 64;
+  while (i + 32 <= catalog.length) {
+    const headerIndicator = catalog[i];
+    if (headerIndicator !== 0x90 && headerIndicator !== 0x91) {
+      break;
+    }
+    platform = catalog[i + 1];
+    let entries = catalog.readUInt16LE(i + 2);
+    i += 32;
+    while (entries > 0 && i + 32 <= catalog.length) {
+      // Extension entries (0x44) continue the previous section entry.
+      if (catalog[i] !== 0x44) {
+        addImage(catalog.slice(i, i + 32));
+        entries--;
+      }
+      i += 32;
+    }
+    if (headerIndicator === 0x91) {
+      // Final section.
+      break;
+    }
+  }
+  return images;
+}
+
+/**
+ * A file or directory in the image, which can come from the ISO9660 or UDF
+ * file system, or be one of the virtual boot image files.
+ * @hidden
+ */
+interface IsoNode {
+  isDirectory(): boolean;
+  isSymlink(): boolean;
+  getSymlinkPath(): string;
+  getData(): Buffer;
+  getChildNames(): string[];
+  getChild(name: string): IsoNode | null;
+  getStats(): Stats;
+}
+
+/**
+ * A node in the ISO9660 file system, or its Joliet / Rock Ridge extensions.
+ * @hidden
+ */
+class ISONode implements IsoNode {
+  constructor(private _record: DirectoryRecord, private _isoData: Buffer) {}
+  public isDirectory(): boolean {
+    return this._record.isDirectory(this._isoData);
+  }
+  public isSymlink(): boolean {
+    return this._record.isSymlink(this._isoData);
+  }
+  public getSymlinkPath(): string {
+    return this._record.getSymlinkPath(this._isoData);
+  }
+  public getData(): Buffer {
+    return this._record.getFile(this._isoData);
+  }
+  public getChildNames(): string[] {
+    return this._record.getDirectory(this._isoData).getFileList().slice(0);
+  }
+  public getChild(name: string): IsoNode | null {
+    const record = this._record.getDirectory(this._isoData).getRecord(name);
+    return record ? new ISONode(record, this._isoData) : null;
+  }
+  public getStats(): Stats {
+    const record = this._record;
+    const len = record.dataLength();
+    let mode = 0x16D;
+    const date = record.recordingDate().getTime();
+    let atime = date;
+    let mtime = date;
+    let ctime = date;
+    let px: PXEntry | null = null;
+    if (record.hasRockRidge()) {
+      const entries = record.getSUEntries(this._isoData);
+      for (const entry of entries) {
+        if (entry instanceof PXEntry) {
+          px = entry;
+          mode = entry.mode();
+        } else if (entry instanceof TFEntry) {
+          const flags = entry.flags();
+          if (flags & TFFlags.ACCESS) {
+            atime = entry.access()!.getTime();
+          }
+          if (flags & TFFlags.MODIFY) {
+            mtime = entry.modify()!.getTime();
+          }
+          if (flags & TFFlags.CREATION) {
+            ctime = entry.creation()!.getTime();
+          }
+        }
+      }
+    }
+    // Mask out writeable flags. This is a RO file system.
+    mode = mode & 0x16D;
+    const stats = new Stats(this.isDirectory() ? FileType.DIRECTORY : FileType.FILE, len, mode, atime, mtime, ctime);
+    if (px) {
+      stats.uid = px.uid();
+      stats.gid = px.gid();
+      stats.nlink = px.fileLinks();
+    }
+    return stats;
+  }
+}
+
+/**
+ * A file that is not in any of the image's file systems, such as a boot image.
+ * @hidden
+ */
+class VirtualFile implements IsoNode {
+  constructor(private _data: Buffer, private _time: number) {}
+  public isDirectory(): boolean { return false; }
+  public isSymlink(): boolean { return false; }
+  public getSymlinkPath(): string { return ''; }
+  public getData(): Buffer { return this._data; }
+  public getChildNames(): string[] { return []; }
+  public getChild(name: string): IsoNode | null { return null; }
+  public getStats(): Stats {
+    return new Stats(FileType.FILE, this._data.length, 0x124, this._time, this._time, this._time);
+  }
+}
+
+/**
+ * A directory of virtual nodes. If it has a base directory, its nodes are
+ * shown along with the base directory's contents.
+ * @hidden
+ */
+class VirtualDirectory implements IsoNode {
+  constructor(private _children: {[name: string]: IsoNode}, private _time: number, private _base: IsoNode | null = null) {}
+  public isDirectory(): boolean { return true; }
+  public isSymlink(): boolean { return false; }
+  public getSymlinkPath(): string { return ''; }
+  public getData(): Buffer {
+    throw new Error(`Tried to get a File from a directory.`);
+  }
+  public getChildNames(): string[] {
+    const names = this._base ? this._base.getChildNames() : [];
+    for (const name of Object.keys(this._children)) {
+      if (names.indexOf(name) === -1) {
+        names.push(name);
+      }
+    }
+    return names;
+  }
+  public getChild(name: string): IsoNode | null {
+    if (this._children.hasOwnProperty(name)) {
+      return this._children[name];
+    }
+    return this._base ? this._base.getChild(name) : null;
+  }
+  public getStats(): Stats {
+    return this._base ? this._base.getStats() : new Stats(FileType.DIRECTORY, 4096, 0x16D, this._time, this._time, this._time);
+  }
+}
+
+/**
+ * The maximum number of symbolic links to follow when resolving a path.
+ * @hidden
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * A file, directory or symbolic link to put in an ISO image.
+ * @hidden
+ */
+interface IsoBuildEntry {
+  name: string;
+  stats: Stats;
+  // The contents of a file, or the target of a symbolic link.
+  data: Buffer;
+  // The contents of a directory, or null.
+  children: IsoBuildEntry[] | null;
+  // The sector of the file's contents in the image.
+  lba: number;
+  inode: number;
+}
+
+/**
+ * A directory in one of the trees of an ISO image.
+ * @hidden
+ */
+interface IsoBuildDirectory {
+  entry: IsoBuildEntry;
+  parent: IsoBuildDirectory;
+  // The encoded file identifier.
+  identifier: Buffer;
+  // The contents, sorted by identifier.
+  children: IsoBuildChild[];
+  // The directory number in the path table.
+  number: number;
+  lba: number;
+  // The length of the records, which are followed by the directory's
+  // continuation areas.
+  size: number;
+  continuationSectors: number;
+}
+
+/**
+ * @hidden
+ */
+interface IsoBuildChild {
+  identifier: Buffer;
+  entry: IsoBuildEntry;
+  dir: IsoBuildDirectory | null;
+}
+
+/**
+ * The Rock Ridge extension, as announced by mkisofs.
+ * @hidden
+ */
+const rockRidgeDescriptor = "THE IEEE P1282 PROTOCOL PROVIDES SUPPORT FOR POSIX FILE SYSTEM SEMANTICS.";
+/**
+ * @hidden
+ */
+const rockRidgeSource = "PLEASE CONTACT THE IEEE STANDARDS DEPARTMENT, PISCATAWAY, NJ, USA FOR THE P1282 SPECIFICATION.";
+
+/**
+ * Splits a string into UTF-8 chunks of at most the given number of bytes,
+ * without splitting characters.
+ * @hidden
+ */
+function splitUTF8String(str: string, maxBytes: number): Buffer[] {
+  const chunks: Buffer[] = [];
+  let current = '';
+  for (const ch of str) {
+    if (Buffer.byteLength(current + ch) > maxBytes) {
+      chunks.push(Buffer.from(current));
+      current = '';
+    }
+    current += ch;
+  }
+  chunks.push(Buffer.from(current));
+  return chunks;
+}
+
+/**
+ * Reads the file, directory or symbolic link at the given path of a file
+ * system, along with the contents of directories. Other types of files are
+ * skipped.
+ * @hidden
+ */
+function readBuildEntry(fs: FileSystem, p: string, name: string, cb: BFSCallback<IsoBuildEntry | null>): void {
+  fs.stat(p, fs.supportsLinks(), (e, stats?) => {
+    if (e) {
+      return cb(e);
+    }
+    const entry: IsoBuildEntry = { name: name, stats: stats!, data: Buffer.alloc(0), children: null, lba: 0, inode: 0 };
+    if (stats!.isSymbolicLink()) {
+      fs.readlink(p, (e, target?) => {
+        if (e) {
+          return cb(e);
+        }
+        entry.data = Buffer.from(target!);
+        cb(null, entry);
+      });
+    } else if (stats!.isDirectory()) {
+      fs.readdir(p, (e, names?) => {
+        if (e) {
+          return cb(e);
+        }
+        const children: IsoBuildEntry[] = [];
+        entry.children = children;
+        let i = 0;
+        const next = (e?: ApiError | null, child?: IsoBuildEntry | null) => {
+          if (e) {
+            return cb(e);
+          }
+          if (child) {
+            children.push(child);
+          }
+          if (i === names!.length) {
+            return cb(null, entry);
+          }
+          const childName = names![i++];
+          // Avoid deep stacks with synchronous file systems.
+          setImmediate(() => readBuildEntry(fs, path.join(p, childName), childName, next));
+        };
+        next();
+      });
+    } else if (stats!.isFile()) {
+      fs.readFile(p, null, FileFlag.getFileFlag('r'), (e, data?) => {
+        if (e) {
+          return cb(e);
+        }
+        entry.data = <Buffer> data;
+        cb(null, entry);
+      });
+    } else {
+      cb(null, null);
+    }
+  });
+}
+
+/**
+ * Lays out and writes an ISO9660 image of a tree of entries, with an optional
+ * Joliet tree and Rock Ridge entries. Both trees share the file contents.
+ *
+ * Directories are written twice: once to find their sizes, and once more
+ * when every sector is known.
+ * @hidden
+ */
+class IsoImageBuilder {
+  private _joliet: boolean;
+  private _rockRidge: boolean;
+  private _volumeIdentifier: string;
+  private _files: IsoBuildEntry[] = [];
+  // Sectors with Rock Ridge entries that did not fit in the records of the
+  // directory being encoded.
+  private _continuation: Buffer[] = [];
+  private _continuationOffset: number = 2048;
+  private _continuationLba: number = 0;
+
+  constructor(private _root: IsoBuildEntry, opts: IsoBuildOptions) {
+    this._joliet = opts.joliet !== false;
+    this._rockRidge = opts.rockRidge !== false;
+    this._volumeIdentifier = opts.volumeIdentifier || 'CDROM';
+  }
+
+  public build(): Buffer {
+    const isoDirs = this._collectDirectories(false);
+    const jolietDirs = this._joliet ? this._collectDirectories(true) : [];
+    // Encoding the directories once gives their sizes.
+    isoDirs.forEach((dir) => this._encodeDirectory(dir, false));
+    jolietDirs.forEach((dir) => this._encodeDirectory(dir, true));
+
+    // System area, volume descriptors and terminator.
+    let sector = 16 + (this._joliet ? 3 : 2);
+    const pathTableSectors = (dirs: IsoBuildDirectory[], joliet: boolean): [number, number] => {
+      const count = Math.ceil(this._encodePathTable(dirs, joliet, true).length / 2048);
+      sector += count * 2;
+      return [sector - count * 2, sector - count];
+    };
+    const isoPathTables = pathTableSectors(isoDirs, false);
+    const jolietPathTables = this._joliet ? pathTableSectors(jolietDirs, true) : [0, 0];
+    for (const dir of isoDirs.concat(jolietDirs)) {
+      dir.lba = sector;
+      sector += dir.size / 2048 + dir.continuationSectors;
+    }
+    // Empty files and symbolic links get unique locations past the end of the
+    // image, like libarchive does, as readers take records with the same
+    // location for hard links.
+    let emptyLba = 0xFFFFFFFF;
+    for (const file of this._files) {
+      if (file.stats.isFile() && file.data.length > 0) {
+        file.lba = sector;
+        sector += Math.ceil(file.data.length / 2048);
+      } else {
+        file.lba = emptyLba--;
+      }
+    }
+
+    const image = Buffer.alloc(sector * 2048);
+    for (const dir of isoDirs) {
+      this._encodeDirectory(dir, false).copy(image, dir.lba * 2048);
+    }
+    for (const dir of jolietDirs) {
+      this._encodeDirectory(dir, true).copy(image, dir.lba * 2048);
+    }
+    for (const file of this._files) {
+      if (file.stats.isFile()) {
+        file.data.copy(image, file.lba * 2048);
+      }
+    }
+
+    const date = new Date();
+    const writeVolume = (dirs: IsoBuildDirectory[], joliet: boolean, pathTables: [number, number], descriptorSector: number) => {
+      const pathTable = this._encodePathTable(dirs, joliet, true);
+      pathTable.copy(image, pathTables[0] * 2048);
+      this._encodePathTable(dirs, joliet, false).copy(image, pathTables[1] * 2048);
+      const root = ISODirectoryRecord.create(Buffer.from([0]), dirs[0].lba, dirs[0].size, FileFlags.Directory, dirs[0].entry.stats.mtime, Buffer.alloc(0), -1);
+      const vd = joliet ?
+        SupplementaryVolumeDescriptor.create(this._volumeIdentifier.slice(0, 16), sector, pathTable.length, pathTables, root, date) :
+        PrimaryVolumeDescriptor.create(this._volumeIdentifier.toUpperCase().replace(/[^A-Z0-9_]/g, '_'), sector, pathTable.length, pathTables, root, date);
+      vd.buffer().copy(image, descriptorSector * 2048);
+    };
+    writeVolume(isoDirs, false, isoPathTables, 16);
+    if (this._joliet) {
+      writeVolume(jolietDirs, true, <[number, number]> jolietPathTables, 17);
+    }
+    VolumeDescriptor.createEmpty(VolumeDescriptorTypeCode.VolumeDescriptorSetTerminator).buffer().copy(image, (this._joliet ? 18 : 17) * 2048);
+    return image;
+  }
+
+  /**
+   * Lists the directories of one of the trees in the order of the path
+   * table: by level, parent and name.
+   */
+  private _collectDirectories(joliet: boolean): IsoBuildDirectory[] {
+    const root: IsoBuildDirectory = { entry: this._root, parent: <any> null, identifier: Buffer.from([0]), children: [], number: 1, lba: 0, size: 0, continuationSectors: 0 };
+    root.parent = root;
+    const dirs = [root];
+    for (let i = 0; i < dirs.length; i++) {
+      const dir = dirs[i];
+      // Symbolic links only exist in Rock Ridge.
+      const entries = dir.entry.children!.filter((e) => !e.stats.isSymbolicLink() || (!joliet && this._rockRidge));
+      dir.children = this._getIdentifiers(entries, joliet);
+      for (const child of dir.children) {
+        if (child.entry.children) {
+          child.dir = { entry: child.entry, parent: dir, identifier: child.identifier, children: [], number: dirs.length + 1, lba: 0, size: 0, continuationSectors: 0 };
+          dirs.push(child.dir);
+        } else if (!joliet) {
+          this._files.push(child.entry);
+        }
+      }
+    }
+    if (!joliet) {
+      dirs.forEach((dir) => dir.entry.inode = dir.number);
+      this._files.forEach((file, i) => file.inode = dirs.length + i + 1);
+    }
+    return dirs;
+  }
+
+  /**
+   * Gives the entries of a directory unique ISO9660 (8.3 upper case) or Joliet
+   * (64 UCS-2 characters) file identifiers, and sorts them.
+   */
+  private _getIdentifiers(entries: IsoBuildEntry[], joliet: boolean): IsoBuildChild[] {
+    const used: {[name: string]: boolean} = {};
+    const rv = entries.map((entry) => {
+      const isDir = entry.children !== null;
+      let base: string, ext = '', maxLength: number;
+      if (joliet) {
+        base = entry.name.replace(/[*\/:;?\\]/g, '_');
+        maxLength = 64;
+      } else {
+        const clean = (s: string) => s.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+        const dot = isDir ? -1 : entry.name.lastIndexOf('.');
+        base = clean(dot > 0 ? entry.name.slice(0, dot) : entry.name) || '_';
+        ext = dot > 0 ? clean(entry.name.slice(dot + 1)).slice(0, 3) : '';
+        maxLength = 8;
+      }
+      let name = base.slice(0, maxLength);
+      for (let i = 1; used.hasOwnProperty(`${name}.${ext}`); i++) {
+        const suffix = `~${i}`;
+        name = base.slice(0, maxLength - suffix.length) + suffix;
+      }
+      used[`${name}.${ext}`] = true;
+      if (!isDir) {
+        // Files have a version number, and ISO9660 file names always have an
+        // extension separator.
+        name = joliet ? `${name};1` : `${name}.${ext};1`;
+      }
+      return { identifier: joliet ? encodeJolietString(name) : Buffer.from(name, 'ascii'), entry: entry, dir: null };
+    });
+    return rv.sort((a, b) => Buffer.compare(a.identifier, b.identifier));
+  }
+
+  /**
+   * Encodes the records of a directory, which do not cross sector boundaries,
+   * followed by its continuation areas. libarchive only reads continuation
+   * areas that follow the directory that refers to them.
+   */
+  private _encodeDirectory(dir: IsoBuildDirectory, joliet: boolean): Buffer {
+    const rockRidge = !joliet && this._rockRidge;
+    const records: Buffer[] = [];
+    this._continuation = [];
+    this._continuationOffset = 2048;
+    this._continuationLba = dir.lba + dir.size / 2048;
+    const addRecord = (identifier: Buffer, entry: IsoBuildEntry, childDir: IsoBuildDirectory | null, name: string | null) => {
+      let systemUse = Buffer.alloc(0);
+      if (rockRidge) {
+        const entries = this._getRockRidgeEntries(entry, childDir, name);
+        if (records.length === 0 && dir.number === 1) {
+          // The root's '.' record announces the extension.
+          entries.unshift(SPEntry.create(0).buffer());
+          entries.push(EREntry.create(rockRidgeIdentifier, rockRidgeDescriptor, rockRidgeSource).buffer());
+        }
+        // Records have an even length of at most 254 bytes.
+        systemUse = this._packSystemUse(entries, 254 - 33 - identifier.length - (identifier.length % 2 === 0 ? 1 : 0));
+      }
+      const lba = childDir ? childDir.lba : entry.lba;
+      const size = childDir ? childDir.size : entry.stats.isFile() ? entry.data.length : 0;
+      const flags = childDir ? FileFlags.Directory : 0, date = entry.stats.mtime;
+      const record = joliet ? JolietDirectoryRecord.create(identifier, lba, size, flags, date, systemUse, -1) :
+        ISODirectoryRecord.create(identifier, lba, size, flags, date, systemUse, rockRidge ? 0 : -1);
+      records.push(record.buffer());
+    };
+    addRecord(Buffer.from([0]), dir.entry, dir, null);
+    addRecord(Buffer.from([1]), dir.parent.entry, dir.parent, null);
+    for (const child of dir.children) {
+      addRecord(child.identifier, child.entry, child.dir, child.entry.name);
+    }
+    let offset = 0;
+    const positions = records.map((record) => {
+      if ((offset % 2048) + record.length > 2048) {
+        offset += 2048 - (offset % 2048);
+      }
+      offset += record.length;
+      return offset - record.length;
+    });
+    const data = Buffer.alloc(Math.ceil(offset / 2048) * 2048);
+    records.forEach((record, i) => record.copy(data, positions[i]));
+    dir.size = data.length;
+    dir.continuationSectors = this._continuation.length;
+    return Buffer.concat([data].concat(this._continuation));
+  }
+
+  /**
+   * Returns the PX, TF, NM and SL entries of a record.
+   * @param name The name for the NM entry, or null for '.' and '..'.
+   */
+  private _getRockRidgeEntries(entry: IsoBuildEntry, dir: IsoBuildDirectory | null, name: string | null): Buffer[] {
+    const stats = entry.stats;
+    // Directories are linked from their parent, '.' and their subdirectories.
+    const links = dir ? 2 + dir.children.filter((c) => c.dir !== null).length : 1;
+    const entries: SystemUseEntry[] = [
+      PXEntry.create(stats.mode, links, stats.uid, stats.gid, entry.inode),
+      TFEntry.create(stats.birthtime, stats.mtime, stats.atime, stats.ctime)
+    ];
+    if (name !== null) {
+      const chunks = splitUTF8String(name, 250);
+      chunks.forEach((chunk, i) => entries.push(NMEntry.create(i < chunks.length - 1 ? NMFlags.CONTINUE : 0, chunk)));
+    }
+    if (name !== null && stats.isSymbolicLink()) {
+      const target = entry.data.toString();
+      const components: SLComponentRecord[] = [];
+      if (target[0] === '/') {
+        components.push(SLComponentRecord.create(SLComponentFlags.ROOT, Buffer.alloc(0)));
+      }
+      for (const component of target.split('/')) {
+        if (component === '.') {
+          components.push(SLComponentRecord.create(SLComponentFlags.CURRENT, Buffer.alloc(0)));
+        } else if (component === '..') {
+          components.push(SLComponentRecord.create(SLComponentFlags.PARENT, Buffer.alloc(0)));
+        } else if (component !== '') {
+          const chunks = splitUTF8String(component, 246);
+          chunks.forEach((chunk, i) => components.push(SLComponentRecord.create(i < chunks.length - 1 ? SLComponentFlags.CONTINUE : 0, chunk)));
+        }
+      }
+      // Each SL entry holds as many components as fit. Like libarchive, entries
+      // that continue end with an empty continued component, as libarchive
+      // joins the first component of an entry to the previous one without a
+      // '/'.
+      const groups: SLComponentRecord[][] = [[]];
+      let length = 5;
+      for (const component of components) {
+        if (length + component.length() > 253) {
+          groups[groups.length - 1].push(SLComponentRecord.create(SLComponentFlags.CONTINUE, Buffer.alloc(0)));
+          groups.push([]);
+          length = 5;
+        }
+        groups[groups.length - 1].push(component);
+        length += component.length();
+      }
+      groups.forEach((group, i) => entries.push(SLEntry.create(group, i < groups.length - 1)));
+    }
+    return entries.map((e) => e.buffer());
+  }
+
+  /**
+   * Puts as many system use entries as fit in a record, and the rest in
+   * continuation areas, which are linked with CE entries.
+   */
+  private _packSystemUse(entries: Buffer[], available: number): Buffer {
+    const areas: Buffer[][] = [[]];
+    let capacity = available, used = 0;
+    for (let i = 0; i < entries.length; i++) {
+      const remaining = entries.slice(i).reduce((sum, e) => sum + e.length, 0);
+      if (used + remaining <= capacity) {
+        areas[areas.length - 1].push(...entries.slice(i));
+        break;
+      } else if (used + entries[i].length + 28 <= capacity) {
+        areas[areas.length - 1].push(entries[i]);
+        used += entries[i].length;
+      } else {
+        areas.push([]);
+        capacity = 2048;
+        used = 0;
+        i--;
+      }
+    }
+    const locations = areas.map((area, i) => i === 0 ? [0, 0] : this._allocateContinuation(Buffer.concat(area).length + (i < areas.length - 1 ? 28 : 0)));
+    let next: Buffer | null = null;
+    for (let i = areas.length - 1; i >= 0; i--) {
+      const data = Buffer.concat(next === null ? areas[i] : areas[i].concat(next));
+      if (i > 0) {
+        const [sector, offset] = locations[i];
+        data.copy(this._continuation[sector], offset);
+        next = CEEntry.create(this._continuationLba + sector, offset, data.length).buffer();
+      } else {
+        return data;
+      }
+    }
+    return Buffer.alloc(0);
+  }
+
+  /**
+   * Allocates space in a continuation sector.
+   * @return The index of the sector, and the offset in it.
+   */
+  private _allocateContinuation(length: number): [number, number] {
+    if (this._continuationOffset + length > 2048) {
+      this._continuation.push(Buffer.alloc(2048));
+      this._continuationOffset = 0;
+    }
+    this._continuationOffset += length;
+    return [this._continuation.length - 1, this._continuationOffset - length];
+  }
+
+  private _encodePathTable(dirs: IsoBuildDirectory[], joliet: boolean, littleEndian: boolean): Buffer {
+    return Buffer.concat(dirs.map((dir) => {
+      const identifier = dir.number === 1 ? Buffer.from([0]) : dir.identifier;
+      const record = Buffer.alloc(8 + identifier.length + (identifier.length % 2));
+      record[0] = identifier.length;
+      if (littleEndian) {
+        record.writeUInt32LE(dir.lba, 2);
+        record.writeUInt16LE(dir.parent.number, 6);
+      } else {
+        record.writeUInt32BE(dir.lba, 2);
+        record.writeUInt16BE(dir.parent.number, 6);
+      }
+      identifier.copy(record, 8);
+      return record;
+    }));
+  }
+}
+
+/**
+ * Options for building ISO images with IsoFS.Build.
+ */
+export interface IsoBuildOptions {
+  // The directory to put in the image (optional; defaults to the root directory).
+  path?: string;
+  // The name of the volume (optional; defaults to 'CDROM').
+  volumeIdentifier?: string;
+  // Whether to add a Joliet tree with Unicode names for Windows (optional; defaults to true).
+  joliet?: boolean;
+  // Whether to add Rock Ridge entries with POSIX permissions, times, names and symbolic links (optional; defaults to true).
+  rockRidge?: boolean;
+}
+
 /**
  * Options for IsoFS file system instances.
  */
@@ -1152,6 +2109,10 @@ export interface IsoFSOptions {
  * Supports:
  * * Vanilla ISO9660 ISOs
  * * Microsoft Joliet and Rock Ridge extensions to the ISO9660 standard
+ * * UDF, including UDF-only and UDF-bridge DVD images. When an image has
+ *   both, the UDF file system is used.
+ * * El Torito boot images, which appear as files in a virtual `/[BOOT]`
+ *   directory, e.g. `/[BOOT]/1-x86-NoEmul.img`.
  */
 export default class IsoFS extends SynchronousFileSystem implements FileSystem {
   public static readonly Name = "IsoFS";
@@ -1178,9 +2139,37 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
     return true;
   }
 
+  /**
+   * Builds an ISO image of a directory of any file system, which can then be
+   * mounted with IsoFS.Create or used as a CD-ROM in an emulator.
+   *
+   * The ISO9660 names are in 8.3 format. Rock Ridge entries keep the full
+   * names, POSIX permissions, times and symbolic links, and the Joliet tree
+   * has names of up to 64 Unicode characters. Directories are not relocated,
+   * so trees deeper than 8 levels are not strictly ISO9660 compliant.
+   */
+  public static Build(source: FileSystem, opts: IsoBuildOptions, cb: BFSCallback<Buffer>): void {
+    const root = opts.path || '/';
+    readBuildEntry(source, root, '', (e, entry?) => {
+      if (e) {
+        return cb(e);
+      } else if (!entry || !entry.children) {
+        return cb(ApiError.ENOTDIR(root));
+      }
+      let image: Buffer;
+      try {
+        image = new IsoImageBuilder(entry, opts).build();
+      } catch (e) {
+        return cb(e);
+      }
+      cb(null, image);
+    });
+  }
+
   private _data: Buffer;
-  private _pvd: PrimaryOrSupplementaryVolumeDescriptor;
-  private _root: DirectoryRecord;
+  private _pvd: PrimaryOrSupplementaryVolumeDescriptor | null = null;
+  private _udf: UDFVolume | null = null;
+  private _root: IsoNode;
   private _name: string;
 
   /**
@@ -1193,14 +2182,34 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
   private constructor(data: Buffer, name: string = "") {
     super();
     this._data = data;
-    // Skip first 16 sectors.
+    this._name = name;
+    let udfError: ApiError | null = null;
+    if (hasUDF(data)) {
+      try {
+        this._udf = new UDFVolume(data);
+      } catch (e) {
+        // Fall back to ISO9660, if the image has it.
+        udfError = e;
+      }
+    }
+    // Skip first 16 sectors. UDF-only images have no ISO9660 descriptors.
     let vdTerminatorFound = false;
     let i = 16 * 2048;
+    let bootCatalogSector = -1;
     const candidateVDs = new Array<PrimaryOrSupplementaryVolumeDescriptor>();
-    while (!vdTerminatorFound) {
+    while (!vdTerminatorFound && i + 2048 <= data.length) {
       const slice = data.slice(i);
       const vd = new VolumeDescriptor(slice);
+      if (vd.standardIdentifier() !== 'CD001') {
+        break;
+      }
       switch (vd.type()) {
+        case VolumeDescriptorTypeCode.BootRecord:
+          // The boot system identifier is padded with zeroes.
+          if (slice.toString('ascii', 7, 30) === 'EL TORITO SPECIFICATION') {
+            bootCatalogSector = slice.readUInt32LE(71);
+          }
+          break;
         case VolumeDescriptorTypeCode.PrimaryVolumeDescriptor:
           candidateVDs.push(new PrimaryVolumeDescriptor(slice));
           break;
@@ -1213,22 +2222,48 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
       }
       i += 2048;
     }
-    if (candidateVDs.length === 0) {
-      throw new ApiError(ErrorCode.EIO, `Unable to find a suitable volume descriptor.`);
-    }
     candidateVDs.forEach((v) => {
       // Take an SVD over a PVD.
       if (!this._pvd || this._pvd.type() !== VolumeDescriptorTypeCode.SupplementaryVolumeDescriptor) {
         this._pvd = v;
       }
     });
-    this._root = this._pvd.rootDirectoryEntry(data);
-    this._name = name;
+    // Unless the PVD has Rock Ridge entries, which keep permissions, symbolic
+    // links and long names.
+    for (const v of candidateVDs) {
+      if (v.type() === VolumeDescriptorTypeCode.PrimaryVolumeDescriptor && v.rootDirectoryEntry(data).hasRockRidge()) {
+        this._pvd = v;
+      }
+    }
+    if (this._udf) {
+      this._root = this._udf.root;
+    } else if (this._pvd) {
+      this._root = new ISONode(this._pvd.rootDirectoryEntry(data), data);
+    } else {
+      throw udfError || new ApiError(ErrorCode.EIO, `Unable to find a suitable volume descriptor.`);
+    }
+    if (bootCatalogSector !== -1) {
+      let images: {[name: string]: Buffer};
+      try {
+        images = getBootImages(data, bootCatalogSector);
+      } catch (e) {
+        // The file systems are still readable without the boot images.
+        return;
+      }
+      const time = this._root.getStats().mtimeMs, bootDir: {[name: string]: IsoNode} = {};
+      for (const imageName of Object.keys(images)) {
+        bootDir[imageName] = new VirtualFile(images[imageName], time);
+      }
+      this._root = new VirtualDirectory({'[BOOT]': new VirtualDirectory(bootDir, time)}, time, this._root);
+    }
   }
 
   public getName(): string {
+    if (this._udf) {
+      return `IsoFS${this._name}-UDF`;
+    }
     let name = `IsoFS${this._name}${this._pvd ? `-${this._pvd.name()}` : ''}`;
-    if (this._root && this._root.hasRockRidge()) {
+    if (this._pvd && this._pvd.rootDirectoryEntry(this._data).hasRockRidge()) {
       name += `-RockRidge`;
     }
     return name;
@@ -1256,11 +2291,7 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
   }
 
   public statSync(p: string, isLstat: boolean): Stats {
-    const record = this._getDirectoryRecord(p);
-    if (record === null) {
-      throw ApiError.ENOENT(p);
-    }
-    return this._getStats(p, record)!;
+    return this._getNode(p).getStats();
   }
 
   public openSync(p: string, flags: FileFlag, mode: number): File {
@@ -1269,14 +2300,10 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
       throw new ApiError(ErrorCode.EPERM, p);
     }
     // Check if the path exists, and is a file.
-    const record = this._getDirectoryRecord(p);
-    if (!record) {
-      throw ApiError.ENOENT(p);
-    } else if (record.isSymlink(this._data)) {
-      return this.openSync(path.resolve(p, record.getSymlinkPath(this._data)), flags, mode);
-    } else if (!record.isDirectory(this._data)) {
-      const data = record.getFile(this._data);
-      const stats = this._getStats(p, record)!;
+    const node = this._getNode(p);
+    if (!node.isDirectory()) {
+      const data = node.getData();
+      const stats = node.getStats();
       switch (flags.pathExistsAction()) {
         case ActionType.THROW_EXCEPTION:
         case ActionType.TRUNCATE_FILE:
@@ -1293,16 +2320,41 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
 
   public readdirSync(path: string): string[] {
     // Check if it exists.
-    const record = this._getDirectoryRecord(path);
-    if (!record) {
-      throw ApiError.ENOENT(path);
-    } else if (record.isDirectory(this._data)) {
-      return record.getDirectory(this._data).getFileList().slice(0);
+    const node = this._getNode(path);
+    if (node.isDirectory()) {
+      return node.getChildNames();
     } else {
       throw ApiError.ENOTDIR(path);
     }
   }
 
+  public readdirRecursiveSync(p: string, maxDepth: number): Dirent[] {
+    const node = this._getNode(p);
+    if (!node.isDirectory()) {
+      throw ApiError.ENOTDIR(p);
+    }
+    // Descend through the nodes directly, rather than resolving every path
+    // from the root.
+    const rv: Dirent[] = [];
+    const visit = (dir: IsoNode, prefix: string, depth: number) => {
+      for (const name of dir.getChildNames()) {
+        const child = dir.getChild(name)!;
+        if (child.isSymlink()) {
+          rv.push(new Dirent(prefix + name, FileType.SYMLINK));
+        } else if (child.isDirectory()) {
+          rv.push(new Dirent(prefix + name, FileType.DIRECTORY));
+          if (depth < maxDepth) {
+            visit(child, `${prefix}${name}/`, depth + 1);
+          }
+        } else {
+          rv.push(new Dirent(prefix + name, FileType.FILE));
+        }
+      }
+    };
+    visit(node, '', 1);
+    return rv;
+  }
+
   /**
    * Specially-optimized readfile.
    */
@@ -1321,63 +2373,32 @@ export default class IsoFS extends SynchronousFileSystem implements FileSystem {
     }
   }
 
-  private _getDirectoryRecord(path: string): DirectoryRecord | null {
-    // Special case.
-    if (path === '/') {
-      return this._root;
-    }
-    const components = path.split('/').slice(1);
-    let dir = this._root;
-    for (const component of components) {
-      if (dir.isDirectory(this._data)) {
-        dir = dir.getDirectory(this._data).getRecord(component);
-        if (!dir) {
-          return null;
+  /**
+   * Finds the node at the given path, following symbolic links.
+   */
+  private _getNode(p: string): IsoNode {
+    const components = p.split('/').filter((c) => c !== '');
+    let node = this._root, dir = '/', links = 0;
+    while (components.length > 0) {
+      const name = components.shift()!;
+      const child = node.isDirectory() ? node.getChild(name) : null;
+      if (child === null) {
+        throw ApiError.ENOENT(p);
+      } else if (child.isSymlink()) {
+        if (++links > MAX_SYMLINK_DEPTH) {
+          throw ApiError.FileError(ErrorCode.ELOOP, p);
         }
+        // Start over from the root with the link's target, which is relative
+        // to the directory that contains the link.
+        const target = path.resolve(dir, child.getSymlinkPath());
+        components.unshift(...target.split('/').filter((c) => c !== ''));
+        node = this._root;
+        dir = '/';
       } else {
-        return null;
-      }
-    }
-    return dir;
-  }
-
-  private _getStats(p: string, record: DirectoryRecord): Stats | null {
-    if (record.isSymlink(this._data)) {
-      const newP = path.resolve(p, record.getSymlinkPath(this._data));
-      const dirRec = this._getDirectoryRecord(newP);
-      if (!dirRec) {
-        return null;
-      }
-      return this._getStats(newP, dirRec);
-    } else {
-      const len = record.dataLength();
-      let mode = 0x16D;
-      const date = record.recordingDate().getTime();
-      let atime = date;
-      let mtime = date;
-      let ctime = date;
-      if (record.hasRockRidge()) {
-        const entries = record.getSUEntries(this._data);
-        for (const entry of entries) {
-          if (entry instanceof PXEntry) {
-            mode = entry.mode();
-          } else if (entry instanceof TFEntry) {
-            const flags = entry.flags();
-            if (flags & TFFlags.ACCESS) {
-              atime = entry.access()!.getTime();
-            }
-            if (flags & TFFlags.MODIFY) {
-              mtime = entry.modify()!.getTime();
-            }
-            if (flags & TFFlags.CREATION) {
-              ctime = entry.creation()!.getTime();
-            }
-          }
-        }
+        node = child;
+        dir = path.join(dir, name);
       }
-      // Mask out writeable flags. This is a RO file system.
-      mode = mode & 0x16D;
-      return new Stats(record.isDirectory(this._data) ? FileType.DIRECTORY : FileType.FILE, len, mode, atime, mtime, ctime);
     }
+    return node;
   }
 }
@@ -1,5 +1,5 @@
 import {BFSCallback, FileSystemOptions} from '../core/file_system';
-import {SyncKeyValueStore, SimpleSyncStore, SyncKeyValueFileSystem, SimpleSyncRWTransaction, SyncKeyValueRWTransaction} from '../generic/key_value_filesystem';
+import {SyncKeyValueStore, SimpleSyncStore, SyncKeyValueFileSystem, SimpleSyncRWTransaction, SyncKeyValueRWTransaction, StoreSpace} from '../generic/key_value_filesystem';
 import {ApiError, ErrorCode} from '../core/api_error';
 import global from '../core/global';
 
@@ -25,6 +25,13 @@ if (!Buffer.isEncoding(binaryEncoding)) {
   binaryEncoding = "base64";
 }
 
+/**
+ * Browsers limit localStorage to roughly 5MB per origin. Keys and values
+ * count towards the limit.
+ * @hidden
+ */
+const LOCAL_STORAGE_LIMIT = 5 * 1024 * 1024;
+
 /**
  * A synchronous key-value store backed by localStorage.
  */
@@ -73,11 +80,25 @@ export class LocalStorageStore implements SyncKeyValueStore, SimpleSyncStore {
 
   public del(key: string): void {
     try {
-      global.localStorage.removeItem(this.partition +  + ":" + key);
+      global.localStorage.removeItem(this.partition + key);
     } catch (e) {
       throw new ApiError(ErrorCode.EIO, "Unable to delete key " + (this.partition + key) + ": " + e);
     }
   }
+
+  /**
+   * Reports the space used by all of localStorage, as the limit is shared by
+   * every partition and page of the origin. Counts one byte per character.
+   */
+  public space(): StoreSpace {
+    const storage = global.localStorage;
+    let used = 0;
+    for (let i = 0; i < storage.length; i++) {
+      const key = storage.key(i)!;
+      used += key.length + storage.getItem(key)!.length;
+    }
+    return { total: LOCAL_STORAGE_LIMIT, used: used };
+  }
 }
 
 /**
@@ -87,7 +108,13 @@ export class LocalStorageStore implements SyncKeyValueStore, SimpleSyncStore {
 export default class LocalStorageFileSystem extends SyncKeyValueFileSystem {
   public static readonly Name = "LocalStorage";
 
-  public static readonly Options: FileSystemOptions = {};
+  public static readonly Options: FileSystemOptions = {
+    quota: {
+      type: "number",
+      optional: true,
+      description: "The maximum number of bytes of file contents to store. Writes that would exceed it fail with ENOSPC. Defaults to no limit besides that of localStorage."
+    }
+  };
   public static partition: string = "";
 
   /**
@@ -98,7 +125,7 @@ export default class LocalStorageFileSystem extends SyncKeyValueFileSystem {
     if (options && options.partition) {
       partition = options.partition + ":";
     }
-    cb(null, new LocalStorageFileSystem(partition));
+    cb(null, new LocalStorageFileSystem(partition, options ? options.quota : undefined));
   }
   public static isAvailable(): boolean {
     return typeof global.localStorage !== 'undefined';
@@ -106,5 +133,5 @@ export default class LocalStorageFileSystem extends SyncKeyValueFileSystem {
   /**
    * Creates a new LocalStorage file system using the contents of `localStorage`.
    */
-  private constructor(partition: string) { super({ store: new LocalStorageStore(partition) }); }
+  private constructor(partition: string, quota?: number) { super({ store: new LocalStorageStore(partition), quota: quota }); }
 }
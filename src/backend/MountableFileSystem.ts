@@ -1,7 +1,9 @@
-import {FileSystem, BaseFileSystem, BFSOneArgCallback, BFSCallback, FileSystemOptions} from '../core/file_system';
+import {FileSystem, BaseFileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback, FileSystemOptions, CopyOptions, DirentPage, FileSystemTransaction} from '../core/file_system';
 import InMemoryFileSystem from './InMemory';
 import {ApiError, ErrorCode} from '../core/api_error';
-import fs from '../core/node_fs';
+import Dirent from '../core/node_fs_dirent';
+import {File} from '../core/file';
+import {FileFlag} from '../core/file_flag';
 import * as path from 'path';
 import {mkdirpSync} from '../core/util';
 
@@ -167,13 +169,19 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
   }
 
   public diskSpace(path: string, cb: (total: number, free: number) => void): void {
-    cb(0, 0);
+    const fsInfo = this._getFs(path);
+    fsInfo.fs.diskSpace(fsInfo.path, cb);
   }
 
   public isReadOnly(): boolean {
     return false;
   }
 
+  public isReadOnlyAt(path: string): boolean {
+    const fsInfo = this._getFs(path);
+    return fsInfo.fs.isReadOnlyAt(fsInfo.path);
+  }
+
   public supportsLinks(): boolean {
     // I'm not ready for cross-FS links yet.
     return false;
@@ -203,8 +211,6 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
 
   // The following methods involve multiple file systems, and thus have custom
   // logic.
-  // Note that we go through the Node API to use its robust default argument
-  // processing.
 
   public rename(oldPath: string, newPath: string, cb: BFSOneArgCallback): void {
     // Scenario 1: old and new are on same FS.
@@ -220,17 +226,15 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
     }
 
     // Scenario 2: Different file systems.
-    // Read old file, write new file, delete old file.
-    return fs.readFile(oldPath, function(err: ApiError, data?: any) {
-      if (err) {
-        return cb(err);
+    // Copy old entry to new location, delete old entry.
+    const moved = (err?: ApiError | null) => err ? cb(err) : this.rimraf(oldPath, cb);
+    return this.cp(oldPath, newPath, this._renameCopyOptions(true), (err?) => {
+      if (err && err.errno === ErrorCode.ENOTSUP) {
+        // The new file system cannot set timestamps.
+        this.cp(oldPath, newPath, this._renameCopyOptions(false), moved);
+      } else {
+        moved(err);
       }
-      fs.writeFile(newPath, data, function(err: ApiError) {
-        if (err) {
-          return cb(err);
-        }
-        fs.unlink(oldPath, cb);
-      });
     });
   }
 
@@ -247,9 +251,149 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
       }
     }
     // Scenario 2: Different file systems.
-    const data = fs.readFileSync(oldPath);
-    fs.writeFileSync(newPath, data);
-    return fs.unlinkSync(oldPath);
+    try {
+      this.cpSync(oldPath, newPath, this._renameCopyOptions(true));
+    } catch (e) {
+      if (e.errno !== ErrorCode.ENOTSUP) {
+        throw e;
+      }
+      // The new file system cannot set timestamps.
+      this.cpSync(oldPath, newPath, this._renameCopyOptions(false));
+    }
+    return this.rimrafSync(oldPath);
+  }
+
+  public copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void {
+    const fs1rv = this._getFs(src);
+    const fs2rv = this._getFs(dest);
+    if (fs1rv.fs !== fs2rv.fs) {
+      // Different file systems: Copy through this file system.
+      return super.copyFile(src, dest, flags, cb);
+    }
+    fs1rv.fs.copyFile(fs1rv.path, fs2rv.path, flags, (e?) => {
+      if (e) {
+        this.standardizeError(this.standardizeError(e, fs1rv.path, src), fs2rv.path, dest);
+      }
+      cb(e);
+    });
+  }
+
+  public copyFileSync(src: string, dest: string, flags: number): void {
+    const fs1rv = this._getFs(src);
+    const fs2rv = this._getFs(dest);
+    if (fs1rv.fs !== fs2rv.fs) {
+      return super.copyFileSync(src, dest, flags);
+    }
+    try {
+      return fs1rv.fs.copyFileSync(fs1rv.path, fs2rv.path, flags);
+    } catch (e) {
+      this.standardizeError(this.standardizeError(e, fs1rv.path, src), fs2rv.path, dest);
+      throw e;
+    }
+  }
+
+  public link(srcpath: string, dstpath: string, cb: BFSOneArgCallback): void {
+    const fs1rv = this._getFs(srcpath);
+    const fs2rv = this._getFs(dstpath);
+    if (fs1rv.fs !== fs2rv.fs) {
+      return cb(new ApiError(ErrorCode.EXDEV, `${srcpath} and ${dstpath} are on different file systems.`));
+    }
+    fs1rv.fs.link(fs1rv.path, fs2rv.path, (e?) => {
+      if (e) {
+        this.standardizeError(this.standardizeError(e, fs1rv.path, srcpath), fs2rv.path, dstpath);
+      }
+      cb(e);
+    });
+  }
+
+  public linkSync(srcpath: string, dstpath: string): void {
+    const fs1rv = this._getFs(srcpath);
+    const fs2rv = this._getFs(dstpath);
+    if (fs1rv.fs !== fs2rv.fs) {
+      throw new ApiError(ErrorCode.EXDEV, `${srcpath} and ${dstpath} are on different file systems.`);
+    }
+    try {
+      return fs1rv.fs.linkSync(fs1rv.path, fs2rv.path);
+    } catch (e) {
+      this.standardizeError(this.standardizeError(e, fs1rv.path, srcpath), fs2rv.path, dstpath);
+      throw e;
+    }
+  }
+
+  /**
+   * Symbolic links are created in the file system that contains `dstpath`,
+   * which resolves them within itself. An absolute target is stored relative
+   * to that file system's mount point, and must be on the same file system.
+   */
+  public symlink(srcpath: string, dstpath: string, type: string, cb: BFSOneArgCallback): void {
+    const fsInfo = this._getFs(dstpath);
+    let target: string;
+    try {
+      target = this._toMountedTarget(srcpath, dstpath, fsInfo.mountPoint);
+    } catch (e) {
+      return cb(e);
+    }
+    fsInfo.fs.symlink(target, fsInfo.path, type, (e?) => {
+      cb(e ? this.standardizeError(e, fsInfo.path, dstpath) : e);
+    });
+  }
+
+  public symlinkSync(srcpath: string, dstpath: string, type: string): void {
+    const fsInfo = this._getFs(dstpath);
+    const target = this._toMountedTarget(srcpath, dstpath, fsInfo.mountPoint);
+    try {
+      return fsInfo.fs.symlinkSync(target, fsInfo.path, type);
+    } catch (e) {
+      throw this.standardizeError(e, fsInfo.path, dstpath);
+    }
+  }
+
+  public readlink(p: string, cb: BFSCallback<string>): void {
+    const fsInfo = this._getFs(p);
+    fsInfo.fs.readlink(fsInfo.path, (e?, target?) => {
+      if (e) {
+        return cb(this.standardizeError(e, fsInfo.path, p));
+      }
+      cb(null, this._fromMountedPath(target!, fsInfo.mountPoint));
+    });
+  }
+
+  public readlinkSync(p: string): string {
+    const fsInfo = this._getFs(p);
+    try {
+      return this._fromMountedPath(fsInfo.fs.readlinkSync(fsInfo.path), fsInfo.mountPoint);
+    } catch (e) {
+      throw this.standardizeError(e, fsInfo.path, p);
+    }
+  }
+
+  public cp(src: string, dest: string, options: CopyOptions, cb: BFSOneArgCallback): void {
+    const fs1rv = this._getFs(src);
+    const fs2rv = this._getFs(dest);
+    if (fs1rv.fs !== fs2rv.fs || this._containsMountPt(src) || this._containsMountPt(dest)) {
+      // The copy spans file systems: Walk it through this file system.
+      return super.cp(src, dest, options, cb);
+    }
+    fs1rv.fs.cp(fs1rv.path, fs2rv.path, options, (e?) => {
+      if (e) {
+        this.standardizeError(this.standardizeError(e, fs1rv.path, src), fs2rv.path, dest);
+      }
+      cb(e);
+    });
+  }
+
+  public cpSync(src: string, dest: string, options: CopyOptions): void {
+    const fs1rv = this._getFs(src);
+    const fs2rv = this._getFs(dest);
+    if (fs1rv.fs !== fs2rv.fs || this._containsMountPt(src) || this._containsMountPt(dest)) {
+      return super.cpSync(src, dest, options);
+    }
+    try {
+      return fs1rv.fs.cpSync(fs1rv.path, fs2rv.path, options);
+    } catch (e) {
+      this.standardizeError(this.standardizeError(e, fs1rv.path, src), fs2rv.path, dest);
+      throw e;
+    }
   }
 
   public readdirSync(p: string): string[] {
@@ -313,6 +457,101 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
     });
   }
 
+  public readdirWithTypesSync(p: string): Dirent[] {
+    const fsInfo = this._getFs(p);
+
+    // Mount points are all defined in the root FS.
+    let rv: Dirent[] | null = null;
+    if (fsInfo.fs !== this.rootFs) {
+      try {
+        rv = this.rootFs.readdirWithTypesSync(p);
+      } catch (e) {
+        // Ignore.
+      }
+    }
+
+    try {
+      const rv2 = fsInfo.fs.readdirWithTypesSync(fsInfo.path);
+      return rv === null ? rv2 : mergeDirents(rv2, rv);
+    } catch (e) {
+      if (rv === null) {
+        throw this.standardizeError(e, fsInfo.path, p);
+      } else {
+        return rv;
+      }
+    }
+  }
+
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    const fsInfo = this._getFs(p);
+    fsInfo.fs.readdirWithTypes(fsInfo.path, (err, files) => {
+      if (fsInfo.fs !== this.rootFs) {
+        try {
+          const rv = this.rootFs.readdirWithTypesSync(p);
+          files = files ? mergeDirents(files, rv) : rv;
+        } catch (e) {
+          if (err) {
+            return cb(this.standardizeError(err, fsInfo.path, p));
+          }
+        }
+      } else if (err) {
+        return cb(this.standardizeError(err, fsInfo.path, p));
+      }
+
+      cb(null, files);
+    });
+  }
+
+  public readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage {
+    const fsInfo = this._getFs(p);
+    if (this._hasNestedMountPt(p, fsInfo.fs)) {
+      // The listing has to be merged with the root FS.
+      return super.readdirPageSync(p, cursor, limit);
+    }
+    try {
+      return fsInfo.fs.readdirPageSync(fsInfo.path, cursor, limit);
+    } catch (e) {
+      throw this.standardizeError(e, fsInfo.path, p);
+    }
+  }
+
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    const fsInfo = this._getFs(p);
+    if (this._hasNestedMountPt(p, fsInfo.fs)) {
+      return super.readdirPage(p, cursor, limit, cb);
+    }
+    fsInfo.fs.readdirPage(fsInfo.path, cursor, limit, (err, entries?, next?) => {
+      if (err) {
+        cb(this.standardizeError(err, fsInfo.path, p));
+      } else {
+        cb(null, entries, next);
+      }
+    });
+  }
+
+  public readdirRecursiveSync(p: string, maxDepth: number): Dirent[] {
+    const fsInfo = this._getFs(p);
+    if (this._hasMountPtBelow(p)) {
+      // Walk through this file system to descend into the other mounts.
+      return super.readdirRecursiveSync(p, maxDepth);
+    }
+    try {
+      return fsInfo.fs.readdirRecursiveSync(fsInfo.path, maxDepth);
+    } catch (e) {
+      throw this.standardizeError(e, fsInfo.path, p);
+    }
+  }
+
+  public readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    const fsInfo = this._getFs(p);
+    if (this._hasMountPtBelow(p)) {
+      return super.readdirRecursive(p, maxDepth, cb);
+    }
+    fsInfo.fs.readdirRecursive(fsInfo.path, maxDepth, (err, entries?) => {
+      cb(err ? this.standardizeError(err, fsInfo.path, p) : null, entries);
+    });
+  }
+
   public realpathSync(p: string, cache: {[path: string]: string}): string {
     const fsInfo = this._getFs(p);
 
@@ -362,6 +601,136 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
     }
   }
 
+  public rimrafSync(p: string): void {
+    const fsInfo = this._getFs(p);
+    if (this._containsMountPt(p)) {
+      throw ApiError.ENOTEMPTY(p);
+    } else {
+      try {
+        fsInfo.fs.rimrafSync(fsInfo.path);
+      } catch (e) {
+        throw this.standardizeError(e, fsInfo.path, p);
+      }
+    }
+  }
+
+  public rimraf(p: string, cb: BFSOneArgCallback): void {
+    const fsInfo = this._getFs(p);
+    if (this._containsMountPt(p)) {
+      cb(ApiError.ENOTEMPTY(p));
+    } else {
+      fsInfo.fs.rimraf(fsInfo.path, (err?) => {
+        cb(err ? this.standardizeError(err, fsInfo.path, p) : null);
+      });
+    }
+  }
+
+  /**
+   * Starts a transaction in each mounted file system, and mounts their views
+   * in the same places. The changes in each file system commit atomically,
+   * but the file systems commit one after another, so a transaction that
+   * changes several of them may fail after some of them committed. File
+   * systems that do not support transactions can be read, but changing them
+   * fails with ENOTSUP.
+   */
+  public transaction(cb: BFSCallback<FileSystemTransaction>): void {
+    const mountPoints = ['/'].concat(this.mountList),
+      views: {[mountPoint: string]: FileSystem} = {},
+      txs: FileSystemTransaction[] = [];
+    let i = 0;
+    const beginNext = (): void => {
+      if (i < mountPoints.length) {
+        const mountPoint = mountPoints[i++],
+          fs = mountPoint === '/' ? this.rootFs : this.mntMap[mountPoint];
+        return fs.transaction((e?: ApiError | null, tx?: FileSystemTransaction): void => {
+          if (e && e.errno !== ErrorCode.ENOTSUP) {
+            return abortAll(txs, () => cb(e));
+          } else if (tx) {
+            txs.push(tx);
+          }
+          views[mountPoint] = tx ? tx.fs : unchangeableView(fs);
+          beginNext();
+        });
+      }
+      if (txs.length === 0) {
+        return cb(new ApiError(ErrorCode.ENOTSUP));
+      }
+      // The mount points already exist in the root FS.
+      const view = new MountableFileSystem(views['/']);
+      this.mountList.forEach((mountPoint) => {
+        view.mntMap[mountPoint] = views[mountPoint];
+      });
+      view.mountList = this.mountList.slice(0);
+      cb(null, {
+        fs: view,
+        commit: (cb: BFSOneArgCallback): void => {
+          let j = 0;
+          const commitNext = (e?: ApiError | null): void => {
+            if (e) {
+              abortAll(txs.slice(j), () => cb(e));
+            } else if (j === txs.length) {
+              cb();
+            } else {
+              txs[j++].commit(commitNext);
+            }
+          };
+          commitNext();
+        },
+        abort: (cb: BFSOneArgCallback): void => abortAll(txs, cb)
+      });
+    };
+    beginNext();
+  }
+
+  /**
+   * Options used to move entries across file systems in `rename`.
+   */
+  private _renameCopyOptions(preserveTimestamps: boolean): CopyOptions {
+    return { recursive: true, force: true, errorOnExist: false, preserveTimestamps: preserveTimestamps };
+  }
+
+  /**
+   * Translates an absolute symbolic link target into a path on the file
+   * system mounted at the given mount point.
+   */
+  private _toMountedTarget(target: string, linkPath: string, mountPoint: string): string {
+    if (target.charAt(0) !== '/') {
+      return target;
+    }
+    const targetInfo = this._getFs(path.normalize(target));
+    if (targetInfo.mountPoint !== mountPoint) {
+      throw new ApiError(ErrorCode.EXDEV, `${target} and ${linkPath} are on different file systems.`);
+    }
+    return targetInfo.path;
+  }
+
+  /**
+   * Translates an absolute path on the file system mounted at the given mount
+   * point into a path on this file system.
+   */
+  private _fromMountedPath(p: string, mountPoint: string): string {
+    if (p.charAt(0) !== '/' || mountPoint === '/') {
+      return p;
+    }
+    return p === '/' ? mountPoint : mountPoint + p;
+  }
+
+  /**
+   * Returns true if the given directory on the given mounted file system
+   * contains mount points that only the root FS lists.
+   */
+  private _hasNestedMountPt(p: string, fs: FileSystem): boolean {
+    return fs !== this.rootFs && this._hasMountPtBelow(p);
+  }
+
+  /**
+   * Returns true if a file system is mounted somewhere below the given path.
+   */
+  private _hasMountPtBelow(p: string): boolean {
+    const prefix = p === '/' ? p : p + '/';
+    return this.mountList.some((pt) => pt !== prefix && pt.indexOf(prefix) === 0);
+  }
+
   /**
    * Returns true if the given path contains a mount point.
    */
@@ -377,6 +746,73 @@ export default class MountableFileSystem extends BaseFileSystem implements FileS
   }
 }
 
+/**
+ * Appends the entries of `extra` that are not already in `files`.
+ * @hidden
+ */
+function mergeDirents(files: Dirent[], extra: Dirent[]): Dirent[] {
+  const names = files.map((file) => file.name);
+  return files.concat(extra.filter((file) => names.indexOf(file.name) === -1));
+}
+
+/**
+ * Aborts the given transactions, one after another.
+ * @hidden
+ */
+function abortAll(txs: FileSystemTransaction[], cb: () => void): void {
+  let i = 0;
+  const abortNext = (): void => {
+    if (i === txs.length) {
+      cb();
+    } else {
+      txs[i++].abort(abortNext);
+    }
+  };
+  abortNext();
+}
+
+/**
+ * The methods that change a file system, apart from `open`. All take a path
+ * as their first argument, except for `symlink`, which takes it second.
+ * @hidden
+ */
+const changingFcns = ['rename', 'unlink', 'rmdir', 'mkdir', 'truncate', 'writeFile', 'appendFile',
+  'mkdirp', 'rimraf', 'copyFile', 'cp', 'chmod', 'chown', 'utimes', 'link', 'symlink', 'setxattr',
+  'removexattr'];
+
+/**
+ * Returns a view of the given file system that reads from it as usual, but
+ * fails to change it with ENOTSUP. Used in transactions for file systems
+ * that do not support them, as their changes could not be discarded.
+ * @hidden
+ */
+function unchangeableView(fs: FileSystem): FileSystem {
+  const view: any = Object.create(fs);
+  const notSupported = (args: IArguments, name: string) =>
+    ApiError.FileError(ErrorCode.ENOTSUP, args[name === 'symlink' ? 1 : 0]);
+  changingFcns.forEach((name) => {
+    view[name] = function() {
+      arguments[arguments.length - 1](notSupported(arguments, name));
+    };
+    view[name + 'Sync'] = function() {
+      throw notSupported(arguments, name);
+    };
+  });
+  view.open = function(p: string, flag: FileFlag, mode: number, cb: BFSCallback<File>): void {
+    if (flag.isWriteable()) {
+      return cb(ApiError.FileError(ErrorCode.ENOTSUP, p));
+    }
+    fs.open(p, flag, mode, cb);
+  };
+  view.openSync = function(p: string, flag: FileFlag, mode: number): File {
+    if (flag.isWriteable()) {
+      throw ApiError.FileError(ErrorCode.ENOTSUP, p);
+    }
+    return fs.openSync(p, flag, mode);
+  };
+  return view;
+}
+
 /**
  * Tricky: Define all of the functions that merely forward arguments to the
  * relevant file system, or return/throw an error.
@@ -422,13 +858,13 @@ function defineFcn(name: string, isSync: boolean, numArgs: number): (...args: an
  */
 const fsCmdMap = [
    // 1 arg functions
-   ['exists', 'unlink', 'readlink'],
+   ['exists', 'unlink', 'listxattr'],
    // 2 arg functions
-   ['stat', 'mkdir', 'truncate'],
+   ['stat', 'mkdir', 'truncate', 'mkdirp', 'getxattr', 'removexattr'],
    // 3 arg functions
    ['open', 'readFile', 'chmod', 'utimes'],
    // 4 arg functions
-   ['chown'],
+   ['chown', 'setxattr'],
    // 5 arg functions
    ['writeFile', 'appendFile']];
 
@@ -0,0 +1,551 @@
+import {ApiError, ErrorCode} from '../core/api_error';
+import {default as Stats, FileType} from '../core/node_fs_stats';
+import {SynchronousFileSystem, FileSystem, BFSCallback, FileSystemOptions} from '../core/file_system';
+import {File} from '../core/file';
+import {FileFlag, ActionType} from '../core/file_flag';
+import {NoSyncFile} from '../generic/preload_file';
+import {Arrayish, arrayish2Buffer, copyingSlice, bufferValidator} from '../core/util';
+import {FileIndex, DirInode, FileInode, isDirInode, isFileInode} from '../generic/file_index';
+import * as path from 'path';
+/**
+ * @hidden
+ */
+const inflateRaw:
+  (data: Arrayish<number>, options?: {
+    chunkSize: number;
+  }) => Arrayish<number> = require('pako/lib/inflate').inflateRaw;
+/**
+ * @hidden
+ */
+const crc32: (crc: number, data: Arrayish<number>, len: number, pos: number) => number = require('pako/lib/zlib/crc32');
+
+/**
+ * The number of symbolic links that are followed before giving up with ELOOP.
+ * @hidden
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * The tar format stores everything in blocks of 512 bytes.
+ * @hidden
+ */
+const BLOCK_SIZE = 512;
+
+/**
+ * The type flag of a tar header.
+ */
+export enum TarEntryType {
+  FILE = '0',
+  // Old tar versions use NUL for regular files.
+  OLD_FILE = '\0',
+  HARD_LINK = '1',
+  SYMLINK = '2',
+  CHARACTER_DEVICE = '3',
+  BLOCK_DEVICE = '4',
+  DIRECTORY = '5',
+  FIFO = '6',
+  CONTIGUOUS_FILE = '7',
+  // pax extended headers for the next entry, and for all following entries.
+  PAX_HEADER = 'x',
+  PAX_GLOBAL_HEADER = 'g',
+  // GNU extensions: The data holds the path or link target of the next entry.
+  GNU_LONG_NAME = 'L',
+  GNU_LONG_LINK_NAME = 'K',
+  GNU_VOLUME_HEADER = 'V'
+}
+
+/**
+ * Decompresses a gzip file (RFC 1952) with a single member.
+ * @hidden
+ */
+function gunzip(data: Buffer): Buffer {
+  // Method 8 is DEFLATE, the only one defined.
+  if (data.length < 18 || data[2] !== 8) {
+    throw new ApiError(ErrorCode.EINVAL, "Invalid gzip file: Unsupported compression method.");
+  }
+  const flags = data[3];
+  let offset = 10;
+  // FEXTRA
+  if (flags & 0x4) {
+    offset += 2 + data.readUInt16LE(offset);
+  }
+  // FNAME and FCOMMENT are NUL-terminated.
+  for (const flag of [0x8, 0x10]) {
+    if (flags & flag) {
+      while (offset < data.length && data[offset] !== 0) {
+        offset++;
+      }
+      offset++;
+    }
+  }
+  // FHCRC
+  if (flags & 0x2) {
+    offset += 2;
+  }
+  let rv: Buffer;
+  try {
+    rv = arrayish2Buffer(inflateRaw(data.slice(offset, data.length - 8), { chunkSize: 0x8000 }));
+  } catch (e) {
+    throw new ApiError(ErrorCode.EINVAL, `Invalid gzip file: ${e.message || e}`);
+  }
+  if ((crc32(0, rv, rv.length, 0) >>> 0) !== data.readUInt32LE(data.length - 8) || (rv.length >>> 0) !== data.readUInt32LE(data.length - 4)) {
+    throw new ApiError(ErrorCode.EINVAL, "Invalid gzip file: Checksum mismatch.");
+  }
+  return rv;
+}
+
+/**
+ * Reads a NUL-terminated string field.
+ * @hidden
+ */
+function readString(data: Buffer, start: number, length: number): string {
+  const end = data.indexOf(0, start);
+  return data.toString('utf8', start, end !== -1 && end < start + length ? end : start + length);
+}
+
+/**
+ * Reads a numeric field. These are octal strings, or big-endian base-256
+ * numbers (a GNU extension) if the high bit of the first byte is set.
+ * @hidden
+ */
+function readNumber(data: Buffer, start: number, length: number): number {
+  if (data[start] & 0x80) {
+    // 0xFF marks a negative number in two's complement, which is summed up
+    // inverted to keep small numbers exact.
+    const negative = data[start] === 0xFF;
+    let rv = negative ? 0 : data[start] & 0x7F;
+    for (let i = start + 1; i < start + length; i++) {
+      rv = rv * 256 + (negative ? ~data[i] & 0xFF : data[i]);
+    }
+    return negative ? -rv - 1 : rv;
+  }
+  const str = readString(data, start, length).trim();
+  return str === '' ? 0 : parseInt(str, 8);
+}
+
+/**
+ * A 512 byte tar header, in the ustar format or one of the formats that came
+ * before it.
+ *
+ *  Offset  Size  Field
+ *       0   100  name
+ *     100     8  mode
+ *     108     8  uid
+ *     116     8  gid
+ *     124    12  size
+ *     136    12  mtime
+ *     148     8  chksum
+ *     156     1  typeflag
+ *     157   100  linkname
+ *     257     6  magic ("ustar\0", or "ustar " for GNU)
+ *     263     2  version
+ *     265    32  uname
+ *     297    32  gname
+ *     329     8  devmajor
+ *     337     8  devminor
+ *     345   155  prefix (ustar only)
+ */
+export class TarHeader {
+  constructor(private data: Buffer) {
+    if (!this.isValid()) {
+      throw new ApiError(ErrorCode.EINVAL, `Invalid tar file: Header of '${this.name()}' has an invalid checksum.`);
+    }
+  }
+  public name(): string {
+    const name = readString(this.data, 0, 100), prefix = this.prefix();
+    return prefix ? `${prefix}/${name}` : name;
+  }
+  public mode(): number { return readNumber(this.data, 100, 8); }
+  public uid(): number { return readNumber(this.data, 108, 8); }
+  public gid(): number { return readNumber(this.data, 116, 8); }
+  public size(): number { return readNumber(this.data, 124, 12); }
+  public mtime(): number { return readNumber(this.data, 136, 12); }
+  public checksum(): number { return readNumber(this.data, 148, 8); }
+  public type(): TarEntryType { return <TarEntryType> String.fromCharCode(this.data[156]); }
+  public linkName(): string { return readString(this.data, 157, 100); }
+  public magic(): string { return this.data.toString('latin1', 257, 263); }
+  public isUstar(): boolean { return this.magic() === 'ustar\0'; }
+  public prefix(): string {
+    // GNU tar keeps other fields here.
+    return this.isUstar() ? readString(this.data, 345, 155) : '';
+  }
+  /**
+   * The checksum is the sum of the header's bytes, counting the checksum field
+   * as spaces. Some old implementations used signed bytes.
+   */
+  public isValid(): boolean {
+    let unsigned = 0, signed = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+      const byte = i >= 148 && i < 156 ? 0x20 : this.data[i];
+      unsigned += byte;
+      signed += byte & 0x80 ? byte - 256 : byte;
+    }
+    const checksum = this.checksum();
+    return checksum === unsigned || checksum === signed;
+  }
+}
+
+/**
+ * Parses the records of a pax extended header, which look like
+ * "<length> <key>=<value>\n" with the length in bytes.
+ * @hidden
+ */
+function parsePaxRecords(data: Buffer, records: {[key: string]: string}): void {
+  let offset = 0;
+  while (offset < data.length && data[offset] !== 0) {
+    const space = data.indexOf(0x20, offset), length = parseInt(data.toString('latin1', offset, space), 10);
+    if (space === -1 || !(length > 0) || offset + length > data.length) {
+      throw new ApiError(ErrorCode.EINVAL, "Invalid tar file: Malformed pax extended header.");
+    }
+    const record = data.toString('utf8', space + 1, offset + length - 1), equals = record.indexOf('=');
+    if (equals !== -1) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+}
+
+/**
+ * A file, directory or symbolic link in a tar file. Hard links share the
+ * entry of their target.
+ */
+export class TarEntry {
+  // The number of paths that refer to this entry.
+  public nlink: number = 1;
+  constructor(public readonly type: FileType, public readonly mode: number, public readonly uid: number, public readonly gid: number,
+    public readonly mtime: number, public readonly data: Buffer, public readonly linkName: string) {}
+
+  public getStats(): Stats {
+    const size = this.type === FileType.SYMLINK ? Buffer.byteLength(this.linkName) : this.type === FileType.DIRECTORY ? 4096 : this.data.length;
+    // Mask out writeable flags. This is a RO file system.
+    const stats = new Stats(this.type, size, this.mode & 0x16D, this.mtime, this.mtime, this.mtime);
+    stats.uid = this.uid;
+    stats.gid = this.gid;
+    stats.nlink = this.nlink;
+    return stats;
+  }
+}
+
+/**
+ * Options for TarFS file system instances.
+ */
+export interface TarFSOptions {
+  // The tar file in a buffer, optionally compressed with gzip.
+  data: Buffer;
+  // The name of the tar file (optional; used for debug messages / identification via getName()).
+  name?: string;
+}
+
+/**
+ * Mounts a tar file as a read-only file system.
+ *
+ * Supports:
+ * * ustar archives, and the older formats before it
+ * * pax extended headers, for long paths, big files and precise times
+ * * GNU long names and link names, and base-256 numbers
+ * * Symbolic and hard links
+ * * Archives compressed with gzip (.tar.gz / .tgz), detected by their magic
+ *   number
+ *
+ * Device files, FIFOs and sparse files are skipped.
+ */
+export default class TarFS extends SynchronousFileSystem implements FileSystem {
+  public static readonly Name = "TarFS";
+
+  public static readonly Options: FileSystemOptions = {
+    data: {
+      type: "object",
+      description: "The tar file in a buffer, optionally compressed with gzip",
+      validator: bufferValidator
+    },
+    name: {
+      type: "string",
+      optional: true,
+      description: "The name of the tar file (optional)."
+    }
+  };
+
+  public static readonly EntryType = TarEntryType;
+
+  /**
+   * Creates a TarFS instance with the given options.
+   */
+  public static Create(opts: TarFSOptions, cb: BFSCallback<TarFS>): void {
+    try {
+      cb(null, new TarFS(opts.data, opts.name));
+    } catch (e) {
+      cb(e);
+    }
+  }
+  public static isAvailable(): boolean {
+    return true;
+  }
+
+  private _data: Buffer;
+  private _index: FileIndex<TarEntry> = new FileIndex<TarEntry>();
+  private _name: string;
+
+  private constructor(data: Buffer, name: string = "") {
+    super();
+    // gzip magic number
+    if (data.length >= 2 && data[0] === 0x1F && data[1] === 0x8B) {
+      data = gunzip(data);
+    }
+    this._data = data;
+    this._name = name;
+    this._computeIndex();
+  }
+
+  public getName(): string {
+    return TarFS.Name + (this._name !== '' ? ` ${this._name}` : '');
+  }
+
+  public diskSpace(path: string, cb: (total: number, free: number) => void): void {
+    // Read-only file system.
+    cb(this._data.length, 0);
+  }
+
+  public isReadOnly(): boolean {
+    return true;
+  }
+
+  public supportsLinks(): boolean {
+    return true;
+  }
+
+  public supportsProps(): boolean {
+    return false;
+  }
+
+  public supportsSynch(): boolean {
+    return true;
+  }
+
+  public statSync(p: string, isLstat: boolean): Stats {
+    const resolved = this._resolvePath(p, !isLstat), inode = this._index.getInode(resolved);
+    if (isFileInode<TarEntry>(inode)) {
+      return inode.getData().getStats();
+    } else if (isDirInode<TarEntry>(inode)) {
+      const entry = inode.getData();
+      return entry ? entry.getStats() : inode.getStats();
+    } else {
+      throw ApiError.ENOENT(p);
+    }
+  }
+
+  public openSync(p: string, flags: FileFlag, mode: number): File {
+    // INVARIANT: Cannot write to RO file systems.
+    if (flags.isWriteable()) {
+      throw new ApiError(ErrorCode.EPERM, p);
+    }
+    // Check if the path exists, and is a file.
+    const inode = this._index.getInode(this._resolvePath(p, true));
+    if (!inode) {
+      throw ApiError.ENOENT(p);
+    } else if (isFileInode<TarEntry>(inode)) {
+      const entry = inode.getData();
+      switch (flags.pathExistsAction()) {
+        case ActionType.THROW_EXCEPTION:
+        case ActionType.TRUNCATE_FILE:
+          throw ApiError.EEXIST(p);
+        case ActionType.NOP:
+          return new NoSyncFile(this, p, flags, entry.getStats(), entry.data);
+        default:
+          throw new ApiError(ErrorCode.EINVAL, 'Invalid FileMode object.');
+      }
+    } else {
+      throw ApiError.EISDIR(p);
+    }
+  }
+
+  public readdirSync(p: string): string[] {
+    const inode = this._index.getInode(this._resolvePath(p, true));
+    if (!inode) {
+      throw ApiError.ENOENT(p);
+    } else if (isDirInode(inode)) {
+      return inode.getListing();
+    } else {
+      throw ApiError.ENOTDIR(p);
+    }
+  }
+
+  public readlinkSync(p: string): string {
+    const inode = this._index.getInode(this._resolvePath(p, false));
+    if (!inode) {
+      throw ApiError.ENOENT(p);
+    } else if (isFileInode<TarEntry>(inode) && inode.getData().type === FileType.SYMLINK) {
+      return inode.getData().linkName;
+    } else {
+      throw ApiError.FileError(ErrorCode.EINVAL, p);
+    }
+  }
+
+  public realpathSync(p: string, cache: {[path: string]: string}): string {
+    const resolved = this._resolvePath(p, true);
+    if (this._index.getInode(resolved) === null) {
+      throw ApiError.ENOENT(p);
+    }
+    return resolved;
+  }
+
+  /**
+   * Specially-optimized readfile.
+   */
+  public readFileSync(fname: string, encoding: string, flag: FileFlag): any {
+    // Get file.
+    const fd = this.openSync(fname, flag, 0x1a4);
+    try {
+      const fdCast = <NoSyncFile<TarFS>> fd;
+      const fdBuff = <Buffer> fdCast.getBuffer();
+      if (encoding === null) {
+        return copyingSlice(fdBuff);
+      }
+      return fdBuff.toString(encoding);
+    } finally {
+      fd.closeSync();
+    }
+  }
+
+  /**
+   * Walks through the headers of the tar file, and adds its entries to the
+   * index. Later entries replace earlier ones with the same path, as they do
+   * when the tar file is extracted.
+   */
+  private _computeIndex(): void {
+    const data = this._data, globalRecords: {[key: string]: string} = {};
+    let records: {[key: string]: string} = {}, longName: string | null = null, longLinkName: string | null = null;
+    let offset = 0;
+    // The archive ends with two zero blocks, though some writers leave them out.
+    while (offset + BLOCK_SIZE <= data.length && data[offset] !== 0) {
+      const header = new TarHeader(data.slice(offset, offset + BLOCK_SIZE)), type = header.type();
+      const size = type === TarEntryType.HARD_LINK || type === TarEntryType.SYMLINK || type === TarEntryType.DIRECTORY ? 0 :
+        records.hasOwnProperty('size') ? parseInt(records.size, 10) : header.size();
+      const dataStart = offset + BLOCK_SIZE;
+      if (dataStart + size > data.length) {
+        throw new ApiError(ErrorCode.EINVAL, `Invalid tar file: The data of '${header.name()}' is truncated.`);
+      }
+      const entryData = data.slice(dataStart, dataStart + size);
+      offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+      switch (type) {
+        case TarEntryType.PAX_HEADER:
+          parsePaxRecords(entryData, records);
+          continue;
+        case TarEntryType.PAX_GLOBAL_HEADER:
+          parsePaxRecords(entryData, globalRecords);
+          continue;
+        case TarEntryType.GNU_LONG_NAME:
+          longName = readString(entryData, 0, entryData.length);
+          continue;
+        case TarEntryType.GNU_LONG_LINK_NAME:
+          longLinkName = readString(entryData, 0, entryData.length);
+          continue;
+      }
+
+      // Per-file pax records take precedence over global ones, which take
+      // precedence over GNU long names and the header itself.
+      const get = (key: string): string | undefined => records.hasOwnProperty(key) ? records[key] : globalRecords.hasOwnProperty(key) ? globalRecords[key] : undefined;
+      const getNumber = (key: string, fallback: number): number => {
+        const value = get(key);
+        return value !== undefined ? parseFloat(value) : fallback;
+      };
+      const name = get('path') || longName || header.name(),
+        linkName = get('linkpath') || longLinkName || header.linkName(),
+        // Directory names usually end in '/'.
+        p = path.join('/', name).replace(/\/+$/, '') || '/';
+      const mtime = getNumber('mtime', header.mtime()) * 1000;
+      records = {};
+      longName = longLinkName = null;
+
+      let fileType: FileType;
+      switch (type) {
+        case TarEntryType.DIRECTORY:
+          fileType = FileType.DIRECTORY;
+          break;
+        case TarEntryType.SYMLINK:
+          fileType = FileType.SYMLINK;
+          break;
+        case TarEntryType.HARD_LINK: {
+          // Hard links refer to an earlier entry by its path in the archive.
+          const target = this._index.getInode(path.join('/', linkName));
+          if (!isFileInode<TarEntry>(target)) {
+            throw new ApiError(ErrorCode.EINVAL, `Invalid tar file: Hard link '${name}' refers to '${linkName}', which is not an earlier file.`);
+          }
+          target.getData().nlink++;
+          this._addToIndex(p, target.getData());
+          continue;
+        }
+        case TarEntryType.CHARACTER_DEVICE:
+        case TarEntryType.BLOCK_DEVICE:
+        case TarEntryType.FIFO:
+        case TarEntryType.GNU_VOLUME_HEADER:
+          continue;
+        default:
+          // Unknown types (e.g. GNU sparse files) are read as regular files,
+          // as POSIX requires.
+          fileType = FileType.FILE;
+          break;
+      }
+      if (p === '/') {
+        // The './' entry of the root directory.
+        continue;
+      }
+      this._addToIndex(p, new TarEntry(fileType, header.mode(), getNumber('uid', header.uid()), getNumber('gid', header.gid()), mtime, entryData, linkName));
+    }
+  }
+
+  private _addToIndex(p: string, entry: TarEntry): void {
+    const existing = this._index.getInode(p);
+    if (isDirInode<TarEntry>(existing) && entry.type === FileType.DIRECTORY) {
+      // Keep the contents of the directory, which may have been added first.
+      existing.setData(entry);
+      return;
+    } else if (isFileInode<TarEntry>(existing)) {
+      existing.getData().nlink--;
+    }
+    if (existing !== null) {
+      this._index.removePath(p);
+    }
+    const inode = entry.type === FileType.DIRECTORY ? new DirInode<TarEntry>(entry) : new FileInode<TarEntry>(entry);
+    if (!this._index.addPath(p, inode)) {
+      throw new ApiError(ErrorCode.EINVAL, `Invalid tar file: Cannot add '${p}', as one of its parents is not a directory.`);
+    }
+  }
+
+  /**
+   * Resolves the symbolic links in the given path. Link targets are relative
+   * to the link's directory, or to the root of the archive.
+   * @param followLast If false, a link in the last component is not followed,
+   *   as in `lstat`.
+   * @return The path with all symbolic links resolved.
+   */
+  private _resolvePath(p: string, followLast: boolean): string {
+    const parts = p.split('/').filter((part) => part !== '' && part !== '.');
+    let resolved = '/', links = 0;
+    while (parts.length > 0) {
+      const name = parts.shift()!;
+      if (name === '..') {
+        resolved = path.dirname(resolved);
+        continue;
+      }
+      const next = path.join(resolved, name);
+      if (parts.length === 0 && !followLast) {
+        return next;
+      }
+      const inode = this._index.getInode(next);
+      if (!isFileInode<TarEntry>(inode) || inode.getData().type !== FileType.SYMLINK) {
+        // Missing paths and files are left for the caller to deal with.
+        resolved = next;
+      } else if (++links > MAX_SYMLINK_DEPTH) {
+        throw ApiError.FileError(ErrorCode.ELOOP, p);
+      } else {
+        const target = inode.getData().linkName;
+        parts.unshift(...target.split('/').filter((part) => part !== '' && part !== '.'));
+        if (target.charAt(0) === '/') {
+          resolved = '/';
+        }
+      }
+    }
+    return resolved;
+  }
+}
@@ -1,9 +1,10 @@
-import {BaseFileSystem, FileSystem, BFSOneArgCallback, BFSCallback, FileSystemOptions} from '../core/file_system';
+import {BaseFileSystem, FileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback, FileSystemOptions, CopyOptions, DirentPage} from '../core/file_system';
 import {ApiError, ErrorCode} from '../core/api_error';
 import {FileFlag} from '../core/file_flag';
-import {buffer2ArrayBuffer, arrayBuffer2Buffer, emptyBuffer} from '../core/util';
+import {buffer2ArrayBuffer, buffer2Uint8array, arrayBuffer2Buffer, emptyBuffer, copyingSlice} from '../core/util';
 import {File, BaseFile} from '../core/file';
 import {default as Stats} from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import PreloadFile from '../generic/preload_file';
 import global from '../core/global';
 import fs from '../core/node_fs';
@@ -39,7 +40,11 @@ enum SpecialArgType {
   // Buffer object.
   BUFFER,
   // Generic Error object.
-  ERROR
+  ERROR,
+  // Array of Dirent objects.
+  DIRENTS,
+  // Reference to a file descriptor that is opened in streaming mode.
+  FD_REF
 }
 
 /**
@@ -99,6 +104,8 @@ interface IFileDescriptorArgument extends ISpecialArgument {
   id: number;
   // The entire file's data, as an array buffer.
   data: ArrayBuffer | SharedArrayBuffer;
+  // The length of the file's data, which may be shorter than the array buffer.
+  dataLength: number;
   // The file's stat object, as an array buffer.
   stat: ArrayBuffer | SharedArrayBuffer;
   // The path to the file.
@@ -107,18 +114,91 @@ interface IFileDescriptorArgument extends ISpecialArgument {
   flag: string;
 }
 
+/**
+ * @hidden
+ */
+interface IFileDescriptorRefArgument extends ISpecialArgument {
+  // The file descriptor's id on the remote side.
+  id: number;
+}
+
+/**
+ * The maximum number of bytes in the array buffers of a BufferPool.
+ * @hidden
+ */
+const BUFFER_POOL_SIZE = 32 * 1024 * 1024;
+
+/**
+ * Keeps the array buffers that clients send back when they sync or close
+ * files, to read the contents of files that are opened later into.
+ * @hidden
+ */
+class BufferPool {
+  private _buffers: ArrayBuffer[] = [];
+  private _size: number = 0;
+
+  /**
+   * Returns an array buffer of at least the given length. A pooled array
+   * buffer is only used if it is at most twice as long, and is zeroed past the
+   * given length.
+   */
+  public alloc(length: number): ArrayBuffer {
+    let best = -1;
+    for (let i = 0; i < this._buffers.length; i++) {
+      const byteLength = this._buffers[i].byteLength;
+      if (byteLength >= length && byteLength <= 2 * length && (best === -1 || byteLength < this._buffers[best].byteLength)) {
+        best = i;
+      }
+    }
+    if (best === -1) {
+      return new ArrayBuffer(length);
+    }
+    const ab = this._buffers.splice(best, 1)[0];
+    this._size -= ab.byteLength;
+    new Uint8Array(ab, length).fill(0);
+    return ab;
+  }
+
+  /**
+   * Adds an array buffer that is no longer used to the pool, if it fits.
+   */
+  public release(ab: ArrayBuffer | SharedArrayBuffer): void {
+    if (ab instanceof ArrayBuffer && ab.byteLength > 0 && this._size + ab.byteLength <= BUFFER_POOL_SIZE) {
+      this._buffers.push(ab);
+      this._size += ab.byteLength;
+    }
+  }
+}
+
 /**
  * @hidden
  */
 class FileDescriptorArgumentConverter {
   private _fileDescriptors: { [id: number]: File } = {};
+  private _filePaths: { [id: number]: string } = {};
   private _nextId: number = 0;
+  private _pool = new BufferPool();
 
-  public toRemoteArg(fd: File, p: string, flag: FileFlag, cb: BFSCallback<IFileDescriptorArgument>): void {
+  public toRemoteArg(fd: File, p: string, flag: FileFlag, streaming: boolean, cb: BFSCallback<IFileDescriptorArgument>): void {
     const id = this._nextId++;
     let data: ArrayBuffer | SharedArrayBuffer;
     let stat: ArrayBuffer | SharedArrayBuffer;
     this._fileDescriptors[id] = fd;
+    this._filePaths[id] = p;
+
+    if (streaming) {
+      // The client forwards calls to the file descriptor, and needs neither
+      // its contents nor its stats.
+      return cb(null, {
+        type: SpecialArgType.FD,
+        id: id,
+        data: new ArrayBuffer(0),
+        dataLength: 0,
+        stat: new ArrayBuffer(0),
+        path: p,
+        flag: flag.getFlagString()
+      });
+    }
 
     // Extract needed information asynchronously.
     fd.stat((err, stats) => {
@@ -128,15 +208,18 @@ class FileDescriptorArgumentConverter {
         stat = bufferToTransferrableObject(stats!.toBuffer());
         // If it's a readable flag, we need to grab contents.
         if (flag.isReadable()) {
-          fd.read(Buffer.alloc(stats!.size), 0, stats!.size, 0, (err?: ApiError | null, bytesRead?: number, buff?: Buffer) => {
+          data = this._pool.alloc(stats!.size);
+          fd.read(arrayBuffer2Buffer(data), 0, stats!.size, 0, (err?: ApiError | null, bytesRead?: number) => {
             if (err) {
               cb(err);
             } else {
-              data = bufferToTransferrableObject(buff!);
+              // Past the bytes that were read, a pooled buffer may still hold
+              // the contents of another file.
               cb(null, {
                 type: SpecialArgType.FD,
                 id: id,
                 data: data,
+                dataLength: bytesRead!,
                 stat: stat,
                 path: p,
                 flag: flag.getFlagString()
@@ -150,6 +233,7 @@ class FileDescriptorArgumentConverter {
             type: SpecialArgType.FD,
             id: id,
             data: new ArrayBuffer(0),
+            dataLength: 0,
             stat: stat,
             path: p,
             flag: flag.getFlagString()
@@ -167,18 +251,83 @@ class FileDescriptorArgumentConverter {
       } else {
         // Apply method on now-changed file descriptor.
         (<any> fd)[request.method]((e?: ApiError) => {
+          if (!e && FileFlag.getFileFlag(fdArg.flag).isWriteable()) {
+            fs.notifyFileChange(this._filePaths[fdArg.id]);
+          }
           if (request.method === 'close') {
             delete this._fileDescriptors[fdArg.id];
+            delete this._filePaths[fdArg.id];
           }
+          // The file descriptor has copied the data.
+          this._pool.release(fdArg.data);
           cb(e);
         });
       }
     });
   }
 
+  /**
+   * Calls a method of a file descriptor that is opened in streaming mode. The
+   * last argument is the callback.
+   */
+  public applyFdRefRequest(method: string, fdRef: IFileDescriptorRefArgument, args: any[]): void {
+    const fd = this._fileDescriptors[fdRef.id],
+      p = this._filePaths[fdRef.id];
+    let cb: Function = args.pop();
+    if (!fd) {
+      return cb(new ApiError(ErrorCode.EBADF));
+    }
+    if (method === 'write' || method === 'truncate' || method === 'utimes' || method === 'chown' || method === 'chmod') {
+      // Tell watchers about the change.
+      const done = cb;
+      cb = function(e?: ApiError | null) {
+        if (!e) {
+          fs.notifyFileChange(p);
+        }
+        return done.apply(null, arguments);
+      };
+    }
+    try {
+      switch (method) {
+        case 'read':
+          // Only the data that is read is sent back.
+          fd.read(Buffer.alloc(args[0]), 0, args[0], args[1], <BFSThreeArgCallback<number, Buffer>> cb);
+          break;
+        case 'write':
+          // The client keeps the data it wrote, so it is not sent back.
+          fd.write(args[0], 0, args[0].length, args[1], (e: ApiError, bytesWritten: number) => cb(e, bytesWritten));
+          break;
+        case 'close':
+          fd.close((e?: ApiError) => {
+            delete this._fileDescriptors[fdRef.id];
+            delete this._filePaths[fdRef.id];
+            cb(e);
+          });
+          break;
+        case 'utimes':
+          fd.utimes(new Date(args[0]), new Date(args[1]), <BFSOneArgCallback> cb);
+          break;
+        case 'stat':
+        case 'truncate':
+        case 'sync':
+        case 'datasync':
+        case 'chown':
+        case 'chmod':
+          (<any> fd)[method].apply(fd, args.concat([cb]));
+          break;
+        default:
+          cb(new ApiError(ErrorCode.ENOTSUP, `Files do not support ${method}.`));
+          break;
+      }
+    } catch (e) {
+      // Some files throw instead of passing errors to the callback.
+      cb(e);
+    }
+  }
+
   private _applyFdChanges(remoteFd: IFileDescriptorArgument, cb: BFSCallback<File>): void {
     const fd = this._fileDescriptors[remoteFd.id],
-      data = transferrableObjectToBuffer(remoteFd.data),
+      data = transferrableObjectToBuffer(remoteFd.data).slice(0, remoteFd.dataLength),
       remoteStats = Stats.fromBuffer(transferrableObjectToBuffer(remoteFd.stat));
 
     // Write data if the file is writable.
@@ -375,19 +524,52 @@ function bufferRemote2Local(buffArg: IBufferArgument): Buffer {
   return transferrableObjectToBuffer(buffArg.data);
 }
 
+/**
+ * @hidden
+ */
+interface IDirentsArgument extends ISpecialArgument {
+  names: string[];
+  types: number[];
+}
+
+/**
+ * @hidden
+ */
+function direntsLocal2Remote(dirents: Dirent[]): IDirentsArgument {
+  return {
+    type: SpecialArgType.DIRENTS,
+    names: dirents.map((d) => d.name),
+    types: dirents.map((d) => d.getType())
+  };
+}
+
+/**
+ * @hidden
+ */
+function direntsRemote2Local(direntsArg: IDirentsArgument): Dirent[] {
+  return direntsArg.names.map((name, i) => new Dirent(name, direntsArg.types[i]));
+}
+
 /**
  * @hidden
  */
 interface IAPIRequest extends IBrowserFSMessage {
   method: string;
   args: Array<number | string | ISpecialArgument>;
+  // Identifies the client, as several clients can share a listener.
+  clientId?: string;
+  // For synchronous requests, the buffer to write the response to.
+  syncBuffer?: SharedArrayBuffer;
+  // Whether the client forwards calls to the files it opens, instead of
+  // receiving their contents.
+  streaming?: boolean;
 }
 
 /**
  * @hidden
  */
 function isAPIRequest(data: any): data is IAPIRequest {
-  return data && typeof data === 'object' && data.hasOwnProperty('browserfsMessage') && data['browserfsMessage'];
+  return data && typeof data === 'object' && data.hasOwnProperty('browserfsMessage') && data['browserfsMessage'] && typeof data['method'] === 'string';
 }
 
 /**
@@ -396,13 +578,193 @@ function isAPIRequest(data: any): data is IAPIRequest {
 interface IAPIResponse extends IBrowserFSMessage {
   cbId: number;
   args: Array<number | string | ISpecialArgument>;
+  // The client that sent the request.
+  clientId?: string;
 }
 
 /**
  * @hidden
  */
 function isAPIResponse(data: any): data is IAPIResponse {
-  return data && typeof data === 'object' && data.hasOwnProperty('browserfsMessage') && data['browserfsMessage'];
+  return data && typeof data === 'object' && data.hasOwnProperty('browserfsMessage') && data['browserfsMessage'] && typeof data['cbId'] === 'number';
+}
+
+/**
+ * Something that WorkerFS can send messages to: a Worker, a MessagePort (e.g.
+ * of a MessageChannel or a SharedWorker), a BroadcastChannel, a window (e.g.
+ * an iframe's contentWindow), a ServiceWorker, or a worker_threads Worker or
+ * MessagePort in Node.
+ */
+export interface WorkerFSEndpoint {
+  postMessage(message: any, ...args: any[]): void;
+}
+
+/**
+ * Checks if the endpoint is a window, which receives messages on the window
+ * that sends them, and needs a target origin.
+ * @hidden
+ */
+function isWindow(endpoint: any): boolean {
+  return endpoint !== null && typeof endpoint === 'object' && endpoint.window === endpoint;
+}
+
+/**
+ * Posts the message to the endpoint, and transfers the given array buffers
+ * instead of copying them. Endpoints that cannot transfer (e.g.
+ * BroadcastChannels) ignore the transfer list, and copy them.
+ * @hidden
+ */
+function postToEndpoint(endpoint: any, message: IAPIRequest | IAPIResponse, origin: string, transfer: ArrayBuffer[] = []): void {
+  if (isWindow(endpoint)) {
+    endpoint.postMessage(message, origin, transfer);
+  } else {
+    endpoint.postMessage(message, transfer);
+  }
+}
+
+/**
+ * Returns the array buffers in the special arguments of a message, which it
+ * can transfer if they are not used after it is sent.
+ * @hidden
+ */
+function getTransferList(args: Array<number | string | ISpecialArgument>): ArrayBuffer[] {
+  const transfer: ArrayBuffer[] = [];
+  args.forEach((arg) => {
+    if (arg && typeof arg === 'object') {
+      Object.keys(arg).forEach((key) => {
+        const value = (<any> arg)[key];
+        if (value instanceof ArrayBuffer && transfer.indexOf(value) === -1) {
+          transfer.push(value);
+        }
+      });
+    }
+  });
+  return transfer;
+}
+
+/**
+ * Calls the handler with each message from the endpoint, along with the
+ * object that sent it, if any.
+ * @param origin The origin of the windows to accept messages from, or '*'.
+ * @hidden
+ */
+function listenToEndpoint(endpoint: any, origin: string, handler: (data: any, source: any, sourceOrigin: string) => void): void {
+  let target = endpoint, source: any = null;
+  if (isWindow(endpoint) && endpoint !== global) {
+    // Other windows post messages to ours.
+    target = global;
+    source = endpoint;
+  } else if (typeof ServiceWorker !== 'undefined' && endpoint instanceof ServiceWorker) {
+    target = navigator.serviceWorker;
+  }
+  if (typeof target.addEventListener === 'function') {
+    target.addEventListener('message', (e: MessageEvent) => {
+      if ((source !== null && e.source !== source) || (origin !== '*' && e.origin && e.origin !== origin)) {
+        return;
+      }
+      handler(e.data, e.source, e.origin);
+    });
+    // MessagePorts only deliver messages to event listeners once started.
+    if (typeof target.start === 'function') {
+      target.start();
+    }
+  } else {
+    // Node's worker_threads.Worker is an EventEmitter.
+    target.on('message', (data: any) => handler(data, null, ''));
+  }
+}
+
+/**
+ * The state of a synchronous request, in the first word of its buffer. The
+ * second word holds the length of the response, which follows the header.
+ * @hidden
+ */
+enum SyncState {
+  // The worker is blocked until the response is ready.
+  WAITING,
+  // The response is in the buffer.
+  DONE,
+  // The response does not fit in the buffer.
+  TOO_LARGE
+}
+
+/**
+ * @hidden
+ */
+const SYNC_HEADER_SIZE = 8;
+
+/**
+ * The initial size of the buffer for synchronous responses, which grows to fit
+ * larger responses.
+ * @hidden
+ */
+const SYNC_BUFFER_SIZE = 64 * 1024;
+
+/**
+ * Checks if this thread can block on Atomics.wait. Browsers only provide
+ * SharedArrayBuffer to cross-origin isolated pages, and do not let the main
+ * thread block.
+ * @hidden
+ */
+function canBlock(): boolean {
+  if (typeof SharedArrayBuffer === 'undefined' || typeof Atomics === 'undefined') {
+    return false;
+  }
+  try {
+    // Returns 'not-equal' right away, or throws if waiting is not allowed.
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 1, 0);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Encodes the arguments of a response for a synchronous request: their JSON,
+ * with array buffers replaced by their location in the binary data that
+ * follows it.
+ * @hidden
+ */
+function encodeSyncResponse(response: IAPIResponse): Buffer {
+  const buffers: Buffer[] = [];
+  let offset = 0;
+  const json = Buffer.from(JSON.stringify(response.args, (key: string, value: any) => {
+    if (value instanceof ArrayBuffer || (typeof SharedArrayBuffer !== 'undefined' && value instanceof SharedArrayBuffer)) {
+      const buff = transferrableObjectToBuffer(value);
+      buffers.push(buff);
+      offset += buff.length;
+      return { syncOffset: offset - buff.length, syncLength: buff.length };
+    }
+    return value;
+  }));
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(json.length, 0);
+  return Buffer.concat([header, json].concat(buffers));
+}
+
+/**
+ * @hidden
+ */
+function decodeSyncResponse(data: Buffer): Array<number | string | ISpecialArgument> {
+  const binaryStart = 4 + data.readUInt32LE(0);
+  return JSON.parse(data.toString('utf8', 4, binaryStart), (key: string, value: any) => {
+    if (value && typeof value === 'object' && typeof value.syncOffset === 'number') {
+      const start = binaryStart + value.syncOffset;
+      return bufferToTransferrableObject(copyingSlice(data, start, start + value.syncLength));
+    }
+    return value;
+  });
+}
+
+/**
+ * Wakes up the worker that waits for a synchronous response.
+ * @hidden
+ */
+function wakeSyncWaiter(state: Int32Array, newState: SyncState): void {
+  Atomics.store(state, 0, newState);
+  // Atomics.wake was renamed to Atomics.notify.
+  const atomics: any = Atomics;
+  (atomics.notify || atomics.wake).call(Atomics, state, 0, 1);
 }
 
 /**
@@ -410,10 +772,13 @@ function isAPIResponse(data: any): data is IAPIResponse {
  */
 class WorkerFile extends PreloadFile<WorkerFS> {
   private _remoteFdId: number;
+  // The array buffer that the contents were received in.
+  private _remoteData: ArrayBuffer | SharedArrayBuffer | null;
 
-  constructor(_fs: WorkerFS, _path: string, _flag: FileFlag, _stat: Stats, remoteFdId: number, contents?: Buffer) {
-    super(_fs, _path, _flag, _stat, contents);
+  constructor(_fs: WorkerFS, _path: string, _flag: FileFlag, _stat: Stats, remoteFdId: number, remoteData: ArrayBuffer | SharedArrayBuffer | null = null, dataLength: number = 0) {
+    super(_fs, _path, _flag, _stat, remoteData ? transferrableObjectToBuffer(remoteData).slice(0, dataLength) : undefined);
     this._remoteFdId = remoteFdId;
+    this._remoteData = remoteData;
   }
 
   public getRemoteFdId() {
@@ -424,10 +789,15 @@ class WorkerFile extends PreloadFile<WorkerFS> {
    * @hidden
    */
   public toRemoteArg(): IFileDescriptorArgument {
+    const buff = this.getBuffer(),
+      u8 = buffer2Uint8array(buff);
     return {
       type: SpecialArgType.FD,
       id: this._remoteFdId,
-      data: bufferToTransferrableObject(this.getBuffer()),
+      // Send the array buffer that the contents were received in as is, as it
+      // may be longer than the contents.
+      data: u8.buffer === this._remoteData && u8.byteOffset === 0 ? this._remoteData : bufferToTransferrableObject(buff),
+      dataLength: buff.length,
       stat: bufferToTransferrableObject(this.getStats().toBuffer()),
       path: this.getPath(),
       flag: this.getFlag().getFlagString()
@@ -442,6 +812,14 @@ class WorkerFile extends PreloadFile<WorkerFS> {
     this._syncClose('close', cb);
   }
 
+  public syncSync(): void {
+    this._syncCloseSync('sync');
+  }
+
+  public closeSync(): void {
+    this._syncCloseSync('close');
+  }
+
   private _syncClose(type: string, cb: BFSOneArgCallback): void {
     if (this.isDirty()) {
       (<WorkerFS> this._fs).syncClose(type, this, (e?: ApiError) => {
@@ -454,11 +832,148 @@ class WorkerFile extends PreloadFile<WorkerFS> {
       cb();
     }
   }
+
+  private _syncCloseSync(type: string): void {
+    if (this.isDirty()) {
+      (<WorkerFS> this._fs).syncCloseSync(type, this);
+      this.resetDirty();
+    }
+  }
+}
+
+/**
+ * Represents a remote file that is opened in streaming mode: reads, writes and
+ * other calls are forwarded to the file descriptor on the remote side, so only
+ * the data that is read or written is transferred.
+ */
+class WorkerStreamFile extends BaseFile implements File {
+  private _fs: WorkerFS;
+  private _flag: FileFlag;
+  private _remoteFdId: number;
+  private _pos: number = 0;
+
+  constructor(_fs: WorkerFS, _flag: FileFlag, remoteFdId: number) {
+    super();
+    this._fs = _fs;
+    this._flag = _flag;
+    this._remoteFdId = remoteFdId;
+  }
+
+  public getRemoteFdId() {
+    return this._remoteFdId;
+  }
+
+  public getPos(): number | undefined {
+    // The remote file descriptor appends to the end of the file.
+    return this._flag.isAppendable() ? undefined : this._pos;
+  }
+
+  /**
+   * @hidden
+   */
+  public toRemoteArg(): IFileDescriptorRefArgument {
+    return {
+      type: SpecialArgType.FD_REF,
+      id: this._remoteFdId
+    };
+  }
+
+  public stat(cb: BFSCallback<Stats>): void {
+    this._fs.fileCall('stat', [this, cb]);
+  }
+  public statSync(): Stats {
+    return this._fs.fileCallSync('stat', [this])[0];
+  }
+  public close(cb: BFSOneArgCallback): void {
+    this._fs.fileCall('close', [this, cb]);
+  }
+  public closeSync(): void {
+    this._fs.fileCallSync('close', [this]);
+  }
+  public truncate(len: number, cb: BFSOneArgCallback): void {
+    this._fs.fileCall('truncate', [this, len, cb]);
+  }
+  public truncateSync(len: number): void {
+    this._fs.fileCallSync('truncate', [this, len]);
+  }
+  public sync(cb: BFSOneArgCallback): void {
+    this._fs.fileCall('sync', [this, cb]);
+  }
+  public syncSync(): void {
+    this._fs.fileCallSync('sync', [this]);
+  }
+  public chown(uid: number, gid: number, cb: BFSOneArgCallback): void {
+    this._fs.fileCall('chown', [this, uid, gid, cb]);
+  }
+  public chownSync(uid: number, gid: number): void {
+    this._fs.fileCallSync('chown', [this, uid, gid]);
+  }
+  public chmod(mode: number, cb: BFSOneArgCallback): void {
+    this._fs.fileCall('chmod', [this, mode, cb]);
+  }
+  public chmodSync(mode: number): void {
+    this._fs.fileCallSync('chmod', [this, mode]);
+  }
+  public utimes(atime: Date, mtime: Date, cb: BFSOneArgCallback): void {
+    this._fs.fileCall('utimes', [this, atime.getTime(), mtime.getTime(), cb]);
+  }
+  public utimesSync(atime: Date, mtime: Date): void {
+    this._fs.fileCallSync('utimes', [this, atime.getTime(), mtime.getTime()]);
+  }
+
+  public write(buffer: Buffer, offset: number, length: number, position: number | null, cb: BFSThreeArgCallback<number, Buffer>): void {
+    this._fs.fileCall('write', [this, buffer.slice(offset, offset + length), position, (e?: ApiError, bytesWritten?: number) => {
+      if (e) {
+        cb(e);
+      } else {
+        this._advance(position, bytesWritten!);
+        cb(null, bytesWritten, buffer);
+      }
+    }]);
+  }
+  public writeSync(buffer: Buffer, offset: number, length: number, position: number | null): number {
+    const bytesWritten: number = this._fs.fileCallSync('write', [this, buffer.slice(offset, offset + length), position])[0];
+    this._advance(position, bytesWritten);
+    return bytesWritten;
+  }
+  public read(buffer: Buffer, offset: number, length: number, position: number | null, cb: BFSThreeArgCallback<number, Buffer>): void {
+    this._fs.fileCall('read', [this, length, position, (e?: ApiError, bytesRead?: number, data?: Buffer) => {
+      if (e) {
+        cb(e);
+      } else {
+        data!.copy(buffer, offset, 0, bytesRead);
+        this._advance(position, bytesRead!);
+        cb(null, bytesRead, buffer);
+      }
+    }]);
+  }
+  public readSync(buffer: Buffer, offset: number, length: number, position: number | null): number {
+    const [bytesRead, data] = this._fs.fileCallSync('read', [this, length, position]);
+    data.copy(buffer, offset, 0, bytesRead);
+    this._advance(position, bytesRead);
+    return bytesRead;
+  }
+
+  /**
+   * Moves the file position past the data that was read or written at the
+   * given position.
+   */
+  private _advance(position: number | null, length: number): void {
+    if (typeof position === 'number') {
+      this._pos = position + length;
+    }
+  }
 }
 
 export interface WorkerFSOptions {
-  // The target worker that you want to connect to, or the current worker if in a worker context.
-  worker: Worker;
+  // The endpoint of the remote listener: e.g. the target worker, the current worker if in a worker context, a SharedWorker's port, or a window.
+  worker: WorkerFSEndpoint;
+  // The origin of the remote window (optional; defaults to '*').
+  origin?: string;
+  // Enable synchronous operations, which block on a SharedArrayBuffer (optional; defaults to false).
+  sync?: boolean;
+  // Forward reads and writes on open files to the remote side, instead of transferring their entire contents when they are opened (optional; defaults to false).
+  streaming?: boolean;
 }
 
 /**
@@ -485,8 +1000,28 @@ export interface WorkerFSOptions {
  *   });
  * ```
  *
- * Note that synchronous operations are not permitted on the WorkerFS, regardless
- * of the configuration option of the remote FS.
+ * Any object with `postMessage` works in place of a worker: a MessagePort, a
+ * BroadcastChannel, a window, a ServiceWorker, or Node's worker_threads. A
+ * listener serves several clients, so e.g. all pages can share the file system
+ * of a SharedWorker:
+ *
+ * ```javascript
+ *   // In the SharedWorker.
+ *   BrowserFS.FileSystem.WorkerFS.attachRemoteListener(self);
+ *   // In each page.
+ *   BrowserFS.configure({ fs: "WorkerFS", options: { worker: new SharedWorker("fs.js").port }}, cb);
+ * ```
+ *
+ * Synchronous operations are only permitted with the `sync` option, in a
+ * worker of a cross-origin isolated page (or in Node). The worker then blocks
+ * with `Atomics.wait` while the remote side services each request, which lets
+ * e.g. Emscripten programs use the remote file system. Otherwise, WorkerFS is
+ * asynchronous only, regardless of the configuration of the remote FS.
+ *
+ * Opening a file transfers its entire contents, and closing or syncing it
+ * transfers them back. With the `streaming` option, open files instead forward
+ * each read and write to the file descriptor on the remote side, so e.g.
+ * reading the header of a large file only transfers the header.
  */
 export default class WorkerFS extends BaseFileSystem implements FileSystem {
   public static readonly Name = "WorkerFS";
@@ -494,35 +1029,70 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
   public static readonly Options: FileSystemOptions = {
     worker: {
       type: "object",
-      description: "The target worker that you want to connect to, or the current worker if in a worker context.",
+      description: "The endpoint of the remote listener: e.g. the target worker, the current worker if in a worker context, a SharedWorker's port, or a window.",
       validator: function(v: object, cb: BFSOneArgCallback): void {
         // Check for a `postMessage` function.
         if ((<any> v)['postMessage']) {
           cb();
         } else {
-          cb(new ApiError(ErrorCode.EINVAL, `option must be a Web Worker instance.`));
+          cb(new ApiError(ErrorCode.EINVAL, `option must be a Worker, MessagePort, window or other object with a postMessage method.`));
         }
       }
+    },
+    origin: {
+      type: "string",
+      optional: true,
+      description: "The origin of the remote window. Defaults to '*'."
+    },
+    sync: {
+      type: "boolean",
+      optional: true,
+      description: "Enable synchronous operations, if this thread can block on a SharedArrayBuffer. Defaults to false."
+    },
+    streaming: {
+      type: "boolean",
+      optional: true,
+      description: "Forward reads and writes on open files to the remote side, instead of transferring their entire contents when they are opened. Defaults to false."
     }
   };
 
   public static Create(opts: WorkerFSOptions, cb: BFSCallback<WorkerFS>): void {
-    const fs = new WorkerFS(opts.worker);
+    const fs = new WorkerFS(opts.worker, !!opts.sync, opts.origin || '*', !!opts.streaming);
     fs._initialize(() => {
       cb(null, fs);
     });
   }
   public static isAvailable(): boolean {
-    return typeof(importScripts) !== 'undefined' || typeof(Worker) !== 'undefined';
+    return typeof(importScripts) !== 'undefined' || typeof(Worker) !== 'undefined' || typeof(MessageChannel) !== 'undefined';
   }
 
   /**
-   * Attaches a listener to the remote worker for file system requests.
+   * Attaches a listener to the remote endpoint for file system requests. The
+   * listener serves every client that sends requests through the endpoint,
+   * e.g. every page that posts to a ServiceWorker. In a SharedWorker, pass
+   * its global scope (`self`) to serve every page that connects to it.
+   * @param origin The origin of the windows to accept requests from (optional;
+   *   defaults to '*').
    */
-  public static attachRemoteListener(worker: Worker) {
+  public static attachRemoteListener(endpoint: WorkerFSEndpoint | EventTarget, origin: string = '*') {
     const fdConverter = new FileDescriptorArgumentConverter();
+    // Synchronous responses that did not fit in their client's buffer.
+    const pendingSyncResponses: { [clientId: string]: Buffer } = {};
+
+    function writeSyncResponse(syncBuffer: SharedArrayBuffer, clientId: string, data: Buffer): void {
+      const state = new Int32Array(syncBuffer, 0, 2);
+      state[1] = data.length;
+      if (SYNC_HEADER_SIZE + data.length > syncBuffer.byteLength) {
+        // The worker asks again with a buffer that is large enough.
+        pendingSyncResponses[clientId] = data;
+        wakeSyncWaiter(state, SyncState.TOO_LARGE);
+      } else {
+        data.copy(arrayBuffer2Buffer(syncBuffer), SYNC_HEADER_SIZE);
+        wakeSyncWaiter(state, SyncState.DONE);
+      }
+    }
 
-    function argLocal2Remote(arg: any, requestArgs: any[], cb: BFSCallback<any>): void {
+    function argLocal2Remote(arg: any, request: IAPIRequest, requestArgs: any[], cb: BFSCallback<any>): void {
       switch (typeof arg) {
         case 'object':
           if (arg instanceof Stats) {
@@ -531,13 +1101,15 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
             cb(null, apiErrorLocal2Remote(arg));
           } else if (arg instanceof BaseFile) {
             // Pass in p and flags from original request.
-            cb(null, fdConverter.toRemoteArg(<File> arg, requestArgs[0], requestArgs[1], cb));
+            fdConverter.toRemoteArg(<File> arg, requestArgs[0], requestArgs[1], !!request.streaming, cb);
           } else if (arg instanceof FileFlag) {
             cb(null, fileFlagLocal2Remote(arg));
           } else if (arg instanceof Buffer) {
             cb(null, bufferLocal2Remote(arg));
           } else if (arg instanceof Error) {
             cb(null, errorLocal2Remote(arg));
+          } else if (Array.isArray(arg) && arg.length > 0 && arg[0] instanceof Dirent) {
+            cb(null, direntsLocal2Remote(arg));
           } else {
             cb(null, arg);
           }
@@ -548,7 +1120,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
       }
     }
 
-    function argRemote2Local(arg: any, fixedRequestArgs: any[]): any {
+    function argRemote2Local(arg: any, request: IAPIRequest, fixedRequestArgs: any[], respond: (response: IAPIResponse) => void): any {
       if (!arg) {
         return arg;
       }
@@ -573,14 +1145,14 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
                         cbId: cbId,
                         args: [apiErrorLocal2Remote(err)]
                       };
-                      worker.postMessage(message);
+                      respond(message);
                     }
                   }
 
                   for (i = 0; i < arguments.length; i++) {
                     // Capture i and argument.
                     ((i: number, arg: any) => {
-                      argLocal2Remote(arg, fixedRequestArgs, (err, fixedArg?) => {
+                      argLocal2Remote(arg, request, fixedRequestArgs, (err, fixedArg?) => {
                         fixedArgs[i] = fixedArg;
                         if (err) {
                           abortAndSendError(err);
@@ -590,7 +1162,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
                             cbId: cbId,
                             args: fixedArgs
                           };
-                          worker.postMessage(message);
+                          respond(message);
                         }
                       });
                     })(i, arguments[i]);
@@ -602,7 +1174,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
                       cbId: cbId,
                       args: fixedArgs
                     };
-                    worker.postMessage(message);
+                    respond(message);
                   }
 
                 };
@@ -628,13 +1200,39 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
       }
     }
 
-    worker.addEventListener('message', (e: MessageEvent) => {
-      const request: object = e.data;
-      if (isAPIRequest(request)) {
+    function serve(target: any): void {
+      listenToEndpoint(target, origin, (request: object, source: any, sourceOrigin: string) => {
+        if (!isAPIRequest(request)) {
+          return;
+        }
         const args = request.args,
-          fixedArgs = new Array<any>(args.length);
+          fixedArgs = new Array<any>(args.length),
+          clientId = request.clientId || '',
+          // Reply to the window or ServiceWorker client that sent the request.
+          replyTarget = source && typeof source.postMessage === 'function' ? source : target;
+        const respond = (response: IAPIResponse): void => {
+          response.clientId = request.clientId;
+          if (request.syncBuffer) {
+            writeSyncResponse(request.syncBuffer, clientId, encodeSyncResponse(response));
+          } else {
+            // The listener does not use the array buffers of responses after
+            // sending them: they are either serialized objects, or buffers
+            // that the file system returned to it.
+            postToEndpoint(replyTarget, response, isWindow(replyTarget) ? sourceOrigin : origin, getTransferList(response.args));
+          }
+        };
+
+        if (args.length > 0 && args[0] && (<ISpecialArgument> args[0]).type === SpecialArgType.FD_REF) {
+          // Methods of files that are opened in streaming mode.
+          fdConverter.applyFdRefRequest(request.method, <IFileDescriptorRefArgument> args[0], args.slice(1).map((arg) => argRemote2Local(arg, request, fixedArgs, respond)));
+          return;
+        }
 
         switch (request.method) {
+          case 'syncResume':
+            writeSyncResponse(request.syncBuffer!, clientId, pendingSyncResponses[clientId]);
+            delete pendingSyncResponses[clientId];
+            break;
           case 'close':
           case 'sync':
             (() => {
@@ -647,7 +1245,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
                   cbId: remoteCb.id,
                   args: err ? [apiErrorLocal2Remote(err)] : []
                 };
-                worker.postMessage(response);
+                respond(response);
               });
             })();
             break;
@@ -667,24 +1265,38 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
                   args: [probeResponse]
                 };
 
-              worker.postMessage(response);
+              respond(response);
             })();
             break;
           default:
             // File system methods.
             for (let i = 0; i < args.length; i++) {
-              fixedArgs[i] = argRemote2Local(args[i], fixedArgs);
+              fixedArgs[i] = argRemote2Local(args[i], request, fixedArgs, respond);
             }
-            const rootFS = fs.getRootFS();
-            (<Function> (<any> rootFS)[request.method]).apply(rootFS, fixedArgs);
+            // Through the FS object, so that its watchers see the changes.
+            fs.applyToRoot(request.method, fixedArgs);
             break;
         }
-      }
-    });
+      });
+    }
+
+    if ('onconnect' in endpoint) {
+      // A SharedWorker's global scope: serve the port of each page that connects.
+      (<EventTarget> endpoint).addEventListener('connect', (e: MessageEvent) => e.ports.forEach(serve));
+    } else {
+      serve(endpoint);
+    }
   }
 
-  private _worker: Worker;
+  private _worker: WorkerFSEndpoint;
+  private _origin: string;
+  // Tells the listener's responses to this client apart from those to others.
+  private _clientId = Math.random().toString(36).slice(2) + Date.now().toString(36);
   private _callbackConverter = new CallbackArgumentConverter();
+  // The buffer for synchronous responses, or null if they are not enabled.
+  private _syncBuffer: SharedArrayBuffer | null = null;
+  // Whether open files forward calls to the remote side.
+  private _streaming: boolean;
 
   private _isInitialized: boolean = false;
   private _isReadOnly: boolean = false;
@@ -693,14 +1305,18 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
 
   /**
    * Constructs a new WorkerFS instance that connects with BrowserFS running on
-   * the specified worker.
+   * the specified endpoint.
    */
-  private constructor(worker: Worker) {
+  private constructor(worker: WorkerFSEndpoint, sync: boolean, origin: string, streaming: boolean) {
     super();
     this._worker = worker;
-    this._worker.addEventListener('message', (e: MessageEvent) => {
-      const resp: object = e.data;
-      if (isAPIResponse(resp)) {
+    this._origin = origin;
+    this._streaming = streaming;
+    if (sync && canBlock()) {
+      this._syncBuffer = new SharedArrayBuffer(SYNC_BUFFER_SIZE);
+    }
+    listenToEndpoint(worker, origin, (resp: object) => {
+      if (isAPIResponse(resp) && resp.clientId === this._clientId) {
         let i: number;
         const args = resp.args;
         const fixedArgs = new Array(args.length);
@@ -718,7 +1334,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
   }
 
   public isReadOnly(): boolean { return this._isReadOnly; }
-  public supportsSynch(): boolean { return false; }
+  public supportsSynch(): boolean { return this._syncBuffer !== null; }
   public supportsLinks(): boolean { return this._supportLinks; }
   public supportsProps(): boolean { return this._supportProps; }
 
@@ -743,6 +1359,15 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
   public readdir(p: string, cb: BFSCallback<string[]>): void {
     this._rpc('readdir', arguments);
   }
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    this._rpc('readdirWithTypes', arguments);
+  }
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    this._rpc('readdirPage', arguments);
+  }
+  public readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    this._rpc('readdirRecursive', arguments);
+  }
   public exists(p: string, cb: (exists: boolean) => void): void {
     this._rpc('exists', arguments);
   }
@@ -761,6 +1386,18 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
   public appendFile(fname: string, data: any, encoding: string, flag: FileFlag, mode: number, cb: BFSOneArgCallback): void {
     this._rpc('appendFile', arguments);
   }
+  public mkdirp(p: string, mode: number, cb: BFSOneArgCallback): void {
+    this._rpc('mkdirp', arguments);
+  }
+  public rimraf(p: string, cb: BFSOneArgCallback): void {
+    this._rpc('rimraf', arguments);
+  }
+  public copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void {
+    this._rpc('copyFile', arguments);
+  }
+  public cp(src: string, dest: string, options: CopyOptions, cb: BFSOneArgCallback): void {
+    this._rpc('cp', arguments);
+  }
   public chmod(p: string, isLchmod: boolean, mode: number, cb: Function): void {
     this._rpc('chmod', arguments);
   }
@@ -779,13 +1416,136 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
   public readlink(p: string, cb: Function): void {
     this._rpc('readlink', arguments);
   }
+  public getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void {
+    this._rpc('getxattr', arguments);
+  }
+  public setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void {
+    this._rpc('setxattr', arguments);
+  }
+  public listxattr(p: string, cb: BFSCallback<string[]>): void {
+    this._rpc('listxattr', arguments);
+  }
+  public removexattr(p: string, name: string, cb: BFSOneArgCallback): void {
+    this._rpc('removexattr', arguments);
+  }
+
+  public renameSync(oldPath: string, newPath: string): void {
+    this._rpcSync('rename', arguments);
+  }
+  public statSync(p: string, isLstat: boolean): Stats {
+    return this._rpcSync('stat', arguments)[0];
+  }
+  public openSync(p: string, flag: FileFlag, mode: number): File {
+    return this._rpcSync('open', arguments)[0];
+  }
+  public unlinkSync(p: string): void {
+    this._rpcSync('unlink', arguments);
+  }
+  public rmdirSync(p: string): void {
+    this._rpcSync('rmdir', arguments);
+  }
+  public mkdirSync(p: string, mode: number): void {
+    this._rpcSync('mkdir', arguments);
+  }
+  public readdirSync(p: string): string[] {
+    return this._rpcSync('readdir', arguments)[0];
+  }
+  public readdirWithTypesSync(p: string): Dirent[] {
+    return this._rpcSync('readdirWithTypes', arguments)[0];
+  }
+  public readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage {
+    const [entries, nextCursor] = this._rpcSync('readdirPage', arguments);
+    return { entries: entries, cursor: nextCursor };
+  }
+  public readdirRecursiveSync(p: string, maxDepth: number): Dirent[] {
+    return this._rpcSync('readdirRecursive', arguments)[0];
+  }
+  public realpathSync(p: string, cache: { [path: string]: string }): string {
+    return this._rpcSync('realpath', arguments)[0];
+  }
+  public truncateSync(p: string, len: number): void {
+    this._rpcSync('truncate', arguments);
+  }
+  public readFileSync(fname: string, encoding: string, flag: FileFlag): any {
+    return this._rpcSync('readFile', arguments)[0];
+  }
+  public writeFileSync(fname: string, data: any, encoding: string, flag: FileFlag, mode: number): void {
+    this._rpcSync('writeFile', arguments);
+  }
+  public appendFileSync(fname: string, data: any, encoding: string, flag: FileFlag, mode: number): void {
+    this._rpcSync('appendFile', arguments);
+  }
+  public mkdirpSync(p: string, mode: number): void {
+    this._rpcSync('mkdirp', arguments);
+  }
+  public rimrafSync(p: string): void {
+    this._rpcSync('rimraf', arguments);
+  }
+  public copyFileSync(src: string, dest: string, flags: number): void {
+    this._rpcSync('copyFile', arguments);
+  }
+  public cpSync(src: string, dest: string, options: CopyOptions): void {
+    this._rpcSync('cp', arguments);
+  }
+  public chmodSync(p: string, isLchmod: boolean, mode: number): void {
+    this._rpcSync('chmod', arguments);
+  }
+  public chownSync(p: string, isLchown: boolean, uid: number, gid: number): void {
+    this._rpcSync('chown', arguments);
+  }
+  public utimesSync(p: string, atime: Date, mtime: Date): void {
+    this._rpcSync('utimes', arguments);
+  }
+  public linkSync(srcpath: string, dstpath: string): void {
+    this._rpcSync('link', arguments);
+  }
+  public symlinkSync(srcpath: string, dstpath: string, type: string): void {
+    this._rpcSync('symlink', arguments);
+  }
+  public readlinkSync(p: string): string {
+    return this._rpcSync('readlink', arguments)[0];
+  }
+  public getxattrSync(p: string, name: string): Buffer {
+    return this._rpcSync('getxattr', arguments)[0];
+  }
+  public setxattrSync(p: string, name: string, value: Buffer, flags: number): void {
+    this._rpcSync('setxattr', arguments);
+  }
+  public listxattrSync(p: string): string[] {
+    return this._rpcSync('listxattr', arguments)[0];
+  }
+  public removexattrSync(p: string, name: string): void {
+    this._rpcSync('removexattr', arguments);
+  }
 
   public syncClose(method: string, fd: File, cb: BFSOneArgCallback): void {
-    this._worker.postMessage({
+    const fdArg = (<WorkerFile> fd).toRemoteArg();
+    // A closed file no longer needs its contents, so they can be transferred.
+    this._post({
       browserfsMessage: true,
       method: method,
-      args: [(<WorkerFile> fd).toRemoteArg(), this._callbackConverter.toRemoteArg(cb)]
-    });
+      args: [fdArg, this._callbackConverter.toRemoteArg(cb)]
+    }, method === 'close' ? getTransferList([fdArg]) : []);
+  }
+
+  public syncCloseSync(method: string, fd: File): void {
+    this._rpcSync(method, [fd]);
+  }
+
+  /**
+   * Calls a method of a file that is opened in streaming mode on the remote
+   * side. The last argument is the callback.
+   */
+  public fileCall(method: string, args: any[]): void {
+    this._rpc(method, args);
+  }
+
+  /**
+   * Synchronous version of fileCall.
+   * @return The arguments of the callback after the error.
+   */
+  public fileCallSync(method: string, args: any[]): any[] {
+    return this._rpcSync(method, args);
   }
 
   /**
@@ -804,7 +1564,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
           cb();
         })]
       };
-      this._worker.postMessage(message);
+      this._post(message);
     } else {
       cb();
     }
@@ -823,7 +1583,10 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
               return apiErrorRemote2Local(<IAPIErrorArgument> specialArg);
             case SpecialArgType.FD:
               const fdArg = <IFileDescriptorArgument> specialArg;
-              return new WorkerFile(this, fdArg.path, FileFlag.getFileFlag(fdArg.flag), Stats.fromBuffer(transferrableObjectToBuffer(fdArg.stat)), fdArg.id, transferrableObjectToBuffer(fdArg.data));
+              if (this._streaming) {
+                return new WorkerStreamFile(this, FileFlag.getFileFlag(fdArg.flag), fdArg.id);
+              }
+              return new WorkerFile(this, fdArg.path, FileFlag.getFileFlag(fdArg.flag), Stats.fromBuffer(transferrableObjectToBuffer(fdArg.stat)), fdArg.id, fdArg.data, fdArg.dataLength);
             case SpecialArgType.STATS:
               return statsRemote2Local(<IStatsArgument> specialArg);
             case SpecialArgType.FILEFLAG:
@@ -832,6 +1595,8 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
               return bufferRemote2Local(<IBufferArgument> specialArg);
             case SpecialArgType.ERROR:
               return errorRemote2Local(<IErrorArgument> specialArg);
+            case SpecialArgType.DIRENTS:
+              return direntsRemote2Local(<IDirentsArgument> specialArg);
             default:
               return arg;
           }
@@ -843,7 +1608,7 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
     }
   }
 
-  private _rpc(methodName: string, args: IArguments) {
+  private _rpc(methodName: string, args: ArrayLike<any>) {
     const fixedArgs = new Array(args.length);
     for (let i = 0; i < args.length; i++) {
       fixedArgs[i] = this._argLocal2Remote(args[i]);
@@ -853,7 +1618,68 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
       method: methodName,
       args: fixedArgs
     };
-    this._worker.postMessage(message);
+    this._post(message);
+  }
+
+  private _post(request: IAPIRequest, transfer: ArrayBuffer[] = []): void {
+    request.clientId = this._clientId;
+    if (this._streaming) {
+      request.streaming = true;
+    }
+    postToEndpoint(this._worker, request, this._origin, transfer);
+  }
+
+  /**
+   * Sends a request, and blocks until the remote side writes the response to
+   * the shared buffer.
+   * @return The arguments of the callback after the error.
+   */
+  private _rpcSync(methodName: string, args: ArrayLike<any>): any[] {
+    if (this._syncBuffer === null) {
+      throw new ApiError(ErrorCode.ENOTSUP, `Synchronous operations require the sync option, and a worker that can block on a SharedArrayBuffer.`);
+    }
+    const fixedArgs = new Array(args.length + 1);
+    for (let i = 0; i < args.length; i++) {
+      fixedArgs[i] = this._argLocal2Remote(args[i]);
+    }
+    // Stands in for the callback; the response goes to the shared buffer.
+    const cbArg: ICallbackArgument = { type: SpecialArgType.CB, id: -1 };
+    fixedArgs[args.length] = cbArg;
+
+    let state = new Int32Array(this._syncBuffer, 0, 2);
+    Atomics.store(state, 0, SyncState.WAITING);
+    const message: IAPIRequest = {
+      browserfsMessage: true,
+      method: methodName,
+      args: fixedArgs,
+      syncBuffer: this._syncBuffer
+    };
+    this._post(message);
+    while (true) {
+      while (Atomics.load(state, 0) === SyncState.WAITING) {
+        Atomics.wait(state, 0, SyncState.WAITING);
+      }
+      if (Atomics.load(state, 0) === SyncState.DONE) {
+        break;
+      }
+      // Grow the buffer, and ask for the response again.
+      this._syncBuffer = new SharedArrayBuffer(SYNC_HEADER_SIZE + state[1]);
+      state = new Int32Array(this._syncBuffer, 0, 2);
+      const resume: IAPIRequest = {
+        browserfsMessage: true,
+        method: 'syncResume',
+        args: [],
+        syncBuffer: this._syncBuffer
+      };
+      this._post(resume);
+    }
+
+    const responseArgs = decodeSyncResponse(arrayBuffer2Buffer(this._syncBuffer).slice(SYNC_HEADER_SIZE, SYNC_HEADER_SIZE + state[1]));
+    const rv = responseArgs.map((arg) => this._argRemote2Local(arg));
+    if (rv[0]) {
+      throw rv[0];
+    }
+    return rv.slice(1);
   }
 
   /**
@@ -871,6 +1697,8 @@ export default class WorkerFS extends BaseFileSystem implements FileSystem {
           return apiErrorLocal2Remote(arg);
         } else if (arg instanceof WorkerFile) {
           return (<WorkerFile> arg).toRemoteArg();
+        } else if (arg instanceof WorkerStreamFile) {
+          return (<WorkerStreamFile> arg).toRemoteArg();
         } else if (arg instanceof FileFlag) {
           return fileFlagLocal2Remote(arg);
         } else if (arg instanceof Buffer) {
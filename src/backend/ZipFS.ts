@@ -1,12 +1,17 @@
 import {ApiError, ErrorCode} from '../core/api_error';
 import {default as Stats, FileType} from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import {SynchronousFileSystem, FileSystem, BFSCallback, FileSystemOptions} from '../core/file_system';
 import {File} from '../core/file';
 import {FileFlag, ActionType} from '../core/file_flag';
-import {NoSyncFile} from '../generic/preload_file';
+import {default as PreloadFile, NoSyncFile} from '../generic/preload_file';
 import {Arrayish, arrayish2Buffer, copyingSlice, bufferValidator} from '../core/util';
 import ExtendedASCII from '../generic/extended_ascii';
+import {AES_EXTRA_FIELD_ID, zipCryptoDecrypt, aesDecrypt, parseAesExtraField} from '../generic/zip_encryption';
 import setImmediate from '../generic/setImmediate';
+import {fetchIsAvailable, fetchFileRangeAsync, fetchFileSizeAsync} from '../generic/fetch';
+import {asyncDownloadFileRange, getFileSizeAsync} from '../generic/xhr';
+import * as path from 'path';
 /**
  * @hidden
  */
@@ -14,7 +19,15 @@ const inflateRaw:
   (data: Arrayish<number>, options?: {
     chunkSize: number;
   }) => Arrayish<number> = require('pako/lib/inflate').inflateRaw;
-import {FileIndex, DirInode, FileInode, isDirInode, isFileInode} from '../generic/file_index';
+/**
+ * @hidden
+ */
+const deflateRaw: (data: Arrayish<number>) => Arrayish<number> = require('pako/lib/deflate').deflateRaw;
+/**
+ * @hidden
+ */
+const crc32: (crc: number, data: Arrayish<number>, len: number, pos: number) => number = require('pako/lib/zlib/crc32');
+import {FileIndex, Inode, DirInode, FileInode, isDirInode, isFileInode} from '../generic/file_index';
 
 /**
  * Maps CompressionMethod => function that decompresses.
@@ -22,6 +35,12 @@ import {FileIndex, DirInode, FileInode, isDirInode, isFileInode} from '../generi
  */
 const decompressionMethods: {[method: number]: (data: Buffer, compressedSize: number, uncompressedSize: number, flags: number) => Buffer} = {};
 
+/**
+ * Maps CompressionMethod => function that compresses.
+ * @hidden
+ */
+const compressionMethods: {[method: number]: (data: Buffer) => Buffer} = {};
+
 /**
  * 4.4.2.2: Indicates the compatibiltiy of a file's external attributes.
  */
@@ -51,7 +70,8 @@ export enum CompressionMethod {
   TERSE_NEW = 18, // File is compressed using IBM TERSE (new)
   LZ77 = 19,      // IBM LZ77 z Architecture (PFS)
   WAVPACK = 97,   // WavPack compressed data
-  PPMD = 98       // PPMd version I, Rev 1
+  PPMD = 98,      // PPMd version I, Rev 1
+  AES = 99        // WinZip AES encryption (the real method is in the AES extra field)
 }
 
 /**
@@ -70,12 +90,27 @@ function msdos2date(time: number, date: number): Date {
   // MS DOS Time
   // |0 0 0 0  0|0 0 0  0 0 0|0  0 0 0 0
   //    Second      Minute       Hour
-  const second = time & 0x1F;
+  // Seconds are stored divided by two.
+  const second = (time & 0x1F) * 2;
   const minute = (time >> 5) & 0x3F;
   const hour = time >> 11;
   return new Date(year, month, day, hour, minute, second);
 }
 
+/**
+ * Converts the given JavaScript Date object into an MS-DOS time and date, with
+ * the date in the upper 16 bits.
+ * @hidden
+ */
+function date2msdos(d: Date): number {
+  // MS-DOS dates cannot represent anything before 1980.
+  const year = Math.max(d.getFullYear(), 1980) - 1980;
+  const date = (year << 9) | ((d.getMonth() + 1) << 5) | d.getDate();
+  // MS-DOS times only have a two-second resolution.
+  const time = (d.getHours() << 11) | (d.getMinutes() << 5) | (d.getSeconds() >> 1);
+  return ((date << 16) | time) >>> 0;
+}
+
 /**
  * Safely returns the string from the buffer, even if it is 0 bytes long.
  * (Normally, calling toString() on a buffer with start === end causes an
@@ -92,6 +127,91 @@ function safeToString(buff: Buffer, useUTF8: boolean, start: number, length: num
   }
 }
 
+/**
+ * 4.5.3: The header ID of the zip64 extended information extra field.
+ * @hidden
+ */
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+
+/**
+ * Reads an unsigned 64-bit little-endian integer. Values are exact up to
+ * 2^53, which is more than any buffer can hold.
+ * @hidden
+ */
+function readUInt64LE(buff: Buffer, offset: number): number {
+  return buff.readUInt32LE(offset + 4) * 0x100000000 + buff.readUInt32LE(offset);
+}
+
+/**
+ * Writes an unsigned 64-bit little-endian integer.
+ * @hidden
+ */
+function writeUInt64LE(buff: Buffer, value: number, offset: number): void {
+  buff.writeUInt32LE(value % 0x100000000, offset);
+  buff.writeUInt32LE(Math.floor(value / 0x100000000), offset + 4);
+}
+
+/**
+ * 4.5.1: Extra fields are a series of blocks with a 2-byte header ID and a
+ * 2-byte data size. Returns the data of the block with the given ID, or null
+ * if there is none.
+ * @hidden
+ */
+function findExtraField(extraField: Buffer, id: number): Buffer | null {
+  let i = 0;
+  while (i + 4 <= extraField.length) {
+    const size = extraField.readUInt16LE(i + 2);
+    if (extraField.readUInt16LE(i) === id) {
+      return extraField.slice(i + 4, Math.min(i + 4 + size, extraField.length));
+    }
+    i += 4 + size;
+  }
+  return null;
+}
+
+/**
+ * Returns a copy of the given extra fields without the block with the given ID.
+ * @hidden
+ */
+function removeExtraField(extraField: Buffer, id: number): Buffer {
+  const blocks: Buffer[] = [];
+  let i = 0;
+  while (i + 4 <= extraField.length) {
+    const end = Math.min(i + 4 + extraField.readUInt16LE(i + 2), extraField.length);
+    if (extraField.readUInt16LE(i) !== id) {
+      blocks.push(extraField.slice(i, end));
+    }
+    i = end;
+  }
+  return Buffer.concat(blocks);
+}
+
+/**
+ * 4.5.3 Zip64 Extended Information Extra Field (0x0001):
+ *
+ *    Original Size         8 bytes
+ *    Compressed Size       8 bytes
+ *    Relative Header Offset 8 bytes
+ *    Disk Start Number     4 bytes
+ *
+ * Each value is only present if the matching header field is set to
+ * 0xFFFFFFFF, in this order. Returns the given header values with those that
+ * are present replaced.
+ * @hidden
+ */
+function readZip64Values(extraField: Buffer, values: number[]): number[] {
+  const zip64 = findExtraField(extraField, ZIP64_EXTRA_FIELD_ID);
+  let pos = 0;
+  return values.map((value) => {
+    if (value !== 0xFFFFFFFF || zip64 === null || pos + 8 > zip64.length) {
+      return value;
+    }
+    const rv = readUInt64LE(zip64, pos);
+    pos += 8;
+    return rv;
+  });
+}
+
 /*
    4.3.6 Overall .ZIP file format:
 
@@ -154,7 +274,7 @@ export class FileHeader {
   }
   public crc32(): number { return this.data.readUInt32LE(14); }
   /**
-   * These two values are COMPLETELY USELESS.
+   * These two values are mostly useless.
    *
    * Section 4.4.9:
    *   If bit 3 of the general purpose bit flag is set,
@@ -162,10 +282,14 @@ export class FileHeader {
    *   correct values are put in the data descriptor and
    *   in the central directory.
    *
-   * So we'll just use the central directory's values.
+   * So ZipFS uses the central directory's values instead.
    */
-  // public compressedSize(): number { return this.data.readUInt32LE(18); }
-  // public uncompressedSize(): number { return this.data.readUInt32LE(22); }
+  public compressedSize(): number {
+    return readZip64Values(this.extraField(), [this.data.readUInt32LE(22), this.data.readUInt32LE(18)])[1];
+  }
+  public uncompressedSize(): number {
+    return readZip64Values(this.extraField(), [this.data.readUInt32LE(22)])[0];
+  }
   public fileNameLength(): number { return this.data.readUInt16LE(26); }
   public extraFieldLength(): number { return this.data.readUInt16LE(28); }
   public fileName(): string {
@@ -195,7 +319,14 @@ export class FileHeader {
  */
 export class FileData {
   constructor(private header: FileHeader, private record: CentralDirectory, private data: Buffer) {}
-  public decompress(): Buffer {
+  /**
+   * @param password The password of the archive, if any. Used to decrypt
+   *   encrypted files.
+   */
+  public decompress(password: Buffer | null = null): Buffer {
+    if (this.record.isEncrypted()) {
+      return this.decryptAndDecompress(password);
+    }
     // Check the compression
     const compressionMethod: CompressionMethod = this.header.compressionMethod();
     const fcn = decompressionMethods[compressionMethod];
@@ -212,6 +343,58 @@ export class FileData {
   public getHeader(): FileHeader {
     return this.header;
   }
+  /**
+   * 6.1 and WinZip AES: Decrypts the file with ZipCrypto or AES, depending on
+   * its compression method, before decompressing it.
+   */
+  private decryptAndDecompress(password: Buffer | null): Buffer {
+    const fileName = this.record.fileName(), record = this.record;
+    // 4.4.4: Bit 6 marks PKWARE's strong encryption.
+    if (record.flag() & 0x40) {
+      throw new ApiError(ErrorCode.ENOTSUP, `File '${fileName}' uses strong encryption, which is not supported.`);
+    } else if (password === null) {
+      throw new ApiError(ErrorCode.EACCES, `File '${fileName}' is encrypted, but no password was given.`);
+    }
+    const encrypted = this.data.slice(0, record.compressedSize()),
+      wrongPassword = () => new ApiError(ErrorCode.EACCES, `Incorrect password for file '${fileName}'.`);
+    let decrypted: Buffer | null, compressionMethod: CompressionMethod, hasCrc32 = true;
+    if (record.compressionMethod() === CompressionMethod.AES) {
+      const extraField = findExtraField(record.extraField(), AES_EXTRA_FIELD_ID);
+      if (extraField === null) {
+        throw new ApiError(ErrorCode.EINVAL, `Invalid Zip file: File '${fileName}' is missing its AES extra field.`);
+      }
+      const aes = parseAesExtraField(extraField);
+      decrypted = aesDecrypt(encrypted, password, aes.strength);
+      compressionMethod = aes.compressionMethod;
+      // AE-2 leaves out the CRC-32, as the authentication code covers it.
+      hasCrc32 = aes.vendorVersion === 1;
+    } else {
+      // The last byte of the encryption header is the high byte of the CRC-32,
+      // or of the modification time for files with a data descriptor.
+      decrypted = zipCryptoDecrypt(encrypted, password, [record.crc32() >>> 24, (this.header.rawLastModFileTime() >>> 8) & 0xFF]);
+      compressionMethod = record.compressionMethod();
+    }
+    if (decrypted === null) {
+      throw wrongPassword();
+    }
+
+    const fcn = decompressionMethods[compressionMethod];
+    if (!fcn) {
+      throw new ApiError(ErrorCode.EINVAL, `Invalid compression method on file '${fileName}': ${CompressionMethod[compressionMethod] || `Unknown: ${compressionMethod}`}`);
+    }
+    let data: Buffer;
+    try {
+      data = fcn(decrypted, decrypted.length, record.uncompressedSize(), record.flag());
+    } catch (e) {
+      // The check byte lets 1 in 256 wrong passwords through, which then
+      // produce garbage.
+      throw wrongPassword();
+    }
+    if (hasCrc32 && (crc32(0, data, data.length, 0) >>> 0) !== record.crc32()) {
+      throw wrongPassword();
+    }
+    return data;
+  }
   public getRecord(): CentralDirectory {
     return this.record;
   }
@@ -323,7 +506,10 @@ export class DigitalSignature {
 export class CentralDirectory {
   // Optimization: The filename is frequently read, so stash it here.
   private _filename: string;
-  constructor(private zipData: Buffer, private data: Buffer) {
+  /**
+   * @param zipData The whole zip file, or null if it is on a web server.
+   */
+  constructor(private zipData: Buffer | null, private data: Buffer) {
     // Sanity check.
     if (this.data.readUInt32LE(0) !== 0x02014b50) {
       throw new ApiError(ErrorCode.EINVAL, `Invalid Zip file: Central directory record has invalid signature: ${this.data.readUInt32LE(0)}`);
@@ -342,15 +528,24 @@ export class CentralDirectory {
     return this.data.readUInt32LE(12);
   }
   public crc32(): number { return this.data.readUInt32LE(16); }
-  public compressedSize(): number { return this.data.readUInt32LE(20); }
-  public uncompressedSize(): number { return this.data.readUInt32LE(24); }
+  public compressedSize(): number {
+    const size = this.data.readUInt32LE(20);
+    return size !== 0xFFFFFFFF ? size : readZip64Values(this.extraField(), [this.data.readUInt32LE(24), size])[1];
+  }
+  public uncompressedSize(): number {
+    const size = this.data.readUInt32LE(24);
+    return size !== 0xFFFFFFFF ? size : readZip64Values(this.extraField(), [size])[0];
+  }
   public fileNameLength(): number { return this.data.readUInt16LE(28); }
   public extraFieldLength(): number { return this.data.readUInt16LE(30); }
   public fileCommentLength(): number { return this.data.readUInt16LE(32); }
   public diskNumberStart(): number { return this.data.readUInt16LE(34); }
   public internalAttributes(): number { return this.data.readUInt16LE(36); }
   public externalAttributes(): number { return this.data.readUInt32LE(38); }
-  public headerRelativeOffset(): number { return this.data.readUInt32LE(42); }
+  public headerRelativeOffset(): number {
+    const offset = this.data.readUInt32LE(42);
+    return offset !== 0xFFFFFFFF ? offset : readZip64Values(this.extraField(), [this.data.readUInt32LE(24), this.data.readUInt32LE(20), offset])[2];
+  }
   public produceFilename(): string {
     /*
       4.4.17.1 claims:
@@ -375,7 +570,7 @@ export class CentralDirectory {
     return this.data.slice(46, 46 + this.fileNameLength());
   }
   public extraField(): Buffer {
-    const start = 44 + this.fileNameLength();
+    const start = 46 + this.fileNameLength();
     return this.data.slice(start, start + this.extraFieldLength());
   }
   public fileComment(): string {
@@ -405,14 +600,25 @@ export class CentralDirectory {
   public useUTF8(): boolean { return (this.flag() & 0x800) === 0x800; }
   public isEncrypted(): boolean { return (this.flag() & 0x1) === 0x1; }
   public getFileData(): FileData {
+    if (this.zipData === null) {
+      throw new ApiError(ErrorCode.ENOTSUP, `File '${this.fileName()}' is in a remote zip file, which can only be read asynchronously.`);
+    }
+    return this.getFileDataFrom(this.zipData.slice(this.headerRelativeOffset()));
+  }
+  /**
+   * Parses the file data from a buffer that starts at this file's local header.
+   */
+  public getFileDataFrom(data: Buffer): FileData {
     // Need to grab the header before we can figure out where the actual
     // compressed data starts.
-    const start = this.headerRelativeOffset();
-    const header = new FileHeader(this.zipData.slice(start));
-    return new FileData(header, this, this.zipData.slice(start + header.totalSize()));
+    const header = new FileHeader(data);
+    return new FileData(header, this, data.slice(header.totalSize()));
   }
-  public getData(): Buffer {
-    return this.getFileData().decompress();
+  /**
+   * @param password The password of the archive, for encrypted files.
+   */
+  public getData(password: Buffer | null = null): Buffer {
+    return this.getFileData().decompress(password);
   }
   public getRawData(): Buffer {
     return this.getFileData().getRawData();
@@ -422,6 +628,217 @@ export class CentralDirectory {
   }
 }
 
+/**
+ * The fields of a central directory record that ZipFS writes out, with sizes
+ * and offsets that may not fit in 32 bits.
+ * @hidden
+ */
+interface EntryFields {
+  // The path relative to the archive's root, encoded as described by `flag`.
+  // Directories end in '/'.
+  fileName: Buffer;
+  versionMadeBy: number;
+  versionNeeded: number;
+  flag: number;
+  compressionMethod: CompressionMethod;
+  rawLastModFileTime: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  internalAttributes: number;
+  externalAttributes: number;
+  // Any extra fields besides the zip64 one, which is generated as needed.
+  extraField: Buffer;
+  fileComment: Buffer;
+}
+
+/**
+ * New entries are made by version 4.5 on UNIX, so that the mode in their
+ * external attributes is honored.
+ * @hidden
+ */
+const NEW_ENTRY_VERSION_MADE_BY = (ExternalFileAttributeType.UNIX << 8) | 45;
+
+/**
+ * Returns the fields of the given central directory record.
+ * @hidden
+ */
+function getEntryFields(cd: CentralDirectory): EntryFields {
+  return {
+    fileName: cd.rawFileName(),
+    versionMadeBy: cd.versionMadeBy(),
+    versionNeeded: cd.versionNeeded(),
+    // Sizes and CRC-32 are always in the local header, so no data descriptor
+    // follows the file data. The exception are files encrypted with
+    // ZipCrypto, as bit 3 decides which byte checks their password.
+    flag: cd.isEncrypted() ? cd.flag() : cd.flag() & ~0x8,
+    compressionMethod: cd.compressionMethod(),
+    rawLastModFileTime: cd.rawLastModFileTime(),
+    crc32: cd.crc32(),
+    compressedSize: cd.compressedSize(),
+    uncompressedSize: cd.uncompressedSize(),
+    internalAttributes: cd.internalAttributes(),
+    externalAttributes: cd.externalAttributes(),
+    extraField: removeExtraField(cd.extraField(), ZIP64_EXTRA_FIELD_ID),
+    fileComment: cd.rawFileComment()
+  };
+}
+
+/**
+ * Produces a zip64 extended information extra field holding the given 64-bit
+ * values, or an empty buffer if there are none.
+ * @hidden
+ */
+function encodeZip64ExtraField(values: number[]): Buffer {
+  if (values.length === 0) {
+    return Buffer.alloc(0);
+  }
+  const field = Buffer.alloc(4 + 8 * values.length);
+  field.writeUInt16LE(ZIP64_EXTRA_FIELD_ID, 0);
+  field.writeUInt16LE(8 * values.length, 2);
+  values.forEach((value, i) => writeUInt64LE(field, value, 4 + 8 * i));
+  return field;
+}
+
+/**
+ * Produces the data descriptor that follows the file data of the given entry,
+ * or an empty buffer if it has none.
+ * @hidden
+ */
+function encodeDataDescriptor(fields: EntryFields): Buffer {
+  if ((fields.flag & 0x8) === 0) {
+    return Buffer.alloc(0);
+  }
+  // 4.3.9.2: Zip64 entries have 8-byte sizes.
+  const isZip64 = fields.compressedSize >= 0xFFFFFFFF || fields.uncompressedSize >= 0xFFFFFFFF,
+    descriptor = Buffer.alloc(isZip64 ? 24 : 16);
+  descriptor.writeUInt32LE(0x08074b50, 0);
+  descriptor.writeUInt32LE(fields.crc32, 4);
+  if (isZip64) {
+    writeUInt64LE(descriptor, fields.compressedSize, 8);
+    writeUInt64LE(descriptor, fields.uncompressedSize, 16);
+  } else {
+    descriptor.writeUInt32LE(fields.compressedSize, 8);
+    descriptor.writeUInt32LE(fields.uncompressedSize, 12);
+  }
+  return descriptor;
+}
+
+/**
+ * Produces the local file header of the given entry.
+ * @hidden
+ */
+function encodeLocalHeader(fields: EntryFields): Buffer {
+  // If either size needs 64 bits, the zip64 field holds both.
+  const isZip64 = fields.compressedSize >= 0xFFFFFFFF || fields.uncompressedSize >= 0xFFFFFFFF,
+    extraField = Buffer.concat([
+      encodeZip64ExtraField(isZip64 ? [fields.uncompressedSize, fields.compressedSize] : []),
+      fields.extraField
+    ]),
+    header = Buffer.alloc(30 + fields.fileName.length + extraField.length);
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(isZip64 ? Math.max(fields.versionNeeded, 45) : fields.versionNeeded, 4);
+  header.writeUInt16LE(fields.flag, 6);
+  header.writeUInt16LE(fields.compressionMethod, 8);
+  header.writeUInt32LE(fields.rawLastModFileTime, 10);
+  header.writeUInt32LE(fields.crc32, 14);
+  header.writeUInt32LE(isZip64 ? 0xFFFFFFFF : fields.compressedSize, 18);
+  header.writeUInt32LE(isZip64 ? 0xFFFFFFFF : fields.uncompressedSize, 22);
+  header.writeUInt16LE(fields.fileName.length, 26);
+  header.writeUInt16LE(extraField.length, 28);
+  fields.fileName.copy(header, 30);
+  extraField.copy(header, 30 + fields.fileName.length);
+  return header;
+}
+
+/**
+ * Produces the central directory record of the given entry, pointing at a
+ * local file header at the given offset.
+ * @hidden
+ */
+function encodeCentralDirectory(fields: EntryFields, offset: number): Buffer {
+  // 4.5.3: Only the values that need 64 bits go in the zip64 field, in this
+  // order.
+  const zip64Values = [fields.uncompressedSize, fields.compressedSize, offset].filter((value) => value >= 0xFFFFFFFF),
+    extraField = Buffer.concat([encodeZip64ExtraField(zip64Values), fields.extraField]),
+    fileNameEnd = 46 + fields.fileName.length,
+    record = Buffer.alloc(fileNameEnd + extraField.length + fields.fileComment.length);
+  record.writeUInt32LE(0x02014b50, 0);
+  record.writeUInt16LE(fields.versionMadeBy, 4);
+  record.writeUInt16LE(zip64Values.length > 0 ? Math.max(fields.versionNeeded, 45) : fields.versionNeeded, 6);
+  record.writeUInt16LE(fields.flag, 8);
+  record.writeUInt16LE(fields.compressionMethod, 10);
+  record.writeUInt32LE(fields.rawLastModFileTime, 12);
+  record.writeUInt32LE(fields.crc32, 16);
+  record.writeUInt32LE(Math.min(fields.compressedSize, 0xFFFFFFFF), 20);
+  record.writeUInt32LE(Math.min(fields.uncompressedSize, 0xFFFFFFFF), 24);
+  record.writeUInt16LE(fields.fileName.length, 28);
+  record.writeUInt16LE(extraField.length, 30);
+  record.writeUInt16LE(fields.fileComment.length, 32);
+  record.writeUInt16LE(fields.internalAttributes, 36);
+  record.writeUInt32LE(fields.externalAttributes, 38);
+  record.writeUInt32LE(Math.min(offset, 0xFFFFFFFF), 42);
+  fields.fileName.copy(record, 46);
+  extraField.copy(record, fileNameEnd);
+  fields.fileComment.copy(record, fileNameEnd + extraField.length);
+  return record;
+}
+
+/**
+ * Creates a central directory record for a new entry, along with its local
+ * file header and (already compressed) data.
+ * @hidden
+ */
+function createEntry(fields: EntryFields, data: Buffer): CentralDirectory {
+  return new CentralDirectory(Buffer.concat([encodeLocalHeader(fields), data]), encodeCentralDirectory(fields, 0));
+}
+
+/**
+ * Creates a central directory record for the given entry under a new name.
+ * @hidden
+ */
+function renameEntry(cd: CentralDirectory, fileName: string): CentralDirectory {
+  const fields = getEntryFields(cd);
+  fields.fileName = Buffer.from(fileName, 'utf8');
+  fields.flag |= 0x800;
+  return createEntry(fields, cd.getRawData().slice(0, cd.compressedSize()));
+}
+
+/**
+ * Produces the records that end an archive. Archives with more entries, or a
+ * bigger central directory, than the end of central directory record can hold
+ * also get a zip64 end of central directory record and locator.
+ * @hidden
+ */
+function encodeEndOfCentralDirectory(entryCount: number, cdSize: number, cdOffset: number, comment: Buffer): Buffer {
+  const isZip64 = entryCount >= 0xFFFF || cdSize >= 0xFFFFFFFF || cdOffset >= 0xFFFFFFFF,
+    zip64Size = isZip64 ? 56 + 20 : 0,
+    record = Buffer.alloc(zip64Size + 22 + comment.length);
+  if (isZip64) {
+    record.writeUInt32LE(0x06064b50, 0);
+    // The size of the rest of the record.
+    writeUInt64LE(record, 44, 4);
+    record.writeUInt16LE(NEW_ENTRY_VERSION_MADE_BY, 12);
+    record.writeUInt16LE(45, 14);
+    writeUInt64LE(record, entryCount, 24);
+    writeUInt64LE(record, entryCount, 32);
+    writeUInt64LE(record, cdSize, 40);
+    writeUInt64LE(record, cdOffset, 48);
+    // The locator, pointing at the record right after the central directory.
+    record.writeUInt32LE(0x07064b50, 56);
+    writeUInt64LE(record, cdOffset + cdSize, 64);
+    record.writeUInt32LE(1, 72);
+  }
+  record.writeUInt32LE(0x06054b50, zip64Size);
+  record.writeUInt16LE(Math.min(entryCount, 0xFFFF), zip64Size + 8);
+  record.writeUInt16LE(Math.min(entryCount, 0xFFFF), zip64Size + 10);
+  record.writeUInt32LE(Math.min(cdSize, 0xFFFFFFFF), zip64Size + 12);
+  record.writeUInt32LE(Math.min(cdOffset, 0xFFFFFFFF), zip64Size + 16);
+  record.writeUInt16LE(comment.length, zip64Size + 20);
+  comment.copy(record, zip64Size + 22);
+  return record;
+}
+
 /**
  * 4.3.16: end of central directory record
  *  end of central dir signature    4 bytes  (0x06054b50)
@@ -461,11 +878,154 @@ export class EndOfCentralDirectory {
   }
 }
 
+/**
+ * 4.3.14: zip64 end of central directory record
+ *  zip64 end of central dir
+ *  signature                       4 bytes  (0x06064b50)
+ *  size of zip64 end of central
+ *  directory record                8 bytes
+ *  version made by                 2 bytes
+ *  version needed to extract       2 bytes
+ *  number of this disk             4 bytes
+ *  number of the disk with the
+ *  start of the central directory  4 bytes
+ *  total number of entries in the
+ *  central directory on this disk  8 bytes
+ *  total number of entries in the
+ *  central directory               8 bytes
+ *  size of the central directory   8 bytes
+ *  offset of start of central
+ *  directory with respect to
+ *  the starting disk number        8 bytes
+ *  zip64 extensible data sector    (variable size)
+ */
+export class Zip64EndOfCentralDirectory {
+  constructor(private data: Buffer) {
+    if (this.data.readUInt32LE(0) !== 0x06064b50) {
+      throw new ApiError(ErrorCode.EINVAL, `Invalid Zip file: Zip64 end of central directory record has invalid signature: ${this.data.readUInt32LE(0)}`);
+    }
+  }
+  public recordSize(): number { return readUInt64LE(this.data, 4); }
+  public versionMadeBy(): number { return this.data.readUInt16LE(12); }
+  public versionNeeded(): number { return this.data.readUInt16LE(14); }
+  public diskNumber(): number { return this.data.readUInt32LE(16); }
+  public cdDiskNumber(): number { return this.data.readUInt32LE(20); }
+  public cdDiskEntryCount(): number { return readUInt64LE(this.data, 24); }
+  public cdTotalEntryCount(): number { return readUInt64LE(this.data, 32); }
+  public cdSize(): number { return readUInt64LE(this.data, 40); }
+  public cdOffset(): number { return readUInt64LE(this.data, 48); }
+}
+
+/**
+ * 4.3.15: zip64 end of central directory locator
+ *  zip64 end of central dir locator
+ *  signature                       4 bytes  (0x07064b50)
+ *  number of the disk with the
+ *  start of the zip64 end of
+ *  central directory               4 bytes
+ *  relative offset of the zip64
+ *  end of central directory record 8 bytes
+ *  total number of disks           4 bytes
+ */
+export class Zip64EndOfCentralDirectoryLocator {
+  /**
+   * Checks if the given data starts with a locator.
+   */
+  public static isLocator(data: Buffer): boolean {
+    return data.length >= 20 && data.readUInt32LE(0) === 0x07064b50;
+  }
+  constructor(private data: Buffer) {
+    if (!Zip64EndOfCentralDirectoryLocator.isLocator(data)) {
+      throw new ApiError(ErrorCode.EINVAL, `Invalid Zip file: Zip64 end of central directory locator has invalid signature: ${this.data.readUInt32LE(0)}`);
+    }
+  }
+  public eocdDiskNumber(): number { return this.data.readUInt32LE(4); }
+  public eocdOffset(): number { return readUInt64LE(this.data, 8); }
+  public totalDiskCount(): number { return this.data.readUInt32LE(16); }
+}
+
+/**
+ * A zip file on a web server, which is read piece by piece with HTTP Range
+ * requests.
+ */
+export class RemoteZipData {
+  constructor(public readonly url: string, public readonly size: number) {}
+
+  /**
+   * Downloads the bytes in [start, end) of the zip file.
+   */
+  public read(start: number, end: number, cb: BFSCallback<Buffer>): void {
+    end = Math.min(end, this.size);
+    if (fetchIsAvailable) {
+      fetchFileRangeAsync(this.url, start, end, cb);
+    } else {
+      asyncDownloadFileRange(this.url, start, end, cb);
+    }
+  }
+
+  /**
+   * Downloads the local header and file data of the given file.
+   */
+  public readFileData(cd: CentralDirectory, cb: BFSCallback<FileData>): void {
+    const start = cd.headerRelativeOffset(), size = cd.compressedSize();
+    // The local header usually has the same file name and extra field as the
+    // central directory record, though the extra field can be a bit longer
+    // (e.g. Info-ZIP's timestamps). Some slack saves a second request then.
+    this.read(start, start + 30 + cd.fileNameLength() + cd.extraFieldLength() + 64 + size, (e, data?) => {
+      if (e) {
+        return cb(e);
+      }
+      let header: FileHeader;
+      try {
+        if (data!.length < 30) {
+          throw new ApiError(ErrorCode.EINVAL, `Invalid Zip file: Local header of file '${cd.fileName()}' is truncated.`);
+        }
+        header = new FileHeader(data!);
+      } catch (e) {
+        return cb(e);
+      }
+      const needed = header.totalSize() + size;
+      if (data!.length >= needed) {
+        return cb(null, cd.getFileDataFrom(data!));
+      }
+      this.read(start + data!.length, start + needed, (e, rest?) => {
+        if (e) {
+          cb(e);
+        } else {
+          cb(null, cd.getFileDataFrom(Buffer.concat([data!, rest!])));
+        }
+      });
+    });
+  }
+}
+
 /**
  * Contains the table of contents of a Zip file.
  */
 export class ZipTOC {
-  constructor(public index: FileIndex<CentralDirectory>, public directoryEntries: CentralDirectory[], public eocd: EndOfCentralDirectory, public data: Buffer) {
+  constructor(public index: FileIndex<CentralDirectory>, public directoryEntries: CentralDirectory[], public eocd: EndOfCentralDirectory, public data: Buffer | null,
+    public remote: RemoteZipData | null = null) {
+  }
+}
+
+/**
+ * A file in a writable ZipFS. Changes are compressed into the archive when the
+ * file is synced or closed.
+ */
+export class ZipFile extends PreloadFile<ZipFS> implements File {
+  constructor(_fs: ZipFS, _path: string, _flag: FileFlag, _stat: Stats, contents?: Buffer) {
+    super(_fs, _path, _flag, _stat, contents);
+  }
+
+  public syncSync(): void {
+    if (this.isDirty()) {
+      this._fs._syncSync(this.getPath(), this.getBuffer(), this.getStats());
+      this.resetDirty();
+    }
+  }
+
+  public closeSync(): void {
+    this.syncSync();
   }
 }
 
@@ -473,10 +1033,22 @@ export class ZipTOC {
  * Configuration options for a ZipFS file system.
  */
 export interface ZipFSOptions {
-  // The zip file as a binary buffer.
-  zipData: Buffer;
+  // The zip file as a binary buffer. Writable file systems start out with an
+  // empty archive if omitted.
+  zipData?: Buffer;
   // The name of the zip file (optional).
   name?: string;
+  // Allow changes to the archive, which can be saved with `toBuffer`.
+  // Defaults to false.
+  writable?: boolean;
+  // How new and changed files are compressed. Defaults to DEFLATE.
+  compressionMethod?: CompressionMethod;
+  // The password of encrypted files in the archive.
+  password?: string;
+  // The URL of a zip file to read with HTTP Range requests instead of zipData.
+  // Only the central directory is downloaded up front; files are downloaded
+  // as they are opened.
+  url?: string;
 }
 
 /**
@@ -510,16 +1082,23 @@ export interface ZipFSOptions {
  * For inflation, we use `pako`'s implementation:
  * https://github.com/nodeca/pako
  *
- * Current limitations:
- * * No encryption.
- * * No ZIP64 support.
- * * Read-only.
- *   Write support would require that we:
- *   - Keep track of changed/new files.
- *   - Compress changed files, and generate appropriate metadata for each.
- *   - Update file offsets for other files in the zip file.
- *   - Stream it out to a location.
- *   This isn't that bad, so we might do this at a later date.
+ * With the `writable` option, new and changed files are compressed as they are
+ * synced, and kept in memory next to the original archive. `toBuffer` then
+ * lays out the local headers and data of every entry, followed by a fresh
+ * central directory. Unchanged files are copied over without recompressing.
+ *
+ * ZIP64 archives are supported, so archives can be bigger than 4GB and
+ * have more than 65535 entries, as far as the Buffer holding them allows.
+ * `toBuffer` only adds the ZIP64 records when values do not fit otherwise.
+ *
+ * Files encrypted with ZipCrypto or WinZip AES are decrypted with the
+ * `password` option. Changed files are saved unencrypted.
+ *
+ * With the `url` option, the zip file stays on the web server, which must
+ * support HTTP Range requests for this to pay off. Creating the file system
+ * downloads the end of the file and the central directory, and opening a file
+ * downloads its local header and data. As this happens asynchronously, these
+ * file systems are read-only and do not support the synchronous API.
  */
 export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   public static readonly Name = "ZipFS";
@@ -527,13 +1106,41 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   public static readonly Options: FileSystemOptions = {
     zipData: {
       type: "object",
-      description: "The zip file as a Buffer object.",
+      optional: true,
+      description: "The zip file as a Buffer object. Required unless the file system is writable.",
       validator: bufferValidator
     },
     name: {
       type: "string",
       optional: true,
       description: "The name of the zip file (optional)."
+    },
+    writable: {
+      type: "boolean",
+      optional: true,
+      description: "Allow changes to the archive, which can be saved with toBuffer(). Defaults to false."
+    },
+    compressionMethod: {
+      type: "number",
+      optional: true,
+      description: "How new and changed files are compressed: ZipFS.CompressionMethod.DEFLATE (the default) or STORED.",
+      validator: (opt: number, cb) => {
+        if (compressionMethods[opt]) {
+          cb();
+        } else {
+          cb(new ApiError(ErrorCode.EINVAL, `Unsupported compression method: ${CompressionMethod[opt] || opt}`));
+        }
+      }
+    },
+    password: {
+      type: "string",
+      optional: true,
+      description: "The password of encrypted files in the archive (optional). Supports ZipCrypto and WinZip AES."
+    },
+    url: {
+      type: "string",
+      optional: true,
+      description: "The URL of a zip file to read on demand with HTTP Range requests, instead of passing zipData. Not compatible with writable."
     }
   };
 
@@ -543,15 +1150,31 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
    * Constructs a ZipFS instance with the given options.
    */
   public static Create(opts: ZipFSOptions, cb: BFSCallback<ZipFS>): void {
+    const done: BFSCallback<ZipTOC> = (e, zipTOC?) => {
+      if (zipTOC) {
+        const fs = new ZipFS(zipTOC, opts.name, !!opts.writable,
+          typeof opts.compressionMethod === 'number' ? opts.compressionMethod : CompressionMethod.DEFLATE,
+          typeof opts.password === 'string' ? Buffer.from(opts.password, 'utf8') : null);
+        cb(null, fs);
+      } else {
+        cb(e);
+      }
+    };
+    if (typeof opts.url === 'string') {
+      if (opts.zipData || opts.writable) {
+        return cb(new ApiError(ErrorCode.EINVAL, "ZipFS cannot combine url with zipData or writable."));
+      }
+      return ZipFS._computeRemoteIndex(opts.url, done);
+    }
+    let zipData = opts.zipData;
+    if (!zipData) {
+      if (!opts.writable) {
+        return cb(new ApiError(ErrorCode.EINVAL, "ZipFS requires zipData unless it is writable."));
+      }
+      zipData = encodeEndOfCentralDirectory(0, 0, 0, Buffer.alloc(0));
+    }
     try {
-      ZipFS._computeIndex(opts.zipData, (e, zipTOC?) => {
-        if (zipTOC) {
-          const fs = new ZipFS(zipTOC, opts.name);
-          cb(null, fs);
-        } else {
-          cb(e);
-        }
-      });
+      ZipFS._computeIndex(zipData, done);
     } catch (e) {
       cb(e);
     }
@@ -563,11 +1186,15 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
     decompressionMethods[m] = fcn;
   }
 
+  public static RegisterCompressionMethod(m: CompressionMethod, fcn: (data: Buffer) => Buffer): void {
+    compressionMethods[m] = fcn;
+  }
+
   /**
-   * Locates the end of central directory record at the end of the file.
-   * Throws an exception if it cannot be found.
+   * Locates the end of central directory record at the end of the file, and
+   * returns its offset. Throws an exception if it cannot be found.
    */
-  private static _getEOCD(data: Buffer): EndOfCentralDirectory {
+  private static _getEOCDOffset(data: Buffer): number {
     // Unfortunately, the comment is variable size and up to 64K in size.
     // We assume that the magic signature does not appear in the comment, and
     // in the bytes between the comment and the signature. Other ZIP
@@ -575,13 +1202,13 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
     // read thread every entry in the file to get to it. :(
     // These are *negative* offsets from the end of the file.
     const startOffset = 22;
-    const endOffset = Math.min(startOffset + 0xFFFF, data.length - 1);
+    const endOffset = Math.min(startOffset + 0xFFFF, data.length);
     // There's not even a byte alignment guarantee on the comment so we need to
     // search byte by byte. *grumble grumble*
-    for (let i = startOffset; i < endOffset; i++) {
+    for (let i = startOffset; i <= endOffset; i++) {
       // Magic number: EOCD Signature
       if (data.readUInt32LE(data.length - i) === 0x06054b50) {
-        return new EndOfCentralDirectory(data.slice(data.length - i));
+        return data.length - i;
       }
     }
     throw new ApiError(ErrorCode.EINVAL, "Invalid ZIP file: Could not locate End of Central Directory signature.");
@@ -609,58 +1236,141 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   private static _computeIndex(data: Buffer, cb: BFSCallback<ZipTOC>) {
     try {
       const index: FileIndex<CentralDirectory> = new FileIndex<CentralDirectory>();
-      const eocd: EndOfCentralDirectory = ZipFS._getEOCD(data);
-      if (eocd.diskNumber() !== eocd.cdDiskNumber()) {
+      const eocdOffset = ZipFS._getEOCDOffset(data);
+      const eocd: EndOfCentralDirectory = new EndOfCentralDirectory(data.slice(eocdOffset));
+      // Zip64 archives keep the real values in a zip64 record, which a locator
+      // right before the end of central directory record points to.
+      let cdInfo: EndOfCentralDirectory | Zip64EndOfCentralDirectory = eocd;
+      if (eocdOffset >= 20 && Zip64EndOfCentralDirectoryLocator.isLocator(data.slice(eocdOffset - 20))) {
+        const locator = new Zip64EndOfCentralDirectoryLocator(data.slice(eocdOffset - 20));
+        cdInfo = new Zip64EndOfCentralDirectory(data.slice(locator.eocdOffset()));
+      }
+      if (cdInfo.diskNumber() !== cdInfo.cdDiskNumber()) {
         return cb(new ApiError(ErrorCode.EINVAL, "ZipFS does not support spanned zip files."));
       }
 
-      const cdPtr = eocd.cdOffset();
-      if (cdPtr === 0xFFFFFFFF) {
-        return cb(new ApiError(ErrorCode.EINVAL, "ZipFS does not support Zip64."));
-      }
-      const cdEnd = cdPtr + eocd.cdSize();
-      ZipFS._computeIndexResponsive(data, index, cdPtr, cdEnd, cb, [], eocd);
+      const cdPtr = cdInfo.cdOffset();
+      const cdEnd = cdPtr + cdInfo.cdSize();
+      ZipFS._computeIndexResponsive(data, index, cdPtr, cdEnd, cb, [], eocd, null);
     } catch (e) {
       cb(e);
     }
   }
 
-  private static _computeIndexResponsiveTrampoline(data: Buffer, index: FileIndex<CentralDirectory>, cdPtr: number, cdEnd: number, cb: BFSCallback<ZipTOC>, cdEntries: CentralDirectory[], eocd: EndOfCentralDirectory) {
+  /**
+   * Like _computeIndex, but for a zip file on a web server. Downloads the end
+   * of central directory record (and its zip64 counterpart, if any), then the
+   * central directory.
+   */
+  private static _computeRemoteIndex(url: string, cb: BFSCallback<ZipTOC>) {
+    (fetchIsAvailable ? fetchFileSizeAsync : getFileSizeAsync)(url, (e, size?) => {
+      if (e) {
+        return cb(e);
+      } else if (!(size! >= 0)) {
+        return cb(new ApiError(ErrorCode.EIO, `Could not determine the size of the zip file at ${url}.`));
+      }
+      const remote = new RemoteZipData(url, size!);
+      // Room for the largest comment, the zip64 locator and a zip64 record
+      // without extensible data.
+      const tailStart = Math.max(0, size! - (22 + 0xFFFF + 20 + 56));
+      remote.read(tailStart, size!, (e, tail?) => {
+        if (e) {
+          return cb(e);
+        }
+        let eocd: EndOfCentralDirectory, eocdOffset: number;
+        try {
+          eocdOffset = ZipFS._getEOCDOffset(tail!);
+          eocd = new EndOfCentralDirectory(tail!.slice(eocdOffset));
+        } catch (e) {
+          return cb(e);
+        }
+        const readCentralDirectory = (e: ApiError | null | undefined, cdInfo?: EndOfCentralDirectory | Zip64EndOfCentralDirectory) => {
+          if (e) {
+            return cb(e);
+          } else if (cdInfo!.diskNumber() !== cdInfo!.cdDiskNumber()) {
+            return cb(new ApiError(ErrorCode.EINVAL, "ZipFS does not support spanned zip files."));
+          }
+          const cdPtr = cdInfo!.cdOffset(), cdEnd = cdPtr + cdInfo!.cdSize();
+          const withCentralDirectory: BFSCallback<Buffer> = (e, cdData?) => {
+            if (e) {
+              return cb(e);
+            }
+            ZipFS._computeIndexResponsiveTrampoline(cdData!, new FileIndex<CentralDirectory>(), 0, cdData!.length, cb, [], eocd, remote);
+          };
+          if (cdPtr >= tailStart) {
+            withCentralDirectory(null, tail!.slice(cdPtr - tailStart, cdEnd - tailStart));
+          } else {
+            remote.read(cdPtr, cdEnd, withCentralDirectory);
+          }
+        };
+        if (eocdOffset >= 20 && Zip64EndOfCentralDirectoryLocator.isLocator(tail!.slice(eocdOffset - 20))) {
+          const zip64Offset = new Zip64EndOfCentralDirectoryLocator(tail!.slice(eocdOffset - 20)).eocdOffset();
+          const withZip64Record: BFSCallback<Buffer> = (e, data?) => {
+            if (e) {
+              return cb(e);
+            }
+            let cdInfo: Zip64EndOfCentralDirectory;
+            try {
+              cdInfo = new Zip64EndOfCentralDirectory(data!);
+            } catch (e) {
+              return cb(e);
+            }
+            readCentralDirectory(null, cdInfo);
+          };
+          if (zip64Offset >= tailStart) {
+            withZip64Record(null, tail!.slice(zip64Offset - tailStart));
+          } else {
+            remote.read(zip64Offset, zip64Offset + 56, withZip64Record);
+          }
+        } else {
+          readCentralDirectory(null, eocd);
+        }
+      });
+    });
+  }
+
+  private static _computeIndexResponsiveTrampoline(data: Buffer, index: FileIndex<CentralDirectory>, cdPtr: number, cdEnd: number, cb: BFSCallback<ZipTOC>, cdEntries: CentralDirectory[], eocd: EndOfCentralDirectory, remote: RemoteZipData | null) {
     try {
-      ZipFS._computeIndexResponsive(data, index, cdPtr, cdEnd, cb, cdEntries, eocd);
+      ZipFS._computeIndexResponsive(data, index, cdPtr, cdEnd, cb, cdEntries, eocd, remote);
     } catch (e) {
       cb(e);
     }
   }
 
-  private static _computeIndexResponsive(data: Buffer, index: FileIndex<CentralDirectory>, cdPtr: number, cdEnd: number, cb: BFSCallback<ZipTOC>, cdEntries: CentralDirectory[], eocd: EndOfCentralDirectory) {
+  /**
+   * For remote zip files, `data` only holds the central directory.
+   */
+  private static _computeIndexResponsive(data: Buffer, index: FileIndex<CentralDirectory>, cdPtr: number, cdEnd: number, cb: BFSCallback<ZipTOC>, cdEntries: CentralDirectory[], eocd: EndOfCentralDirectory, remote: RemoteZipData | null) {
     if (cdPtr < cdEnd) {
       let count = 0;
       while (count++ < 200 && cdPtr < cdEnd) {
-        const cd: CentralDirectory = new CentralDirectory(data, data.slice(cdPtr));
+        const cd: CentralDirectory = new CentralDirectory(remote ? null : data, data.slice(cdPtr));
         ZipFS._addToIndex(cd, index);
         cdPtr += cd.totalSize();
         cdEntries.push(cd);
       }
       setImmediate(() => {
-        ZipFS._computeIndexResponsiveTrampoline(data, index, cdPtr, cdEnd, cb, cdEntries, eocd);
+        ZipFS._computeIndexResponsiveTrampoline(data, index, cdPtr, cdEnd, cb, cdEntries, eocd, remote);
       });
     } else {
-      cb(null, new ZipTOC(index, cdEntries, eocd, data));
+      cb(null, new ZipTOC(index, cdEntries, eocd, remote ? null : data, remote));
     }
   }
 
   private _index: FileIndex<CentralDirectory> = new FileIndex<CentralDirectory>();
   private _directoryEntries: CentralDirectory[] = [];
   private _eocd: EndOfCentralDirectory | null = null;
-  private data: Buffer;
+  private data: Buffer | null;
+  private _remote: RemoteZipData | null;
 
-  private constructor(input: ZipTOC, private name: string = '') {
+  private constructor(input: ZipTOC, private name: string = '', private _writable: boolean = false,
+      private _compressionMethod: CompressionMethod = CompressionMethod.DEFLATE, private _password: Buffer | null = null) {
     super();
     this._index = input.index;
     this._directoryEntries = input.directoryEntries;
     this._eocd = input.eocd;
     this.data = input.data;
+    this._remote = input.remote;
   }
 
   public getName(): string {
@@ -702,12 +1412,16 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   }
 
   public diskSpace(path: string, cb: (total: number, free: number) => void): void {
-    // Read-only file system.
-    cb(this.data.length, 0);
+    if (this._writable) {
+      // Changes are only limited by the available memory.
+      cb(Infinity, Infinity);
+    } else {
+      cb(this._remote ? this._remote.size : this.data!.length, 0);
+    }
   }
 
   public isReadOnly(): boolean {
-    return true;
+    return !this._writable;
   }
 
   public supportsLinks(): boolean {
@@ -719,7 +1433,7 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   }
 
   public supportsSynch(): boolean {
-    return true;
+    return this._remote === null;
   }
 
   public statSync(path: string, isLstat: boolean): Stats {
@@ -739,29 +1453,35 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
   }
 
   public openSync(path: string, flags: FileFlag, mode: number): File {
-    // INVARIANT: Cannot write to RO file systems.
-    if (flags.isWriteable()) {
-      throw new ApiError(ErrorCode.EPERM, path);
+    if (this._writable) {
+      return super.openSync(path, flags, mode);
     }
-    // Check if the path exists, and is a file.
-    const inode = this._index.getInode(path);
-    if (!inode) {
-      throw ApiError.ENOENT(path);
-    } else if (isFileInode<CentralDirectory>(inode)) {
-      const cdRecord = inode.getData();
-      const stats = cdRecord.getStats();
-      switch (flags.pathExistsAction()) {
-        case ActionType.THROW_EXCEPTION:
-        case ActionType.TRUNCATE_FILE:
-          throw ApiError.EEXIST(path);
-        case ActionType.NOP:
-          return new NoSyncFile(this, path, flags, stats, cdRecord.getData());
-        default:
-          throw new ApiError(ErrorCode.EINVAL, 'Invalid FileMode object.');
-      }
-    } else {
-      throw ApiError.EISDIR(path);
+    const cdRecord = this._getReadOnlyEntry(path, flags);
+    return new NoSyncFile(this, path, flags, cdRecord.getStats(), cdRecord.getData(this._password));
+  }
+
+  public open(path: string, flags: FileFlag, mode: number, cb: BFSCallback<File>): void {
+    if (this._remote === null) {
+      return super.open(path, flags, mode, cb);
     }
+    let cdRecord: CentralDirectory;
+    try {
+      cdRecord = this._getReadOnlyEntry(path, flags);
+    } catch (e) {
+      return cb(e);
+    }
+    this._remote.readFileData(cdRecord, (e, fileData?) => {
+      if (e) {
+        return cb(e);
+      }
+      let data: Buffer;
+      try {
+        data = fileData!.decompress(this._password);
+      } catch (e) {
+        return cb(e);
+      }
+      cb(null, new NoSyncFile(this, path, flags, cdRecord.getStats(), data));
+    });
   }
 
   public readdirSync(path: string): string[] {
@@ -775,6 +1495,15 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
       throw ApiError.ENOTDIR(path);
     }
   }
+  public readdirRecursiveSync(path: string, maxDepth: number): Dirent[] {
+    // The index already knows every path; no need to walk the tree.
+    const rv = this._index.lsRecursive(path, maxDepth);
+    if (rv === null) {
+      throw this._index.getInode(path) === null ? ApiError.ENOENT(path) : ApiError.ENOTDIR(path);
+    }
+    return rv;
+  }
+
 
   /**
    * Specially-optimized readfile.
@@ -793,6 +1522,249 @@ export default class ZipFS extends SynchronousFileSystem implements FileSystem {
       fd.closeSync();
     }
   }
+
+  public createFileSync(p: string, flag: FileFlag, mode: number): File {
+    const data = Buffer.alloc(0);
+    this._index.addPath(p, new FileInode<CentralDirectory>(this._createFileEntry(p, data, mode, new Date())));
+    return new ZipFile(this, p, flag, this.statSync(p, false), data);
+  }
+
+  public openFileSync(p: string, flag: FileFlag, mode: number): File {
+    const cdRecord = this.getCentralDirectoryEntry(p);
+    return new ZipFile(this, p, flag, cdRecord.getStats(), cdRecord.getData(this._password));
+  }
+
+  /**
+   * Compresses the given contents into the archive. Called by ZipFile.
+   */
+  public _syncSync(p: string, data: Buffer, stats: Stats): void {
+    const inode = this._index.getInode(p);
+    // Stats of files in archives do not carry their mode, so keep the one the
+    // file was created with.
+    let mode = stats.mode & 0xFFF;
+    if (isFileInode<CentralDirectory>(inode) && inode.getData().versionMadeBy() >> 8 === ExternalFileAttributeType.UNIX) {
+      mode = (inode.getData().externalAttributes() >>> 16) & 0xFFF || mode;
+    }
+    const cdRecord = this._createFileEntry(p, data, mode, stats.mtime);
+    if (isFileInode<CentralDirectory>(inode)) {
+      inode.setData(cdRecord);
+    } else if (inode === null) {
+      // The file was removed while open.
+      this._index.addPath(p, new FileInode<CentralDirectory>(cdRecord));
+    } else {
+      throw ApiError.EISDIR(p);
+    }
+  }
+
+  public unlinkSync(p: string): void {
+    if (!this._writable) {
+      return super.unlinkSync(p);
+    }
+    const inode = this._index.getInode(p);
+    if (inode === null) {
+      throw ApiError.ENOENT(p);
+    } else if (isDirInode(inode)) {
+      throw ApiError.EISDIR(p);
+    }
+    this._index.removePath(p);
+  }
+
+  public rmdirSync(p: string): void {
+    if (!this._writable) {
+      return super.rmdirSync(p);
+    }
+    const inode = this._index.getInode(p);
+    if (inode === null) {
+      throw ApiError.ENOENT(p);
+    } else if (!isDirInode(inode)) {
+      throw ApiError.ENOTDIR(p);
+    } else if (p === '/') {
+      throw ApiError.EPERM(p);
+    } else if (inode.getListing().length > 0) {
+      throw ApiError.ENOTEMPTY(p);
+    }
+    this._index.removePath(p);
+  }
+
+  public mkdirSync(p: string, mode: number): void {
+    if (!this._writable) {
+      return super.mkdirSync(p, mode);
+    }
+    if (this._index.getInode(p) !== null) {
+      throw ApiError.EEXIST(p);
+    }
+    this._checkParent(p);
+    this._index.addPath(p, new DirInode<CentralDirectory>(this._createDirectoryEntry(p, mode, new Date())));
+  }
+
+  public renameSync(oldPath: string, newPath: string): void {
+    if (!this._writable) {
+      return super.renameSync(oldPath, newPath);
+    }
+    const inode = this._index.getInode(oldPath);
+    if (inode === null) {
+      throw ApiError.ENOENT(oldPath);
+    } else if (oldPath === newPath) {
+      return;
+    } else if ((newPath + '/').indexOf(oldPath + '/') === 0) {
+      // Can't move a folder inside itself.
+      throw new ApiError(ErrorCode.EBUSY, path.dirname(oldPath));
+    }
+    this._checkParent(newPath);
+    const existing = this._index.getInode(newPath);
+    if (existing !== null) {
+      if (!isDirInode(inode) && isDirInode(existing)) {
+        throw ApiError.EISDIR(newPath);
+      } else if (isDirInode(inode) && !isDirInode(existing)) {
+        throw ApiError.ENOTDIR(newPath);
+      } else if (isDirInode(existing) && existing.getListing().length > 0) {
+        throw ApiError.ENOTEMPTY(newPath);
+      }
+      this._index.removePath(newPath);
+    }
+
+    // Entry names contain their full path, so everything under a directory
+    // needs a new record. Parents come before their children, so that the
+    // index does not create implicit directories for them.
+    const moved: [string, Inode][] = [];
+    const collect = (p: string, node: Inode): void => {
+      moved.push([p, node]);
+      if (isDirInode<CentralDirectory>(node)) {
+        node.getListing().forEach((name) => collect(`${p}/${name}`, node.getItem(name)!));
+      }
+    };
+    collect(oldPath, inode);
+    this._index.removePath(oldPath);
+    for (const [p, node] of moved) {
+      const dest = newPath + p.slice(oldPath.length);
+      if (isFileInode<CentralDirectory>(node)) {
+        this._index.addPath(dest, new FileInode<CentralDirectory>(renameEntry(node.getData(), dest.slice(1))));
+      } else if (isDirInode<CentralDirectory>(node)) {
+        const cdRecord = node.getData();
+        this._index.addPath(dest, new DirInode<CentralDirectory>(cdRecord ? renameEntry(cdRecord, `${dest.slice(1)}/`) : null));
+      }
+    }
+  }
+
+  /**
+   * Serializes the archive, including any changes, into a new zip file.
+   */
+  public toBuffer(): Buffer {
+    const chunks: Buffer[] = [], records: Buffer[] = [];
+    let offset = 0;
+    const addEntry = (cdRecord: CentralDirectory): void => {
+      const fields = getEntryFields(cdRecord),
+        header = encodeLocalHeader(fields),
+        data = cdRecord.getRawData().slice(0, fields.compressedSize),
+        descriptor = encodeDataDescriptor(fields);
+      chunks.push(header, data, descriptor);
+      records.push(encodeCentralDirectory(fields, offset));
+      offset += header.length + data.length + descriptor.length;
+    };
+    const visit = (p: string, inode: Inode): void => {
+      if (isFileInode<CentralDirectory>(inode)) {
+        addEntry(inode.getData());
+      } else if (isDirInode<CentralDirectory>(inode)) {
+        const cdRecord = inode.getData(), listing = inode.getListing();
+        if (cdRecord) {
+          addEntry(cdRecord);
+        } else if (p !== '/' && listing.length === 0) {
+          // Implicit directories only survive as long as they have children.
+          addEntry(this._createDirectoryEntry(p, 0x1ED, new Date()));
+        }
+        listing.forEach((name) => visit(p === '/' ? `/${name}` : `${p}/${name}`, inode.getItem(name)!));
+      }
+    };
+    visit('/', this._index.getInode('/')!);
+
+    const centralDirectory = Buffer.concat(records),
+      comment = this._eocd ? this._eocd.rawCdZipComment() : Buffer.alloc(0);
+    chunks.push(centralDirectory, encodeEndOfCentralDirectory(records.length, centralDirectory.length, offset, comment));
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Returns the record of the file at the given path, if a read-only file
+   * system can open it with the given flags.
+   */
+  private _getReadOnlyEntry(path: string, flags: FileFlag): CentralDirectory {
+    // INVARIANT: Cannot write to RO file systems.
+    if (flags.isWriteable()) {
+      throw new ApiError(ErrorCode.EPERM, path);
+    }
+    // Check if the path exists, and is a file.
+    const inode = this._index.getInode(path);
+    if (!inode) {
+      throw ApiError.ENOENT(path);
+    } else if (isFileInode<CentralDirectory>(inode)) {
+      switch (flags.pathExistsAction()) {
+        case ActionType.THROW_EXCEPTION:
+        case ActionType.TRUNCATE_FILE:
+          throw ApiError.EEXIST(path);
+        case ActionType.NOP:
+          return inode.getData();
+        default:
+          throw new ApiError(ErrorCode.EINVAL, 'Invalid FileMode object.');
+      }
+    } else {
+      throw ApiError.EISDIR(path);
+    }
+  }
+
+  /**
+   * Throws if the parent of the given path is not a directory.
+   */
+  private _checkParent(p: string): void {
+    const parent = path.dirname(p), inode = this._index.getInode(parent);
+    if (inode === null) {
+      throw ApiError.ENOENT(parent);
+    } else if (!isDirInode(inode)) {
+      throw ApiError.ENOTDIR(parent);
+    }
+  }
+
+  private _createFileEntry(p: string, data: Buffer, mode: number, mtime: Date): CentralDirectory {
+    let method = this._compressionMethod, compressed = compressionMethods[method](data);
+    // Store data that does not shrink when compressed.
+    if (method !== CompressionMethod.STORED && compressed.length >= data.length) {
+      method = CompressionMethod.STORED;
+      compressed = data;
+    }
+    return createEntry({
+      fileName: Buffer.from(p.slice(1), 'utf8'),
+      versionMadeBy: NEW_ENTRY_VERSION_MADE_BY,
+      versionNeeded: method === CompressionMethod.STORED ? 10 : 20,
+      flag: 0x800,
+      compressionMethod: method,
+      rawLastModFileTime: date2msdos(mtime),
+      crc32: crc32(0, data, data.length, 0) >>> 0,
+      compressedSize: compressed.length,
+      uncompressedSize: data.length,
+      internalAttributes: 0,
+      externalAttributes: ((FileType.FILE | mode) << 16) >>> 0,
+      extraField: Buffer.alloc(0),
+      fileComment: Buffer.alloc(0)
+    }, compressed);
+  }
+
+  private _createDirectoryEntry(p: string, mode: number, mtime: Date): CentralDirectory {
+    return createEntry({
+      fileName: Buffer.from(`${p.slice(1)}/`, 'utf8'),
+      versionMadeBy: NEW_ENTRY_VERSION_MADE_BY,
+      versionNeeded: 20,
+      flag: 0x800,
+      compressionMethod: CompressionMethod.STORED,
+      rawLastModFileTime: date2msdos(mtime),
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      internalAttributes: 0,
+      // The low byte holds the MS-DOS directory attribute.
+      externalAttributes: (((FileType.DIRECTORY | mode) << 16) | 0x10) >>> 0,
+      extraField: Buffer.alloc(0),
+      fileComment: Buffer.alloc(0)
+    }, Buffer.alloc(0));
+  }
 }
 
 ZipFS.RegisterDecompressionMethod(CompressionMethod.DEFLATE, (data, compressedSize, uncompressedSize) => {
@@ -805,3 +1777,11 @@ ZipFS.RegisterDecompressionMethod(CompressionMethod.DEFLATE, (data, compressedSi
 ZipFS.RegisterDecompressionMethod(CompressionMethod.STORED, (data, compressedSize, uncompressedSize) => {
   return copyingSlice(data, 0, uncompressedSize);
 });
+
+ZipFS.RegisterCompressionMethod(CompressionMethod.DEFLATE, (data) => {
+  return arrayish2Buffer(deflateRaw(data));
+});
+
+ZipFS.RegisterCompressionMethod(CompressionMethod.STORED, (data) => {
+  return data;
+});
@@ -1,10 +1,16 @@
 import {File} from './file';
 import {ApiError, ErrorCode} from './api_error';
-import {FileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback} from './file_system';
+import {FileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback, CopyOptions, COPYFILE_EXCL, COPYFILE_FICLONE, COPYFILE_FICLONE_FORCE, XATTR_CREATE, XATTR_REPLACE, FileSystemTransaction} from './file_system';
 import {FileFlag} from './file_flag';
 import { path } from './path_proxy';
 import Stats from './node_fs_stats';
+import Dirent from './node_fs_dirent';
 import setImmediate from '../generic/setImmediate';
+import {FSPromises} from './fs_promises';
+import {ReadStream, WriteStream, ReadStreamOptions, WriteStreamOptions, createWebReadableStream, createWebWritableStream} from './fs_streams';
+import {Dir, OpenDirOptions, DEFAULT_DIR_BUFFER_SIZE} from './fs_dir';
+import {glob, globSync, GlobOptions} from '../generic/glob';
+import {FSWatcher, WatcherRegistry, DeferredWatcherRegistry, WatchEventType, WatchListener, StatWatchListener} from './fs_watcher';
 
 // Typing info only.
 import * as _fs from 'fs';
@@ -108,6 +114,32 @@ function normalizePath(p: string): string {
   return path.resolve(p);
 }
 
+/**
+ * Normalizes the path of a file stream. A stream that is given a file
+ * descriptor does not open its path, which may then be null.
+ * @hidden
+ */
+function normalizeStreamPath(p: string | null, options?: {fd?: number}): string | null {
+  return options && options.fd !== undefined ? p : normalizePath(p!);
+}
+
+/**
+ * Checks the target of a symbolic link. Unlike paths, targets are stored as
+ * given, so relative targets stay relative to the link's directory.
+ * @hidden
+ */
+function normalizeLinkTarget(target: string): string {
+  normalizePath(target);
+  return target;
+}
+
+/**
+ * @hidden
+ */
+function isSymlinkType(type: string): boolean {
+  return type === 'file' || type === 'dir' || type === 'junction';
+}
+
 /**
  * @hidden
  */
@@ -139,6 +171,56 @@ function normalizeOptions(options: any, defEnc: string | null, defFlag: string,
   }
 }
 
+/**
+ * Validates the `bufferSize` option of `opendir`.
+ * @hidden
+ */
+function normalizeBufferSize(bufferSize: number | undefined): number {
+  if (bufferSize === undefined) {
+    return DEFAULT_DIR_BUFFER_SIZE;
+  } else if (typeof bufferSize !== 'number' || !(bufferSize >= 1)) {
+    throw new ApiError(ErrorCode.EINVAL, `Invalid bufferSize: ${bufferSize}`);
+  }
+  return Math.floor(bufferSize);
+}
+
+/**
+ * Fills in the defaults of `cp` options.
+ * @hidden
+ */
+function normalizeCopyOptions(options: Partial<CopyOptions>): CopyOptions {
+  return {
+    recursive: !!options.recursive,
+    force: options.force !== false,
+    errorOnExist: !!options.errorOnExist,
+    preserveTimestamps: !!options.preserveTimestamps
+  };
+}
+
+/**
+ * Validates the name of an extended attribute.
+ * @hidden
+ */
+function normalizeXattrName(name: string): string {
+  if (typeof name !== 'string' || name === '') {
+    throw new ApiError(ErrorCode.EINVAL, 'Attribute name must be a non-empty string.');
+  }
+  return name;
+}
+
+/**
+ * Converts an extended attribute value into a Buffer.
+ * @hidden
+ */
+function normalizeXattrValue(value: Buffer | string): Buffer {
+  if (typeof value === 'string') {
+    return Buffer.from(value, 'utf8');
+  } else if (!Buffer.isBuffer(value)) {
+    throw new ApiError(ErrorCode.EINVAL, 'Attribute value must be a string or a Buffer.');
+  }
+  return value;
+}
+
 /**
  * The default callback is a NOP.
  * @hidden
@@ -165,16 +247,38 @@ export default class FS {
   /* tslint:disable:variable-name */
   // Exported fs.Stats.
   public static Stats = Stats;
+  // Exported fs.Dirent.
+  public static Dirent = Dirent;
+  // Exported fs.Dir.
+  public static Dir = Dir;
   /* tslint:enable:variable-name */
 
   public F_OK: number = 0;
   public R_OK: number = 4;
   public W_OK: number = 2;
   public X_OK: number = 1;
+  public COPYFILE_EXCL: number = COPYFILE_EXCL;
+  public COPYFILE_FICLONE: number = COPYFILE_FICLONE;
+  public COPYFILE_FICLONE_FORCE: number = COPYFILE_FICLONE_FORCE;
+  public XATTR_CREATE: number = XATTR_CREATE;
+  public XATTR_REPLACE: number = XATTR_REPLACE;
 
   private root: FileSystem | null = null;
   private fdMap: {[fd: number]: File} = {};
+  // Credentials used for permission checks.
+  private uid: number = 0;
+  private gid: number = 0;
+  // Absolute path each file descriptor was opened with, for change notifications.
+  private fdPaths: {[fd: number]: string} = {};
   private nextFd = 100;
+  private _promises: FSPromises | null = null;
+  private watchers = new WatcherRegistry((p, cb) => {
+    try {
+      assertRoot(this.root).stat(p, false, cb);
+    } catch (e) {
+      cb(e);
+    }
+  });
 
   public initialize(rootFS: FileSystem): FileSystem {
     if (!(<any> rootFS).constructor.isAvailable()) {
@@ -183,6 +287,17 @@ export default class FS {
     return this.root = rootFS;
   }
 
+  /**
+   * Promise-based versions of the file system methods, mirroring Node's
+   * `fs.promises` API.
+   */
+  public get promises(): FSPromises {
+    if (this._promises === null) {
+      this._promises = new FSPromises(this);
+    }
+    return this._promises;
+  }
+
   /**
    * converts Date or number to a fractional UNIX timestamp
    * Grabbed from NodeJS sources (lib/fs.js)
@@ -221,7 +336,9 @@ export default class FS {
   public rename(oldPath: string, newPath: string, cb: BFSOneArgCallback = nopCb): void {
     const newCb = wrapCb(cb, 1);
     try {
-      assertRoot(this.root).rename(normalizePath(oldPath), normalizePath(newPath), newCb);
+      oldPath = normalizePath(oldPath);
+      newPath = normalizePath(newPath);
+      assertRoot(this.root).rename(oldPath, newPath, this.notifyAfter(newCb, 'rename', oldPath, newPath));
     } catch (e) {
       newCb(e);
     }
@@ -233,7 +350,107 @@ export default class FS {
    * @param newPath
    */
   public renameSync(oldPath: string, newPath: string): void {
-    assertRoot(this.root).renameSync(normalizePath(oldPath), normalizePath(newPath));
+    oldPath = normalizePath(oldPath);
+    newPath = normalizePath(newPath);
+    assertRoot(this.root).renameSync(oldPath, newPath);
+    this.watchers.notify('rename', oldPath);
+    this.watchers.notify('rename', newPath);
+  }
+
+  /**
+   * Asynchronous `copyFile`. The destination is overwritten if it exists, and
+   * receives the mode of the source file.
+   * @param src
+   * @param dest
+   * @param flags A mask of `COPYFILE_EXCL`, `COPYFILE_FICLONE`, and
+   *   `COPYFILE_FICLONE_FORCE`. Defaults to `0`.
+   * @param callback
+   */
+  public copyFile(src: string, dest: string, cb?: BFSOneArgCallback): void;
+  public copyFile(src: string, dest: string, flags: number, cb?: BFSOneArgCallback): void;
+  public copyFile(src: string, dest: string, arg3?: any, cb: BFSOneArgCallback = nopCb): void {
+    const flags = typeof arg3 === 'number' ? arg3 : 0;
+    cb = typeof arg3 === 'function' ? arg3 : cb;
+    const newCb = wrapCb(cb, 1);
+    try {
+      src = normalizePath(src);
+      dest = normalizePath(dest);
+      const root = assertRoot(this.root);
+      this.existedBefore(dest, (existed) => {
+        root.copyFile(src, dest, flags, this.notifyWriteAfter(newCb, dest, existed));
+      });
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `copyFile`.
+   * @param src
+   * @param dest
+   * @param flags A mask of `COPYFILE_EXCL`, `COPYFILE_FICLONE`, and
+   *   `COPYFILE_FICLONE_FORCE`. Defaults to `0`.
+   */
+  public copyFileSync(src: string, dest: string, flags: number = 0): void {
+    src = normalizePath(src);
+    dest = normalizePath(dest);
+    const existed = this.existedBeforeSync(dest);
+    assertRoot(this.root).copyFileSync(src, dest, flags);
+    this.notifyWrite(dest, existed);
+  }
+
+  /**
+   * Asynchronous `cp`. Copies a file or, with the `recursive` option, a
+   * directory and all of its contents.
+   * @param src
+   * @param dest
+   * @param options
+   * @option options [Boolean] recursive Copy directories. Defaults to `false`.
+   * @option options [Boolean] force Overwrite existing files. Defaults to
+   *   `true`.
+   * @option options [Boolean] errorOnExist When `force` is `false`, fail if a
+   *   file already exists. Defaults to `false`.
+   * @option options [Boolean] preserveTimestamps Keep the access and
+   *   modification times of the source. Defaults to `false`.
+   * @param callback
+   */
+  public cp(src: string, dest: string, cb?: BFSOneArgCallback): void;
+  public cp(src: string, dest: string, options: Partial<CopyOptions>, cb?: BFSOneArgCallback): void;
+  public cp(src: string, dest: string, arg3?: any, cb: BFSOneArgCallback = nopCb): void {
+    const options = normalizeCopyOptions(arg3 !== null && typeof arg3 === 'object' ? arg3 : {});
+    cb = typeof arg3 === 'function' ? arg3 : cb;
+    const newCb = wrapCb(cb, 1);
+    try {
+      src = normalizePath(src);
+      dest = normalizePath(dest);
+      const root = assertRoot(this.root);
+      this.existedBefore(dest, (existed) => {
+        root.cp(src, dest, options, this.notifyWriteAfter(newCb, dest, existed));
+      });
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `cp`.
+   * @param src
+   * @param dest
+   * @param options
+   * @option options [Boolean] recursive Copy directories. Defaults to `false`.
+   * @option options [Boolean] force Overwrite existing files. Defaults to
+   *   `true`.
+   * @option options [Boolean] errorOnExist When `force` is `false`, fail if a
+   *   file already exists. Defaults to `false`.
+   * @option options [Boolean] preserveTimestamps Keep the access and
+   *   modification times of the source. Defaults to `false`.
+   */
+  public cpSync(src: string, dest: string, options: Partial<CopyOptions> = {}): void {
+    src = normalizePath(src);
+    dest = normalizePath(dest);
+    const existed = this.existedBeforeSync(dest);
+    assertRoot(this.root).cpSync(src, dest, normalizeCopyOptions(options));
+    this.notifyWrite(dest, existed);
   }
 
   /**
@@ -345,7 +562,8 @@ export default class FS {
       if (len < 0) {
         throw new ApiError(ErrorCode.EINVAL);
       }
-      return assertRoot(this.root).truncate(normalizePath(path), len, newCb);
+      path = normalizePath(path);
+      return assertRoot(this.root).truncate(path, len, this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       return newCb(e);
     }
@@ -360,7 +578,9 @@ export default class FS {
     if (len < 0) {
       throw new ApiError(ErrorCode.EINVAL);
     }
-    return assertRoot(this.root).truncateSync(normalizePath(path), len);
+    path = normalizePath(path);
+    assertRoot(this.root).truncateSync(path, len);
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -371,7 +591,8 @@ export default class FS {
   public unlink(path: string, cb: BFSOneArgCallback = nopCb): void {
     const newCb = wrapCb(cb, 1);
     try {
-      return assertRoot(this.root).unlink(normalizePath(path), newCb);
+      path = normalizePath(path);
+      return assertRoot(this.root).unlink(path, this.notifyAfter(newCb, 'rename', path));
     } catch (e) {
       return newCb(e);
     }
@@ -382,7 +603,9 @@ export default class FS {
    * @param path
    */
   public unlinkSync(path: string): void {
-    return assertRoot(this.root).unlinkSync(normalizePath(path));
+    path = normalizePath(path);
+    assertRoot(this.root).unlinkSync(path);
+    this.watchers.notify('rename', path);
   }
 
   /**
@@ -417,10 +640,19 @@ export default class FS {
     cb = typeof arg2 === 'function' ? arg2 : cb;
     const newCb = wrapCb(cb, 2);
     try {
-      assertRoot(this.root).open(normalizePath(path), FileFlag.getFileFlag(flag), mode, (e: ApiError, file?: File) => {
-        if (file) {
-          newCb(e, this.getFdForFile(file));
-        } else {
+      const p = normalizePath(path);
+      const fileFlag = FileFlag.getFileFlag(flag);
+      this.existedBefore(p, (existed) => {
+        try {
+          assertRoot(this.root).open(p, fileFlag, mode, (e: ApiError, file?: File) => {
+            if (file) {
+              this.notifyOpen(p, fileFlag, existed);
+              newCb(e, this.getFdForFile(file, p));
+            } else {
+              newCb(e);
+            }
+          });
+        } catch (e) {
           newCb(e);
         }
       });
@@ -438,8 +670,13 @@ export default class FS {
    * @return [BrowserFS.File]
    */
   public openSync(path: string, flag: string, mode: number|string = 0x1a4): number {
-    return this.getFdForFile(
-      assertRoot(this.root).openSync(normalizePath(path), FileFlag.getFileFlag(flag), normalizeMode(mode, 0x1a4)));
+    path = normalizePath(path);
+    const fileFlag = FileFlag.getFileFlag(flag);
+    const existed = this.existedBeforeSync(path);
+    const fd = this.getFdForFile(
+      assertRoot(this.root).openSync(path, fileFlag, normalizeMode(mode, 0x1a4)), path);
+    this.notifyOpen(path, fileFlag, existed);
+    return fd;
   }
 
   /**
@@ -459,6 +696,7 @@ export default class FS {
   public readFile(filename: string, options: { flag?: string; }, callback?: BFSCallback<Buffer>): void;
   public readFile(filename: string, options: { encoding: string; flag?: string; }, callback?: BFSCallback<string>): void;
   public readFile(filename: string, encoding: string, cb: BFSCallback<string>): void;
+  public readFile(filename: string, options: { encoding?: string | null; flag?: string; } | string, callback?: BFSCallback<string | Buffer>): void;
   public readFile(filename: string, arg2: any = {}, cb: BFSCallback<any> = nopCb) {
     const options = normalizeOptions(arg2, null, 'r', null);
     cb = typeof arg2 === 'function' ? arg2 : cb;
@@ -515,7 +753,7 @@ export default class FS {
    */
   public writeFile(filename: string, data: any, cb?: BFSOneArgCallback): void;
   public writeFile(filename: string, data: any, encoding?: string, cb?: BFSOneArgCallback): void;
-  public writeFile(filename: string, data: any, options?: { encoding?: string; mode?: string | number; flag?: string; }, cb?: BFSOneArgCallback): void;
+  public writeFile(filename: string, data: any, options?: { encoding?: string; mode?: string | number; flag?: string; } | string, cb?: BFSOneArgCallback): void;
   public writeFile(filename: string, data: any, arg3: any = {}, cb: BFSOneArgCallback = nopCb): void {
     const options = normalizeOptions(arg3, 'utf8', 'w', 0x1a4);
     cb = typeof arg3 === 'function' ? arg3 : cb;
@@ -525,7 +763,14 @@ export default class FS {
       if (!flag.isWriteable()) {
         return newCb(new ApiError(ErrorCode.EINVAL, 'Flag passed to writeFile must allow for writing.'));
       }
-      return assertRoot(this.root).writeFile(normalizePath(filename), data, options.encoding, flag, options.mode, newCb);
+      const p = normalizePath(filename);
+      return this.existedBefore(p, (existed) => {
+        try {
+          assertRoot(this.root).writeFile(p, data, options.encoding, flag, options.mode, this.notifyWriteAfter(newCb, p, existed));
+        } catch (e) {
+          newCb(e);
+        }
+      });
     } catch (e) {
       return newCb(e);
     }
@@ -551,7 +796,10 @@ export default class FS {
     if (!flag.isWriteable()) {
       throw new ApiError(ErrorCode.EINVAL, 'Flag passed to writeFile must allow for writing.');
     }
-    return assertRoot(this.root).writeFileSync(normalizePath(filename), data, options.encoding, flag, options.mode);
+    filename = normalizePath(filename);
+    const existed = this.existedBeforeSync(filename);
+    assertRoot(this.root).writeFileSync(filename, data, options.encoding, flag, options.mode);
+    this.notifyWrite(filename, existed);
   }
 
   /**
@@ -572,7 +820,7 @@ export default class FS {
    * @param callback
    */
   public appendFile(filename: string, data: any, cb?: BFSOneArgCallback): void;
-  public appendFile(filename: string, data: any, options?: { encoding?: string; mode?: number|string; flag?: string; }, cb?: BFSOneArgCallback): void;
+  public appendFile(filename: string, data: any, options?: { encoding?: string; mode?: number|string; flag?: string; } | string, cb?: BFSOneArgCallback): void;
   public appendFile(filename: string, data: any, encoding?: string, cb?: BFSOneArgCallback): void;
   public appendFile(filename: string, data: any, arg3?: any, cb: BFSOneArgCallback = nopCb): void {
     const options = normalizeOptions(arg3, 'utf8', 'a', 0x1a4);
@@ -583,7 +831,14 @@ export default class FS {
       if (!flag.isAppendable()) {
         return newCb(new ApiError(ErrorCode.EINVAL, 'Flag passed to appendFile must allow for appending.'));
       }
-      assertRoot(this.root).appendFile(normalizePath(filename), data, options.encoding, flag, options.mode, newCb);
+      const p = normalizePath(filename);
+      this.existedBefore(p, (existed) => {
+        try {
+          assertRoot(this.root).appendFile(p, data, options.encoding, flag, options.mode, this.notifyWriteAfter(newCb, p, existed));
+        } catch (e) {
+          newCb(e);
+        }
+      });
     } catch (e) {
       newCb(e);
     }
@@ -613,7 +868,10 @@ export default class FS {
     if (!flag.isAppendable()) {
       throw new ApiError(ErrorCode.EINVAL, 'Flag passed to appendFile must allow for appending.');
     }
-    return assertRoot(this.root).appendFileSync(normalizePath(filename), data, options.encoding, flag, options.mode);
+    filename = normalizePath(filename);
+    const existed = this.existedBeforeSync(filename);
+    assertRoot(this.root).appendFileSync(filename, data, options.encoding, flag, options.mode);
+    this.notifyWrite(filename, existed);
   }
 
   // FILE DESCRIPTOR METHODS
@@ -691,7 +949,7 @@ export default class FS {
       if (length < 0) {
         throw new ApiError(ErrorCode.EINVAL);
       }
-      file.truncate(length, newCb);
+      file.truncate(length, this.notifyAfter(newCb, 'change', this.fdPaths[fd]));
     } catch (e) {
       newCb(e);
     }
@@ -708,6 +966,7 @@ export default class FS {
       throw new ApiError(ErrorCode.EINVAL);
     }
     file.truncateSync(len);
+    this.watchers.notify('change', this.fdPaths[fd]);
   }
 
   /**
@@ -812,7 +1071,7 @@ export default class FS {
       if (position === undefined || position === null) {
         position = file.getPos()!;
       }
-      file.write(buffer, offset, length, position, newCb);
+      file.write(buffer, offset, length, position, this.notifyAfter(newCb, 'change', this.fdPaths[fd]));
     } catch (e) {
       newCb(e);
     }
@@ -854,7 +1113,9 @@ export default class FS {
     if (position === undefined || position === null) {
       position = file.getPos()!;
     }
-    return file.writeSync(buffer, offset, length, position);
+    const rv = file.writeSync(buffer, offset, length, position);
+    this.watchers.notify('change', this.fdPaths[fd]);
+    return rv;
   }
 
   /**
@@ -964,7 +1225,7 @@ export default class FS {
   public fchown(fd: number, uid: number, gid: number, callback: BFSOneArgCallback = nopCb): void {
     const newCb = wrapCb(callback, 1);
     try {
-      this.fd2file(fd).chown(uid, gid, newCb);
+      this.fd2file(fd).chown(uid, gid, this.notifyAfter(newCb, 'change', this.fdPaths[fd]));
     } catch (e) {
       newCb(e);
     }
@@ -978,6 +1239,7 @@ export default class FS {
    */
   public fchownSync(fd: number, uid: number, gid: number): void {
     this.fd2file(fd).chownSync(uid, gid);
+    this.watchers.notify('change', this.fdPaths[fd]);
   }
 
   /**
@@ -990,7 +1252,7 @@ export default class FS {
     const newCb = wrapCb(cb, 1);
     try {
       const numMode = typeof mode === 'string' ? parseInt(mode, 8) : mode;
-      this.fd2file(fd).chmod(numMode, newCb);
+      this.fd2file(fd).chmod(numMode, this.notifyAfter(newCb, 'change', this.fdPaths[fd]));
     } catch (e) {
       newCb(e);
     }
@@ -1004,6 +1266,7 @@ export default class FS {
   public fchmodSync(fd: number, mode: number | string): void {
     const numMode = typeof mode === 'string' ? parseInt(mode, 8) : mode;
     this.fd2file(fd).chmodSync(numMode);
+    this.watchers.notify('change', this.fdPaths[fd]);
   }
 
   /**
@@ -1024,7 +1287,7 @@ export default class FS {
       if (typeof mtime === 'number') {
         mtime = new Date(mtime * 1000);
       }
-      file.utimes(atime, mtime, newCb);
+      file.utimes(atime, mtime, this.notifyAfter(newCb, 'change', this.fdPaths[fd]));
     } catch (e) {
       newCb(e);
     }
@@ -1039,6 +1302,7 @@ export default class FS {
    */
   public futimesSync(fd: number, atime: number | Date, mtime: number | Date): void {
     this.fd2file(fd).utimesSync(normalizeTime(atime), normalizeTime(mtime));
+    this.watchers.notify('change', this.fdPaths[fd]);
   }
 
   // DIRECTORY-ONLY METHODS
@@ -1046,13 +1310,32 @@ export default class FS {
   /**
    * Asynchronous `rmdir`.
    * @param path
+   * @param options
+   * @option options [Boolean] recursive Also remove the directory's contents.
+   *   Defaults to `false`.
    * @param callback
    */
-  public rmdir(path: string, cb: BFSOneArgCallback = nopCb): void {
+  public rmdir(path: string, cb?: BFSOneArgCallback): void;
+  public rmdir(path: string, options: { recursive?: boolean; }, cb?: BFSOneArgCallback): void;
+  public rmdir(path: string, arg2?: any, cb: BFSOneArgCallback = nopCb): void {
+    const recursive = arg2 !== null && typeof arg2 === 'object' ? !!arg2.recursive : false;
+    cb = typeof arg2 === 'function' ? arg2 : cb;
     const newCb = wrapCb(cb, 1);
     try {
       path = normalizePath(path);
-      assertRoot(this.root).rmdir(path, newCb);
+      const root = assertRoot(this.root);
+      if (!recursive) {
+        return root.rmdir(path, this.notifyAfter(newCb, 'rename', path));
+      }
+      root.stat(path, true, (e, stats?) => {
+        if (e) {
+          newCb(e);
+        } else if (!stats!.isDirectory()) {
+          newCb(ApiError.ENOTDIR(path));
+        } else {
+          root.rimraf(path, this.notifyAfter(newCb, 'rename', path));
+        }
+      });
     } catch (e) {
       newCb(e);
     }
@@ -1061,27 +1344,121 @@ export default class FS {
   /**
    * Synchronous `rmdir`.
    * @param path
+   * @param options
+   * @option options [Boolean] recursive Also remove the directory's contents.
+   *   Defaults to `false`.
    */
-  public rmdirSync(path: string): void {
+  public rmdirSync(path: string, options?: { recursive?: boolean; }): void {
     path = normalizePath(path);
-    return assertRoot(this.root).rmdirSync(path);
+    const root = assertRoot(this.root);
+    if (options && options.recursive) {
+      if (!root.statSync(path, true).isDirectory()) {
+        throw ApiError.ENOTDIR(path);
+      }
+      root.rimrafSync(path);
+    } else {
+      root.rmdirSync(path);
+    }
+    this.watchers.notify('rename', path);
+  }
+
+  /**
+   * Asynchronous `rm`. Removes files and, with the `recursive` option,
+   * directories.
+   * @param path
+   * @param options
+   * @option options [Boolean] recursive Remove directories and their
+   *   contents. Defaults to `false`.
+   * @option options [Boolean] force Ignore nonexistent paths. Defaults to
+   *   `false`.
+   * @param callback
+   */
+  public rm(path: string, cb?: BFSOneArgCallback): void;
+  public rm(path: string, options: { recursive?: boolean; force?: boolean; }, cb?: BFSOneArgCallback): void;
+  public rm(path: string, arg2?: any, cb: BFSOneArgCallback = nopCb): void {
+    const options = arg2 !== null && typeof arg2 === 'object' ? arg2 : {};
+    cb = typeof arg2 === 'function' ? arg2 : cb;
+    const newCb = wrapCb(cb, 1);
+    try {
+      path = normalizePath(path);
+      const root = assertRoot(this.root);
+      root.stat(path, true, (e, stats?) => {
+        if (e) {
+          newCb(e.errno === ErrorCode.ENOENT && options.force ? null : e);
+        } else if (!stats!.isDirectory()) {
+          root.unlink(path, this.notifyAfter(newCb, 'rename', path));
+        } else if (!options.recursive) {
+          newCb(ApiError.EISDIR(path));
+        } else {
+          root.rimraf(path, this.notifyAfter(newCb, 'rename', path));
+        }
+      });
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `rm`.
+   * @param path
+   * @param options
+   * @option options [Boolean] recursive Remove directories and their
+   *   contents. Defaults to `false`.
+   * @option options [Boolean] force Ignore nonexistent paths. Defaults to
+   *   `false`.
+   */
+  public rmSync(path: string, options: { recursive?: boolean; force?: boolean; } = {}): void {
+    path = normalizePath(path);
+    const root = assertRoot(this.root);
+    let stats: Stats;
+    try {
+      stats = root.statSync(path, true);
+    } catch (e) {
+      if (e.errno === ErrorCode.ENOENT && options.force) {
+        return;
+      }
+      throw e;
+    }
+    if (!stats.isDirectory()) {
+      root.unlinkSync(path);
+    } else if (!options.recursive) {
+      throw ApiError.EISDIR(path);
+    } else {
+      root.rimrafSync(path);
+    }
+    this.watchers.notify('rename', path);
   }
 
   /**
    * Asynchronous `mkdir`.
    * @param path
-   * @param mode defaults to `0777`
+   * @param mode defaults to `0777`. Can also be an options object.
+   * @option options [Boolean] recursive Also create any missing parent
+   *   directories, and do not fail if the directory exists. Defaults to
+   *   `false`.
+   * @option options [Number] mode defaults to `0777`
    * @param callback
    */
+  public mkdir(path: string, cb?: BFSOneArgCallback): void;
+  public mkdir(path: string, mode: number | string | { recursive?: boolean; mode?: number | string; } | null | undefined, cb?: BFSOneArgCallback): void;
   public mkdir(path: string, mode?: any, cb: BFSOneArgCallback = nopCb): void {
     if (typeof mode === 'function') {
       cb = mode;
       mode = 0x1ff;
     }
+    const recursive = mode !== null && typeof mode === 'object' ? !!mode.recursive : false;
+    if (mode !== null && typeof mode === 'object') {
+      mode = mode.mode;
+    }
     const newCb = wrapCb(cb, 1);
     try {
       path = normalizePath(path);
-      assertRoot(this.root).mkdir(path, mode, newCb);
+      const root = assertRoot(this.root);
+      if (recursive) {
+        root.mkdirp(path, normalizeMode(mode, 0x1ff), this.notifyAfter(newCb, 'rename', path));
+      } else {
+        root.mkdir(path, normalizeMode(mode, 0x1ff), this.notifyAfter(newCb, 'rename', path));
+      }
     } catch (e) {
       newCb(e);
     }
@@ -1090,10 +1467,24 @@ export default class FS {
   /**
    * Synchronous `mkdir`.
    * @param path
-   * @param mode defaults to `0777`
+   * @param mode defaults to `0777`. Can also be an options object.
+   * @option options [Boolean] recursive Also create any missing parent
+   *   directories, and do not fail if the directory exists. Defaults to
+   *   `false`.
+   * @option options [Number] mode defaults to `0777`
    */
-  public mkdirSync(path: string, mode?: number | string): void {
-    assertRoot(this.root).mkdirSync(normalizePath(path), normalizeMode(mode, 0x1ff));
+  public mkdirSync(path: string, mode?: number | string | { recursive?: boolean; mode?: number | string; }): void {
+    path = normalizePath(path);
+    if (mode !== null && typeof mode === 'object') {
+      if (mode.recursive) {
+        assertRoot(this.root).mkdirpSync(path, normalizeMode(mode.mode, 0x1ff));
+      } else {
+        assertRoot(this.root).mkdirSync(path, normalizeMode(mode.mode, 0x1ff));
+      }
+    } else {
+      assertRoot(this.root).mkdirSync(path, normalizeMode(<number | string | undefined> mode, 0x1ff));
+    }
+    this.watchers.notify('rename', path);
   }
 
   /**
@@ -1101,13 +1492,27 @@ export default class FS {
    * The callback gets two arguments `(err, files)` where `files` is an array of
    * the names of the files in the directory excluding `'.'` and `'..'`.
    * @param path
+   * @param options
+   * @option options [Boolean] withFileTypes List `fs.Dirent` objects instead
+   *   of names. Defaults to `false`.
    * @param callback
    */
-  public readdir(path: string, cb: BFSCallback<string[]> = nopCb): void {
-    const newCb = <(err: ApiError, files?: string[]) => void> wrapCb(cb, 2);
+  public readdir(path: string, cb?: BFSCallback<string[]>): void;
+  public readdir(path: string, options: { withFileTypes?: false; }, cb?: BFSCallback<string[]>): void;
+  public readdir(path: string, options: { withFileTypes: true; }, cb?: BFSCallback<Dirent[]>): void;
+  public readdir(path: string, options: { withFileTypes?: boolean; }, cb?: BFSCallback<string[] | Dirent[]>): void;
+  public readdir(path: string, arg2?: any, cb: BFSCallback<any> = nopCb): void {
+    const withFileTypes = arg2 !== null && typeof arg2 === 'object' && !!arg2.withFileTypes;
+    cb = typeof arg2 === 'function' ? arg2 : cb;
+    const newCb = <(err: ApiError, files?: any[]) => void> wrapCb(cb, 2);
     try {
       path = normalizePath(path);
-      assertRoot(this.root).readdir(path, newCb);
+      const root = assertRoot(this.root);
+      if (withFileTypes) {
+        root.readdirWithTypes(path, newCb);
+      } else {
+        root.readdir(path, newCb);
+      }
     } catch (e) {
       newCb(e);
     }
@@ -1116,11 +1521,110 @@ export default class FS {
   /**
    * Synchronous `readdir`. Reads the contents of a directory.
    * @param path
-   * @return [String[]]
+   * @param options
+   * @option options [Boolean] withFileTypes List `fs.Dirent` objects instead
+   *   of names. Defaults to `false`.
+   * @return [String[] | fs.Dirent[]]
    */
-  public readdirSync(path: string): string[] {
+  public readdirSync(path: string, options?: { withFileTypes?: false; }): string[];
+  public readdirSync(path: string, options: { withFileTypes: true; }): Dirent[];
+  public readdirSync(path: string, options: { withFileTypes?: boolean; } = {}): string[] | Dirent[] {
     path = normalizePath(path);
-    return assertRoot(this.root).readdirSync(path);
+    const root = assertRoot(this.root);
+    return options.withFileTypes ? root.readdirWithTypesSync(path) : root.readdirSync(path);
+  }
+
+  /**
+   * Asynchronous `opendir`. Opens a directory for iterative reading; entries
+   * are fetched from the file system in pages as they are read.
+   * @param path
+   * @param options
+   * @option options [Number] bufferSize The number of entries to fetch at
+   *   once. Defaults to `32`.
+   * @param callback
+   */
+  public opendir(path: string, cb?: BFSCallback<Dir>): void;
+  public opendir(path: string, options: OpenDirOptions, cb?: BFSCallback<Dir>): void;
+  public opendir(path: string, arg2?: any, cb: BFSCallback<Dir> = nopCb): void {
+    const options: OpenDirOptions = arg2 !== null && typeof arg2 === 'object' ? arg2 : {};
+    cb = typeof arg2 === 'function' ? arg2 : cb;
+    const newCb = wrapCb(cb, 2);
+    try {
+      path = normalizePath(path);
+      const bufferSize = normalizeBufferSize(options.bufferSize);
+      const root = assertRoot(this.root);
+      root.stat(path, false, (e, stats?) => {
+        if (e) {
+          newCb(e);
+        } else if (!stats!.isDirectory()) {
+          newCb(ApiError.ENOTDIR(path));
+        } else {
+          newCb(null, new Dir(root, path, bufferSize));
+        }
+      });
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `opendir`.
+   * @param path
+   * @param options
+   * @option options [Number] bufferSize The number of entries to fetch at
+   *   once. Defaults to `32`.
+   * @return [BrowserFS.Dir]
+   */
+  public opendirSync(path: string, options: OpenDirOptions = {}): Dir {
+    path = normalizePath(path);
+    const bufferSize = normalizeBufferSize(options.bufferSize);
+    const root = assertRoot(this.root);
+    if (!root.statSync(path, false).isDirectory()) {
+      throw ApiError.ENOTDIR(path);
+    }
+    return new Dir(root, path, bufferSize);
+  }
+
+  /**
+   * Asynchronous `glob`. Finds the paths that match the given patterns.
+   * Supports `*`, `?`, `**`, character classes, and `{a,b}` alternatives.
+   * The callback gets two arguments `(err, matches)`, where `matches` is a
+   * sorted array of paths. Matches of relative patterns are relative to `cwd`.
+   * @param pattern A pattern, or an array of patterns.
+   * @param options
+   * @option options [String] cwd The directory relative patterns are resolved
+   *   against. Defaults to `'/'`.
+   * @option options [String | String[]] ignore Patterns of paths to exclude.
+   * @option options [Number] maxDepth The number of directory levels below
+   *   `cwd` to search. Defaults to no limit.
+   * @option options [Boolean] dot Let wildcards match hidden names. Defaults
+   *   to `false`.
+   * @option options [Boolean] nodir Exclude directories. Defaults to `false`.
+   * @option options [String | RegExp] grep Only include files whose contents
+   *   contain this string, or match this regular expression.
+   * @param callback
+   */
+  public glob(pattern: string | string[], cb?: BFSCallback<string[]>): void;
+  public glob(pattern: string | string[], options: GlobOptions, cb?: BFSCallback<string[]>): void;
+  public glob(pattern: string | string[], arg2?: any, cb: BFSCallback<string[]> = nopCb): void {
+    const options: GlobOptions = arg2 !== null && typeof arg2 === 'object' ? arg2 : {};
+    cb = typeof arg2 === 'function' ? arg2 : cb;
+    const newCb = wrapCb(cb, 2);
+    try {
+      glob(assertRoot(this.root), pattern, options, newCb);
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `glob`.
+   * @param pattern A pattern, or an array of patterns.
+   * @param options See `glob`.
+   * @return [String[]]
+   */
+  public globSync(pattern: string | string[], options: GlobOptions = {}): string[] {
+    return globSync(assertRoot(this.root), pattern, options);
   }
 
   // SYMLINK METHODS
@@ -1136,7 +1640,7 @@ export default class FS {
     try {
       srcpath = normalizePath(srcpath);
       dstpath = normalizePath(dstpath);
-      assertRoot(this.root).link(srcpath, dstpath, newCb);
+      assertRoot(this.root).link(srcpath, dstpath, this.notifyAfter(newCb, 'rename', dstpath));
     } catch (e) {
       newCb(e);
     }
@@ -1150,14 +1654,15 @@ export default class FS {
   public linkSync(srcpath: string, dstpath: string): void {
     srcpath = normalizePath(srcpath);
     dstpath = normalizePath(dstpath);
-    return assertRoot(this.root).linkSync(srcpath, dstpath);
+    assertRoot(this.root).linkSync(srcpath, dstpath);
+    this.watchers.notify('rename', dstpath);
   }
 
   /**
    * Asynchronous `symlink`.
    * @param srcpath
    * @param dstpath
-   * @param type can be either `'dir'` or `'file'` (default is `'file'`)
+   * @param type can be `'dir'`, `'file'` or `'junction'` (default is `'file'`)
    * @param callback
    */
   public symlink(srcpath: string, dstpath: string, cb?: BFSOneArgCallback): void;
@@ -1167,12 +1672,12 @@ export default class FS {
     cb = typeof arg3 === 'function' ? arg3 : cb;
     const newCb = wrapCb(cb, 1);
     try {
-      if (type !== 'file' && type !== 'dir') {
+      if (!isSymlinkType(type)) {
         return newCb(new ApiError(ErrorCode.EINVAL, "Invalid type: " + type));
       }
-      srcpath = normalizePath(srcpath);
+      srcpath = normalizeLinkTarget(srcpath);
       dstpath = normalizePath(dstpath);
-      assertRoot(this.root).symlink(srcpath, dstpath, type, newCb);
+      assertRoot(this.root).symlink(srcpath, dstpath, type, this.notifyAfter(newCb, 'rename', dstpath));
     } catch (e) {
       newCb(e);
     }
@@ -1182,17 +1687,18 @@ export default class FS {
    * Synchronous `symlink`.
    * @param srcpath
    * @param dstpath
-   * @param type can be either `'dir'` or `'file'` (default is `'file'`)
+   * @param type can be `'dir'`, `'file'` or `'junction'` (default is `'file'`)
    */
   public symlinkSync(srcpath: string, dstpath: string, type?: string): void {
     if (!type) {
       type = 'file';
-    } else if (type !== 'file' && type !== 'dir') {
+    } else if (!isSymlinkType(type)) {
       throw new ApiError(ErrorCode.EINVAL, "Invalid type: " + type);
     }
-    srcpath = normalizePath(srcpath);
+    srcpath = normalizeLinkTarget(srcpath);
     dstpath = normalizePath(dstpath);
-    return assertRoot(this.root).symlinkSync(srcpath, dstpath, type);
+    assertRoot(this.root).symlinkSync(srcpath, dstpath, type);
+    this.watchers.notify('rename', dstpath);
   }
 
   /**
@@ -1233,7 +1739,7 @@ export default class FS {
     const newCb = wrapCb(cb, 1);
     try {
       path = normalizePath(path);
-      assertRoot(this.root).chown(path, false, uid, gid, newCb);
+      assertRoot(this.root).chown(path, false, uid, gid, this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       newCb(e);
     }
@@ -1248,6 +1754,7 @@ export default class FS {
   public chownSync(path: string, uid: number, gid: number): void {
     path = normalizePath(path);
     assertRoot(this.root).chownSync(path, false, uid, gid);
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -1261,7 +1768,7 @@ export default class FS {
     const newCb = wrapCb(cb, 1);
     try {
       path = normalizePath(path);
-      assertRoot(this.root).chown(path, true, uid, gid, newCb);
+      assertRoot(this.root).chown(path, true, uid, gid, this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       newCb(e);
     }
@@ -1276,6 +1783,7 @@ export default class FS {
   public lchownSync(path: string, uid: number, gid: number): void {
     path = normalizePath(path);
     assertRoot(this.root).chownSync(path, true, uid, gid);
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -1291,7 +1799,8 @@ export default class FS {
       if (numMode < 0) {
         throw new ApiError(ErrorCode.EINVAL, `Invalid mode.`);
       }
-      assertRoot(this.root).chmod(normalizePath(path), false, numMode, newCb);
+      path = normalizePath(path);
+      assertRoot(this.root).chmod(path, false, numMode, this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       newCb(e);
     }
@@ -1309,6 +1818,7 @@ export default class FS {
     }
     path = normalizePath(path);
     assertRoot(this.root).chmodSync(path, false, numMode);
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -1324,7 +1834,8 @@ export default class FS {
       if (numMode < 0) {
         throw new ApiError(ErrorCode.EINVAL, `Invalid mode.`);
       }
-      assertRoot(this.root).chmod(normalizePath(path), true, numMode, newCb);
+      path = normalizePath(path);
+      assertRoot(this.root).chmod(path, true, numMode, this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       newCb(e);
     }
@@ -1340,7 +1851,9 @@ export default class FS {
     if (numMode < 1) {
       throw new ApiError(ErrorCode.EINVAL, `Invalid mode.`);
     }
-    assertRoot(this.root).chmodSync(normalizePath(path), true, numMode);
+    path = normalizePath(path);
+    assertRoot(this.root).chmodSync(path, true, numMode);
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -1353,7 +1866,8 @@ export default class FS {
   public utimes(path: string, atime: number | Date, mtime: number | Date, cb: BFSOneArgCallback = nopCb): void {
     const newCb = wrapCb(cb, 1);
     try {
-      assertRoot(this.root).utimes(normalizePath(path), normalizeTime(atime), normalizeTime(mtime), newCb);
+      path = normalizePath(path);
+      assertRoot(this.root).utimes(path, normalizeTime(atime), normalizeTime(mtime), this.notifyAfter(newCb, 'change', path));
     } catch (e) {
       newCb(e);
     }
@@ -1366,7 +1880,126 @@ export default class FS {
    * @param mtime
    */
   public utimesSync(path: string, atime: number | Date, mtime: number | Date): void {
-    assertRoot(this.root).utimesSync(normalizePath(path), normalizeTime(atime), normalizeTime(mtime));
+    path = normalizePath(path);
+    assertRoot(this.root).utimesSync(path, normalizeTime(atime), normalizeTime(mtime));
+    this.watchers.notify('change', path);
+  }
+
+  /**
+   * Asynchronously retrieves the value of an extended attribute. Fails with
+   * `ENODATA` if the attribute is not set.
+   * @param path
+   * @param name
+   * @param callback
+   */
+  public getxattr(path: string, name: string, cb: BFSCallback<Buffer> = nopCb): void {
+    const newCb = wrapCb(cb, 2);
+    try {
+      path = normalizePath(path);
+      assertRoot(this.root).getxattr(path, normalizeXattrName(name), newCb);
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronously retrieves the value of an extended attribute.
+   * @param path
+   * @param name
+   * @return [BrowserFS.node.Buffer]
+   */
+  public getxattrSync(path: string, name: string): Buffer {
+    path = normalizePath(path);
+    return assertRoot(this.root).getxattrSync(path, normalizeXattrName(name));
+  }
+
+  /**
+   * Asynchronously sets an extended attribute. Strings are stored as UTF-8.
+   * @param path
+   * @param name
+   * @param value
+   * @param flags `XATTR_CREATE` to fail if the attribute is already set, or
+   *   `XATTR_REPLACE` to fail if it is not. Defaults to `0`.
+   * @param callback
+   */
+  public setxattr(path: string, name: string, value: Buffer | string, cb?: BFSOneArgCallback): void;
+  public setxattr(path: string, name: string, value: Buffer | string, flags: number, cb?: BFSOneArgCallback): void;
+  public setxattr(path: string, name: string, value: Buffer | string, arg4?: any, cb: BFSOneArgCallback = nopCb): void {
+    const flags = typeof arg4 === 'number' ? arg4 : 0;
+    cb = typeof arg4 === 'function' ? arg4 : cb;
+    const newCb = wrapCb(cb, 1);
+    try {
+      path = normalizePath(path);
+      assertRoot(this.root).setxattr(path, normalizeXattrName(name), normalizeXattrValue(value), flags, this.notifyAfter(newCb, 'change', path));
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronously sets an extended attribute.
+   * @param path
+   * @param name
+   * @param value
+   * @param flags `XATTR_CREATE`, `XATTR_REPLACE`, or `0`.
+   */
+  public setxattrSync(path: string, name: string, value: Buffer | string, flags: number = 0): void {
+    path = normalizePath(path);
+    assertRoot(this.root).setxattrSync(path, normalizeXattrName(name), normalizeXattrValue(value), flags);
+    this.watchers.notify('change', path);
+  }
+
+  /**
+   * Asynchronously lists the names of a file's extended attributes.
+   * @param path
+   * @param callback
+   */
+  public listxattr(path: string, cb: BFSCallback<string[]> = nopCb): void {
+    const newCb = wrapCb(cb, 2);
+    try {
+      path = normalizePath(path);
+      assertRoot(this.root).listxattr(path, newCb);
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronously lists the names of a file's extended attributes.
+   * @param path
+   * @return [String[]]
+   */
+  public listxattrSync(path: string): string[] {
+    path = normalizePath(path);
+    return assertRoot(this.root).listxattrSync(path);
+  }
+
+  /**
+   * Asynchronously removes an extended attribute. Fails with `ENODATA` if the
+   * attribute is not set.
+   * @param path
+   * @param name
+   * @param callback
+   */
+  public removexattr(path: string, name: string, cb: BFSOneArgCallback = nopCb): void {
+    const newCb = wrapCb(cb, 1);
+    try {
+      path = normalizePath(path);
+      assertRoot(this.root).removexattr(path, normalizeXattrName(name), this.notifyAfter(newCb, 'change', path));
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronously removes an extended attribute.
+   * @param path
+   * @param name
+   */
+  public removexattrSync(path: string, name: string): void {
+    path = normalizePath(path);
+    assertRoot(this.root).removexattrSync(path, normalizeXattrName(name));
+    this.watchers.notify('change', path);
   }
 
   /**
@@ -1413,49 +2046,291 @@ export default class FS {
     return assertRoot(this.root).realpathSync(path, cache);
   }
 
-  public watchFile(filename: string, listener: (curr: Stats, prev: Stats) => void): void;
-  public watchFile(filename: string, options: { persistent?: boolean; interval?: number; }, listener: (curr: Stats, prev: Stats) => void): void;
-  public watchFile(filename: string, arg2: any, listener: (curr: Stats, prev: Stats) => void = nopCb): void {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * Watch for changes on `filename`. The listener is called with the current
+   * and previous Stats objects whenever the file is modified through this FS
+   * object or by a WorkerFS client it serves; changes made by other means are
+   * not noticed. Changes are reported as they are made rather than polled
+   * for, so the `interval` option is ignored.
+   * @param filename
+   * @param options
+   * @param listener
+   */
+  public watchFile(filename: string, listener: StatWatchListener): void;
+  public watchFile(filename: string, options: { persistent?: boolean; interval?: number; }, listener: StatWatchListener): void;
+  public watchFile(filename: string, arg2: any, listener: StatWatchListener = nopCb): void {
+    listener = typeof arg2 === 'function' ? arg2 : listener;
+    if (typeof listener !== 'function') {
+      throw new ApiError(ErrorCode.EINVAL, '"watchFile()" requires a listener function.');
+    }
+    this.watchers.watchFile(normalizePath(filename), listener);
+  }
+
+  /**
+   * Stop watching for changes on `filename`. If `listener` is specified, only
+   * that particular listener is removed. Otherwise, all listeners are removed.
+   * @param filename
+   * @param listener
+   */
+  public unwatchFile(filename: string, listener?: StatWatchListener): void {
+    this.watchers.unwatchFile(normalizePath(filename), listener);
+  }
+
+  /**
+   * Watch for changes on `filename`, where `filename` is either a file or a
+   * directory. Emits `'rename'` events when entries appear or disappear, and
+   * `'change'` events when they are modified. Like `watchFile`, this only
+   * reports changes made through this FS object, including those that
+   * WorkerFS clients make through `WorkerFS.attachRemoteListener`.
+   *
+   * Throws an `ENOENT` error if `filename` does not exist. File systems that
+   * cannot check this synchronously emit it as an `'error'` event instead.
+   * @param filename
+   * @param options
+   * @option options [Boolean] recursive Whether all subdirectories should be
+   *   watched, or only the current directory. Defaults to `false`.
+   * @param listener
+   */
+  public watch(filename: string, listener?: WatchListener): FSWatcher;
+  public watch(filename: string, options: { persistent?: boolean; recursive?: boolean; encoding?: string; } | string, listener?: WatchListener): FSWatcher;
+  public watch(filename: string, arg2?: any, listener?: WatchListener): FSWatcher {
+    listener = typeof arg2 === 'function' ? arg2 : listener;
+    const recursive = arg2 !== null && typeof arg2 === 'object' ? !!arg2.recursive : false;
+    const p = normalizePath(filename);
+    const root = assertRoot(this.root);
+    if (root.supportsSynch()) {
+      // Throws ENOENT if there is nothing to watch.
+      root.statSync(p, false);
+      return this.watchers.watch(p, recursive, listener);
+    }
+    const watcher = this.watchers.watch(p, recursive, listener);
+    root.stat(p, false, (e: ApiError) => {
+      if (e && !watcher.isClosed()) {
+        watcher.emit('error', e);
+        watcher.close();
+      }
+    });
+    return watcher;
+  }
+
+  /**
+   * **NONSTANDARD**: Sets the user and group IDs that `access` checks
+   * permissions for. Both default to `0` (root).
+   * @param uid
+   * @param gid
+   */
+  public setCredentials(uid: number, gid: number): void {
+    this.uid = uid;
+    this.gid = gid;
+  }
+
+  /**
+   * **NONSTANDARD**: Calls a method of the root file system for someone who
+   * does not use this object, such as the clients of a WorkerFS listener, and
+   * tells watchers about the changes that it makes.
+   * @param method The name of a `FileSystem` method.
+   * @param args The arguments of the method, the last of which is its
+   *   callback.
+   */
+  public applyToRoot(method: string, args: any[]): void {
+    const root = <any> assertRoot(this.root), last = args.length - 1, cb = args[last];
+    const apply = (): void => root[method].apply(root, args);
+    switch (method) {
+      case 'rename':
+        args[last] = this.notifyAfter(cb, 'rename', args[0], args[1]);
+        return apply();
+      case 'unlink':
+      case 'rmdir':
+      case 'mkdir':
+      case 'mkdirp':
+      case 'rimraf':
+        args[last] = this.notifyAfter(cb, 'rename', args[0]);
+        return apply();
+      case 'link':
+      case 'symlink':
+        args[last] = this.notifyAfter(cb, 'rename', args[1]);
+        return apply();
+      case 'truncate':
+      case 'chmod':
+      case 'chown':
+      case 'utimes':
+      case 'setxattr':
+      case 'removexattr':
+        args[last] = this.notifyAfter(cb, 'change', args[0]);
+        return apply();
+      case 'writeFile':
+      case 'appendFile':
+        return this.existedBefore(args[0], (existed) => {
+          args[last] = this.notifyWriteAfter(cb, args[0], existed);
+          apply();
+        });
+      case 'copyFile':
+      case 'cp':
+        return this.existedBefore(args[1], (existed) => {
+          args[last] = this.notifyWriteAfter(cb, args[1], existed);
+          apply();
+        });
+      case 'open':
+        return this.existedBefore(args[0], (existed) => {
+          args[last] = (e?: ApiError | null, file?: File) => {
+            if (!e) {
+              this.notifyOpen(args[0], args[1], existed);
+            }
+            cb(e, file);
+          };
+          apply();
+        });
+      default:
+        return apply();
+    }
   }
 
-  public unwatchFile(filename: string, listener: (curr: Stats, prev: Stats) => void = nopCb): void {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * **NONSTANDARD**: Tells watchers that a file that was opened through
+   * `applyToRoot` was changed through its file descriptor.
+   * @param path
+   */
+  public notifyFileChange(path: string): void {
+    this.watchers.notify('change', path);
   }
 
-  public watch(filename: string, listener?: (event: string, filename: string) => any): _fs.FSWatcher;
-  public watch(filename: string, options: { persistent?: boolean; }, listener?: (event: string, filename: string) => any): _fs.FSWatcher;
-  public watch(filename: string, arg2: any, listener: (event: string, filename: string) => any = nopCb): _fs.FSWatcher {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * **NONSTANDARD**: Runs `body` in a transaction. Changes made through the
+   * `tx` argument are not visible to anyone else until the Promise returned
+   * by `body` resolves, at which point they are written all at once. If it
+   * rejects, they are all discarded. Fails with `EBUSY` if something the
+   * transaction read was changed by someone else in the meantime, and with
+   * `ENOTSUP` if the file system does not support transactions.
+   *
+   * With a `MountableFileSystem`, each mounted file system writes its changes
+   * on its own, so a failure may leave the changes to some of them written.
+   * Changes to mounted file systems that do not support transactions fail
+   * with `ENOTSUP`.
+   * @param body Makes the changes through `tx`, the transaction's view of the
+   *   file system.
+   */
+  public transaction<T>(body: (tx: FSPromises) => Promise<T>): Promise<T> {
+    return new Promise<FileSystemTransaction>((resolve, reject) => {
+      assertRoot(this.root).transaction((e?: ApiError | null, tx?: FileSystemTransaction) => {
+        if (e) {
+          reject(e);
+        } else {
+          resolve(tx);
+        }
+      });
+    }).then((tx) => {
+      const inner = new FS(), watchers = new DeferredWatcherRegistry(this.watchers);
+      inner.initialize(tx.fs);
+      inner.setCredentials(this.uid, this.gid);
+      inner.watchers = watchers;
+      return Promise.resolve().then(() => body(inner.promises)).then((rv) => new Promise<T>((resolve, reject) => {
+        tx.commit((e?: ApiError | null) => {
+          if (e) {
+            reject(e);
+          } else {
+            watchers.flush();
+            resolve(rv);
+          }
+        });
+      }), (err) => new Promise<T>((resolve, reject) => {
+        tx.abort(() => reject(err));
+      }));
+    });
   }
 
-  public access(path: string, callback: (err: ApiError) => void): void;
-  public access(path: string, mode: number, callback: (err: ApiError) => void): void;
-  public access(path: string, arg2: any, cb: (e: ApiError) => void = nopCb): void {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * Asynchronous `access`. Tests the permissions of the configured user (see
+   * `setCredentials`) for the file or directory at `path`.
+   * @param path
+   * @param mode A mask of `F_OK`, `R_OK`, `W_OK`, and `X_OK`. Defaults to
+   *   `F_OK`.
+   * @param callback
+   */
+  public access(path: string, callback: BFSOneArgCallback): void;
+  public access(path: string, mode: number, callback: BFSOneArgCallback): void;
+  public access(path: string, arg2: any, cb: BFSOneArgCallback = nopCb): void {
+    const mode = typeof arg2 === 'number' ? arg2 : this.F_OK;
+    cb = typeof arg2 === 'function' ? arg2 : cb;
+    const newCb = wrapCb(cb, 1);
+    try {
+      path = normalizePath(path);
+      const root = assertRoot(this.root);
+      root.stat(path, false, (e, stats?) => {
+        if (e) {
+          newCb(e);
+        } else {
+          newCb(this.checkAccess(root, path, stats!, mode));
+        }
+      });
+    } catch (e) {
+      newCb(e);
+    }
+  }
+
+  /**
+   * Synchronous `access`.
+   * @param path
+   * @param mode defaults to `F_OK`
+   */
+  public accessSync(path: string, mode: number = this.F_OK): void {
+    path = normalizePath(path);
+    const root = assertRoot(this.root);
+    const e = this.checkAccess(root, path, root.statSync(path, false), mode);
+    if (e) {
+      throw e;
+    }
+  }
+
+  /**
+   * Returns a new readable stream over the contents of the file. Data is read
+   * through the file descriptor API as the consumer requests it.
+   * @param path
+   * @param options
+   * @option options [String] flags Defaults to `'r'`.
+   * @option options [Number] fd Read from an already opened file descriptor
+   *   instead of opening `path`.
+   * @option options [Boolean] autoClose Close the file descriptor once the
+   *   stream ends or errors. Defaults to `true`.
+   * @option options [Number] start First byte to read.
+   * @option options [Number] end Last byte to read (inclusive).
+   * @option options [Number] highWaterMark Chunk size. Defaults to 64 KiB.
+   */
+  public createReadStream(path: string | null, options?: ReadStreamOptions | string): ReadStream {
+    const opts = typeof options === 'string' ? { encoding: options } : options;
+    return new ReadStream(this, normalizeStreamPath(path, opts), opts);
   }
 
-  public accessSync(path: string, mode?: number): void {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * Returns a new writable stream that writes into the file through the file
+   * descriptor API.
+   * @param path
+   * @param options
+   * @option options [String] flags Defaults to `'w'`.
+   * @option options [Number] fd Write to an already opened file descriptor
+   *   instead of opening `path`.
+   * @option options [Boolean] autoClose Close the file descriptor once the
+   *   stream finishes or errors. Defaults to `true`.
+   * @option options [Number] start Position to start writing at.
+   */
+  public createWriteStream(path: string | null, options?: WriteStreamOptions | string): WriteStream {
+    const opts = typeof options === 'string' ? { encoding: options } : options;
+    return new WriteStream(this, normalizeStreamPath(path, opts), opts);
   }
 
-  public createReadStream(path: string, options?: {
-        flags?: string;
-        encoding?: string;
-        fd?: number;
-        mode?: number;
-        autoClose?: boolean;
-    }): _fs.ReadStream {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * **NONSTANDARD**: Like `createReadStream`, but returns a WHATWG
+   * `ReadableStream` that can be handed to e.g. `new Response(stream)`.
+   */
+  public createReadableStream(path: string | null, options?: ReadStreamOptions): ReadableStream {
+    return createWebReadableStream(this, normalizeStreamPath(path, options), options);
   }
 
-  public createWriteStream(path: string, options?: {
-        flags?: string;
-        encoding?: string;
-        fd?: number;
-        mode?: number;
-    }): _fs.WriteStream {
-    throw new ApiError(ErrorCode.ENOTSUP);
+  /**
+   * **NONSTANDARD**: Like `createWriteStream`, but returns a WHATWG
+   * `WritableStream`, e.g. for `response.body.pipeTo(stream)`.
+   */
+  public createWritableStream(path: string | null, options?: WriteStreamOptions): WritableStream {
+    return createWebWritableStream(this, normalizeStreamPath(path, options), options);
   }
 
   /**
@@ -1465,9 +2340,24 @@ export default class FS {
     wrapCbHook = <any> cbWrapper;
   }
 
-  private getFdForFile(file: File): number {
+  /**
+   * Returns an error if the configured user cannot access an item with the
+   * given stats in the given mode, or null if access is allowed.
+   */
+  private checkAccess(root: FileSystem, p: string, stats: Stats, mode: number): ApiError | null {
+    if ((mode & this.W_OK) && root.isReadOnlyAt(p)) {
+      return ApiError.FileError(ErrorCode.EROFS, p);
+    }
+    if (!stats.hasAccess(mode, this.uid, this.gid)) {
+      return ApiError.FileError(ErrorCode.EACCES, p);
+    }
+    return null;
+  }
+
+  private getFdForFile(file: File, path: string): number {
     const fd = this.nextFd++;
     this.fdMap[fd] = file;
+    this.fdPaths[fd] = path;
     return fd;
   }
   private fd2file(fd: number): File {
@@ -1480,6 +2370,68 @@ export default class FS {
   }
   private closeFd(fd: number): void {
     delete this.fdMap[fd];
+    delete this.fdPaths[fd];
+  }
+
+  /**
+   * Wraps a completion callback so that watchers are told about the given
+   * paths once the operation succeeds.
+   */
+  private notifyAfter<T extends Function>(cb: T, eventType: WatchEventType, ...paths: string[]): T {
+    return <any> ((e?: ApiError | null, ...args: any[]) => {
+      if (!e) {
+        paths.forEach((p) => this.watchers.notify(eventType, p));
+      }
+      return cb(e, ...args);
+    });
+  }
+
+  /**
+   * Reports a write to a file by path. Writes that create the file are also
+   * reported as a `rename`, like Node does.
+   */
+  private notifyWrite(p: string, existed: boolean): void {
+    if (!existed) {
+      this.watchers.notify('rename', p);
+    }
+    this.watchers.notify('change', p);
+  }
+
+  private notifyWriteAfter(cb: BFSOneArgCallback, p: string, existed: boolean): BFSOneArgCallback {
+    return (e?: ApiError | null) => {
+      if (!e) {
+        this.notifyWrite(p, existed);
+      }
+      cb(e);
+    };
+  }
+
+  /**
+   * Reports the side effects of successfully opening a file: it was either
+   * created, or truncated.
+   */
+  private notifyOpen(p: string, flag: FileFlag, existed: boolean): void {
+    if (!existed) {
+      this.watchers.notify('rename', p);
+    } else if (flag.isTruncating()) {
+      this.watchers.notify('change', p);
+    }
+  }
+
+  /**
+   * Determines whether or not a path exists before an operation that may
+   * create it. The lookup is skipped when nothing is watching the path.
+   */
+  private existedBefore(p: string, cb: (existed: boolean) => void): void {
+    if (this.watchers.isWatched(p)) {
+      assertRoot(this.root).exists(p, cb);
+    } else {
+      cb(true);
+    }
+  }
+
+  private existedBeforeSync(p: string): boolean {
+    return this.watchers.isWatched(p) ? assertRoot(this.root).existsSync(p) : true;
   }
 }
 
@@ -1492,6 +2444,14 @@ export interface FSModule extends FS {
    * The FS.Stats constructor.
    */
   Stats: typeof Stats;
+  /**
+   * The FS.Dirent constructor.
+   */
+  Dirent: typeof Dirent;
+  /**
+   * The FS.Dir constructor.
+   */
+  Dir: typeof Dir;
   /**
    * Retrieve the FS object backing the fs module.
    */
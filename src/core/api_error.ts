@@ -11,6 +11,7 @@ export enum ErrorCode {
   EACCES    = 13,
   EBUSY     = 16,
   EEXIST    = 17,
+  EXDEV     = 18,
   ENOTDIR   = 20,
   EISDIR    = 21,
   EINVAL    = 22,
@@ -18,6 +19,8 @@ export enum ErrorCode {
   ENOSPC    = 28,
   EROFS     = 30,
   ENOTEMPTY = 39,
+  ELOOP     = 40,
+  ENODATA   = 61,
   ENOTSUP   = 95,
 }
 /* tslint:disable:variable-name */
@@ -33,6 +36,7 @@ ErrorStrings[ErrorCode.EBADF] = 'Bad file descriptor.';
 ErrorStrings[ErrorCode.EACCES] = 'Permission denied.';
 ErrorStrings[ErrorCode.EBUSY] = 'Resource busy or locked.';
 ErrorStrings[ErrorCode.EEXIST] = 'File exists.';
+ErrorStrings[ErrorCode.EXDEV] = 'Cannot link across file systems.';
 ErrorStrings[ErrorCode.ENOTDIR] = 'File is not a directory.';
 ErrorStrings[ErrorCode.EISDIR] = 'File is a directory.';
 ErrorStrings[ErrorCode.EINVAL] = 'Invalid argument.';
@@ -40,6 +44,8 @@ ErrorStrings[ErrorCode.EFBIG] = 'File is too big.';
 ErrorStrings[ErrorCode.ENOSPC] = 'No space left on disk.';
 ErrorStrings[ErrorCode.EROFS] = 'Cannot modify a read-only file system.';
 ErrorStrings[ErrorCode.ENOTEMPTY] = 'Directory is not empty.';
+ErrorStrings[ErrorCode.ELOOP] = 'Too many symbolic links encountered.';
+ErrorStrings[ErrorCode.ENODATA] = 'No data available.';
 ErrorStrings[ErrorCode.ENOTSUP] = 'Operation is not supported.';
 /* tslint:enable:variable-name */
 
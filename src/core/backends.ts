@@ -15,16 +15,18 @@ import WorkerFS from '../backend/WorkerFS';
 import HTTPRequest from '../backend/HTTPRequest';
 import ZipFS from '../backend/ZipFS';
 import IsoFS from '../backend/IsoFS';
+import TarFS from '../backend/TarFS';
 import DsFs from '../backend/DsFs'
 // import { NodeFsFileSystem } from '../backend/NodeFsFileSystem';
 
 // Monkey-patch `Create` functions to check options before file system initialization.
-[AsyncMirror, /* Dropbox,*/ Emscripten, FolderAdapter, HTML5FS, InMemory, IndexedDB, IsoFS, LocalStorage, MountableFileSystem, OverlayFS, WorkerFS, HTTPRequest, ZipFS, DsFs].forEach((fsType: FileSystemConstructor) => {
+[AsyncMirror, /* Dropbox,*/ Emscripten, FolderAdapter, HTML5FS, InMemory, IndexedDB, IsoFS, LocalStorage, MountableFileSystem, OverlayFS, WorkerFS, HTTPRequest, ZipFS, TarFS, DsFs].forEach((fsType: FileSystemConstructor) => {
   const create = fsType.Create;
   fsType.Create = function(opts?: any, cb?: BFSCallback<FileSystem>): void {
     const oneArg = typeof(opts) === "function";
     const normalizedCb = oneArg ? opts : cb;
-    const normalizedOpts = oneArg ? {} : opts;
+    // Configurations may leave out the options of a file system.
+    const normalizedOpts = oneArg || opts === undefined ? {} : opts;
 
     function wrappedCb(e?: ApiError): void {
       if (e) {
@@ -41,7 +43,7 @@ import DsFs from '../backend/DsFs'
 /**
  * @hidden
  */
-const Backends = { AsyncMirror, /* Dropbox,*/ Emscripten, FolderAdapter, HTML5FS, InMemory, IndexedDB, IsoFS, LocalStorage, MountableFileSystem, OverlayFS, WorkerFS, HTTPRequest, XmlHttpRequest: HTTPRequest, ZipFS, DsFs /*, NodeFsFileSystem*/ };
+const Backends = { AsyncMirror, /* Dropbox,*/ Emscripten, FolderAdapter, HTML5FS, InMemory, IndexedDB, IsoFS, LocalStorage, MountableFileSystem, OverlayFS, WorkerFS, HTTPRequest, XmlHttpRequest: HTTPRequest, ZipFS, TarFS, DsFs /*, NodeFsFileSystem*/ };
 // Make sure all backends cast to FileSystemConstructor (for type checking)
 const _: {[name: string]: FileSystemConstructor} = Backends;
 // tslint:disable-next-line:no-unused-expression
@@ -1,5 +1,6 @@
 import {ApiError, ErrorCode} from './api_error';
 import Stats from './node_fs_stats';
+import Dirent from './node_fs_dirent';
 import {File} from './file';
 import {FileFlag, ActionType} from './file_flag';
 import { path } from './path_proxy';
@@ -10,6 +11,76 @@ export type BFSCallback<T> = (e: ApiError | null | undefined, rv?: T) => any;
 export type BFSThreeArgCallback<T, U> =
   (e: ApiError | null | undefined, arg1?: T, arg2?: U) => any;
 
+/**
+ * `copyFile` flag: Fail if the destination already exists.
+ */
+export const COPYFILE_EXCL = 1;
+/**
+ * `copyFile` flag: Use copy-on-write if possible. Always falls back to a
+ * regular copy.
+ */
+export const COPYFILE_FICLONE = 2;
+/**
+ * `copyFile` flag: Use copy-on-write, and fail if that is not possible. No
+ * file system supports this.
+ */
+export const COPYFILE_FICLONE_FORCE = 4;
+
+/**
+ * `setxattr` flag: Fail if the attribute already exists.
+ */
+export const XATTR_CREATE = 1;
+/**
+ * `setxattr` flag: Fail if the attribute does not exist.
+ */
+export const XATTR_REPLACE = 2;
+
+/**
+ * A page of a directory listing, as returned from
+ * `FileSystem.readdirPageSync`.
+ */
+export interface DirentPage {
+  entries: Dirent[];
+  // Cursor of the next page, or null if this is the last page.
+  cursor: string | null;
+}
+
+/**
+ * Options for `FileSystem.cp`. All fields are always present.
+ */
+export interface CopyOptions {
+  // Copy directories and their contents.
+  recursive: boolean;
+  // Overwrite existing files.
+  force: boolean;
+  // When `force` is false, fail instead of skipping existing files.
+  errorOnExist: boolean;
+  // Give copies the access and modification times of their source.
+  preserveTimestamps: boolean;
+}
+
+/**
+ * A set of changes to a file system that is applied all at once, as returned
+ * from `FileSystem.transaction`.
+ */
+export interface FileSystemTransaction {
+  /**
+   * The file system to make the changes through. Nobody else sees them until
+   * the transaction commits.
+   */
+  fs: FileSystem;
+  /**
+   * Applies all of the changes atomically. Fails with EBUSY, and applies
+   * none of them, if the data they are based on has changed in the meantime.
+   * The transaction cannot be used afterwards.
+   */
+  commit(cb: BFSOneArgCallback): void;
+  /**
+   * Discards all of the changes. The transaction cannot be used afterwards.
+   */
+  abort(cb: BFSOneArgCallback): void;
+}
+
 /**
  * Interface for a filesystem. **All** BrowserFS FileSystems should implement
  * this interface.
@@ -80,6 +151,13 @@ export interface FileSystem {
    * @return True if this FileSystem is inherently read-only.
    */
   isReadOnly(): boolean;
+  /**
+   * **Supplemental**: Is the file system that holds the given path read-only?
+   * File systems that delegate paths to other file systems, such as mount
+   * points, ask the file system that the path belongs to.
+   * @return True if the given path cannot be written to.
+   */
+  isReadOnlyAt(p: string): boolean;
   /**
    * **Core**: Does the filesystem support optional symlink/hardlink-related
    *   commands?
@@ -259,6 +337,109 @@ export interface FileSystem {
    * it not yet exists.
    */
   appendFileSync(fname: string, data: string | Buffer, encoding: string | null, flag: FileFlag, mode: number): void;
+  // Bulk directory operations
+  /**
+   * **Supplemental**: Asynchronously creates a directory, along with any
+   * missing parent directories. Succeeds if the directory already exists.
+   * @param mode Mode to make the directories using. Can be ignored if
+   *   the filesystem doesn't support permissions.
+   */
+  mkdirp(p: string, mode: number, cb: BFSOneArgCallback): void;
+  /**
+   * **Supplemental**: Synchronously creates a directory, along with any
+   * missing parent directories. Succeeds if the directory already exists.
+   * @param mode Mode to make the directories using. Can be ignored if
+   *   the filesystem doesn't support permissions.
+   */
+  mkdirpSync(p: string, mode: number): void;
+  /**
+   * **Supplemental**: Asynchronously removes a file, or a directory and all
+   * of its contents.
+   */
+  rimraf(p: string, cb: BFSOneArgCallback): void;
+  /**
+   * **Supplemental**: Synchronously removes a file, or a directory and all
+   * of its contents.
+   */
+  rimrafSync(p: string): void;
+  // Copy operations
+  /**
+   * **Supplemental**: Asynchronously copies a file. The copy receives the
+   * mode of the source file.
+   * @param flags A mask of `COPYFILE_EXCL`, `COPYFILE_FICLONE`, and
+   *   `COPYFILE_FICLONE_FORCE`.
+   */
+  copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void;
+  /**
+   * **Supplemental**: Synchronously copies a file. The copy receives the
+   * mode of the source file.
+   * @param flags A mask of `COPYFILE_EXCL`, `COPYFILE_FICLONE`, and
+   *   `COPYFILE_FICLONE_FORCE`.
+   */
+  copyFileSync(src: string, dest: string, flags: number): void;
+  /**
+   * **Supplemental**: Asynchronously copies a file or, with the `recursive`
+   * option, a directory and all of its contents.
+   */
+  cp(src: string, dest: string, options: CopyOptions, cb: BFSOneArgCallback): void;
+  /**
+   * **Supplemental**: Synchronously copies a file or, with the `recursive`
+   * option, a directory and all of its contents.
+   */
+  cpSync(src: string, dest: string, options: CopyOptions): void;
+  // Typed directory listings
+  /**
+   * **Supplemental**: Asynchronous `readdir` that also reports the type of
+   * each entry. Symbolic links are reported as links, not as their targets.
+   *
+   * Backends that know the entry types from their directory listings should
+   * implement this natively, sparing callers a `stat` per entry.
+   */
+  readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void;
+  /**
+   * **Supplemental**: Synchronous `readdir` that also reports the type of
+   * each entry. Symbolic links are reported as links, not as their targets.
+   */
+  readdirWithTypesSync(p: string): Dirent[];
+  /**
+   * **Supplemental**: Asynchronously reads one page of a directory listing.
+   * The callback receives the entries of the page, and the cursor of the next
+   * page, or null if there are no more entries.
+   *
+   * Backends that can list directories incrementally should implement this
+   * natively; by default, the first page holds the entire listing.
+   * @param cursor null for the first page, or the cursor returned with the
+   *   previous page.
+   * @param limit The number of entries the caller would like. Pages may be
+   *   smaller or larger.
+   */
+  readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void;
+  /**
+   * **Supplemental**: Synchronously reads one page of a directory listing.
+   * @param cursor null for the first page, or the cursor returned with the
+   *   previous page.
+   * @param limit The number of entries the caller would like. Pages may be
+   *   smaller or larger.
+   */
+  readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage;
+  /**
+   * **Supplemental**: Asynchronously lists all entries below a directory.
+   * The name of each entry is its path relative to `p`. Symbolic links are
+   * listed, but not followed.
+   *
+   * Backends that keep an index of their contents should implement this
+   * natively, so that searches do not have to walk the tree.
+   * @param maxDepth The number of directory levels to descend into; `1` only
+   *   lists the directory itself. Pass `Infinity` for no limit.
+   */
+  readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void;
+  /**
+   * **Supplemental**: Synchronously lists all entries below a directory.
+   * The name of each entry is its path relative to `p`.
+   * @param maxDepth The number of directory levels to descend into; `1` only
+   *   lists the directory itself. Pass `Infinity` for no limit.
+   */
+  readdirRecursiveSync(p: string, maxDepth: number): Dirent[];
   // **OPTIONAL INTERFACE METHODS**
   // Property operations
   // This isn't always possible on some filesystem types (e.g. Dropbox).
@@ -324,6 +505,52 @@ export interface FileSystem {
    * **Optional**: Synchronous readlink.
    */
   readlinkSync(p: string): string;
+  // Extended attribute operations
+  // File systems that cannot store attributes fail with ENOTSUP.
+  /**
+   * **Optional**: Asynchronously retrieves the value of the extended attribute
+   * `name` of the given path. Fails with ENODATA if it is not set.
+   */
+  getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void;
+  /**
+   * **Optional**: Synchronous `getxattr`.
+   */
+  getxattrSync(p: string, name: string): Buffer;
+  /**
+   * **Optional**: Asynchronously sets the extended attribute `name` of the
+   * given path.
+   * @param flags `XATTR_CREATE` to fail with EEXIST if the attribute is
+   *   already set, `XATTR_REPLACE` to fail with ENODATA if it is not, or 0.
+   */
+  setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void;
+  /**
+   * **Optional**: Synchronous `setxattr`.
+   */
+  setxattrSync(p: string, name: string, value: Buffer, flags: number): void;
+  /**
+   * **Optional**: Asynchronously lists the names of the extended attributes
+   * of the given path.
+   */
+  listxattr(p: string, cb: BFSCallback<string[]>): void;
+  /**
+   * **Optional**: Synchronous `listxattr`.
+   */
+  listxattrSync(p: string): string[];
+  /**
+   * **Optional**: Asynchronously removes the extended attribute `name` of the
+   * given path. Fails with ENODATA if it is not set.
+   */
+  removexattr(p: string, name: string, cb: BFSOneArgCallback): void;
+  /**
+   * **Optional**: Synchronous `removexattr`.
+   */
+  removexattrSync(p: string, name: string): void;
+  // Transactions
+  /**
+   * **Optional**: Begins a transaction, which groups the changes of several
+   * operations so that they are applied together or not at all.
+   */
+  transaction(cb: BFSCallback<FileSystemTransaction>): void;
 }
 
 /**
@@ -386,6 +613,9 @@ export class BaseFileSystem {
   public supportsLinks(): boolean {
     return false;
   }
+  public isReadOnlyAt(p: string): boolean {
+    return (<FileSystem> <any> this).isReadOnly();
+  }
   public diskSpace(p: string, cb: (total: number, free: number) => any): void {
     cb(0, 0);
   }
@@ -406,19 +636,31 @@ export class BaseFileSystem {
   }
   public open(p: string, flag: FileFlag, mode: number, cb: BFSCallback<File>): void {
     const mustBeFile = (e: ApiError, stats?: Stats): void => {
-      if (e) {
+      if (e && e.errno !== ErrorCode.ENOENT) {
+        return cb(e);
+      } else if (e) {
         // File does not exist.
         switch (flag.pathNotExistsAction()) {
           case ActionType.CREATE_FILE:
-            // Ensure parent exists.
-            return this.stat(path.dirname(p), false, (e: ApiError, parentStats?: Stats) => {
+            // A dangling symbolic link creates its target.
+            return this.danglingLinkTarget(p, (e: ApiError, target?: string | null) => {
               if (e) {
-                cb(e);
-              } else if (parentStats && !parentStats.isDirectory()) {
-                cb(ApiError.ENOTDIR(path.dirname(p)));
-              } else {
-                this.createFile(p, flag, mode, cb);
+                return cb(e);
+              } else if (target && flag.pathExistsAction() === ActionType.THROW_EXCEPTION) {
+                return cb(ApiError.EEXIST(p));
+              } else if (target) {
+                return this.open(target, flag, mode, cb);
               }
+              // Ensure parent exists.
+              this.stat(path.dirname(p), false, (e: ApiError, parentStats?: Stats) => {
+                if (e) {
+                  cb(e);
+                } else if (parentStats && !parentStats.isDirectory()) {
+                  cb(ApiError.ENOTDIR(path.dirname(p)));
+                } else {
+                  this.createFile(p, flag, mode, cb);
+                }
+              });
             });
           case ActionType.THROW_EXCEPTION:
             return cb(ApiError.ENOENT(p));
@@ -494,9 +736,19 @@ export class BaseFileSystem {
     try {
       stats = this.statSync(p, false);
     } catch (e) {
+      if (e.errno !== ErrorCode.ENOENT) {
+        throw e;
+      }
       // File does not exist.
       switch (flag.pathNotExistsAction()) {
         case ActionType.CREATE_FILE:
+          // A dangling symbolic link creates its target.
+          const target = this.danglingLinkTargetSync(p);
+          if (target !== null && flag.pathExistsAction() === ActionType.THROW_EXCEPTION) {
+            throw ApiError.EEXIST(p);
+          } else if (target !== null) {
+            return this.openSync(target, flag, mode);
+          }
           // Ensure parent exists.
           const parentStats = this.statSync(path.dirname(p), false);
           if (!parentStats.isDirectory()) {
@@ -518,13 +770,12 @@ export class BaseFileSystem {
       case ActionType.THROW_EXCEPTION:
         throw ApiError.EEXIST(p);
       case ActionType.TRUNCATE_FILE:
-        // Delete file.
-        this.unlinkSync(p);
-        // Create file. Use the same mode as the old file.
-        // Node itself modifies the ctime when this occurs, so this action
-        // will preserve that behavior if the underlying file system
-        // supports those properties.
-        return this.createFileSync(p, flag, stats.mode);
+        // Truncate the existing file rather than re-creating it, as in the
+        // asynchronous version, so that other links to it see the change.
+        const fd = this.openFileSync(p, flag, mode);
+        fd.truncateSync(0);
+        fd.syncSync();
+        return fd;
       case ActionType.NOP:
         return this.openFileSync(p, flag, mode);
       default:
@@ -753,6 +1004,290 @@ export class BaseFileSystem {
       fd.closeSync();
     }
   }
+  public mkdirp(p: string, mode: number, cb: BFSOneArgCallback): void {
+    this.stat(p, false, (e, stats?) => {
+      if (!e) {
+        return cb(stats!.isDirectory() ? null : ApiError.EEXIST(p));
+      }
+      const parent = path.dirname(p);
+      if (e.errno !== ErrorCode.ENOENT || parent === p) {
+        return cb(e);
+      }
+      this.mkdirp(parent, mode, (e?) => {
+        if (e) {
+          return cb(e);
+        }
+        this.mkdir(p, mode, cb);
+      });
+    });
+  }
+  public mkdirpSync(p: string, mode: number): void {
+    let stats: Stats;
+    try {
+      stats = this.statSync(p, false);
+    } catch (e) {
+      const parent = path.dirname(p);
+      if (e.errno !== ErrorCode.ENOENT || parent === p) {
+        throw e;
+      }
+      this.mkdirpSync(parent, mode);
+      return this.mkdirSync(p, mode);
+    }
+    if (!stats.isDirectory()) {
+      throw ApiError.EEXIST(p);
+    }
+  }
+  public rimraf(p: string, cb: BFSOneArgCallback): void {
+    this.stat(p, true, (e, stats?) => {
+      if (e) {
+        return cb(e);
+      } else if (!stats!.isDirectory()) {
+        return this.unlink(p, cb);
+      }
+      this.readdir(p, (e, files?) => {
+        if (e) {
+          return cb(e);
+        }
+        // Remove the directory's contents one at a time, then the directory.
+        const removeNext = (i: number): void => {
+          if (i === files!.length) {
+            return this.rmdir(p, cb);
+          }
+          this.rimraf(path.join(p, files![i]), (e?) => {
+            if (e) {
+              cb(e);
+            } else {
+              removeNext(i + 1);
+            }
+          });
+        };
+        removeNext(0);
+      });
+    });
+  }
+  public rimrafSync(p: string): void {
+    if (this.statSync(p, true).isDirectory()) {
+      this.readdirSync(p).forEach((file) => this.rimrafSync(path.join(p, file)));
+      this.rmdirSync(p);
+    } else {
+      this.unlinkSync(p);
+    }
+  }
+  public copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void {
+    if (flags & COPYFILE_FICLONE_FORCE) {
+      return cb(new ApiError(ErrorCode.ENOTSUP, 'Copy-on-write is not supported.'));
+    }
+    this.stat(src, false, (e, stats?) => {
+      if (e) {
+        return cb(e);
+      } else if (stats!.isDirectory()) {
+        return cb(ApiError.EISDIR(src));
+      }
+      this.readFile(src, null, FileFlag.getFileFlag('r'), (e, data?) => {
+        if (e) {
+          return cb(e);
+        }
+        const flag = FileFlag.getFileFlag(flags & COPYFILE_EXCL ? 'wx' : 'w');
+        this.writeFile(dest, data, null, flag, stats!.mode & 0xFFF, cb);
+      });
+    });
+  }
+  public copyFileSync(src: string, dest: string, flags: number): void {
+    if (flags & COPYFILE_FICLONE_FORCE) {
+      throw new ApiError(ErrorCode.ENOTSUP, 'Copy-on-write is not supported.');
+    }
+    const stats = this.statSync(src, false);
+    if (stats.isDirectory()) {
+      throw ApiError.EISDIR(src);
+    }
+    const data = this.readFileSync(src, null, FileFlag.getFileFlag('r'));
+    const flag = FileFlag.getFileFlag(flags & COPYFILE_EXCL ? 'wx' : 'w');
+    this.writeFileSync(dest, data, null, flag, stats.mode & 0xFFF);
+  }
+  public cp(src: string, dest: string, options: CopyOptions, cb: BFSOneArgCallback): void {
+    // The root directory already ends in a slash.
+    const srcDir = src.charAt(src.length - 1) === '/' ? src : src + '/';
+    if (src === dest || dest.indexOf(srcDir) === 0) {
+      return cb(new ApiError(ErrorCode.EINVAL, `Cannot copy '${src}' to itself or a subdirectory of itself.`, src));
+    }
+    const preserveTimestamps = (stats: Stats) => (e?: ApiError | null) => {
+      if (e || !options.preserveTimestamps) {
+        cb(e);
+      } else {
+        this.utimes(dest, stats.atime, stats.mtime, cb);
+      }
+    };
+    this.stat(src, false, (e, srcStats?) => {
+      if (e) {
+        return cb(e);
+      }
+      this.stat(dest, false, (e, destStats?) => {
+        if (!srcStats!.isDirectory()) {
+          if (destStats && destStats.isDirectory()) {
+            return cb(ApiError.EISDIR(dest));
+          } else if (destStats && !options.force) {
+            return cb(options.errorOnExist ? ApiError.EEXIST(dest) : null);
+          }
+          return this.copyFile(src, dest, 0, preserveTimestamps(srcStats!));
+        }
+
+        if (!options.recursive) {
+          return cb(ApiError.EISDIR(src));
+        } else if (destStats && !destStats.isDirectory()) {
+          return cb(ApiError.ENOTDIR(dest));
+        }
+        const copyContents = (e?: ApiError | null) => {
+          if (e) {
+            return cb(e);
+          }
+          this.readdir(src, (e, files?) => {
+            if (e) {
+              return cb(e);
+            }
+            const copyNext = (i: number): void => {
+              if (i === files!.length) {
+                return preserveTimestamps(srcStats!)();
+              }
+              this.cp(path.join(src, files![i]), path.join(dest, files![i]), options, (e?) => {
+                if (e) {
+                  cb(e);
+                } else {
+                  copyNext(i + 1);
+                }
+              });
+            };
+            copyNext(0);
+          });
+        };
+        if (destStats) {
+          copyContents();
+        } else {
+          this.mkdir(dest, srcStats!.mode & 0xFFF, copyContents);
+        }
+      });
+    });
+  }
+  public cpSync(src: string, dest: string, options: CopyOptions): void {
+    // The root directory already ends in a slash.
+    const srcDir = src.charAt(src.length - 1) === '/' ? src : src + '/';
+    if (src === dest || dest.indexOf(srcDir) === 0) {
+      throw new ApiError(ErrorCode.EINVAL, `Cannot copy '${src}' to itself or a subdirectory of itself.`, src);
+    }
+    const srcStats = this.statSync(src, false);
+    let destStats: Stats | null = null;
+    try {
+      destStats = this.statSync(dest, false);
+    } catch (e) {
+      // Destination does not exist.
+    }
+    if (!srcStats.isDirectory()) {
+      if (destStats && destStats.isDirectory()) {
+        throw ApiError.EISDIR(dest);
+      } else if (destStats && !options.force) {
+        if (options.errorOnExist) {
+          throw ApiError.EEXIST(dest);
+        }
+        return;
+      }
+      this.copyFileSync(src, dest, 0);
+    } else {
+      if (!options.recursive) {
+        throw ApiError.EISDIR(src);
+      } else if (destStats && !destStats.isDirectory()) {
+        throw ApiError.ENOTDIR(dest);
+      }
+      if (!destStats) {
+        this.mkdirSync(dest, srcStats.mode & 0xFFF);
+      }
+      this.readdirSync(src).forEach((file) => this.cpSync(path.join(src, file), path.join(dest, file), options));
+    }
+    if (options.preserveTimestamps) {
+      this.utimesSync(dest, srcStats.atime, srcStats.mtime);
+    }
+  }
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    this.readdir(p, (e, files?) => {
+      if (e) {
+        return cb(e);
+      }
+      const dirents: Dirent[] = new Array(files!.length);
+      let remaining = files!.length, failed = false;
+      if (remaining === 0) {
+        return cb(null, dirents);
+      }
+      files!.forEach((file, i) => {
+        this.stat(path.join(p, file), true, (e, stats?) => {
+          if (failed) {
+            return;
+          } else if (e) {
+            failed = true;
+            return cb(e);
+          }
+          dirents[i] = Dirent.fromStats(file, stats!);
+          if (--remaining === 0) {
+            cb(null, dirents);
+          }
+        });
+      });
+    });
+  }
+  public readdirWithTypesSync(p: string): Dirent[] {
+    return this.readdirSync(p).map((file) => Dirent.fromStats(file, this.statSync(path.join(p, file), true)));
+  }
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    this.readdirWithTypes(p, (e, dirents?) => {
+      if (e) {
+        cb(e);
+      } else {
+        cb(null, dirents, null);
+      }
+    });
+  }
+  public readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage {
+    return { entries: this.readdirWithTypesSync(p), cursor: null };
+  }
+  public readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    const rv: Dirent[] = [];
+    // Relative paths of the directories left to list, and their depth.
+    const queue: [string, number][] = [['', 1]];
+    const listNext = (): void => {
+      const next = queue.shift();
+      if (!next) {
+        return cb(null, rv);
+      }
+      const [dir, depth] = next;
+      this.readdirWithTypes(dir === '' ? p : path.join(p, dir), (e, dirents?) => {
+        if (e) {
+          return cb(e);
+        }
+        for (const dirent of dirents!) {
+          const name = dir === '' ? dirent.name : `${dir}/${dirent.name}`;
+          rv.push(new Dirent(name, dirent.getType()));
+          if (dirent.isDirectory() && depth < maxDepth) {
+            queue.push([name, depth + 1]);
+          }
+        }
+        listNext();
+      });
+    };
+    listNext();
+  }
+  public readdirRecursiveSync(p: string, maxDepth: number): Dirent[] {
+    const rv: Dirent[] = [];
+    const queue: [string, number][] = [['', 1]];
+    let next: [string, number] | undefined;
+    while ((next = queue.shift())) {
+      const [dir, depth] = next;
+      for (const dirent of this.readdirWithTypesSync(dir === '' ? p : path.join(p, dir))) {
+        const name = dir === '' ? dirent.name : `${dir}/${dirent.name}`;
+        rv.push(new Dirent(name, dirent.getType()));
+        if (dirent.isDirectory() && depth < maxDepth) {
+          queue.push([name, depth + 1]);
+        }
+      }
+    }
+    return rv;
+  }
   public chmod(p: string, isLchmod: boolean, mode: number, cb: BFSOneArgCallback): void {
     cb(new ApiError(ErrorCode.ENOTSUP));
   }
@@ -789,6 +1324,68 @@ export class BaseFileSystem {
   public readlinkSync(p: string): string {
     throw new ApiError(ErrorCode.ENOTSUP);
   }
+  public getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void {
+    cb(new ApiError(ErrorCode.ENOTSUP));
+  }
+  public getxattrSync(p: string, name: string): Buffer {
+    throw new ApiError(ErrorCode.ENOTSUP);
+  }
+  public setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void {
+    cb(new ApiError(ErrorCode.ENOTSUP));
+  }
+  public setxattrSync(p: string, name: string, value: Buffer, flags: number): void {
+    throw new ApiError(ErrorCode.ENOTSUP);
+  }
+  public listxattr(p: string, cb: BFSCallback<string[]>): void {
+    cb(new ApiError(ErrorCode.ENOTSUP));
+  }
+  public listxattrSync(p: string): string[] {
+    throw new ApiError(ErrorCode.ENOTSUP);
+  }
+  public removexattr(p: string, name: string, cb: BFSOneArgCallback): void {
+    cb(new ApiError(ErrorCode.ENOTSUP));
+  }
+  public removexattrSync(p: string, name: string): void {
+    throw new ApiError(ErrorCode.ENOTSUP);
+  }
+  public transaction(cb: BFSCallback<FileSystemTransaction>): void {
+    cb(new ApiError(ErrorCode.ENOTSUP));
+  }
+  /**
+   * If p is a symbolic link to a file that does not exist, returns the path
+   * of that file. Otherwise, returns null.
+   */
+  private danglingLinkTarget(p: string, cb: BFSCallback<string | null>): void {
+    if (!this.supportsLinks()) {
+      return cb(null, null);
+    }
+    this.stat(p, true, (e: ApiError, stats?: Stats) => {
+      if (e || !stats!.isSymbolicLink()) {
+        return cb(null, null);
+      }
+      this.readlink(p, (e: ApiError, target?: string) => {
+        if (e) {
+          cb(e);
+        } else {
+          cb(null, target!.charAt(0) === '/' ? target! : path.join(path.dirname(p), target!));
+        }
+      });
+    });
+  }
+  private danglingLinkTargetSync(p: string): string | null {
+    if (!this.supportsLinks()) {
+      return null;
+    }
+    try {
+      if (!this.statSync(p, true).isSymbolicLink()) {
+        return null;
+      }
+    } catch (e) {
+      return null;
+    }
+    const target = this.readlinkSync(p);
+    return target.charAt(0) === '/' ? target : path.join(path.dirname(p), target);
+  }
 }
 
 /**
@@ -860,6 +1457,31 @@ export class SynchronousFileSystem extends BaseFileSystem {
     }
   }
 
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    try {
+      cb(null, this.readdirWithTypesSync(p));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    try {
+      const page = this.readdirPageSync(p, cursor, limit);
+      cb(null, page.entries, page.cursor);
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    try {
+      cb(null, this.readdirRecursiveSync(p, maxDepth));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
   public chmod(p: string, isLchmod: boolean, mode: number, cb: BFSOneArgCallback): void {
     try {
       this.chmodSync(p, isLchmod, mode);
@@ -912,4 +1534,46 @@ export class SynchronousFileSystem extends BaseFileSystem {
       cb(e);
     }
   }
+
+  public realpath(p: string, cache: {[path: string]: string}, cb: BFSCallback<string>): void {
+    try {
+      cb(null, this.realpathSync(p, cache));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void {
+    try {
+      cb(null, this.getxattrSync(p, name));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void {
+    try {
+      this.setxattrSync(p, name, value, flags);
+      cb();
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public listxattr(p: string, cb: BFSCallback<string[]>): void {
+    try {
+      cb(null, this.listxattrSync(p));
+    } catch (e) {
+      cb(e);
+    }
+  }
+
+  public removexattr(p: string, name: string, cb: BFSOneArgCallback): void {
+    try {
+      this.removexattrSync(p, name);
+      cb();
+    } catch (e) {
+      cb(e);
+    }
+  }
 }
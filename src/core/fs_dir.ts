@@ -0,0 +1,178 @@
+import {ApiError, ErrorCode} from './api_error';
+import {FileSystem, BFSCallback, BFSOneArgCallback} from './file_system';
+import Dirent from './node_fs_dirent';
+import setImmediate from '../generic/setImmediate';
+
+/**
+ * Default number of entries to request from the file system at once, matching
+ * Node.
+ * @hidden
+ */
+export const DEFAULT_DIR_BUFFER_SIZE = 32;
+
+/**
+ * Options accepted by `fs.opendir`.
+ */
+export interface OpenDirOptions {
+  // Number of entries to request from the file system at once.
+  bufferSize?: number;
+}
+
+/**
+ * The async iterator returned from `Dir.entries` and `Dir[Symbol.asyncIterator]`.
+ */
+export interface DirIterator {
+  next(): Promise<IteratorResult<Dirent>>;
+  return(): Promise<IteratorResult<Dirent>>;
+}
+
+/**
+ * @hidden
+ */
+function closedError(): ApiError {
+  return new ApiError(ErrorCode.EBADF, 'Directory handle was closed.');
+}
+
+/**
+ * Emulation of Node's `fs.Dir` class, as returned from `fs.opendir`.
+ *
+ * Entries are requested from the file system one page at a time through
+ * `FileSystem.readdirPage`, so huge directories never have to be listed in
+ * one go.
+ * @see https://nodejs.org/api/fs.html#fs_class_fs_dir
+ */
+export class Dir {
+  // Entries fetched from the file system, but not read yet.
+  private _buffer: Dirent[] = [];
+  // Continuation cursor of the next page. Only valid while !_done.
+  private _cursor: string | null = null;
+  private _done: boolean = false;
+  private _closed: boolean = false;
+  // Reads waiting on the page that is currently being fetched.
+  private _waiting: BFSCallback<Dirent | null>[] | null = null;
+
+  /**
+   * @param _fs The file system that contains the directory.
+   * @param path The path of the directory, as passed to `fs.opendir`.
+   * @param _bufferSize The number of entries to request at once.
+   */
+  constructor(private readonly _fs: FileSystem, public readonly path: string, private readonly _bufferSize: number = DEFAULT_DIR_BUFFER_SIZE) { }
+
+  /**
+   * Reads the next directory entry. Passes `null` once all entries have been
+   * read. Returns a Promise if no callback is given.
+   */
+  public read(): Promise<Dirent | null>;
+  public read(cb: BFSCallback<Dirent | null>): void;
+  public read(cb?: BFSCallback<Dirent | null>): Promise<Dirent | null> | void {
+    if (typeof cb !== 'function') {
+      return new Promise<Dirent | null>((resolve, reject) => {
+        this.read((e, dirent?) => e ? reject(e) : resolve(dirent!));
+      });
+    }
+    this._read((e, dirent?) => setImmediate(() => cb(e, dirent)));
+  }
+
+  /**
+   * Synchronously reads the next directory entry. Returns `null` once all
+   * entries have been read.
+   */
+  public readSync(): Dirent | null {
+    if (this._closed) {
+      throw closedError();
+    } else if (this._waiting !== null) {
+      throw new ApiError(ErrorCode.EBUSY, 'An asynchronous read is in progress.');
+    }
+    while (this._buffer.length === 0 && !this._done) {
+      const page = this._fs.readdirPageSync(this.path, this._cursor, this._bufferSize);
+      this._addPage(page.entries, page.cursor);
+    }
+    return this._buffer.length > 0 ? this._buffer.shift()! : null;
+  }
+
+  /**
+   * Closes the directory. Further reads fail. Returns a Promise if no
+   * callback is given.
+   */
+  public close(): Promise<void>;
+  public close(cb: BFSOneArgCallback): void;
+  public close(cb?: BFSOneArgCallback): Promise<void> | void {
+    if (typeof cb !== 'function') {
+      return new Promise<void>((resolve, reject) => {
+        this.close((e?) => e ? reject(e) : resolve());
+      });
+    }
+    let err: ApiError | null = null;
+    try {
+      this.closeSync();
+    } catch (e) {
+      err = e;
+    }
+    setImmediate(() => cb(err));
+  }
+
+  /**
+   * Synchronously closes the directory.
+   */
+  public closeSync(): void {
+    if (this._closed) {
+      throw closedError();
+    }
+    this._closed = true;
+    this._buffer = [];
+  }
+
+  /**
+   * Returns an async iterator over the remaining entries. The directory is
+   * closed once iteration completes or is stopped early. Also available as
+   * `dir[Symbol.asyncIterator]()` where the environment supports it.
+   */
+  public entries(): DirIterator {
+    const done = (): IteratorResult<Dirent> => ({ done: true, value: <any> undefined });
+    const finish = (): Promise<IteratorResult<Dirent>> => this._closed ? Promise.resolve(done()) : this.close().then(done);
+    return {
+      next: () => this.read().then((dirent) => dirent === null ? finish() : { done: false, value: dirent }),
+      return: finish
+    };
+  }
+
+  private _read(cb: BFSCallback<Dirent | null>): void {
+    if (this._closed) {
+      return cb(closedError());
+    } else if (this._buffer.length > 0) {
+      return cb(null, this._buffer.shift()!);
+    } else if (this._done) {
+      return cb(null, null);
+    } else if (this._waiting !== null) {
+      this._waiting.push(cb);
+      return;
+    }
+    this._waiting = [cb];
+    this._fs.readdirPage(this.path, this._cursor, this._bufferSize, (e, entries?, cursor?) => {
+      const waiting = this._waiting!;
+      this._waiting = null;
+      if (e) {
+        waiting.forEach((cb) => cb(e));
+      } else {
+        this._addPage(entries!, cursor);
+        waiting.forEach((cb) => this._read(cb));
+      }
+    });
+  }
+
+  private _addPage(entries: Dirent[], cursor: string | null | undefined): void {
+    if (!this._closed) {
+      this._buffer = this._buffer.concat(entries);
+    }
+    this._cursor = cursor === undefined ? null : cursor;
+    this._done = this._cursor === null;
+  }
+}
+
+// Symbol.asyncIterator is not part of the es2017 typings, and is missing from
+// older browsers.
+if (typeof Symbol !== 'undefined' && (<any> Symbol).asyncIterator) {
+  (<any> Dir.prototype)[(<any> Symbol).asyncIterator] = function(this: Dir): DirIterator {
+    return this.entries();
+  };
+}
@@ -0,0 +1,461 @@
+import {BFSCallback, BFSOneArgCallback, CopyOptions} from './file_system';
+import Stats from './node_fs_stats';
+import Dirent from './node_fs_dirent';
+import {Dir, OpenDirOptions} from './fs_dir';
+import {GlobOptions} from '../generic/glob';
+import FS from './FS';
+
+/**
+ * Invokes a callback-style function, and returns a Promise that settles with
+ * its result. The callback API already reports failures as `ApiError`s, so
+ * rejections carry the same error codes.
+ * @hidden
+ */
+function promisify<T>(fn: (cb: BFSCallback<T>) => void): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    fn((e?: any, rv?: T) => {
+      if (e) {
+        reject(e);
+      } else {
+        resolve(rv);
+      }
+    });
+  });
+}
+
+/**
+ * Like `promisify`, but for functions that only pass back an optional error.
+ * @hidden
+ */
+function promisifyVoid(fn: (cb: BFSOneArgCallback) => void): Promise<void> {
+  return promisify<void>(fn);
+}
+
+/**
+ * Emulation of Node's `FileHandle` class from the `fs.promises` API.
+ *
+ * A FileHandle wraps a numeric file descriptor allocated by the `FS` object's
+ * file descriptor table, so it can be freely mixed with the callback and
+ * synchronous descriptor APIs (e.g. `fs.fstat(handle.fd, cb)`).
+ * @see https://nodejs.org/api/fs.html#fs_class_filehandle
+ */
+export class FileHandle {
+  /**
+   * @param _fs The FS object that owns the file descriptor.
+   * @param fd The numeric file descriptor.
+   */
+  constructor(private readonly _fs: FS, public readonly fd: number) { }
+
+  /**
+   * Asynchronously append data to the file.
+   */
+  public appendFile(data: string | Buffer, options?: { encoding?: string; } | string): Promise<void> {
+    const encoding = typeof options === 'string' ? options : options && options.encoding ? options.encoding : 'utf8';
+    const buffer = typeof data === 'string' ? Buffer.from(data, encoding) : data;
+    return this.stat().then((stats) => this.write(buffer, 0, buffer.length, stats.size)).then(() => undefined);
+  }
+
+  /**
+   * Asynchronous `fchmod`.
+   */
+  public chmod(mode: number | string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.fchmod(this.fd, mode, cb));
+  }
+
+  /**
+   * Asynchronous `fchown`.
+   */
+  public chown(uid: number, gid: number): Promise<void> {
+    return promisifyVoid((cb) => this._fs.fchown(this.fd, uid, gid, cb));
+  }
+
+  /**
+   * Closes the file handle. The file descriptor is released once the
+   * returned Promise resolves.
+   */
+  public close(): Promise<void> {
+    return promisifyVoid((cb) => this._fs.close(this.fd, cb));
+  }
+
+  /**
+   * Asynchronous `fdatasync`.
+   */
+  public datasync(): Promise<void> {
+    return promisifyVoid((cb) => this._fs.fdatasync(this.fd, cb));
+  }
+
+  /**
+   * Read data from the file.
+   * @param buffer The buffer that the data will be written to.
+   * @param offset The offset within the buffer where writing will start.
+   * @param length An integer specifying the number of bytes to read.
+   * @param position An integer specifying where to begin reading from in the
+   *   file. If position is null, data will be read from the current file
+   *   position.
+   */
+  public read(buffer: Buffer, offset: number = 0, length: number = buffer.length - offset, position: number | null = null): Promise<{ bytesRead: number; buffer: Buffer; }> {
+    return new Promise((resolve, reject) => {
+      this._fs.read(this.fd, buffer, offset, length, position, (e, bytesRead?, buffer?) => {
+        if (e) {
+          reject(e);
+        } else {
+          resolve({ bytesRead: bytesRead!, buffer: buffer! });
+        }
+      });
+    });
+  }
+
+  /**
+   * Reads the contents of the file, from the current file position to its
+   * end.
+   * @param options If an encoding is specified, a string is returned.
+   *   Otherwise, a Buffer is returned.
+   */
+  public readFile(options?: { encoding?: null; } | null): Promise<Buffer>;
+  public readFile(options: { encoding: string; } | string): Promise<string>;
+  public readFile(options?: { encoding?: string | null; } | string | null): Promise<string | Buffer>;
+  public readFile(options?: { encoding?: string | null; } | string | null): Promise<string | Buffer> {
+    const encoding = typeof options === 'string' ? options : options && options.encoding ? options.encoding : null;
+    return this.stat().then((stats) => {
+      // The rest of the file is at most as large as all of it.
+      const buffer = Buffer.alloc(stats.size);
+      return this.read(buffer, 0, stats.size, null).then(({bytesRead}) => {
+        const data = bytesRead < buffer.length ? buffer.slice(0, bytesRead) : buffer;
+        return encoding ? data.toString(encoding) : data;
+      });
+    });
+  }
+
+  /**
+   * Asynchronous `fstat`.
+   */
+  public stat(): Promise<Stats> {
+    return promisify<Stats>((cb) => this._fs.fstat(this.fd, cb));
+  }
+
+  /**
+   * Asynchronous `fsync`.
+   */
+  public sync(): Promise<void> {
+    return promisifyVoid((cb) => this._fs.fsync(this.fd, cb));
+  }
+
+  /**
+   * Asynchronous `ftruncate`.
+   */
+  public truncate(len: number = 0): Promise<void> {
+    return promisifyVoid((cb) => this._fs.ftruncate(this.fd, len, cb));
+  }
+
+  /**
+   * Change the file timestamps of the file.
+   */
+  public utimes(atime: number | Date, mtime: number | Date): Promise<void> {
+    return promisifyVoid((cb) => this._fs.futimes(this.fd, atime, mtime, cb));
+  }
+
+  /**
+   * Write a buffer or a string to the file.
+   * @param data Buffer or string containing the data to write to the file.
+   * @param offset For buffers, the offset in the buffer to start reading data
+   *   from. For strings, the position in the file to write to.
+   * @param length For buffers, the amount of bytes to write to the file. For
+   *   strings, the encoding of the string.
+   * @param position Offset from the beginning of the file where this data
+   *   should be written. If position is null, the data will be written at the
+   *   current position.
+   */
+  public write(data: Buffer, offset?: number, length?: number, position?: number | null): Promise<{ bytesWritten: number; buffer: Buffer; }>;
+  public write(data: string, position?: number | null, encoding?: string): Promise<{ bytesWritten: number; buffer: string; }>;
+  public write(data: Buffer | string, arg2?: any, arg3?: any, arg4?: any): Promise<{ bytesWritten: number; buffer: any; }> {
+    return new Promise((resolve, reject) => {
+      const cb = (e?: any, bytesWritten?: number) => {
+        if (e) {
+          reject(e);
+        } else {
+          resolve({ bytesWritten: bytesWritten!, buffer: data });
+        }
+      };
+      if (typeof data === 'string') {
+        this._fs.write(this.fd, data, typeof arg2 === 'number' ? arg2 : null, typeof arg3 === 'string' ? arg3 : 'utf8', cb);
+      } else {
+        const offset = typeof arg2 === 'number' ? arg2 : 0;
+        const length = typeof arg3 === 'number' ? arg3 : data.length - offset;
+        this._fs.write(this.fd, data, offset, length, typeof arg4 === 'number' ? arg4 : null, cb);
+      }
+    });
+  }
+
+  /**
+   * Writes data to the file, starting at the current file position.
+   */
+  public writeFile(data: string | Buffer, options?: { encoding?: string; } | string): Promise<void> {
+    const encoding = typeof options === 'string' ? options : options && options.encoding ? options.encoding : 'utf8';
+    const buffer = typeof data === 'string' ? Buffer.from(data, encoding) : data;
+    return this.write(buffer, 0, buffer.length).then(() => undefined);
+  }
+}
+
+/**
+ * Emulation of Node's `fs.promises` API. Each method maps onto the
+ * corresponding callback-based method of the `FS` object it was created for,
+ * so it works with every backend, regardless of whether or not the backend
+ * supports synchronous operations.
+ *
+ * ```javascript
+ * const fs = BrowserFS.BFSRequire('fs');
+ * fs.promises.readFile('/file.txt', 'utf8').then((contents) => {
+ *   console.log(contents);
+ * });
+ * ```
+ * @see https://nodejs.org/api/fs.html#fs_fs_promises_api
+ */
+export class FSPromises {
+  constructor(private readonly _fs: FS) { }
+
+  /**
+   * Tests a user's permissions for the file or directory specified by path.
+   */
+  public access(p: string, mode?: number): Promise<void> {
+    return promisifyVoid((cb) => this._fs.access(p, typeof mode === 'number' ? mode : this._fs.F_OK, cb));
+  }
+
+  /**
+   * Asynchronously append data to a file, creating the file if it does not
+   * yet exist.
+   */
+  public appendFile(p: string | FileHandle, data: string | Buffer, options?: { encoding?: string; mode?: number | string; flag?: string; } | string): Promise<void> {
+    if (p instanceof FileHandle) {
+      return p.appendFile(data, options);
+    }
+    return promisifyVoid((cb) => this._fs.appendFile(p, data, options, cb));
+  }
+
+  /**
+   * Asynchronous `chmod`.
+   */
+  public chmod(p: string, mode: number | string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.chmod(p, mode, cb));
+  }
+
+  /**
+   * Asynchronous `chown`.
+   */
+  public chown(p: string, uid: number, gid: number): Promise<void> {
+    return promisifyVoid((cb) => this._fs.chown(p, uid, gid, cb));
+  }
+
+  /**
+   * Asynchronous `lchmod`.
+   */
+  public lchmod(p: string, mode: number | string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.lchmod(p, mode, cb));
+  }
+
+  /**
+   * Asynchronous `lchown`.
+   */
+  public lchown(p: string, uid: number, gid: number): Promise<void> {
+    return promisifyVoid((cb) => this._fs.lchown(p, uid, gid, cb));
+  }
+
+  /**
+   * Asynchronous `copyFile`.
+   * @param flags A mask of `COPYFILE_EXCL`, `COPYFILE_FICLONE`, and
+   *   `COPYFILE_FICLONE_FORCE`. Defaults to `0`.
+   */
+  public copyFile(src: string, dest: string, flags: number = 0): Promise<void> {
+    return promisifyVoid((cb) => this._fs.copyFile(src, dest, flags, cb));
+  }
+
+  /**
+   * Asynchronous `cp`.
+   */
+  public cp(src: string, dest: string, options: Partial<CopyOptions> = {}): Promise<void> {
+    return promisifyVoid((cb) => this._fs.cp(src, dest, options, cb));
+  }
+
+  /**
+   * Asynchronous `getxattr`.
+   */
+  public getxattr(p: string, name: string): Promise<Buffer> {
+    return promisify<Buffer>((cb) => this._fs.getxattr(p, name, cb));
+  }
+
+  /**
+   * Asynchronous `glob`. Resolves with the sorted paths that match the given
+   * patterns; see `fs.glob` for the supported options.
+   */
+  public glob(pattern: string | string[], options: GlobOptions = {}): Promise<string[]> {
+    return promisify<string[]>((cb) => this._fs.glob(pattern, options, cb));
+  }
+
+  /**
+   * Asynchronous `link`.
+   */
+  public link(srcpath: string, dstpath: string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.link(srcpath, dstpath, cb));
+  }
+
+  /**
+   * Asynchronous `listxattr`.
+   */
+  public listxattr(p: string): Promise<string[]> {
+    return promisify<string[]>((cb) => this._fs.listxattr(p, cb));
+  }
+
+  /**
+   * Asynchronous `lstat`.
+   */
+  public lstat(p: string): Promise<Stats> {
+    return promisify<Stats>((cb) => this._fs.lstat(p, cb));
+  }
+
+  /**
+   * Asynchronous `mkdir`.
+   * @param mode defaults to `0777`. Can also be an options object, e.g.
+   *   `{ recursive: true }`.
+   */
+  public mkdir(p: string, mode: number | string | { recursive?: boolean; mode?: number | string; } = 0x1ff): Promise<void> {
+    return promisifyVoid((cb) => this._fs.mkdir(p, mode, cb));
+  }
+
+  /**
+   * Asynchronous file open. See `fs.open` for the meaning of each flag.
+   * @param flags defaults to `'r'`
+   * @param mode defaults to `0644`
+   */
+  public open(p: string, flags: string = 'r', mode: number | string = 0x1a4): Promise<FileHandle> {
+    return promisify<number>((cb) => this._fs.open(p, flags, mode, cb)).then((fd) => new FileHandle(this._fs, fd));
+  }
+
+  /**
+   * Asynchronous `opendir`. The returned `Dir` can be iterated with
+   * `for await`.
+   */
+  public opendir(p: string, options: OpenDirOptions = {}): Promise<Dir> {
+    return promisify<Dir>((cb) => this._fs.opendir(p, options, cb));
+  }
+
+  /**
+   * Asynchronous `readdir`.
+   * @param options Pass `{ withFileTypes: true }` to list `fs.Dirent` objects
+   *   instead of names.
+   */
+  public readdir(p: string, options?: { withFileTypes?: false; }): Promise<string[]>;
+  public readdir(p: string, options: { withFileTypes: true; }): Promise<Dirent[]>;
+  public readdir(p: string, options: { withFileTypes?: boolean; } = {}): Promise<string[] | Dirent[]> {
+    return promisify<string[] | Dirent[]>((cb) => this._fs.readdir(p, options, cb));
+  }
+
+  /**
+   * Asynchronously reads the entire contents of a file.
+   * @param options If an encoding is specified, a string is returned.
+   *   Otherwise, a Buffer is returned.
+   */
+  public readFile(p: string | FileHandle, options?: { encoding?: null; flag?: string; } | null): Promise<Buffer>;
+  public readFile(p: string | FileHandle, options: { encoding: string; flag?: string; } | string): Promise<string>;
+  public readFile(p: string | FileHandle, options?: { encoding?: string | null; flag?: string; } | string | null): Promise<string | Buffer>;
+  public readFile(p: string | FileHandle, options?: { encoding?: string | null; flag?: string; } | string | null): Promise<string | Buffer> {
+    if (p instanceof FileHandle) {
+      return p.readFile(options);
+    }
+    return promisify<string | Buffer>((cb) => this._fs.readFile(p, options || {}, cb));
+  }
+
+  /**
+   * Asynchronous `readlink`.
+   */
+  public readlink(p: string): Promise<string> {
+    return promisify<string>((cb) => this._fs.readlink(p, cb));
+  }
+
+  /**
+   * Asynchronous `realpath`.
+   */
+  public realpath(p: string): Promise<string> {
+    return promisify<string>((cb) => this._fs.realpath(p, cb));
+  }
+
+  /**
+   * Asynchronous `removexattr`.
+   */
+  public removexattr(p: string, name: string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.removexattr(p, name, cb));
+  }
+
+  /**
+   * Asynchronous `rename`.
+   */
+  public rename(oldPath: string, newPath: string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.rename(oldPath, newPath, cb));
+  }
+
+  /**
+   * Asynchronous `rm`.
+   */
+  public rm(p: string, options: { recursive?: boolean; force?: boolean; } = {}): Promise<void> {
+    return promisifyVoid((cb) => this._fs.rm(p, options, cb));
+  }
+
+  /**
+   * Asynchronous `rmdir`.
+   */
+  public rmdir(p: string, options: { recursive?: boolean; } = {}): Promise<void> {
+    return promisifyVoid((cb) => this._fs.rmdir(p, options, cb));
+  }
+
+  /**
+   * Asynchronous `setxattr`.
+   */
+  public setxattr(p: string, name: string, value: Buffer | string, flags: number = 0): Promise<void> {
+    return promisifyVoid((cb) => this._fs.setxattr(p, name, value, flags, cb));
+  }
+
+  /**
+   * Asynchronous `stat`.
+   */
+  public stat(p: string): Promise<Stats> {
+    return promisify<Stats>((cb) => this._fs.stat(p, cb));
+  }
+
+  /**
+   * Asynchronous `symlink`.
+   * @param type can be either `'dir'` or `'file'` (default is `'file'`)
+   */
+  public symlink(srcpath: string, dstpath: string, type: string = 'file'): Promise<void> {
+    return promisifyVoid((cb) => this._fs.symlink(srcpath, dstpath, type, cb));
+  }
+
+  /**
+   * Asynchronous `truncate`.
+   */
+  public truncate(p: string, len: number = 0): Promise<void> {
+    return promisifyVoid((cb) => this._fs.truncate(p, len, cb));
+  }
+
+  /**
+   * Asynchronous `unlink`.
+   */
+  public unlink(p: string): Promise<void> {
+    return promisifyVoid((cb) => this._fs.unlink(p, cb));
+  }
+
+  /**
+   * Change file timestamps of the file referenced by the supplied path.
+   */
+  public utimes(p: string, atime: number | Date, mtime: number | Date): Promise<void> {
+    return promisifyVoid((cb) => this._fs.utimes(p, atime, mtime, cb));
+  }
+
+  /**
+   * Asynchronously writes data to a file, replacing the file if it already
+   * exists.
+   */
+  public writeFile(p: string | FileHandle, data: string | Buffer, options?: { encoding?: string; mode?: number | string; flag?: string; } | string): Promise<void> {
+    if (p instanceof FileHandle) {
+      return p.writeFile(data, options);
+    }
+    return promisifyVoid((cb) => this._fs.writeFile(p, data, options, cb));
+  }
+}
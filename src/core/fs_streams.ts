@@ -0,0 +1,474 @@
+import {Readable, ReadableOptions, Writable, WritableOptions} from 'stream';
+import {ApiError, ErrorCode} from './api_error';
+import FS from './FS';
+import setImmediate from '../generic/setImmediate';
+
+/**
+ * Default chunk size for file streams, matching Node.
+ * @hidden
+ */
+const DEFAULT_HIGH_WATER_MARK = 64 * 1024;
+
+/**
+ * Options accepted by `fs.createReadStream`.
+ */
+export interface ReadStreamOptions {
+  flags?: string;
+  encoding?: string;
+  fd?: number;
+  mode?: number;
+  autoClose?: boolean;
+  // Inclusive byte range to read.
+  start?: number;
+  end?: number;
+  highWaterMark?: number;
+}
+
+/**
+ * Options accepted by `fs.createWriteStream`.
+ */
+export interface WriteStreamOptions {
+  flags?: string;
+  encoding?: string;
+  fd?: number;
+  mode?: number;
+  autoClose?: boolean;
+  start?: number;
+  highWaterMark?: number;
+}
+
+/**
+ * Validates the `start`/`end` options of a stream.
+ * @hidden
+ */
+function checkRange(start: number | undefined, end: number | undefined): void {
+  if (start !== undefined && (typeof start !== 'number' || start < 0)) {
+    throw new ApiError(ErrorCode.EINVAL, `"start" must be a non-negative number.`);
+  }
+  if (end !== undefined) {
+    if (typeof end !== 'number' || end < 0) {
+      throw new ApiError(ErrorCode.EINVAL, `"end" must be a non-negative number.`);
+    }
+    if (start !== undefined && start > end) {
+      throw new ApiError(ErrorCode.EINVAL, `"start" option must be <= "end" option.`);
+    }
+  }
+}
+
+/**
+ * Emulation of Node's `fs.ReadStream`, implemented on top of the file
+ * descriptor API of an `FS` object. Data is only read from the file when the
+ * consumer asks for it, so backpressure is handled by the stream machinery.
+ * @see https://nodejs.org/api/fs.html#fs_class_fs_readstream
+ */
+export class ReadStream extends Readable {
+  public bytesRead: number = 0;
+  public fd: number | null;
+  public readonly flags: string;
+  public readonly mode: number;
+  public readonly start: number | undefined;
+  public readonly end: number;
+  public autoClose: boolean;
+  // Position of the next read, or undefined to read from the file's current position.
+  public pos: number | undefined;
+  private _closing: boolean = false;
+  // Set when the file could not be opened, so there is nothing to close.
+  private _openFailed: boolean = false;
+
+  constructor(private readonly _fs: FS, public readonly path: string | null, options: ReadStreamOptions = {}) {
+    super(<ReadableOptions> {
+      highWaterMark: options.highWaterMark !== undefined ? options.highWaterMark : DEFAULT_HIGH_WATER_MARK,
+      encoding: options.encoding,
+      // We emit 'close' ourselves, once the file descriptor is closed, and
+      // only destroy the stream if `autoClose` says so.
+      emitClose: false,
+      autoDestroy: false
+    });
+    checkRange(options.start, options.end);
+    this.fd = options.fd === undefined ? null : options.fd;
+    this.flags = options.flags === undefined ? 'r' : options.flags;
+    this.mode = options.mode === undefined ? 0x1b6 : options.mode;
+    this.start = options.start;
+    this.end = options.end === undefined ? Infinity : options.end;
+    this.autoClose = options.autoClose === undefined ? true : options.autoClose;
+    this.pos = this.start;
+
+    if (this.fd === null) {
+      this.open();
+    }
+
+    this.on('end', () => {
+      if (this.autoClose) {
+        this.destroy();
+      }
+    });
+  }
+
+  /**
+   * Opens the file. Called automatically by the constructor when no file
+   * descriptor was supplied.
+   */
+  public open(): void {
+    this._fs.open(this.path!, this.flags, this.mode, (e, fd?) => {
+      if (e) {
+        this._openFailed = true;
+        if (this.autoClose) {
+          this.destroy();
+        }
+        this.emit('error', e);
+        return;
+      }
+      this.fd = fd!;
+      this.emit('open', fd);
+      this.emit('ready');
+    });
+  }
+
+  public _read(n: number): void {
+    if (this.fd === null) {
+      this.once('open', () => this._read(n));
+      return;
+    }
+    if (this._closing) {
+      return;
+    }
+    let toRead = n;
+    if (this.pos !== undefined) {
+      toRead = Math.min(this.end - this.pos + 1, toRead);
+    } else {
+      toRead = Math.min(this.end - this.bytesRead + 1, toRead);
+    }
+    if (toRead <= 0) {
+      this.push(null);
+      return;
+    }
+
+    const buffer = Buffer.alloc(toRead);
+    const position = this.pos === undefined ? null : this.pos;
+    if (this.pos !== undefined) {
+      this.pos += toRead;
+    }
+    this._fs.read(this.fd, buffer, 0, toRead, position, (e, bytesRead?) => {
+      if (e) {
+        if (this.autoClose) {
+          this.destroy();
+        }
+        this.emit('error', e);
+      } else if (bytesRead! > 0) {
+        this.bytesRead += bytesRead!;
+        this.push(bytesRead! < toRead ? buffer.slice(0, bytesRead) : buffer);
+      } else {
+        this.push(null);
+      }
+    });
+  }
+
+  public _destroy(err: Error | null, cb: (err: Error | null) => void): void {
+    this._closing = true;
+    if (this._openFailed) {
+      cb(err);
+      // After the error that the failed open emits.
+      setImmediate(() => this.emit('close'));
+    } else if (this.fd === null) {
+      // Wait for the file to be opened before closing it.
+      this.once('open', () => closeStream(this._fs, this, err, cb));
+    } else {
+      closeStream(this._fs, this, err, cb);
+    }
+  }
+
+  /**
+   * Closes the underlying file descriptor.
+   */
+  public close(cb?: (err?: Error | null) => void): void {
+    if (cb) {
+      this.once('close', cb);
+    }
+    this.destroy();
+  }
+}
+
+/**
+ * Emulation of Node's `fs.WriteStream`, implemented on top of the file
+ * descriptor API of an `FS` object.
+ * @see https://nodejs.org/api/fs.html#fs_class_fs_writestream
+ */
+export class WriteStream extends Writable {
+  public bytesWritten: number = 0;
+  public fd: number | null;
+  public readonly flags: string;
+  public readonly mode: number;
+  public readonly start: number | undefined;
+  public autoClose: boolean;
+  public pos: number | undefined;
+  // Set when the file could not be opened, so there is nothing to close.
+  private _openFailed: boolean = false;
+
+  constructor(private readonly _fs: FS, public readonly path: string | null, options: WriteStreamOptions = {}) {
+    super(<WritableOptions> {
+      highWaterMark: options.highWaterMark !== undefined ? options.highWaterMark : DEFAULT_HIGH_WATER_MARK,
+      decodeStrings: true,
+      emitClose: false,
+      autoDestroy: false
+    });
+    checkRange(options.start, undefined);
+    this.fd = options.fd === undefined ? null : options.fd;
+    this.flags = options.flags === undefined ? 'w' : options.flags;
+    this.mode = options.mode === undefined ? 0x1b6 : options.mode;
+    this.start = options.start;
+    this.autoClose = options.autoClose === undefined ? true : options.autoClose;
+    this.pos = this.start;
+    if (options.encoding) {
+      this.setDefaultEncoding(options.encoding);
+    }
+
+    if (this.fd === null) {
+      this.open();
+    }
+
+    this.on('finish', () => {
+      if (this.autoClose) {
+        this.destroy();
+      }
+    });
+  }
+
+  /**
+   * Opens the file. Called automatically by the constructor when no file
+   * descriptor was supplied.
+   */
+  public open(): void {
+    this._fs.open(this.path!, this.flags, this.mode, (e, fd?) => {
+      if (e) {
+        this._openFailed = true;
+        if (this.autoClose) {
+          this.destroy();
+        }
+        this.emit('error', e);
+        return;
+      }
+      this.fd = fd!;
+      this.emit('open', fd);
+      this.emit('ready');
+    });
+  }
+
+  public _write(data: any, encoding: string, cb: (err?: Error) => void): void {
+    if (!Buffer.isBuffer(data)) {
+      cb(new ApiError(ErrorCode.EINVAL, 'Invalid data.'));
+      return;
+    }
+    if (this.fd === null) {
+      this.once('open', () => this._write(data, encoding, cb));
+      return;
+    }
+    const position = this.pos === undefined ? null : this.pos;
+    if (this.pos !== undefined) {
+      this.pos += data.length;
+    }
+    this._fs.write(this.fd, data, 0, data.length, position, (e, bytesWritten?) => {
+      if (e) {
+        if (this.autoClose) {
+          this.destroy();
+        }
+        return cb(e);
+      }
+      this.bytesWritten += bytesWritten!;
+      cb();
+    });
+  }
+
+  public _destroy(err: Error | null, cb: (err: Error | null) => void): void {
+    if (this._openFailed) {
+      cb(err);
+      // After the error that the failed open emits.
+      setImmediate(() => this.emit('close'));
+    } else if (this.fd === null) {
+      this.once('open', () => closeStream(this._fs, this, err, cb));
+    } else {
+      closeStream(this._fs, this, err, cb);
+    }
+  }
+
+  /**
+   * Finishes writing, and closes the underlying file descriptor.
+   */
+  public close(cb?: (err?: Error | null) => void): void {
+    if (cb) {
+      this.once('close', cb);
+    }
+    if (this.writable) {
+      this.end();
+      if (!this.autoClose) {
+        this.once('finish', () => this.destroy());
+      }
+    } else {
+      this.destroy();
+    }
+  }
+}
+
+/**
+ * Closes the file descriptor of a file stream, and emits `'close'`.
+ * @hidden
+ */
+function closeStream(fs: FS, stream: ReadStream | WriteStream, err: Error | null, cb: (err: Error | null) => void): void {
+  fs.close(stream.fd!, (e?: ApiError | null) => {
+    cb(e || err);
+    stream.emit('close');
+  });
+  stream.fd = null;
+}
+
+/**
+ * The subset of the WHATWG stream controller interfaces we rely on.
+ * @hidden
+ */
+interface StreamController {
+  enqueue(chunk: Uint8Array): void;
+  close(): void;
+  error(e: any): void;
+}
+
+/**
+ * Promisified `fs.open`.
+ * @hidden
+ */
+function openFd(fs: FS, p: string, flags: string, mode: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    fs.open(p, flags, mode, (e, fd?) => e ? reject(e) : resolve(fd));
+  });
+}
+
+/**
+ * Promisified `fs.close`.
+ * @hidden
+ */
+function closeFd(fs: FS, fd: number): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.close(fd, (e?) => e ? reject(e) : resolve());
+  });
+}
+
+/**
+ * Creates a WHATWG `ReadableStream` of `Uint8Array` chunks for the given
+ * file. Accepts the same options as `createReadStream`, with the exception of
+ * `encoding`. Chunks are only read from the file as the consumer pulls them.
+ */
+export function createWebReadableStream(fs: FS, p: string | null, options: ReadStreamOptions = {}): ReadableStream {
+  if (typeof ReadableStream === 'undefined') {
+    throw new ApiError(ErrorCode.ENOTSUP, 'ReadableStream is not available in this environment.');
+  }
+  checkRange(options.start, options.end);
+  const chunkSize = options.highWaterMark !== undefined ? options.highWaterMark : DEFAULT_HIGH_WATER_MARK;
+  const end = options.end === undefined ? Infinity : options.end;
+  const autoClose = options.autoClose === undefined ? true : options.autoClose;
+  let fd: number | null = options.fd === undefined ? null : options.fd;
+  let pos = options.start === undefined ? 0 : options.start;
+  let done = false;
+  const finish = (): Promise<void> => {
+    done = true;
+    if (autoClose && fd !== null) {
+      const closingFd = fd;
+      fd = null;
+      return closeFd(fs, closingFd);
+    }
+    return Promise.resolve();
+  };
+
+  return new (<any> ReadableStream)({
+    start: (): Promise<void> => {
+      if (fd !== null) {
+        return Promise.resolve();
+      }
+      return openFd(fs, p!, options.flags === undefined ? 'r' : options.flags, options.mode === undefined ? 0x1b6 : options.mode).then((newFd) => {
+        fd = newFd;
+      });
+    },
+    pull: (controller: StreamController): Promise<void> => {
+      const toRead = Math.min(end - pos + 1, chunkSize);
+      if (done || toRead <= 0) {
+        return finish().then(() => controller.close());
+      }
+      const buffer = Buffer.alloc(toRead);
+      return new Promise<void>((resolve, reject) => {
+        fs.read(fd!, buffer, 0, toRead, pos, (e, bytesRead?) => {
+          if (e) {
+            finish().then(() => reject(e), () => reject(e));
+          } else if (bytesRead! === 0) {
+            finish().then(() => {
+              controller.close();
+              resolve();
+            }, reject);
+          } else {
+            pos += bytesRead!;
+            controller.enqueue(new Uint8Array(buffer.buffer, buffer.byteOffset, bytesRead!));
+            resolve();
+          }
+        });
+      });
+    },
+    cancel: (): Promise<void> => finish()
+  }, { highWaterMark: 1 });
+}
+
+/**
+ * Creates a WHATWG `WritableStream` for the given file. Accepts
+ * `Uint8Array`, `ArrayBuffer` and string chunks, and the same options as
+ * `createWriteStream`.
+ */
+export function createWebWritableStream(fs: FS, p: string | null, options: WriteStreamOptions = {}): WritableStream {
+  if (typeof WritableStream === 'undefined') {
+    throw new ApiError(ErrorCode.ENOTSUP, 'WritableStream is not available in this environment.');
+  }
+  checkRange(options.start, undefined);
+  const encoding = options.encoding === undefined ? 'utf8' : options.encoding;
+  const autoClose = options.autoClose === undefined ? true : options.autoClose;
+  let fd: number | null = options.fd === undefined ? null : options.fd;
+  let pos: number | null = options.start === undefined ? null : options.start;
+  const finish = (): Promise<void> => {
+    if (autoClose && fd !== null) {
+      const closingFd = fd;
+      fd = null;
+      return closeFd(fs, closingFd);
+    }
+    return Promise.resolve();
+  };
+
+  return new WritableStream({
+    start: (): Promise<void> => {
+      if (fd !== null) {
+        return Promise.resolve();
+      }
+      return openFd(fs, p!, options.flags === undefined ? 'w' : options.flags, options.mode === undefined ? 0x1b6 : options.mode).then((newFd) => {
+        fd = newFd;
+      });
+    },
+    write: (chunk: any): Promise<void> => {
+      let buffer: Buffer;
+      if (typeof chunk === 'string') {
+        buffer = Buffer.from(chunk, encoding);
+      } else if (chunk instanceof ArrayBuffer) {
+        buffer = Buffer.from(chunk);
+      } else if (ArrayBuffer.isView(chunk)) {
+        buffer = Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+      } else {
+        return Promise.reject(new ApiError(ErrorCode.EINVAL, 'Invalid chunk.'));
+      }
+      return new Promise<void>((resolve, reject) => {
+        fs.write(fd!, buffer, 0, buffer.length, pos, (e, bytesWritten?) => {
+          if (e) {
+            reject(e);
+          } else {
+            if (pos !== null) {
+              pos += bytesWritten!;
+            }
+            resolve();
+          }
+        });
+      });
+    },
+    close: (): Promise<void> => finish(),
+    abort: (): Promise<void> => finish()
+  }, <any> (options.highWaterMark !== undefined ? { highWaterMark: options.highWaterMark, size: (chunk: any) => chunk.length } : undefined));
+}
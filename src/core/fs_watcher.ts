@@ -0,0 +1,370 @@
+import {ApiError, ErrorCode} from './api_error';
+import {BFSCallback} from './file_system';
+import {default as Stats, FileType} from './node_fs_stats';
+import { path } from './path_proxy';
+import setImmediate from '../generic/setImmediate';
+
+/**
+ * The kind of change reported to `fs.watch` listeners. `'rename'` is used when
+ * an entry appears or disappears, and `'change'` when its contents or metadata
+ * are modified.
+ */
+export type WatchEventType = 'rename' | 'change';
+
+/**
+ * Listener signature for `fs.watch`.
+ */
+export type WatchListener = (eventType: WatchEventType, filename: string) => any;
+
+/**
+ * Listener signature for `fs.watchFile`.
+ */
+export type StatWatchListener = (curr: Stats, prev: Stats) => void;
+
+/**
+ * Emulation of Node's `fs.FSWatcher` class, as returned from `fs.watch`.
+ *
+ * Emits `'change'` events with `(eventType, filename)` arguments, an `'error'`
+ * event if the watcher fails, and a `'close'` event once it is closed.
+ * @see https://nodejs.org/api/fs.html#fs_class_fs_fswatcher
+ */
+export class FSWatcher {
+  private _listeners: {[event: string]: Function[]} = {};
+  private _closed: boolean = false;
+
+  /**
+   * @param _registry The registry that feeds this watcher.
+   * @param path The absolute path being watched.
+   * @param recursive Whether or not changes to nested entries are reported.
+   */
+  constructor(private readonly _registry: WatcherRegistry, public readonly path: string, public readonly recursive: boolean) { }
+
+  public on(event: string, listener: Function): this {
+    if (!this._listeners.hasOwnProperty(event)) {
+      this._listeners[event] = [];
+    }
+    this._listeners[event].push(listener);
+    return this;
+  }
+
+  public addListener(event: string, listener: Function): this {
+    return this.on(event, listener);
+  }
+
+  public once(event: string, listener: Function): this {
+    const onceListener = (...args: any[]) => {
+      this.removeListener(event, onceListener);
+      listener.apply(this, args);
+    };
+    return this.on(event, onceListener);
+  }
+
+  public removeListener(event: string, listener: Function): this {
+    const listeners = this._listeners[event];
+    if (listeners) {
+      const idx = listeners.indexOf(listener);
+      if (idx !== -1) {
+        listeners.splice(idx, 1);
+      }
+    }
+    return this;
+  }
+
+  public off(event: string, listener: Function): this {
+    return this.removeListener(event, listener);
+  }
+
+  public removeAllListeners(event?: string): this {
+    if (event === undefined) {
+      this._listeners = {};
+    } else {
+      delete this._listeners[event];
+    }
+    return this;
+  }
+
+  public listenerCount(event: string): number {
+    const listeners = this._listeners[event];
+    return listeners ? listeners.length : 0;
+  }
+
+  public emit(event: string, ...args: any[]): boolean {
+    const listeners = this._listeners[event];
+    if (!listeners || listeners.length === 0) {
+      if (event === 'error') {
+        throw args[0];
+      }
+      return false;
+    }
+    // Copy, as listeners may remove themselves.
+    listeners.slice(0).forEach((listener) => listener.apply(this, args));
+    return true;
+  }
+
+  /**
+   * Stop watching for changes. No further events are emitted.
+   */
+  public close(): void {
+    if (!this._closed) {
+      this._closed = true;
+      this._registry.removeWatcher(this);
+      this.emit('close');
+    }
+  }
+
+  /**
+   * Watchers never keep a browser alive, so these are NOPs.
+   */
+  public ref(): this {
+    return this;
+  }
+
+  public unref(): this {
+    return this;
+  }
+
+  /**
+   * **NONSTANDARD**: Returns true if the watcher has been closed.
+   */
+  public isClosed(): boolean {
+    return this._closed;
+  }
+}
+
+/**
+ * @hidden
+ */
+interface StatWatcher {
+  listener: StatWatchListener;
+  prev: Stats;
+}
+
+/**
+ * Returns the Stats object Node reports for files that do not exist.
+ * @hidden
+ */
+function emptyStats(): Stats {
+  return new Stats(FileType.FILE, 0, 0, 0, 0, 0, 0);
+}
+
+/**
+ * Returns true if the two Stats objects describe different file states.
+ * @hidden
+ */
+function statsDiffer(a: Stats, b: Stats): boolean {
+  return a.size !== b.size || a.mode !== b.mode || a.mtimeMs !== b.mtimeMs ||
+    a.ctimeMs !== b.ctimeMs || a.ino !== b.ino || a.nlink !== b.nlink;
+}
+
+/**
+ * Keeps track of the active `fs.watch` and `fs.watchFile` watchers of an `FS`
+ * object, and dispatches change notifications to them.
+ *
+ * The `FS` object reports every successful mutating operation into the
+ * registry using absolute paths, so watchers work across every backend,
+ * including paths that live under `MountableFileSystem` mount points.
+ * `WorkerFS.attachRemoteListener` applies remote requests through the `FS`
+ * object as well, so changes made by WorkerFS clients are reported. Only
+ * changes made through that `FS` object are reported: not those made by
+ * calling a backend directly, through another `FS` object, or by a backend
+ * itself, e.g. when `AsyncMirror` reloads a file that changed remotely.
+ */
+export class WatcherRegistry {
+  private _watchers: {[path: string]: FSWatcher[]} = {};
+  private _statWatchers: {[path: string]: StatWatcher[]} = {};
+  private _numWatchers: number = 0;
+
+  /**
+   * @param _stat Used to retrieve file information for `fs.watchFile`
+   *   listeners.
+   */
+  constructor(private readonly _stat: (p: string, cb: BFSCallback<Stats>) => void) { }
+
+  /**
+   * Creates a new FSWatcher for the given absolute path.
+   */
+  public watch(p: string, recursive: boolean, listener?: WatchListener): FSWatcher {
+    const watcher = new FSWatcher(this, p, recursive);
+    if (listener) {
+      watcher.on('change', listener);
+    }
+    if (!this._watchers.hasOwnProperty(p)) {
+      this._watchers[p] = [];
+    }
+    this._watchers[p].push(watcher);
+    this._numWatchers++;
+    return watcher;
+  }
+
+  /**
+   * Removes the given FSWatcher. Called by `FSWatcher.close`.
+   */
+  public removeWatcher(watcher: FSWatcher): void {
+    const watchers = this._watchers[watcher.path];
+    if (watchers) {
+      const idx = watchers.indexOf(watcher);
+      if (idx !== -1) {
+        watchers.splice(idx, 1);
+        this._numWatchers--;
+        if (watchers.length === 0) {
+          delete this._watchers[watcher.path];
+        }
+      }
+    }
+  }
+
+  /**
+   * Calls `listener` with the current and previous Stats of the given
+   * absolute path whenever the file at that path changes.
+   */
+  public watchFile(p: string, listener: StatWatchListener): void {
+    if (!this._statWatchers.hasOwnProperty(p)) {
+      this._statWatchers[p] = [];
+    }
+    const statWatcher: StatWatcher = { listener: listener, prev: emptyStats() };
+    this._statWatchers[p].push(statWatcher);
+    this._numWatchers++;
+    this._stat(p, (e, stats?) => {
+      if (!e) {
+        statWatcher.prev = stats!;
+      }
+    });
+  }
+
+  /**
+   * Stops calling `listener` for changes to the given absolute path. If no
+   * listener is specified, all listeners for the path are removed.
+   */
+  public unwatchFile(p: string, listener?: StatWatchListener): void {
+    const statWatchers = this._statWatchers[p];
+    if (!statWatchers) {
+      return;
+    }
+    const remaining = listener ? statWatchers.filter((w) => w.listener !== listener) : [];
+    this._numWatchers -= statWatchers.length - remaining.length;
+    if (remaining.length === 0) {
+      delete this._statWatchers[p];
+    } else {
+      this._statWatchers[p] = remaining;
+    }
+  }
+
+  /**
+   * Returns true if a change to the given absolute path would be reported to
+   * any watcher. Lets the FS object skip bookkeeping that only matters to
+   * watchers.
+   */
+  public isWatched(p: string): boolean {
+    if (this._numWatchers === 0) {
+      return false;
+    }
+    if (this._watchers.hasOwnProperty(p) || this._statWatchers.hasOwnProperty(p)) {
+      return true;
+    }
+    let parent = path.dirname(p);
+    if (this._watchers.hasOwnProperty(parent)) {
+      return true;
+    }
+    while (parent !== '/') {
+      parent = path.dirname(parent);
+      if (this._getWatchers(parent).some((w) => w.recursive)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Reports a change to the entry at the given absolute path. Events are
+   * delivered asynchronously, after the operation that caused them completes.
+   */
+  public notify(eventType: WatchEventType, p: string): void {
+    if (this._numWatchers === 0) {
+      return;
+    }
+    const filename = path.basename(p);
+    this._getWatchers(p).forEach((w) => this._emit(w, eventType, filename));
+    if (p !== '/') {
+      // Directory watchers are told about changes to their direct children,
+      // and recursive watchers about all of their descendants.
+      let parent = path.dirname(p);
+      this._getWatchers(parent).forEach((w) => this._emit(w, eventType, filename));
+      while (parent !== '/') {
+        parent = path.dirname(parent);
+        const relative = path.relative(parent, p);
+        this._getWatchers(parent).forEach((w) => {
+          if (w.recursive) {
+            this._emit(w, eventType, relative);
+          }
+        });
+      }
+    }
+    this._checkStats(p);
+  }
+
+  private _getWatchers(p: string): FSWatcher[] {
+    const watchers = this._watchers[p];
+    // Copy, as watchers may be closed during dispatch.
+    return watchers ? watchers.slice(0) : [];
+  }
+
+  private _emit(watcher: FSWatcher, eventType: WatchEventType, filename: string): void {
+    setImmediate(() => {
+      if (!watcher.isClosed()) {
+        watcher.emit('change', eventType, filename);
+      }
+    });
+  }
+
+  private _checkStats(p: string): void {
+    if (!this._statWatchers.hasOwnProperty(p)) {
+      return;
+    }
+    this._stat(p, (e?: ApiError | null, stats?: Stats) => {
+      const curr = e ? emptyStats() : stats!;
+      const statWatchers = this._statWatchers[p];
+      if (statWatchers) {
+        statWatchers.slice(0).forEach((w) => {
+          const prev = w.prev;
+          if (statsDiffer(curr, prev)) {
+            w.prev = curr;
+            w.listener(curr, prev);
+          }
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Holds back the changes made in a file system transaction, so watchers only
+ * hear about them once the transaction commits.
+ */
+export class DeferredWatcherRegistry extends WatcherRegistry {
+  private _changes: [WatchEventType, string][] = [];
+
+  /**
+   * @param _target The registry to report the changes to.
+   */
+  constructor(private readonly _target: WatcherRegistry) {
+    // Stat watchers are only ever added to the target.
+    super((p, cb) => cb(ApiError.FileError(ErrorCode.ENOTSUP, p)));
+  }
+
+  public isWatched(p: string): boolean {
+    return this._target.isWatched(p);
+  }
+
+  public notify(eventType: WatchEventType, p: string): void {
+    this._changes.push([eventType, p]);
+  }
+
+  /**
+   * Reports the changes held back so far to the target registry.
+   */
+  public flush(): void {
+    const changes = this._changes;
+    this._changes = [];
+    changes.forEach(([eventType, p]) => this._target.notify(eventType, p));
+  }
+}
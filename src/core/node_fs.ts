@@ -38,6 +38,21 @@ Object.getOwnPropertyNames(fsProto).forEach((key) => {
   }
 });
 
+// Constants such as F_OK and XATTR_CREATE are properties of FS objects.
+Object.keys(fs).forEach((key) => {
+  if (/^[A-Z_]+$/.test(key)) {
+    (<any> _fsMock)[key] = fs[key];
+  }
+});
+
+// Always hand out the promise API of the *current* FS object, even after
+// changeFSModule.
+Object.defineProperty(_fsMock, 'promises', {
+  get: () => fs.promises,
+  enumerable: true,
+  configurable: true
+});
+
 _fsMock['changeFSModule'] = function(newFs: FS): void {
   fs = newFs;
 };
@@ -46,5 +61,7 @@ _fsMock['getFSModule'] = function(): FS {
 };
 _fsMock['FS'] = FS;
 _fsMock['Stats'] = FS.Stats;
+_fsMock['Dirent'] = FS.Dirent;
+_fsMock['Dir'] = FS.Dir;
 
 export default _fsMock;
@@ -0,0 +1,68 @@
+import {default as Stats, FileType} from './node_fs_stats';
+
+/**
+ * Emulation of Node's `fs.Dirent` object, as returned from `fs.readdir` with
+ * the `withFileTypes` option.
+ * @see https://nodejs.org/api/fs.html#fs_class_fs_dirent
+ */
+export default class Dirent {
+  /**
+   * Creates a Dirent for the entry with the given name and Stats.
+   */
+  public static fromStats(name: string, stats: Stats): Dirent {
+    return new Dirent(name, stats.mode & 0xF000);
+  }
+
+  /**
+   * @param name The name of the directory entry.
+   * @param type The type of the entry, as encoded in the upper bits of its
+   *   mode (see `FileType`).
+   */
+  constructor(public readonly name: string, private readonly _type: FileType) { }
+
+  /**
+   * @return [Number] The type of the entry (see `FileType`).
+   */
+  public getType(): FileType {
+    return this._type;
+  }
+
+  /**
+   * @return [Boolean] True if this entry is a file.
+   */
+  public isFile(): boolean {
+    return this._type === FileType.FILE;
+  }
+
+  /**
+   * @return [Boolean] True if this entry is a directory.
+   */
+  public isDirectory(): boolean {
+    return this._type === FileType.DIRECTORY;
+  }
+
+  /**
+   * @return [Boolean] True if this entry is a symbolic link.
+   */
+  public isSymbolicLink(): boolean {
+    return this._type === FileType.SYMLINK;
+  }
+
+  // We don't support the following types of files.
+
+  public isSocket(): boolean {
+    return false;
+  }
+
+  public isBlockDevice(): boolean {
+    return false;
+  }
+
+  public isCharacterDevice(): boolean {
+    return false;
+  }
+
+  public isFIFO(): boolean {
+    return false;
+  }
+}
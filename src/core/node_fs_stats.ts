@@ -185,6 +185,32 @@ export default class Stats implements fs.Stats {
     return (this.mode & 0xF000) === FileType.SYMLINK;
   }
 
+  /**
+   * Checks if the given user and group may access this item in the given
+   * way, using the owner, group, and other permission bits of its mode.
+   * @param mode A mask of `R_OK` (4), `W_OK` (2), and `X_OK` (1). `F_OK` (0)
+   *   always succeeds.
+   * @param uid The user ID to check for.
+   * @param gid The group ID to check for.
+   */
+  public hasAccess(mode: number, uid: number, gid: number): boolean {
+    const perm = this.mode & 0x1ff;
+    if (uid === 0) {
+      // root can read and write anything, but can only execute items that
+      // someone is allowed to execute.
+      return (mode & 1) === 0 || (perm & 0x49) !== 0;
+    }
+    let bits: number;
+    if (uid === this.uid) {
+      bits = perm >> 6;
+    } else if (gid === this.gid) {
+      bits = (perm >> 3) & 7;
+    } else {
+      bits = perm & 7;
+    }
+    return (bits & mode) === mode;
+  }
+
   /**
    * Change the mode of the file. We use this helper function to prevent messing
    * up the type of the file, which is encoded in mode.
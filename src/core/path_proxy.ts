@@ -5,6 +5,8 @@ class ProxyObj { [key: string]: any }
 export interface Path {
     sep: string;
     dirname(p: string): string;
+    basename(p: string, ext?: string): string;
+    relative(from: string, to: string): string;
     join(...paths: string[]): string;
     resolve(p: string): string;
 }
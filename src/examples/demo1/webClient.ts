@@ -18,11 +18,6 @@ setInterval(() => {
 BrowserFS.install(window);
 // Configures BrowserFS to use the LocalStorage file system.
 
-let rootFS: any
-const getFS = () => {
-    return rootFS
-}
-
 BrowserFS.configure({
     fs: "GridFsFileSystem",
     // fs: "LocalStorage",
@@ -31,8 +26,7 @@ BrowserFS.configure({
         host: "127.0.0.1",
         networkNode: "server",
         port: 7656,
-        databaseName: "fs",
-        rootFS: getFS
+        databaseName: "fs"
     }
 /*    
     fs: "MountableFileSystem",
@@ -97,7 +91,6 @@ BrowserFS.configure({
 
     // Otherwise, BrowserFS is ready-to-use!
     const fs = BrowserFS.BFSRequire("fs");
-    rootFS = fs;
     // const path = require('path');
     // fs.writeFileSync("/local2/hejsan.ts", "hello world");
     // fs.writeFileSync("/local3/hejdå.ts", "hej där");
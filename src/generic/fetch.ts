@@ -64,3 +64,34 @@ export function fetchFileSizeAsync(p: string, cb: BFSCallback<number>): void {
     })
     .catch((err) => cb(new ApiError(ErrorCode.EIO, err.message)));
 }
+
+/**
+ * Asynchronously download the bytes in [start, end) of a file with a HTTP
+ * Range request. If the server ignores the Range header and returns the whole
+ * file, the requested bytes are sliced out of it.
+ * @hidden
+ */
+export function fetchFileRangeAsync(p: string, start: number, end: number, cb: BFSCallback<Buffer>): void {
+  if (end <= start) {
+    return cb(null, Buffer.alloc(0));
+  }
+  let request;
+  try {
+    request = fetch(p, { headers: { Range: `bytes=${start}-${end - 1}` } });
+  } catch (e) {
+    return cb(new ApiError(ErrorCode.EINVAL, e.message));
+  }
+  request
+  .then((res) => {
+    if (!res.ok) {
+      return cb(new ApiError(ErrorCode.EIO, `fetch error: response returned code ${res.status}`));
+    }
+    res.arrayBuffer()
+      .then((buf) => {
+        const data = Buffer.from(buf);
+        cb(null, res.status === 206 ? data : data.slice(start, end));
+      })
+      .catch((err) => cb(new ApiError(ErrorCode.EIO, err.message)));
+  })
+  .catch((err) => cb(new ApiError(ErrorCode.EIO, err.message)));
+}
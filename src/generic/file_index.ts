@@ -1,4 +1,5 @@
 import {default as Stats, FileType} from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import * as path from 'path';
 
 /**
@@ -212,6 +213,35 @@ export class FileIndex<T> {
     return item.getListing();
   }
 
+  /**
+   * Lists every item below the given directory, straight from the index.
+   * Item names are paths relative to the directory.
+   * @param maxDepth The number of directory levels to include.
+   * @return The items, or 'null' if the directory does not exist.
+   */
+  public lsRecursive(path: string, maxDepth: number): Dirent[] | null {
+    if (this._index[path] === undefined) {
+      return null;
+    }
+    const prefix = path === '/' ? path : `${path}/`;
+    const rv: Dirent[] = [];
+    for (const dirPath in this._index) {
+      if (this._index.hasOwnProperty(dirPath) && (dirPath === path || dirPath.indexOf(prefix) === 0)) {
+        const relDir = dirPath === path ? '' : dirPath.slice(prefix.length);
+        const depth = relDir === '' ? 0 : relDir.split('/').length;
+        if (depth >= maxDepth) {
+          continue;
+        }
+        const dir = this._index[dirPath];
+        for (const name of dir.getListing()) {
+          const type = dir.getItem(name)!.isDir() ? FileType.DIRECTORY : FileType.FILE;
+          rv.push(new Dirent(relDir === '' ? name : `${relDir}/${name}`, type));
+        }
+      }
+    }
+    return rv;
+  }
+
   /**
    * Returns the inode of the given item.
    * @return Returns null if the item does not exist.
@@ -280,6 +310,7 @@ export class DirInode<T> implements Inode {
     return true;
   }
   public getData(): T | null { return this.data; }
+  public setData(data: T | null): void { this.data = data; }
 
   /**
    * Return a Stats object for this inode.
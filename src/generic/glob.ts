@@ -0,0 +1,465 @@
+import {FileSystem, BFSCallback} from '../core/file_system';
+import {ApiError, ErrorCode} from '../core/api_error';
+import {FileFlag} from '../core/file_flag';
+import Dirent from '../core/node_fs_dirent';
+import * as path from 'path';
+
+/**
+ * Options accepted by `glob`.
+ */
+export interface GlobOptions {
+  // Directory that relative patterns are resolved against. Defaults to '/'.
+  cwd?: string;
+  // Patterns of paths to leave out of the results.
+  ignore?: string | string[];
+  // Maximum number of path segments below `cwd` to match. Defaults to no limit.
+  maxDepth?: number;
+  // Let wildcards match names that start with a '.'. Defaults to false.
+  dot?: boolean;
+  // Leave directories out of the results. Defaults to false.
+  nodir?: boolean;
+  // Only return files whose contents contain this string or match this
+  // regular expression.
+  grep?: string | RegExp;
+}
+
+/**
+ * Marks a `**` pattern segment.
+ * @hidden
+ */
+const GLOBSTAR: null = null;
+
+/**
+ * A pattern segment: a regular expression that matches a single path segment,
+ * or GLOBSTAR.
+ * @hidden
+ */
+type Segment = RegExp | null;
+
+/**
+ * A glob pattern, split into segments.
+ * @hidden
+ */
+interface CompiledPattern {
+  segments: Segment[];
+  // Whether `**` descends into hidden directories.
+  dot: boolean;
+  // Whether results are reported as absolute paths.
+  absolute: boolean;
+  // Whether the pattern ended in a '/', and so only matches directories.
+  dirOnly: boolean;
+  // The longest directory path without wildcards; the search starts here.
+  base: string;
+  // The number of directory levels below `base` that the pattern can reach.
+  depth: number;
+}
+
+/**
+ * A search plan for a set of patterns.
+ * @hidden
+ */
+interface GlobPlan {
+  cwd: string;
+  patterns: CompiledPattern[];
+  ignore: CompiledPattern[];
+  maxDepth: number;
+  nodir: boolean;
+  grep: string | RegExp | undefined;
+}
+
+/**
+ * Returns true if the given pattern segment contains wildcards.
+ * @hidden
+ */
+function hasMagic(segment: string): boolean {
+  return /[*?[]/.test(segment);
+}
+
+/**
+ * Expands `{a,b}` alternatives in the given pattern.
+ * @hidden
+ */
+function expandBraces(pattern: string): string[] {
+  let depth = 0, start = -1;
+  const commas: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === '\\') {
+      i++;
+    } else if (c === '{') {
+      if (depth++ === 0) {
+        start = i;
+        commas.length = 0;
+      }
+    } else if (c === ',' && depth === 1) {
+      commas.push(i);
+    } else if (c === '}' && depth > 0 && --depth === 0) {
+      if (commas.length === 0) {
+        // Not a set of alternatives; keep the braces.
+        continue;
+      }
+      const prefix = pattern.slice(0, start), suffix = pattern.slice(i + 1);
+      const bounds = [start].concat(commas, [i]);
+      const rv: string[] = [];
+      for (let j = 0; j < bounds.length - 1; j++) {
+        const alternative = pattern.slice(bounds[j] + 1, bounds[j + 1]);
+        for (const expanded of expandBraces(prefix + alternative + suffix)) {
+          rv.push(expanded);
+        }
+      }
+      return rv;
+    }
+  }
+  return [pattern];
+}
+
+/**
+ * Compiles a single pattern segment into a regular expression.
+ * @hidden
+ */
+function compileSegment(segment: string, dot: boolean): Segment {
+  if (segment === '**') {
+    return GLOBSTAR;
+  }
+  let re = '';
+  for (let i = 0; i < segment.length; i++) {
+    const c = segment[i];
+    switch (c) {
+      case '\\':
+        i++;
+        re += escapeRegExp(i < segment.length ? segment[i] : '\\');
+        break;
+      case '*':
+        re += '[^/]*';
+        break;
+      case '?':
+        re += '[^/]';
+        break;
+      case '[': {
+        const end = segment.indexOf(']', i + 2);
+        if (end === -1) {
+          re += '\\[';
+          break;
+        }
+        let cls = segment.slice(i + 1, end);
+        let negate = false;
+        if (cls[0] === '!' || cls[0] === '^') {
+          negate = true;
+          cls = cls.slice(1);
+        }
+        re += `[${negate ? '^' : ''}${cls.replace(/[\\\]^]/g, '\\$&')}]`;
+        i = end;
+        break;
+      }
+      default:
+        re += escapeRegExp(c);
+        break;
+    }
+  }
+  // Wildcards do not match hidden names unless asked to.
+  const hideDotFiles = !dot && segment[0] !== '.';
+  return new RegExp(`^${hideDotFiles ? '(?!\\.)' : ''}${re}$`);
+}
+
+/**
+ * @hidden
+ */
+function escapeRegExp(s: string): string {
+  return s.replace(/[-\/\\^$*+?.()|[\]{}]/g, '\\$&');
+}
+
+/**
+ * Compiles the given pattern, resolving relative patterns against `cwd`.
+ * @hidden
+ */
+function compilePattern(pattern: string, cwd: string, dot: boolean): CompiledPattern {
+  const absolute = pattern[0] === '/';
+  const dirOnly = pattern.length > 1 && pattern[pattern.length - 1] === '/';
+  const full = absolute ? pattern : `${cwd === '/' ? '' : cwd}/${pattern}`;
+  const parts: string[] = [];
+  for (const part of full.split('/')) {
+    if (part === '' || part === '.') {
+      continue;
+    } else if (part === '..') {
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  let literal = 0;
+  while (literal < parts.length && !hasMagic(parts[literal]) && parts[literal] !== '**') {
+    literal++;
+  }
+  const rest = parts.slice(literal);
+  return {
+    segments: parts.map((part) => compileSegment(part, dot)),
+    dot: dot,
+    absolute: absolute,
+    dirOnly: dirOnly,
+    base: `/${parts.slice(0, literal).join('/')}`,
+    depth: rest.indexOf('**') !== -1 ? Infinity : rest.length
+  };
+}
+
+/**
+ * Checks the segments of an absolute path against the segments of a pattern.
+ * @hidden
+ */
+function matchSegments(pattern: CompiledPattern, segments: string[], pi: number, si: number): boolean {
+  while (pi < pattern.segments.length) {
+    const segment = pattern.segments[pi];
+    if (segment === GLOBSTAR) {
+      // Matches any number of segments. Unless `dot` is set, hidden names
+      // must be matched by the rest of the pattern.
+      for (let i = si; i <= segments.length; i++) {
+        if (matchSegments(pattern, segments, pi + 1, i)) {
+          return true;
+        }
+        if (!pattern.dot && i < segments.length && segments[i][0] === '.') {
+          return false;
+        }
+      }
+      return false;
+    } else if (si >= segments.length || !segment.test(segments[si])) {
+      return false;
+    }
+    pi++;
+    si++;
+  }
+  return si === segments.length;
+}
+
+/**
+ * @hidden
+ */
+function splitPath(p: string): string[] {
+  return p === '/' ? [] : p.slice(1).split('/');
+}
+
+/**
+ * Compiles the patterns and options of a search.
+ * @hidden
+ */
+function makePlan(patterns: string | string[], options: GlobOptions): GlobPlan {
+  const cwd = path.resolve('/', options.cwd || '/');
+  const compile = (list: string | string[] | undefined, dot: boolean): CompiledPattern[] => {
+    const rv: CompiledPattern[] = [];
+    for (const pattern of typeof list === 'string' ? [list] : (list || [])) {
+      if (typeof pattern !== 'string' || pattern === '') {
+        throw new ApiError(ErrorCode.EINVAL, `Invalid glob pattern: ${pattern}`);
+      }
+      for (const expanded of expandBraces(pattern)) {
+        rv.push(compilePattern(expanded, cwd, dot));
+      }
+    }
+    return rv;
+  };
+  const maxDepth = options.maxDepth === undefined ? Infinity : options.maxDepth;
+  if (typeof maxDepth !== 'number' || !(maxDepth >= 0)) {
+    throw new ApiError(ErrorCode.EINVAL, `Invalid maxDepth: ${maxDepth}`);
+  }
+  return {
+    cwd: cwd,
+    patterns: compile(patterns, !!options.dot),
+    // Ignored paths are ignored whether or not they are hidden.
+    ignore: compile(options.ignore, true),
+    maxDepth: maxDepth,
+    nodir: !!options.nodir,
+    grep: options.grep
+  };
+}
+
+/**
+ * Returns the directories to search, and how deep to search each of them.
+ * @hidden
+ */
+function searchRoots(plan: GlobPlan): {base: string; depth: number}[] {
+  const depths: {[base: string]: number} = {};
+  const cwdDepth = splitPath(plan.cwd).length;
+  for (const pattern of plan.patterns) {
+    let depth = pattern.depth;
+    if (pattern.base === plan.cwd || pattern.base.indexOf(`${plan.cwd}/`) === 0 || plan.cwd === '/') {
+      // maxDepth counts levels below cwd.
+      depth = Math.min(depth, plan.maxDepth - (splitPath(pattern.base).length - cwdDepth));
+    }
+    if (depth >= 0 && !(depths[pattern.base] >= depth)) {
+      depths[pattern.base] = depth;
+    }
+  }
+  return Object.keys(depths).map((base) => ({ base: base, depth: depths[base] }));
+}
+
+/**
+ * Checks the given absolute path against the plan. Returns the path as it
+ * should be reported, or null if it does not match.
+ * @hidden
+ */
+function matchPath(plan: GlobPlan, p: string, isDir: boolean): string | null {
+  if (plan.nodir && isDir) {
+    return null;
+  }
+  const segments = splitPath(p);
+  let match: CompiledPattern | null = null;
+  for (const pattern of plan.patterns) {
+    if ((!pattern.dirOnly || isDir) && matchSegments(pattern, segments, 0, 0)) {
+      match = pattern;
+      break;
+    }
+  }
+  if (match === null || plan.ignore.some((pattern) => matchSegments(pattern, segments, 0, 0))) {
+    return null;
+  }
+  return match.absolute ? p : (path.relative(plan.cwd, p) || '.');
+}
+
+/**
+ * Returns true if the given file contents satisfy the `grep` option.
+ * @hidden
+ */
+function grepMatches(grep: string | RegExp, contents: string): boolean {
+  if (typeof grep === 'string') {
+    return contents.indexOf(grep) !== -1;
+  }
+  grep.lastIndex = 0;
+  return grep.test(contents);
+}
+
+/**
+ * @hidden
+ */
+function isMissing(e: ApiError): boolean {
+  return e.errno === ErrorCode.ENOENT || e.errno === ErrorCode.ENOTDIR;
+}
+
+/**
+ * A path that matched the patterns of a search.
+ * @hidden
+ */
+interface Candidate {
+  // The path as reported to the caller.
+  reported: string;
+  // The absolute path.
+  path: string;
+  isDir: boolean;
+}
+
+/**
+ * Finds all paths on the given file system that match the given glob
+ * patterns.
+ *
+ * Patterns support `*`, `?`, `**` (any number of directories), character
+ * classes such as `[a-z]` and `[!0-9]`, and `{a,b}` alternatives. Searches
+ * start at the longest wildcard-free directory of each pattern, and use
+ * `FileSystem.readdirRecursive`, which indexed backends answer without walking
+ * their tree.
+ *
+ * Relative patterns are resolved against `options.cwd`, and their matches are
+ * reported relative to it. Matches of absolute patterns are reported as
+ * absolute paths. Results are sorted.
+ */
+export function glob(fs: FileSystem, patterns: string | string[], options: GlobOptions, cb: BFSCallback<string[]>): void {
+  let plan: GlobPlan;
+  try {
+    plan = makePlan(patterns, options);
+  } catch (e) {
+    return cb(e);
+  }
+  const candidates: {[reported: string]: Candidate} = {};
+  const consider = (p: string, isDir: boolean) => {
+    const reported = matchPath(plan, p, isDir);
+    if (reported !== null) {
+      candidates[reported] = { reported: reported, path: p, isDir: isDir };
+    }
+  };
+  const roots = searchRoots(plan);
+  const searchNext = (i: number): void => {
+    if (i === roots.length) {
+      return filterByContents();
+    }
+    const root = roots[i];
+    fs.stat(root.base, false, (e, stats?) => {
+      if (e) {
+        return isMissing(e) ? searchNext(i + 1) : cb(e);
+      }
+      consider(root.base, stats!.isDirectory());
+      if (!stats!.isDirectory() || root.depth === 0) {
+        return searchNext(i + 1);
+      }
+      fs.readdirRecursive(root.base, root.depth, (e, dirents?: Dirent[]) => {
+        if (e) {
+          return isMissing(e) ? searchNext(i + 1) : cb(e);
+        }
+        for (const dirent of dirents!) {
+          consider(path.join(root.base, dirent.name), dirent.isDirectory());
+        }
+        searchNext(i + 1);
+      });
+    });
+  };
+  const filterByContents = (): void => {
+    const matches = Object.keys(candidates).sort();
+    const grep = plan.grep;
+    if (grep === undefined) {
+      return cb(null, matches);
+    }
+    const rv: string[] = [];
+    const grepNext = (i: number): void => {
+      if (i === matches.length) {
+        return cb(null, rv);
+      }
+      const candidate = candidates[matches[i]];
+      if (candidate.isDir) {
+        return grepNext(i + 1);
+      }
+      fs.readFile(candidate.path, 'utf8', FileFlag.getFileFlag('r'), (e, contents?: string) => {
+        if (e) {
+          return cb(e);
+        }
+        if (grepMatches(grep, contents!)) {
+          rv.push(candidate.reported);
+        }
+        grepNext(i + 1);
+      });
+    };
+    grepNext(0);
+  };
+  searchNext(0);
+}
+
+/**
+ * Synchronous version of `glob`.
+ */
+export function globSync(fs: FileSystem, patterns: string | string[], options: GlobOptions): string[] {
+  const plan = makePlan(patterns, options);
+  const candidates: {[reported: string]: Candidate} = {};
+  const consider = (p: string, isDir: boolean) => {
+    const reported = matchPath(plan, p, isDir);
+    if (reported !== null) {
+      candidates[reported] = { reported: reported, path: p, isDir: isDir };
+    }
+  };
+  for (const root of searchRoots(plan)) {
+    try {
+      const isDir = fs.statSync(root.base, false).isDirectory();
+      consider(root.base, isDir);
+      if (isDir && root.depth > 0) {
+        for (const dirent of fs.readdirRecursiveSync(root.base, root.depth)) {
+          consider(path.join(root.base, dirent.name), dirent.isDirectory());
+        }
+      }
+    } catch (e) {
+      if (!isMissing(e)) {
+        throw e;
+      }
+    }
+  }
+  const matches = Object.keys(candidates).sort();
+  const grep = plan.grep;
+  if (grep === undefined) {
+    return matches;
+  }
+  return matches.filter((reported) => {
+    const candidate = candidates[reported];
+    return !candidate.isDir && grepMatches(grep, fs.readFileSync(candidate.path, 'utf8', FileFlag.getFileFlag('r')));
+  });
+}
@@ -1,5 +1,12 @@
 import {default as Stats, FileType} from '../core/node_fs_stats';
 
+/**
+ * Marks inodes that store a link count. Older inodes store the ID right after
+ * the timestamps, and an ASCII ID never starts with a NUL byte.
+ * @hidden
+ */
+const NLINK_MARKER = 0;
+
 /**
  * Generic inode definition that can easily be serialized.
  */
@@ -11,12 +18,14 @@ export default class Inode {
     if (buffer === undefined) {
       throw new Error("NO");
     }
-    return new Inode(buffer.toString('ascii', 30),
+    const hasNlink = buffer.readUInt8(30) === NLINK_MARKER;
+    return new Inode(buffer.toString('ascii', hasNlink ? 35 : 30),
       buffer.readUInt32LE(0),
       buffer.readUInt16LE(4),
       buffer.readDoubleLE(6),
       buffer.readDoubleLE(14),
-      buffer.readDoubleLE(22)
+      buffer.readDoubleLE(22),
+      hasNlink ? buffer.readUInt32LE(31) : 1
     );
   }
 
@@ -25,15 +34,20 @@ export default class Inode {
               public mode: number,
               public atime: number,
               public mtime: number,
-              public ctime: number) { }
+              public ctime: number,
+              // Number of directory entries that refer to this inode.
+              public nlink: number = 1) { }
 
   /**
    * Handy function that converts the Inode to a Node Stats object.
    */
   public toStats(): Stats {
-    return new Stats(
-      (this.mode & 0xF000) === FileType.DIRECTORY ? FileType.DIRECTORY : FileType.FILE,
-      this.size, this.mode, this.atime, this.mtime, this.ctime);
+    const type = this.mode & 0xF000,
+      stats = new Stats(
+        type === FileType.DIRECTORY || type === FileType.SYMLINK ? type : FileType.FILE,
+        this.size, this.mode, this.atime, this.mtime, this.ctime);
+    stats.nlink = this.nlink;
+    return stats;
   }
 
   /**
@@ -41,7 +55,7 @@ export default class Inode {
    */
   public getSize(): number {
     // ASSUMPTION: ID is ASCII (1 byte per char).
-    return 30 + this.id.length;
+    return 35 + this.id.length;
   }
 
   /**
@@ -53,7 +67,9 @@ export default class Inode {
     buff.writeDoubleLE(this.atime, 6);
     buff.writeDoubleLE(this.mtime, 14);
     buff.writeDoubleLE(this.ctime, 22);
-    buff.write(this.id, 30, this.id.length, 'ascii');
+    buff.writeUInt8(NLINK_MARKER, 30);
+    buff.writeUInt32LE(this.nlink, 31);
+    buff.write(this.id, 35, this.id.length, 'ascii');
     return buff;
   }
 
@@ -116,4 +132,11 @@ export default class Inode {
   public isDirectory(): boolean {
     return (this.mode & 0xF000) === FileType.DIRECTORY;
   }
+
+  /**
+   * @return [Boolean] True if this item is a symbolic link.
+   */
+  public isSymbolicLink(): boolean {
+    return (this.mode & 0xF000) === FileType.SYMLINK;
+  }
 }
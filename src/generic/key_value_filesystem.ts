@@ -1,13 +1,13 @@
-import {BaseFileSystem, SynchronousFileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback} from '../core/file_system';
+import {BaseFileSystem, SynchronousFileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback, DirentPage, XATTR_CREATE, XATTR_REPLACE, FileSystemTransaction} from '../core/file_system';
 import {ApiError, ErrorCode} from '../core/api_error';
 import {default as Stats, FileType} from '../core/node_fs_stats';
+import Dirent from '../core/node_fs_dirent';
 import {File} from '../core/file';
-import {FileFlag} from '../core/file_flag';
+import {FileFlag, ActionType} from '../core/file_flag';
 import * as path from 'path';
 import Inode from '../generic/inode';
 import PreloadFile from '../generic/preload_file';
 import {emptyBuffer} from '../core/util';
-import FS from '../core/FS';
 
 /**
  * @hidden
@@ -69,6 +69,157 @@ function noErrorTx(e: ApiError | undefined | null, tx: AsyncKeyValueRWTransactio
   return true;
 }
 
+/**
+ * Picks the names of one page of a directory listing. The `readdirPage`
+ * cursor is the last name of the previous page, and names are sorted, so
+ * entries that are added or removed between pages do not shift the rest of
+ * the listing.
+ * @hidden
+ */
+function getPageNames(listing: {[name: string]: string}, cursor: string | null, limit: number): {names: string[], cursor: string | null} {
+  const allNames = Object.keys(listing).sort();
+  let start = 0;
+  if (cursor !== null) {
+    // Find the first name after the cursor.
+    let end = allNames.length;
+    while (start < end) {
+      const mid = (start + end) >>> 1;
+      if (allNames[mid] <= cursor) {
+        start = mid + 1;
+      } else {
+        end = mid;
+      }
+    }
+  }
+  const names = allNames.slice(start, start + Math.max(limit, 1));
+  return { names: names, cursor: start + names.length < allNames.length ? names[names.length - 1] : null };
+}
+
+/**
+ * Maximum number of symbolic links followed while resolving a path, matching
+ * Linux.
+ * @hidden
+ */
+const MAX_SYMLINK_DEPTH = 40;
+
+/**
+ * Splits a path into its components, dropping empty and `.` components.
+ * @hidden
+ */
+function splitPath(p: string): string[] {
+  return p.split('/').filter((part) => part !== '' && part !== '.');
+}
+
+/**
+ * Maps extended attribute names to their base64-encoded values.
+ * @hidden
+ */
+type XattrMap = {[name: string]: string};
+
+/**
+ * Returns the key of the given inode's extended attribute blob. The blob is
+ * keyed off the inode's data ID, so every link to the inode shares it.
+ * @hidden
+ */
+function getXattrKey(inode: Inode): string {
+  return `${inode.id}:xattr`;
+}
+
+/**
+ * Parses an extended attribute blob. Inodes without attributes have no blob.
+ * @hidden
+ */
+function parseXattrs(p: string, data: Buffer | undefined): XattrMap {
+  if (data === undefined) {
+    return {};
+  }
+  try {
+    return JSON.parse(data.toString());
+  } catch (e) {
+    throw new ApiError(ErrorCode.EIO, 'Corrupted extended attributes.', p);
+  }
+}
+
+/**
+ * Sets (or, if value is null, removes) the attribute in the given map,
+ * enforcing the `setxattr` flags.
+ * @hidden
+ */
+function applyXattrChange(attrs: XattrMap, p: string, name: string, value: Buffer | null, flags: number): void {
+  if (typeof name !== 'string' || name === '') {
+    throw new ApiError(ErrorCode.EINVAL, 'Invalid extended attribute name.', p);
+  }
+  const exists = attrs.hasOwnProperty(name);
+  if (!exists && (value === null || (flags & XATTR_REPLACE))) {
+    throw ApiError.FileError(ErrorCode.ENODATA, p);
+  } else if (exists && (flags & XATTR_CREATE)) {
+    throw ApiError.EEXIST(p);
+  }
+  if (value === null) {
+    delete attrs[name];
+  } else {
+    attrs[name] = value.toString('base64');
+  }
+}
+
+/**
+ * The space of a key-value store, in bytes.
+ */
+export interface StoreSpace {
+  // The number of bytes the store can hold.
+  total: number;
+  // The number of bytes in use.
+  used: number;
+}
+
+/**
+ * @hidden
+ */
+function quotaError(p: string, quota: number): ApiError {
+  return new ApiError(ErrorCode.ENOSPC, `Quota of ${quota} bytes exceeded.`, p);
+}
+
+/**
+ * @hidden
+ */
+function conflictError(): ApiError {
+  return new ApiError(ErrorCode.EBUSY, 'The transaction conflicts with a concurrent change.');
+}
+
+/**
+ * @hidden
+ */
+function transactionEndedError(): ApiError {
+  return new ApiError(ErrorCode.EINVAL, 'The transaction has already ended.');
+}
+
+/**
+ * Checks if two values of a key are the same. `undefined` stands for a
+ * missing key.
+ * @hidden
+ */
+function isSameData(a: Buffer | undefined, b: Buffer | undefined): boolean {
+  return a === undefined || b === undefined ? a === b : a.equals(b);
+}
+
+/**
+ * Passes the space left to a `diskSpace` callback. The quota and the store's
+ * own space both limit it; neither means there is no known limit.
+ * @hidden
+ */
+function reportSpace(quota: number | null, usage: number, space: StoreSpace | undefined, cb: (total: number, free: number) => any): void {
+  let total = Infinity, free = Infinity;
+  if (space) {
+    total = space.total;
+    free = Math.max(0, space.total - space.used);
+  }
+  if (quota !== null) {
+    total = Math.min(total, quota);
+    free = Math.min(free, Math.max(0, quota - usage));
+  }
+  cb(total, free);
+}
+
 /**
  * Represents a *synchronous* key-value store.
  */
@@ -90,6 +241,10 @@ export interface SyncKeyValueStore {
    */
   beginTransaction(type: "readwrite"): SyncKeyValueRWTransaction;
   beginTransaction(type: string): SyncKeyValueROTransaction;
+  /**
+   * Optional: Reports the space of the store, for stores with a limit.
+   */
+  space?(): StoreSpace;
 }
 
 /**
@@ -268,14 +423,16 @@ export class SimpleSyncRWTransaction implements SyncKeyValueRWTransaction {
   public commit(): void {/* NOP */}
 
   public abort(): void {
-    // Rollback old values.
+    // Rollback old values. Delete the keys that didn't exist first, so that
+    // stores that ran out of space have room for the old values again.
     for (const key of this.modifiedKeys) {
-      const value = this.originalData[key];
-      if (!value) {
-        // Key didn't exist.
+      if (!this.originalData[key]) {
         this.store.del(key);
-      } else {
-        // Key existed. Store old value.
+      }
+    }
+    for (const key of this.modifiedKeys) {
+      const value = this.originalData[key];
+      if (value) {
         this.store.put(key, value, true);
       }
     }
@@ -308,11 +465,106 @@ export class SimpleSyncRWTransaction implements SyncKeyValueRWTransaction {
   }
 }
 
+/**
+ * Buffers the changes of a file system transaction on top of a synchronous
+ * store. Every operation in the transaction gets its own
+ * SimpleSyncRWTransaction over the buffer, so failed operations still roll
+ * back on their own.
+ * @hidden
+ */
+class SyncBatchStore implements SyncKeyValueStore, SimpleSyncStore {
+  // Values written in the transaction. `undefined` marks deleted keys.
+  private changes: {[key: string]: Buffer | undefined} = {};
+  // Values of the underlying store when they were first read. Checked for
+  // conflicts on commit, and read again instead of the store.
+  private originals: {[key: string]: Buffer | undefined} = {};
+  private ended: boolean = false;
+
+  constructor(private store: SyncKeyValueStore) { }
+
+  public name(): string {
+    return this.store.name();
+  }
+
+  public clear(): void {
+    throw new ApiError(ErrorCode.ENOTSUP, 'Cannot empty a file system in a transaction.');
+  }
+
+  public beginTransaction(type: string): SyncKeyValueRWTransaction {
+    if (this.ended) {
+      throw transactionEndedError();
+    }
+    return new SimpleSyncRWTransaction(this);
+  }
+
+  public get(key: string): Buffer | undefined {
+    if (this.changes.hasOwnProperty(key)) {
+      return this.changes[key];
+    } else if (!this.originals.hasOwnProperty(key)) {
+      this.originals[key] = this.store.beginTransaction('readonly').get(key);
+    }
+    return this.originals[key];
+  }
+
+  public put(key: string, data: Buffer, overwrite: boolean): boolean {
+    if (!overwrite && this.get(key) !== undefined) {
+      return false;
+    }
+    this.changes[key] = data;
+    return true;
+  }
+
+  public del(key: string): void {
+    this.changes[key] = undefined;
+  }
+
+  /**
+   * Writes the changes to the underlying store in one transaction.
+   */
+  public commit(): void {
+    if (this.ended) {
+      throw transactionEndedError();
+    }
+    this.ended = true;
+    const tx = this.store.beginTransaction('readwrite'),
+      keys = Object.keys(this.changes);
+    try {
+      // Make sure nothing the transaction read has changed since.
+      for (const key of Object.keys(this.originals)) {
+        if (!isSameData(tx.get(key), this.originals[key])) {
+          throw conflictError();
+        }
+      }
+      for (const key of keys) {
+        const data = this.changes[key];
+        if (data === undefined) {
+          tx.del(key);
+        } else {
+          tx.put(key, data, true);
+        }
+      }
+    } catch (e) {
+      tx.abort();
+      throw e;
+    }
+    tx.commit();
+  }
+
+  public abort(): void {
+    this.ended = true;
+  }
+}
+
 export interface SyncKeyValueFileSystemOptions {
   /**
    * The actual key-value store to read from/write to.
    */
   store: SyncKeyValueStore;
+  /**
+   * The maximum number of bytes of file contents to store. Writes that would
+   * exceed it fail with ENOSPC. Defaults to no limit.
+   */
+  quota?: number;
   /**
    * Should the file system support properties (mtime/atime/ctime/chmod/etc)?
    * Enabling this slightly increases the storage space per file, and adds
@@ -358,17 +610,25 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
   public static isAvailable(): boolean { return true; }
 
   private store: SyncKeyValueStore;
+  // The maximum number of bytes of file contents, or null if unlimited.
+  private _quota: number | null = null;
+  // The number of bytes of file contents stored. Only tracked with a quota.
+  private _usage: number = 0;
 
   constructor(options: SyncKeyValueFileSystemOptions) {
     super();
     this.store = options.store;
     // INVARIANT: Ensure that the root exists.
     this.makeRootDirectory();
+    if (typeof options.quota === 'number') {
+      this._quota = options.quota;
+      this._usage = this.computeUsage(this.store.beginTransaction('readonly'));
+    }
   }
 
   public getName(): string { return this.store.name(); }
   public isReadOnly(): boolean { return false; }
-  public supportsSymlinks(): boolean { return false; }
+  public supportsLinks(): boolean { return true; }
   public supportsProps(): boolean { return false; }
   public supportsSynch(): boolean { return true; }
 
@@ -377,13 +637,45 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
    */
   public empty(): void {
     this.store.clear();
+    this._usage = 0;
     // INVARIANT: Root always exists.
     this.makeRootDirectory();
   }
 
+  public diskSpace(p: string, cb: (total: number, free: number) => any): void {
+    reportSpace(this._quota, this._usage, this.store.space ? this.store.space() : undefined, cb);
+  }
+
+  public transaction(cb: BFSCallback<FileSystemTransaction>): void {
+    const batch = new SyncBatchStore(this.store),
+      fs = new SyncKeyValueFileSystem({ store: batch }),
+      startUsage = this._usage;
+    fs._quota = this._quota;
+    fs._usage = this._usage;
+    cb(null, {
+      fs: fs,
+      commit: (cb: BFSOneArgCallback): void => {
+        try {
+          batch.commit();
+        } catch (e) {
+          return cb(e);
+        }
+        this._usage += fs._usage - startUsage;
+        cb();
+      },
+      abort: (cb: BFSOneArgCallback): void => {
+        batch.abort();
+        cb();
+      }
+    });
+  }
+
   public renameSync(oldPath: string, newPath: string): void {
-    const tx = this.store.beginTransaction('readwrite'),
-      oldParent = path.dirname(oldPath), oldName = path.basename(oldPath),
+    const tx = this.store.beginTransaction('readwrite');
+    // Renaming a symbolic link moves the link, not its target.
+    oldPath = this.resolvePath(tx, oldPath, false);
+    newPath = this.resolvePath(tx, newPath, false);
+    const oldParent = path.dirname(oldPath), oldName = path.basename(oldPath),
       newParent = path.dirname(newPath), newName = path.basename(newPath),
       // Remove oldPath from parent's directory listing.
       oldDirNode = this.findINode(tx, oldParent),
@@ -415,13 +707,16 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
       newDirList = this.getDirListing(tx, newParent, newDirNode);
     }
 
-    if (newDirList[newName]) {
+    let freed = 0;
+    if (newDirList[newName] === nodeId) {
+      // Both paths are links to the same inode; there is nothing to do.
+      return;
+    } else if (newDirList[newName]) {
       // If it's a file, delete it.
       const newNameNode = this.getINode(tx, newPath, newDirList[newName]);
-      if (newNameNode.isFile()) {
+      if (!newNameNode.isDirectory()) {
         try {
-          tx.del(newNameNode.id);
-          tx.del(newDirList[newName]);
+          freed = this.releaseNode(tx, newDirList[newName], newNameNode);
         } catch (e) {
           tx.abort();
           throw e;
@@ -443,29 +738,78 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
     }
 
     tx.commit();
+    this._usage -= freed;
   }
 
   public statSync(p: string, isLstat: boolean): Stats {
     // Get the inode to the item, convert it into a Stats object.
-    return this.findINode(this.store.beginTransaction('readonly'), p).toStats();
+    const tx = this.store.beginTransaction('readonly');
+    return this.findINode(tx, this.resolvePath(tx, p, !isLstat)).toStats();
   }
 
   public createFileSync(p: string, flag: FileFlag, mode: number): File {
     const tx = this.store.beginTransaction('readwrite'),
+      realPath = this.resolveParent(tx, p),
       data = emptyBuffer(),
-      newFile = this.commitNewFile(tx, p, FileType.FILE, mode, data);
+      newFile = this.commitNewFile(tx, realPath, FileType.FILE, mode, data);
     // Open the file.
-    return new SyncKeyValueFile(this, p, flag, newFile.toStats(), data);
+    return new SyncKeyValueFile(this, realPath, flag, newFile.toStats(), data);
   }
 
   public openFileSync(p: string, flag: FileFlag): File {
     const tx = this.store.beginTransaction('readonly'),
-      node = this.findINode(tx, p),
+      // The file syncs to its target, not to the links that lead to it.
+      realPath = this.resolvePath(tx, p, true),
+      node = this.findINode(tx, realPath),
       data = tx.get(node.id);
     if (data === undefined) {
       throw ApiError.ENOENT(p);
     }
-    return new SyncKeyValueFile(this, p, flag, node.toStats(), data);
+    return new SyncKeyValueFile(this, realPath, flag, node.toStats(), data);
+  }
+
+  /**
+   * Stores the new contents in one step, so that a write that fails, e.g.
+   * because it would exceed the quota, keeps a file's old contents and does
+   * not leave a new file behind.
+   */
+  public writeFileSync(fname: string, data: any, encoding: string | null, flag: FileFlag, mode: number): void {
+    if (typeof data === 'string') {
+      data = Buffer.from(data, encoding!);
+    }
+    const tx = this.store.beginTransaction('readwrite'),
+      realPath = this.resolveParent(tx, fname);
+    let node: Inode | null = null;
+    try {
+      node = this.findINode(tx, realPath);
+    } catch (e) {
+      if (e.errno !== ErrorCode.ENOENT) {
+        tx.abort();
+        throw e;
+      }
+    }
+    if (node === null && flag.pathNotExistsAction() === ActionType.CREATE_FILE) {
+      this.commitNewFile(tx, realPath, FileType.FILE, mode, data);
+    } else if (node !== null && node.isFile() && flag.pathExistsAction() === ActionType.TRUNCATE_FILE) {
+      tx.abort();
+      const stats = node.toStats();
+      stats.size = data.length;
+      stats.mtimeMs = Date.now();
+      this._syncSync(realPath, data, stats);
+    } else {
+      // Symbolic links, directories and other flags go through open.
+      tx.abort();
+      super.writeFileSync(fname, data, null, flag, mode);
+    }
+  }
+
+  public writeFile(fname: string, data: any, encoding: string | null, flag: FileFlag, mode: number, cb: BFSOneArgCallback): void {
+    try {
+      this.writeFileSync(fname, data, encoding, flag, mode);
+      cb();
+    } catch (e) {
+      cb(e);
+    }
   }
 
   public unlinkSync(p: string): void {
@@ -484,14 +828,118 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
   public mkdirSync(p: string, mode: number): void {
     const tx = this.store.beginTransaction('readwrite'),
       data = Buffer.from('{}');
-    this.commitNewFile(tx, p, FileType.DIRECTORY, mode, data);
+    this.commitNewFile(tx, this.resolveParent(tx, p), FileType.DIRECTORY, mode, data);
   }
 
   public readdirSync(p: string): string[] {
     const tx = this.store.beginTransaction('readonly');
+    p = this.resolvePath(tx, p, true);
     return Object.keys(this.getDirListing(tx, p, this.findINode(tx, p)));
   }
 
+  public readdirWithTypesSync(p: string): Dirent[] {
+    return this.readdirPageSync(p, null, Infinity).entries;
+  }
+
+  public readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage {
+    const tx = this.store.beginTransaction('readonly');
+    p = this.resolvePath(tx, p, true);
+    const listing = this.getDirListing(tx, p, this.findINode(tx, p)),
+      page = getPageNames(listing, cursor, limit);
+    // Only the inodes of this page's entries are loaded.
+    const entries = page.names.map((name) => {
+      const inode = this.getINode(tx, path.join(p, name), listing[name]);
+      return new Dirent(name, inode.mode & 0xF000);
+    });
+    return { entries: entries, cursor: page.cursor };
+  }
+
+  public getxattrSync(p: string, name: string): Buffer {
+    const tx = this.store.beginTransaction('readonly'),
+      attrs = parseXattrs(p, tx.get(getXattrKey(this.findINode(tx, this.resolvePath(tx, p, true)))));
+    if (!attrs.hasOwnProperty(name)) {
+      throw ApiError.FileError(ErrorCode.ENODATA, p);
+    }
+    return Buffer.from(attrs[name], 'base64');
+  }
+
+  public setxattrSync(p: string, name: string, value: Buffer, flags: number): void {
+    this.commitXattrChange(p, name, value, flags);
+  }
+
+  public listxattrSync(p: string): string[] {
+    const tx = this.store.beginTransaction('readonly');
+    return Object.keys(parseXattrs(p, tx.get(getXattrKey(this.findINode(tx, this.resolvePath(tx, p, true))))));
+  }
+
+  public removexattrSync(p: string, name: string): void {
+    this.commitXattrChange(p, name, null, 0);
+  }
+
+  public utimesSync(p: string, atime: Date, mtime: Date): void {
+    const tx = this.store.beginTransaction('readwrite'),
+      realPath = this.resolvePath(tx, p, true),
+      // We use the _findInode helper because we actually need the INode id.
+      inodeId = this._findINode(tx, path.dirname(realPath), path.basename(realPath)),
+      inode = this.getINode(tx, realPath, inodeId);
+    inode.atime = atime.getTime();
+    inode.mtime = mtime.getTime();
+    try {
+      tx.put(inodeId, inode.toBuffer(), true);
+    } catch (e) {
+      tx.abort();
+      throw e;
+    }
+    tx.commit();
+  }
+
+  public realpathSync(p: string, cache: {[path: string]: string}): string {
+    return this.resolvePath(this.store.beginTransaction('readonly'), p, true);
+  }
+
+  public linkSync(srcpath: string, dstpath: string): void {
+    const tx = this.store.beginTransaction('readwrite'),
+      // Like Linux, link to a symbolic link itself rather than to its target.
+      existingPath = this.resolvePath(tx, srcpath, false),
+      nodeId = this._findINode(tx, path.dirname(existingPath), path.basename(existingPath)),
+      node = this.getINode(tx, srcpath, nodeId);
+    if (node.isDirectory()) {
+      throw ApiError.EPERM(srcpath);
+    }
+    const newPath = this.resolveParent(tx, dstpath),
+      parentDir = path.dirname(newPath),
+      parentNode = this.findINode(tx, parentDir),
+      dirListing = this.getDirListing(tx, parentDir, parentNode),
+      fname = path.basename(newPath);
+    if (dirListing[fname]) {
+      throw ApiError.EEXIST(dstpath);
+    }
+    dirListing[fname] = nodeId;
+    node.nlink++;
+    try {
+      tx.put(nodeId, node.toBuffer(), true);
+      tx.put(parentNode.id, Buffer.from(JSON.stringify(dirListing)), true);
+    } catch (e) {
+      tx.abort();
+      throw e;
+    }
+    tx.commit();
+  }
+
+  public symlinkSync(srcpath: string, dstpath: string, type: string): void {
+    const tx = this.store.beginTransaction('readwrite');
+    this.commitNewFile(tx, this.resolveParent(tx, dstpath), FileType.SYMLINK, 0o777, Buffer.from(srcpath));
+  }
+
+  public readlinkSync(p: string): string {
+    const tx = this.store.beginTransaction('readonly'),
+      node = this.findINode(tx, this.resolvePath(tx, p, false));
+    if (!node.isSymbolicLink()) {
+      throw ApiError.FileError(ErrorCode.EINVAL, p);
+    }
+    return this.getLinkTarget(tx, p, node);
+  }
+
   public _syncSync(p: string, data: Buffer, stats: Stats): void {
     // @todo Ensure mtime updates properly, and use that to determine if a data
     //       update is required.
@@ -499,7 +947,9 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
       // We use the _findInode helper because we actually need the INode id.
       fileInodeId = this._findINode(tx, path.dirname(p), path.basename(p)),
       fileInode = this.getINode(tx, p, fileInodeId),
-      inodeChanged = fileInode.update(stats);
+      grown = data.length - fileInode.size;
+    this.reserveSpace(p, grown);
+    const inodeChanged = fileInode.update(stats);
 
     try {
       // Sync data.
@@ -509,6 +959,7 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
         tx.put(fileInodeId, fileInode.toBuffer(), true);
       }
     } catch (e) {
+      this._usage -= grown;
       tx.abort();
       throw e;
     }
@@ -653,6 +1104,9 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
       throw ApiError.EEXIST(p);
     }
 
+    // Directory listings do not count towards the quota.
+    const size = type === FileType.DIRECTORY ? 0 : data.length;
+    this.reserveSpace(p, size);
     let fileNode: Inode;
     try {
       // Commit data.
@@ -664,6 +1118,7 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
       dirListing[fname] = fileNodeId;
       tx.put(parentNode.id, Buffer.from(JSON.stringify(dirListing)), true);
     } catch (e) {
+      this._usage -= size;
       tx.abort();
       throw e;
     }
@@ -678,8 +1133,10 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
    * @todo Update mtime.
    */
   private removeEntry(p: string, isDir: boolean): void {
-    const tx = this.store.beginTransaction('readwrite'),
-      parent: string = path.dirname(p),
+    const tx = this.store.beginTransaction('readwrite');
+    // Removing a symbolic link removes the link, not its target.
+    p = this.resolvePath(tx, p, false);
+    const parent: string = path.dirname(p),
       parentNode = this.findINode(tx, parent),
       parentListing = this.getDirListing(tx, parent, parentNode),
       fileName: string = path.basename(p);
@@ -700,11 +1157,9 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
       throw ApiError.ENOTDIR(p);
     }
 
+    let freed: number;
     try {
-      // Delete data.
-      tx.del(fileNode.id);
-      // Delete node.
-      tx.del(fileNodeId);
+      freed = this.releaseNode(tx, fileNodeId, fileNode);
       // Update directory listing.
       tx.put(parentNode.id, Buffer.from(JSON.stringify(parentListing)), true);
     } catch (e) {
@@ -713,42 +1168,175 @@ export class SyncKeyValueFileSystem extends SynchronousFileSystem {
     }
     // Success.
     tx.commit();
+    this._usage -= freed;
   }
-}
 
-/**
- * Represents an *asynchronous* key-value store.
- */
-export interface AsyncKeyValueStore {
   /**
-   * The name of the key-value store.
+   * Drops one link to the given inode. Once no links are left, deletes the
+   * inode, its data and its extended attributes.
+   * @param id The ID of the inode.
+   * @return The number of bytes of file contents freed.
    */
-  name(): string;
+  private releaseNode(tx: SyncKeyValueRWTransaction, id: string, inode: Inode): number {
+    if (inode.nlink > 1) {
+      inode.nlink--;
+      tx.put(id, inode.toBuffer(), true);
+      return 0;
+    }
+    tx.del(inode.id);
+    tx.del(getXattrKey(inode));
+    tx.del(id);
+    return inode.isDirectory() ? 0 : inode.size;
+  }
+
   /**
-   * Empties the key-value store completely.
+   * Counts the given number of additional bytes of file contents against the
+   * quota. Callers undo this if the write fails.
+   * @throws ENOSPC if the quota would be exceeded.
    */
-  clear(cb: BFSOneArgCallback): void;
+  private reserveSpace(p: string, bytes: number): void {
+    if (this._quota !== null && bytes > 0 && this._usage + bytes > this._quota) {
+      throw quotaError(p, this._quota);
+    }
+    this._usage += bytes;
+  }
+
   /**
-   * Begins a read-write transaction.
+   * Adds up the sizes of all files and symbolic links in the store. Files
+   * with several links are counted once.
    */
-  beginTransaction(type: 'readwrite'): AsyncKeyValueRWTransaction;
+  private computeUsage(tx: SyncKeyValueROTransaction): number {
+    const visited: {[id: string]: boolean} = {};
+    const visit = (p: string, id: string): number => {
+      if (visited[id]) {
+        return 0;
+      }
+      visited[id] = true;
+      const inode = this.getINode(tx, p, id);
+      if (!inode.isDirectory()) {
+        return inode.size;
+      }
+      const listing = this.getDirListing(tx, p, inode);
+      return Object.keys(listing).reduce((total, name) => total + visit(path.join(p, name), listing[name]), 0);
+    };
+    return visit('/', ROOT_NODE_ID);
+  }
+
   /**
-   * Begins a read-only transaction.
+   * Resolves the symbolic links in the given path. Link targets are relative
+   * to the link's directory, or to the root of this file system.
+   * @param followLast If false, a link in the last component is not followed,
+   *   as in `lstat`.
+   * @return The path with all symbolic links resolved.
    */
-  beginTransaction(type: 'readonly'): AsyncKeyValueROTransaction;
-  beginTransaction(type: string): AsyncKeyValueROTransaction;
-}
+  private resolvePath(tx: SyncKeyValueROTransaction, p: string, followLast: boolean): string {
+    const parts = splitPath(p);
+    let resolved = '/', links = 0;
+    while (parts.length > 0) {
+      const name = parts.shift()!;
+      if (name === '..') {
+        resolved = path.dirname(resolved);
+        continue;
+      }
+      const next = path.join(resolved, name);
+      if (parts.length === 0 && !followLast) {
+        return next;
+      }
+      const inode = this.getINode(tx, next, this._findINode(tx, resolved, name));
+      if (!inode.isSymbolicLink()) {
+        resolved = next;
+      } else if (++links > MAX_SYMLINK_DEPTH) {
+        throw ApiError.FileError(ErrorCode.ELOOP, p);
+      } else {
+        const target = this.getLinkTarget(tx, next, inode);
+        parts.unshift(...splitPath(target));
+        if (target.charAt(0) === '/') {
+          resolved = '/';
+        }
+      }
+    }
+    return resolved;
+  }
 
-/**
- * Represents an asynchronous read-only transaction.
- */
-export interface AsyncKeyValueROTransaction {
   /**
-   * Retrieves the data at the given key.
-   * @param key The key to look under for data.
+   * Resolves the symbolic links in the parent directories of the given path,
+   * for operations that create the path.
    */
-  get(key: string, cb: BFSCallback<Buffer>): void;
-}
+  private resolveParent(tx: SyncKeyValueROTransaction, p: string): string {
+    return path.join(this.resolvePath(tx, path.dirname(p), true), path.basename(p));
+  }
+
+  /**
+   * Retrieves the target of the given symbolic link.
+   */
+  private getLinkTarget(tx: SyncKeyValueROTransaction, p: string, inode: Inode): string {
+    const data = tx.get(inode.id);
+    if (data === undefined) {
+      throw ApiError.ENOENT(p);
+    }
+    return data.toString();
+  }
+
+  /**
+   * Sets or removes an extended attribute of the given path.
+   * @param value The new value, or null to remove the attribute.
+   */
+  private commitXattrChange(p: string, name: string, value: Buffer | null, flags: number): void {
+    const tx = this.store.beginTransaction('readwrite'),
+      key = getXattrKey(this.findINode(tx, this.resolvePath(tx, p, true))),
+      attrs = parseXattrs(p, tx.get(key));
+    applyXattrChange(attrs, p, name, value, flags);
+    try {
+      if (Object.keys(attrs).length > 0) {
+        tx.put(key, Buffer.from(JSON.stringify(attrs)), true);
+      } else {
+        tx.del(key);
+      }
+    } catch (e) {
+      tx.abort();
+      throw e;
+    }
+    tx.commit();
+  }
+}
+
+/**
+ * Represents an *asynchronous* key-value store.
+ */
+export interface AsyncKeyValueStore {
+  /**
+   * The name of the key-value store.
+   */
+  name(): string;
+  /**
+   * Empties the key-value store completely.
+   */
+  clear(cb: BFSOneArgCallback): void;
+  /**
+   * Begins a read-write transaction.
+   */
+  beginTransaction(type: 'readwrite'): AsyncKeyValueRWTransaction;
+  /**
+   * Begins a read-only transaction.
+   */
+  beginTransaction(type: 'readonly'): AsyncKeyValueROTransaction;
+  beginTransaction(type: string): AsyncKeyValueROTransaction;
+  /**
+   * Optional: Reports the space of the store, for stores with a limit.
+   */
+  space?(cb: BFSCallback<StoreSpace>): void;
+}
+
+/**
+ * Represents an asynchronous read-only transaction.
+ */
+export interface AsyncKeyValueROTransaction {
+  /**
+   * Retrieves the data at the given key.
+   * @param key The key to look under for data.
+   */
+  get(key: string, cb: BFSCallback<Buffer>): void;
+}
 
 /**
  * Represents an asynchronous read-write transaction.
@@ -780,6 +1368,165 @@ export interface AsyncKeyValueRWTransaction extends AsyncKeyValueROTransaction {
   abort(cb: BFSOneArgCallback): void;
 }
 
+/**
+ * Buffers the changes of a file system transaction on top of an asynchronous
+ * store. Every operation in the transaction gets its own AsyncBatchTransaction,
+ * so failed operations still roll back on their own.
+ * @hidden
+ */
+class AsyncBatchStore implements AsyncKeyValueStore {
+  // Values written in the transaction. `undefined` marks deleted keys.
+  private changes: {[key: string]: Buffer | undefined} = {};
+  // Values of the underlying store when they were first read. Checked for
+  // conflicts on commit, and read again instead of the store.
+  private originals: {[key: string]: Buffer | undefined} = {};
+  private ended: boolean = false;
+
+  constructor(private store: AsyncKeyValueStore) { }
+
+  public name(): string {
+    return this.store.name();
+  }
+
+  public clear(cb: BFSOneArgCallback): void {
+    cb(new ApiError(ErrorCode.ENOTSUP, 'Cannot empty a file system in a transaction.'));
+  }
+
+  public beginTransaction(type: 'readwrite'): AsyncKeyValueRWTransaction;
+  public beginTransaction(type: 'readonly'): AsyncKeyValueROTransaction;
+  public beginTransaction(type: string): AsyncKeyValueROTransaction {
+    if (this.ended) {
+      throw transactionEndedError();
+    }
+    return new AsyncBatchTransaction(this);
+  }
+
+  public get(key: string, cb: BFSCallback<Buffer>): void {
+    if (this.changes.hasOwnProperty(key)) {
+      return cb(null, this.changes[key]);
+    } else if (this.originals.hasOwnProperty(key)) {
+      return cb(null, this.originals[key]);
+    }
+    this.store.beginTransaction('readonly').get(key, (e: ApiError, data?: Buffer): void => {
+      if (noError(e, cb)) {
+        // Keep the first value, in case a concurrent read got here first.
+        if (!this.originals.hasOwnProperty(key)) {
+          this.originals[key] = data;
+        }
+        cb(null, this.originals[key]);
+      }
+    });
+  }
+
+  /**
+   * Adds the changes of an operation in the transaction.
+   */
+  public apply(changes: {[key: string]: Buffer | undefined}): void {
+    Object.keys(changes).forEach((key) => {
+      this.changes[key] = changes[key];
+    });
+  }
+
+  /**
+   * Writes the changes to the underlying store in one transaction.
+   */
+  public commit(cb: BFSOneArgCallback): void {
+    if (this.ended) {
+      return cb(transactionEndedError());
+    }
+    this.ended = true;
+    const tx = this.store.beginTransaction('readwrite'),
+      keys = Object.keys(this.changes),
+      checked = Object.keys(this.originals);
+    let i = 0, j = 0;
+    // Step 2: Write the changes, one at a time.
+    const writeNext = (e?: ApiError | null): void => {
+      if (noErrorTx(e, tx, cb)) {
+        if (j === keys.length) {
+          return tx.commit(cb);
+        }
+        const key = keys[j++], data = this.changes[key];
+        if (data === undefined) {
+          tx.del(key, writeNext);
+        } else {
+          tx.put(key, data, true, (e: ApiError) => writeNext(e));
+        }
+      }
+    };
+    // Step 1: Make sure nothing the transaction read has changed since.
+    const checkNext = (): void => {
+      if (i === checked.length) {
+        return writeNext();
+      }
+      const key = checked[i++];
+      tx.get(key, (e: ApiError, data?: Buffer): void => {
+        if (noErrorTx(e, tx, cb)) {
+          if (!isSameData(data, this.originals[key])) {
+            tx.abort(() => cb(conflictError()));
+          } else {
+            checkNext();
+          }
+        }
+      });
+    };
+    checkNext();
+  }
+
+  public abort(): void {
+    this.ended = true;
+  }
+}
+
+/**
+ * A transaction of a single operation in a file system transaction. Its
+ * changes are added to the AsyncBatchStore when it commits.
+ * @hidden
+ */
+class AsyncBatchTransaction implements AsyncKeyValueRWTransaction {
+  // Values written in this transaction. `undefined` marks deleted keys.
+  private changes: {[key: string]: Buffer | undefined} = {};
+
+  constructor(private batch: AsyncBatchStore) { }
+
+  public get(key: string, cb: BFSCallback<Buffer>): void {
+    if (this.changes.hasOwnProperty(key)) {
+      cb(null, this.changes[key]);
+    } else {
+      this.batch.get(key, cb);
+    }
+  }
+
+  public put(key: string, data: Buffer, overwrite: boolean, cb: BFSCallback<boolean>): void {
+    if (overwrite) {
+      this.changes[key] = data;
+      return cb(null, true);
+    }
+    this.get(key, (e: ApiError, existing?: Buffer): void => {
+      if (noError(e, cb)) {
+        if (existing !== undefined) {
+          return cb(null, false);
+        }
+        this.changes[key] = data;
+        cb(null, true);
+      }
+    });
+  }
+
+  public del(key: string, cb: BFSOneArgCallback): void {
+    this.changes[key] = undefined;
+    cb();
+  }
+
+  public commit(cb: BFSOneArgCallback): void {
+    this.batch.apply(this.changes);
+    cb();
+  }
+
+  public abort(cb: BFSOneArgCallback): void {
+    cb();
+  }
+}
+
 export class AsyncKeyValueFile extends PreloadFile<AsyncKeyValueFileSystem> implements File {
   constructor(_fs: AsyncKeyValueFileSystem, _path: string, _flag: FileFlag, _stat: Stats, contents?: Buffer) {
     super(_fs, _path, _flag, _stat, contents);
@@ -811,9 +1558,19 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
   public static isAvailable(): boolean { return true; }
 
   protected store: AsyncKeyValueStore;
+  /**
+   * The maximum number of bytes of file contents, or null if unlimited.
+   * Subclasses set this before calling `init`.
+   */
+  protected _quota: number | null = null;
+  // The number of bytes of file contents stored. Only tracked with a quota.
+  private _usage: number = 0;
   private _cache: LRUCache | null = null;
 
-  constructor(cacheSize: number, public rootFS: () => FS) {
+  /**
+   * @param cacheSize The number of path lookups to cache.
+   */
+  constructor(cacheSize: number) {
     super();
     if (cacheSize > 0) {
       this._cache = new LRUCache(cacheSize);
@@ -827,11 +1584,21 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
   public init(store: AsyncKeyValueStore, cb: BFSOneArgCallback) {
     this.store = store;
     // INVARIANT: Ensure that the root exists.
-    this.makeRootDirectory(cb);
+    this.makeRootDirectory((e?: ApiError | null): void => {
+      if (e || this._quota === null) {
+        return cb(e);
+      }
+      this.computeUsage(this.store.beginTransaction('readonly'), (e?: ApiError | null, usage?: number): void => {
+        if (noError(e, cb)) {
+          this._usage = usage!;
+          cb();
+        }
+      });
+    });
   }
   public getName(): string { return this.store.name(); }
   public isReadOnly(): boolean { return false; }
-  public supportsSymlinks(): boolean { return false; }
+  public supportsLinks(): boolean { return true; }
   public supportsProps(): boolean { return false; }
   public supportsSynch(): boolean { return false; }
 
@@ -844,12 +1611,54 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
     }
     this.store.clear((e?) => {
       if (noError(e, cb)) {
+        this._usage = 0;
         // INVARIANT: Root always exists.
         this.makeRootDirectory(cb);
       }
     });
   }
 
+  public diskSpace(p: string, cb: (total: number, free: number) => any): void {
+    if (!this.store.space) {
+      return reportSpace(this._quota, this._usage, undefined, cb);
+    }
+    // Report the quota alone if the store cannot tell how much space it has.
+    this.store.space((e?: ApiError | null, space?: StoreSpace): void => {
+      reportSpace(this._quota, this._usage, e ? undefined : space, cb);
+    });
+  }
+
+  public transaction(cb: BFSCallback<FileSystemTransaction>): void {
+    const batch = new AsyncBatchStore(this.store),
+      fs = new AsyncKeyValueFileSystem(0);
+    fs.init(batch, (e?: ApiError | null): void => {
+      if (noError(e, cb)) {
+        const startUsage = this._usage;
+        fs._quota = this._quota;
+        fs._usage = this._usage;
+        cb(null, {
+          fs: fs,
+          commit: (cb: BFSOneArgCallback): void => {
+            batch.commit((e?: ApiError | null): void => {
+              if (noError(e, cb)) {
+                // Cached lookups may point at nodes the transaction moved.
+                if (this._cache) {
+                  this._cache.removeAll();
+                }
+                this._usage += fs._usage - startUsage;
+                cb();
+              }
+            });
+          },
+          abort: (cb: BFSOneArgCallback): void => {
+            batch.abort();
+            cb();
+          }
+        });
+      }
+    });
+  }
+
   public rename(oldPath: string, newPath: string, cb: BFSOneArgCallback): void {
     // TODO: Make rename compatible with the cache.
     if (this._cache) {
@@ -866,6 +1675,22 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
     }
 
     const tx = this.store.beginTransaction('readwrite');
+    // Renaming a symbolic link moves the link, not its target.
+    this.resolvePath(tx, oldPath, false, (e?: ApiError | null, realOldPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        this.resolvePath(tx, newPath, false, (e?: ApiError | null, realNewPath?: string): void => {
+          if (noErrorTx(e, tx, cb)) {
+            this.renameResolved(tx, realOldPath!, realNewPath!, cb);
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Renames oldPath to newPath. Neither path contains symbolic links.
+   */
+  private renameResolved(tx: AsyncKeyValueRWTransaction, oldPath: string, newPath: string, cb: BFSOneArgCallback): void {
     const oldParent = path.dirname(oldPath), oldName = path.basename(oldPath);
     const newParent = path.dirname(newPath), newName = path.basename(newPath);
     const inodes: { [path: string]: Inode } = {};
@@ -904,19 +1729,25 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
 
         // Finishes off the renaming process by adding the file to the new
         // parent.
-        const completeRename = () => {
+        const completeRename = (freed: number) => {
           newParentList[newName] = fileId;
+          const commit = () => tx.commit((e?: ApiError | null) => {
+            if (!e) {
+              this._usage -= freed;
+            }
+            cb(e);
+          });
           // Commit old parent's list.
           tx.put(oldParentINode.id, Buffer.from(JSON.stringify(oldParentList)), true, (e: ApiError) => {
             if (noErrorTx(e, tx, cb)) {
               if (oldParent === newParent) {
                 // DONE!
-                tx.commit(cb);
+                commit();
               } else {
                 // Commit new parent's list.
                 tx.put(newParentINode.id, Buffer.from(JSON.stringify(newParentList)), true, (e: ApiError) => {
                   if (noErrorTx(e, tx, cb)) {
-                    tx.commit(cb);
+                    commit();
                   }
                 });
               }
@@ -924,20 +1755,21 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
           });
         };
 
-        if (newParentList[newName]) {
+        if (newParentList[newName] === fileId) {
+          // Both paths are links to the same inode; there is nothing to do.
+          tx.abort(() => {
+            cb();
+          });
+        } else if (newParentList[newName]) {
           // 'newPath' already exists. Check if it's a file or a directory, and
           // act accordingly.
           this.getINode(tx, newPath, newParentList[newName], (e: ApiError, inode?: Inode) => {
             if (noErrorTx(e, tx, cb)) {
-              if (inode!.isFile()) {
+              if (!inode!.isDirectory()) {
                 // Delete the file and continue.
-                tx.del(inode!.id, (e?: ApiError) => {
+                this.releaseNode(tx, newParentList[newName], inode!, (e?: ApiError | null, freed?: number) => {
                   if (noErrorTx(e, tx, cb)) {
-                    tx.del(newParentList[newName], (e?: ApiError) => {
-                      if (noErrorTx(e, tx, cb)) {
-                        completeRename();
-                      }
-                    });
+                    completeRename(freed!);
                   }
                 });
               } else {
@@ -949,7 +1781,7 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
             }
           });
         } else {
-          completeRename();
+          completeRename(0);
         }
       }
     };
@@ -984,9 +1816,13 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
 
   public stat(p: string, isLstat: boolean, cb: BFSCallback<Stats>): void {
     const tx = this.store.beginTransaction('readonly');
-    this.findINode(tx, p, (e: ApiError, inode?: Inode): void => {
+    this.resolvePath(tx, p, !isLstat, (e?: ApiError | null, realPath?: string): void => {
       if (noError(e, cb)) {
-        cb(null, inode!.toStats());
+        this.findINode(tx, realPath!, (e: ApiError, inode?: Inode): void => {
+          if (noError(e, cb)) {
+            cb(null, inode!.toStats());
+          }
+        });
       }
     });
   }
@@ -995,39 +1831,71 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
     const tx = this.store.beginTransaction('readwrite'),
       data = emptyBuffer();
 
-    this.commitNewFile(tx, p, FileType.FILE, mode, data, (e: ApiError, newFile?: Inode): void => {
-      if (noError(e, cb)) {
-        cb(null, new AsyncKeyValueFile(this, p, flag, newFile!.toStats(), data));
+    this.resolveParent(tx, p, (e?: ApiError | null, realPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        this.commitNewFile(tx, realPath!, FileType.FILE, mode, data, (e: ApiError, newFile?: Inode): void => {
+          if (noError(e, cb)) {
+            cb(null, new AsyncKeyValueFile(this, realPath!, flag, newFile!.toStats(), data));
+          }
+        });
       }
     });
   }
 
   public openFile(p: string, flag: FileFlag, cb: BFSCallback<File>): void {
     const tx = this.store.beginTransaction('readonly');
-    // Step 1: Grab the file's inode.
-    this.findINode(tx, p, (e: ApiError, inode?: Inode) => {
+    // Step 1: Resolve symbolic links. The file syncs to its target, not to
+    // the links that lead to it.
+    this.resolvePath(tx, p, true, (e?: ApiError | null, realPath?: string): void => {
       if (noError(e, cb)) {
-        // Step 2: Grab the file's data.
-        tx.get(inode!.id, (e: ApiError, data?: Buffer): void => {
+        // Step 2: Grab the file's inode.
+        this.findINode(tx, realPath!, (e: ApiError, inode?: Inode) => {
           if (noError(e, cb)) {
-            if (data === undefined) {
-              cb(ApiError.ENOENT(p));
-            } else {
-              if ((inode!.mode & 0xf000) !== FileType.SYMLINK) {
-                cb(null, new AsyncKeyValueFile(this, p, flag, inode!.toStats(), data));
-              } else if (this.rootFS) {
-                const rootFS = this.rootFS();
-                if (rootFS && rootFS.getRootFS) {
-                  const fs = rootFS.getRootFS() as any as BaseFileSystem;
-                  if (fs)
-                    fs.openFile(data.toString(), flag, cb);
+            // Step 3: Grab the file's data.
+            tx.get(inode!.id, (e: ApiError, data?: Buffer): void => {
+              if (noError(e, cb)) {
+                if (data === undefined) {
+                  cb(ApiError.ENOENT(p));
                 } else {
-                  this.openFile(data.toString(), flag, cb);
+                  cb(null, new AsyncKeyValueFile(this, realPath!, flag, inode!.toStats(), data));
                 }
-              } else {
-                this.openFile(data.toString(), flag, cb);
               }
-            }
+            });
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Stores the new contents in one step, so that a write that fails, e.g.
+   * because it would exceed the quota, keeps a file's old contents and does
+   * not leave a new file behind.
+   */
+  public writeFile(fname: string, data: any, encoding: string | null, flag: FileFlag, mode: number, cb: BFSOneArgCallback): void {
+    try {
+      if (typeof data === 'string') {
+        data = Buffer.from(data, encoding!);
+      }
+    } catch (e) {
+      return cb(e);
+    }
+    const tx = this.store.beginTransaction('readwrite');
+    this.resolveParent(tx, fname, (e?: ApiError | null, realPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        this.findINode(tx, realPath!, (e?: ApiError | null, node?: Inode): void => {
+          if (e && e.errno === ErrorCode.ENOENT && flag.pathNotExistsAction() === ActionType.CREATE_FILE) {
+            this.commitNewFile(tx, realPath!, FileType.FILE, mode, data, (e?: ApiError | null) => cb(e));
+          } else if (!e && node!.isFile() && flag.pathExistsAction() === ActionType.TRUNCATE_FILE) {
+            tx.abort(() => {
+              const stats = node!.toStats();
+              stats.size = data.length;
+              stats.mtimeMs = Date.now();
+              this._sync(realPath!, data, stats, cb);
+            });
+          } else if (noErrorTx(e, tx, cb)) {
+            // Symbolic links, directories and other flags go through open.
+            tx.abort(() => super.writeFile(fname, data, null, flag, mode, cb));
           }
         });
       }
@@ -1054,14 +1922,18 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
   public mkdir(p: string, mode: number, cb: BFSOneArgCallback): void {
     const tx = this.store.beginTransaction('readwrite'),
       data = Buffer.from('{}');
-    this.commitNewFile(tx, p, FileType.DIRECTORY, mode, data, cb);
+    this.resolveParent(tx, p, (e?: ApiError | null, realPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        this.commitNewFile(tx, realPath!, FileType.DIRECTORY, mode, data, cb);
+      }
+    });
   }
 
   public readdir(p: string, cb: BFSCallback<string[]>): void {
     const tx = this.store.beginTransaction('readonly');
-    this.findINode(tx, p, (e: ApiError, inode?: Inode) => {
+    this.resolvePath(tx, p, true, (e?: ApiError | null, realPath?: string): void => {
       if (noError(e, cb)) {
-        this.getDirListing(tx, p, inode!, (e: ApiError, dirListing?: {[name: string]: string}) => {
+        this.findINodeAndDirListing(tx, realPath!, (e?: ApiError | null, inode?: Inode, dirListing?: {[name: string]: string}): void => {
           if (noError(e, cb)) {
             cb(null, Object.keys(dirListing!));
           }
@@ -1070,6 +1942,74 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
     });
   }
 
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    this.readdirPage(p, null, Infinity, (e, entries?) => cb(e, entries));
+  }
+
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    const tx = this.store.beginTransaction('readonly');
+    this.resolvePath(tx, p, true, (e?: ApiError | null, realPath?: string): void => {
+      if (noError(e, cb)) {
+        this.findINodeAndDirListing(tx, realPath!, (e?: ApiError | null, dirNode?: Inode, listing?: {[name: string]: string}): void => {
+          if (noError(e, cb)) {
+            const page = getPageNames(listing!, cursor, limit),
+              next = page.cursor,
+              names = page.names,
+              dirents: Dirent[] = new Array(names.length);
+            let remaining = names.length, failed = false;
+            if (remaining === 0) {
+              return cb(null, dirents, next);
+            }
+            // The types are stored in the entries' inodes, which all live in
+            // the same store; fetch them in parallel.
+            names.forEach((name, i) => {
+              this.getINode(tx, path.join(realPath!, name), listing![name], (e: ApiError, inode?: Inode) => {
+                if (failed) {
+                  return;
+                } else if (e) {
+                  failed = true;
+                  return cb(e);
+                }
+                dirents[i] = new Dirent(name, inode!.mode & 0xF000);
+                if (--remaining === 0) {
+                  cb(null, dirents, next);
+                }
+              });
+            });
+          }
+        });
+      }
+    });
+  }
+
+  public getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void {
+    this.getXattrs(this.store.beginTransaction('readonly'), p, (e?: ApiError | null, attrs?: XattrMap): void => {
+      if (noError(e, cb)) {
+        if (!attrs!.hasOwnProperty(name)) {
+          cb(ApiError.FileError(ErrorCode.ENODATA, p));
+        } else {
+          cb(null, Buffer.from(attrs![name], 'base64'));
+        }
+      }
+    });
+  }
+
+  public setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void {
+    this.commitXattrChange(p, name, value, flags, cb);
+  }
+
+  public listxattr(p: string, cb: BFSCallback<string[]>): void {
+    this.getXattrs(this.store.beginTransaction('readonly'), p, (e?: ApiError | null, attrs?: XattrMap): void => {
+      if (noError(e, cb)) {
+        cb(null, Object.keys(attrs!));
+      }
+    });
+  }
+
+  public removexattr(p: string, name: string, cb: BFSOneArgCallback): void {
+    this.commitXattrChange(p, name, null, 0, cb);
+  }
+
   public _sync(p: string, data: Buffer, stats: Stats, cb: BFSOneArgCallback): void {
     // @todo Ensure mtime updates properly, and use that to determine if a data
     //       update is required.
@@ -1080,47 +2020,27 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
         // Step 2: Get the file inode.
         this.getINode(tx, p, fileInodeId!, (e: ApiError, fileInode?: Inode): void => {
           if (noErrorTx(e, tx, cb)) {
-            if ((fileInode!.mode & 0xf000) !== FileType.SYMLINK) {
-              const inodeChanged: boolean = fileInode!.update(stats);
-              // Step 3: Sync the data.
-              tx.put(fileInode!.id, data, true, (e: ApiError): void => {
-                if (noErrorTx(e, tx, cb)) {
-                  // Step 4: Sync the metadata (if it changed)!
-                  if (inodeChanged) {
-                    tx.put(fileInodeId!, fileInode!.toBuffer(), true, (e: ApiError): void => {
-                      if (noErrorTx(e, tx, cb)) {
-                        tx.commit(cb);
-                      }
-                    });
-                  } else {
-                    // No need to sync metadata; return.
-                    tx.commit(cb);
-                  }
-                }
-              });
-            } else {
-              // Step 2: Grab the file's data.
-              tx.get(fileInode!.id, (e: ApiError, symLinkData?: Buffer): void => {
-                if (noError(e, cb)) {
-                  if (symLinkData === undefined) {
-                    cb(ApiError.ENOENT(p));
-                  } else {
-                    if (this.rootFS) {
-                      const rootFS = this.rootFS();
-                      if (rootFS && rootFS.getRootFS) {
-                        const fs = rootFS.getRootFS() as any as BaseFileSystem;
-                        if (fs)
-                          fs.writeFile(symLinkData.toString(), data, null, FileFlag.getFileFlag('w'), 0o666, cb);
-                      } else {
-                        this._sync(symLinkData.toString(), data, stats, cb);
-                      }
-                    } else {
-                      this._sync(symLinkData.toString(), data, stats, cb);
+            const done = this.reserveSpace(p, data.length - fileInode!.size, cb);
+            if (done instanceof ApiError) {
+              return tx.abort(() => cb(done));
+            }
+            const inodeChanged: boolean = fileInode!.update(stats);
+            // Step 3: Sync the data.
+            tx.put(fileInode!.id, data, true, (e: ApiError): void => {
+              if (noErrorTx(e, tx, done)) {
+                // Step 4: Sync the metadata (if it changed)!
+                if (inodeChanged) {
+                  tx.put(fileInodeId!, fileInode!.toBuffer(), true, (e: ApiError): void => {
+                    if (noErrorTx(e, tx, done)) {
+                      tx.commit(done);
                     }
-                  }
+                  });
+                } else {
+                  // No need to sync metadata; return.
+                  tx.commit(done);
                 }
-              });
-            }
+              }
+            });
           }
         });
       }
@@ -1343,21 +2263,26 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
             cb(ApiError.EEXIST(p));
           });
         } else {
+          // Directory listings do not count towards the quota.
+          const done = this.reserveSpace(p, type === FileType.DIRECTORY ? 0 : data.length, cb);
+          if (done instanceof ApiError) {
+            return tx.abort(() => cb(done));
+          }
           // Step 2: Commit data to store.
           this.addNewNode(tx, data, (e: ApiError, dataId?: string): void => {
-            if (noErrorTx(e, tx, cb)) {
+            if (noErrorTx(e, tx, done)) {
               // Step 3: Commit the file's inode to the store.
               const fileInode = new Inode(dataId!, data.length, mode | type, currTime, currTime, currTime);
               this.addNewNode(tx, fileInode.toBuffer(), (e: ApiError, fileInodeId?: string): void => {
-                if (noErrorTx(e, tx, cb)) {
+                if (noErrorTx(e, tx, done)) {
                   // Step 4: Update parent directory's listing.
                   dirListing![fname] = fileInodeId!;
                   tx.put(parentNode!.id, Buffer.from(JSON.stringify(dirListing)), true, (e: ApiError): void => {
-                    if (noErrorTx(e, tx, cb)) {
+                    if (noErrorTx(e, tx, done)) {
                       // Step 5: Commit and return the new inode.
                       tx.commit((e?: ApiError): void => {
-                        if (noErrorTx(e, tx, cb)) {
-                          cb(null, fileInode);
+                        if (noErrorTx(e, tx, done)) {
+                          done(null, fileInode);
                         }
                       });
                     }
@@ -1378,108 +2303,384 @@ export class AsyncKeyValueFileSystem extends BaseFileSystem {
    * @todo Update mtime.
    */
   private removeEntry(p: string, isDir: boolean, cb: BFSOneArgCallback): void {
-    // Eagerly delete from cache (harmless even if removal fails)
-    if (this._cache) {
-      this._cache.remove(p);
-    }
-    const tx = this.store.beginTransaction('readwrite'),
-      parent: string = path.dirname(p), fileName: string = path.basename(p);
-    // Step 1: Get parent directory's node and directory listing.
-    this.findINodeAndDirListing(tx, parent, (e?: ApiError | null, parentNode?: Inode, parentListing?: {[name: string]: string}): void => {
+    const tx = this.store.beginTransaction('readwrite');
+    // Removing a symbolic link removes the link, not its target.
+    this.resolvePath(tx, p, false, (e?: ApiError | null, realPath?: string): void => {
       if (noErrorTx(e, tx, cb)) {
-        if (!parentListing![fileName]) {
-          tx.abort(() => {
-            cb(ApiError.ENOENT(p));
-          });
-        } else {
-          // Remove from directory listing of parent.
-          const fileNodeId = parentListing![fileName];
-          delete parentListing![fileName];
-          // Step 2: Get file inode.
-          this.getINode(tx, p, fileNodeId, (e: ApiError, fileNode?: Inode): void => {
-            if (noErrorTx(e, tx, cb)) {
-              if (!isDir && fileNode!.isDirectory()) {
-                tx.abort(() => {
-                  cb(ApiError.EISDIR(p));
-                });
-              } else if (isDir && !fileNode!.isDirectory()) {
-                tx.abort(() => {
-                  cb(ApiError.ENOTDIR(p));
-                });
-              } else {
-                // Step 3: Delete data.
-                tx.del(fileNode!.id, (e?: ApiError): void => {
-                  if (noErrorTx(e, tx, cb)) {
-                    // Step 4: Delete node.
-                    tx.del(fileNodeId, (e?: ApiError): void => {
+        p = realPath!;
+        // Eagerly delete from cache (harmless even if removal fails)
+        if (this._cache) {
+          this._cache.remove(p);
+        }
+        const parent: string = path.dirname(p), fileName: string = path.basename(p);
+        // Step 1: Get parent directory's node and directory listing.
+        this.findINodeAndDirListing(tx, parent, (e?: ApiError | null, parentNode?: Inode, parentListing?: {[name: string]: string}): void => {
+          if (noErrorTx(e, tx, cb)) {
+            if (!parentListing![fileName]) {
+              tx.abort(() => {
+                cb(ApiError.ENOENT(p));
+              });
+            } else {
+              // Remove from directory listing of parent.
+              const fileNodeId = parentListing![fileName];
+              delete parentListing![fileName];
+              // Step 2: Get file inode.
+              this.getINode(tx, p, fileNodeId, (e: ApiError, fileNode?: Inode): void => {
+                if (noErrorTx(e, tx, cb)) {
+                  if (!isDir && fileNode!.isDirectory()) {
+                    tx.abort(() => {
+                      cb(ApiError.EISDIR(p));
+                    });
+                  } else if (isDir && !fileNode!.isDirectory()) {
+                    tx.abort(() => {
+                      cb(ApiError.ENOTDIR(p));
+                    });
+                  } else {
+                    // Step 3: Drop the link to the inode.
+                    this.releaseNode(tx, fileNodeId, fileNode!, (e?: ApiError | null, freed?: number): void => {
                       if (noErrorTx(e, tx, cb)) {
-                        // Step 5: Update directory listing.
+                        // Step 4: Update directory listing.
                         tx.put(parentNode!.id, Buffer.from(JSON.stringify(parentListing)), true, (e: ApiError): void => {
                           if (noErrorTx(e, tx, cb)) {
-                            tx.commit(cb);
+                            tx.commit((e?: ApiError | null): void => {
+                              if (!e) {
+                                this._usage -= freed!;
+                              }
+                              cb(e);
+                            });
                           }
                         });
                       }
                     });
                   }
+                }
+              });
+            }
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Drops one link to the given inode. Once no links are left, deletes the
+   * inode, its data and its extended attributes.
+   * @param id The ID of the inode.
+   * @param cb Passed an error or the number of bytes of file contents freed.
+   */
+  private releaseNode(tx: AsyncKeyValueRWTransaction, id: string, inode: Inode, cb: BFSCallback<number>): void {
+    if (inode.nlink > 1) {
+      inode.nlink--;
+      tx.put(id, inode.toBuffer(), true, (e: ApiError): void => {
+        if (noError(e, cb)) {
+          cb(null, 0);
+        }
+      });
+    } else {
+      tx.del(inode.id, (e?: ApiError): void => {
+        if (noError(e, cb)) {
+          tx.del(getXattrKey(inode), (e?: ApiError): void => {
+            if (noError(e, cb)) {
+              tx.del(id, (e?: ApiError): void => {
+                if (noError(e, cb)) {
+                  cb(null, inode.isDirectory() ? 0 : inode.size);
+                }
+              });
+            }
+          });
+        }
+      });
+    }
+  }
+
+  /**
+   * Counts the given number of additional bytes of file contents against the
+   * quota. The returned callback undoes this if the write fails.
+   * @return An error if the quota would be exceeded, or the callback to pass
+   *   the result of the write to.
+   */
+  private reserveSpace<T>(p: string, bytes: number, cb: BFSCallback<T>): ApiError | BFSCallback<T> {
+    if (this._quota !== null && bytes > 0 && this._usage + bytes > this._quota) {
+      return quotaError(p, this._quota);
+    }
+    this._usage += bytes;
+    return (e?: ApiError | null, rv?: T): void => {
+      if (e) {
+        this._usage -= bytes;
+      }
+      cb(e, rv);
+    };
+  }
+
+  /**
+   * Adds up the sizes of all files and symbolic links in the store. Files
+   * with several links are counted once.
+   */
+  private computeUsage(tx: AsyncKeyValueROTransaction, cb: BFSCallback<number>): void {
+    const visited: {[id: string]: boolean} = {};
+    const visit = (p: string, id: string, cb: BFSCallback<number>): void => {
+      if (visited[id]) {
+        return cb(null, 0);
+      }
+      visited[id] = true;
+      this.getINode(tx, p, id, (e: ApiError, inode?: Inode): void => {
+        if (noError(e, cb)) {
+          if (!inode!.isDirectory()) {
+            return cb(null, inode!.size);
+          }
+          this.getDirListing(tx, p, inode!, (e: ApiError, listing?: {[name: string]: string}): void => {
+            if (noError(e, cb)) {
+              // Visit the entries one at a time, so that links to the same
+              // inode are only counted once.
+              const names = Object.keys(listing!);
+              let total = 0, i = 0;
+              const visitNext = (e?: ApiError | null, size?: number): void => {
+                if (noError(e, cb)) {
+                  total += size!;
+                  if (i < names.length) {
+                    const name = names[i++];
+                    visit(path.join(p, name), listing![name], visitNext);
+                  } else {
+                    cb(null, total);
+                  }
+                }
+              };
+              visitNext(null, 0);
+            }
+          });
+        }
+      });
+    };
+    visit('/', ROOT_NODE_ID, cb);
+  }
+
+  /**
+   * Resolves the symbolic links in the given path. Link targets are relative
+   * to the link's directory, or to the root of this file system.
+   * @param followLast If false, a link in the last component is not followed,
+   *   as in `lstat`.
+   * @param cb Passed an error or the path with all symbolic links resolved.
+   */
+  private resolvePath(tx: AsyncKeyValueROTransaction, p: string, followLast: boolean, cb: BFSCallback<string>): void {
+    const parts = splitPath(p);
+    let links = 0;
+    const resolveNext = (resolved: string): void => {
+      let name: string | undefined;
+      while ((name = parts.shift()) === '..') {
+        resolved = path.dirname(resolved);
+      }
+      if (name === undefined) {
+        return cb(null, resolved);
+      }
+      const next = path.join(resolved, name);
+      if (parts.length === 0 && !followLast) {
+        return cb(null, next);
+      }
+      this._findINode(tx, resolved, name, (e: ApiError, id?: string): void => {
+        if (noError(e, cb)) {
+          this.getINode(tx, next, id!, (e: ApiError, inode?: Inode): void => {
+            if (noError(e, cb)) {
+              if (!inode!.isSymbolicLink()) {
+                resolveNext(next);
+              } else if (++links > MAX_SYMLINK_DEPTH) {
+                cb(ApiError.FileError(ErrorCode.ELOOP, p));
+              } else {
+                this.getLinkTarget(tx, next, inode!, (e?: ApiError | null, target?: string): void => {
+                  if (noError(e, cb)) {
+                    parts.unshift(...splitPath(target!));
+                    resolveNext(target!.charAt(0) === '/' ? '/' : resolved);
+                  }
                 });
               }
             }
           });
         }
+      });
+    };
+    resolveNext('/');
+  }
+
+  /**
+   * Resolves the symbolic links in the parent directories of the given path,
+   * for operations that create the path.
+   */
+  private resolveParent(tx: AsyncKeyValueROTransaction, p: string, cb: BFSCallback<string>): void {
+    this.resolvePath(tx, path.dirname(p), true, (e?: ApiError | null, parent?: string): void => {
+      if (noError(e, cb)) {
+        cb(null, path.join(parent!, path.basename(p)));
+      }
+    });
+  }
+
+  /**
+   * Retrieves the target of the given symbolic link.
+   */
+  private getLinkTarget(tx: AsyncKeyValueROTransaction, p: string, inode: Inode, cb: BFSCallback<string>): void {
+    tx.get(inode.id, (e: ApiError, data?: Buffer): void => {
+      if (noError(e, cb)) {
+        if (data === undefined) {
+          cb(ApiError.ENOENT(p));
+        } else {
+          cb(null, data.toString());
+        }
+      }
+    });
+  }
+
+  /**
+   * Retrieves the extended attributes of the given path.
+   * @param cb Passed an error, or the attributes and the key they are stored
+   *   under.
+   */
+  private getXattrs(tx: AsyncKeyValueROTransaction, p: string, cb: BFSThreeArgCallback<XattrMap, string>): void {
+    this.resolvePath(tx, p, true, (e?: ApiError | null, realPath?: string): void => {
+      if (noError(e, cb)) {
+        this.findINode(tx, realPath!, (e: ApiError, inode?: Inode): void => {
+          if (noError(e, cb)) {
+            const key = getXattrKey(inode!);
+            tx.get(key, (e: ApiError, data?: Buffer): void => {
+              if (noError(e, cb)) {
+                let attrs: XattrMap;
+                try {
+                  attrs = parseXattrs(p, data);
+                } catch (e) {
+                  return cb(e);
+                }
+                cb(null, attrs, key);
+              }
+            });
+          }
+        });
+      }
+    });
+  }
+
+  /**
+   * Sets or removes an extended attribute of the given path.
+   * @param value The new value, or null to remove the attribute.
+   */
+  private commitXattrChange(p: string, name: string, value: Buffer | null, flags: number, cb: BFSOneArgCallback): void {
+    const tx = this.store.beginTransaction('readwrite');
+    this.getXattrs(tx, p, (e?: ApiError | null, attrs?: XattrMap, key?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        try {
+          applyXattrChange(attrs!, p, name, value, flags);
+        } catch (e) {
+          return tx.abort(() => cb(e));
+        }
+        const done = (e?: ApiError | null): void => {
+          if (noErrorTx(e, tx, cb)) {
+            tx.commit(cb);
+          }
+        };
+        if (Object.keys(attrs!).length > 0) {
+          tx.put(key!, Buffer.from(JSON.stringify(attrs)), true, done);
+        } else {
+          tx.del(key!, done);
+        }
+      }
+    });
+  }
+
+  public utimes(p: string, atime: Date, mtime: Date, cb: BFSOneArgCallback): void {
+    const tx = this.store.beginTransaction('readwrite');
+    this.resolvePath(tx, p, true, (e?: ApiError | null, realPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        // We use the _findInode helper because we actually need the INode id.
+        this._findINode(tx, path.dirname(realPath!), path.basename(realPath!), (e: ApiError, inodeId?: string): void => {
+          if (noErrorTx(e, tx, cb)) {
+            this.getINode(tx, realPath!, inodeId!, (e: ApiError, inode?: Inode): void => {
+              if (noErrorTx(e, tx, cb)) {
+                inode!.atime = atime.getTime();
+                inode!.mtime = mtime.getTime();
+                tx.put(inodeId!, inode!.toBuffer(), true, (e: ApiError): void => {
+                  if (noErrorTx(e, tx, cb)) {
+                    tx.commit(cb);
+                  }
+                });
+              }
+            });
+          }
+        });
       }
     });
   }
-  
+
+  public realpath(p: string, cache: {[path: string]: string}, cb: BFSCallback<string>): void {
+    this.resolvePath(this.store.beginTransaction('readonly'), p, true, cb);
+  }
+
   public link(srcpath: string, dstpath: string, cb: BFSOneArgCallback): void {
-    const parentDir = path.dirname(srcpath),
-      fname = path.basename(srcpath);
     const tx = this.store.beginTransaction('readwrite');
-    // Step 1: Grab the dest file's inode.
-    this.findINode(tx, dstpath, (e: ApiError, inode?: Inode) => {
-      if (noError(e, cb)) {
-        // Step 2: Get the source directory's inode and directory listing
-        this.findINodeAndDirListing(tx, parentDir, (e?: ApiError | null, parentNode?: Inode, dirListing?: { [name: string]: string }): void => {
+    // Like Linux, link to a symbolic link itself rather than to its target.
+    this.resolvePath(tx, srcpath, false, (e?: ApiError | null, existingPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        // Step 1: Grab the existing file's inode.
+        this._findINode(tx, path.dirname(existingPath!), path.basename(existingPath!), (e: ApiError, nodeId?: string): void => {
           if (noErrorTx(e, tx, cb)) {
-            if (dirListing![fname]) {
-              // File already exists.
-              tx.abort(() => {
-                cb(ApiError.EEXIST(srcpath));
-              });
-            } else {
-              // Step 3: Commit the file's inode to the store.
-              this.addNewNode(tx, inode!.toBuffer(), (e: ApiError, fileInodeId?: string): void => {
-                if (noErrorTx(e, tx, cb)) {
-                  // Step 4: Update parent directory's listing.
-                  dirListing![fname] = fileInodeId!;
-                  tx.put(parentNode!.id, Buffer.from(JSON.stringify(dirListing)), true, (e: ApiError): void => {
-                    if (noErrorTx(e, tx, cb)) {
-                      // Step 5: Commit and return any error.
-                      tx.commit((e?: ApiError): void => {
-                        if (noErrorTx(e, tx, cb)) {
-                          cb(null);
-                        };
-                      });
-                    };
-                  });
-                };
-              });
-            };
-          };
+            this.getINode(tx, srcpath, nodeId!, (e: ApiError, node?: Inode): void => {
+              if (noErrorTx(e, tx, cb)) {
+                if (node!.isDirectory()) {
+                  return tx.abort(() => cb(ApiError.EPERM(srcpath)));
+                }
+                this.resolveParent(tx, dstpath, (e?: ApiError | null, newPath?: string): void => {
+                  if (noErrorTx(e, tx, cb)) {
+                    const fname = path.basename(newPath!);
+                    // Step 2: Get the new parent directory's inode and directory listing.
+                    this.findINodeAndDirListing(tx, path.dirname(newPath!), (e?: ApiError | null, parentNode?: Inode, dirListing?: {[name: string]: string}): void => {
+                      if (noErrorTx(e, tx, cb)) {
+                        if (dirListing![fname]) {
+                          // File already exists.
+                          return tx.abort(() => cb(ApiError.EEXIST(dstpath)));
+                        }
+                        // Step 3: Count the new link in the inode.
+                        node!.nlink++;
+                        tx.put(nodeId!, node!.toBuffer(), true, (e: ApiError): void => {
+                          if (noErrorTx(e, tx, cb)) {
+                            // Step 4: Update the new parent directory's listing.
+                            dirListing![fname] = nodeId!;
+                            tx.put(parentNode!.id, Buffer.from(JSON.stringify(dirListing)), true, (e: ApiError): void => {
+                              if (noErrorTx(e, tx, cb)) {
+                                tx.commit(cb);
+                              }
+                            });
+                          }
+                        });
+                      }
+                    });
+                  }
+                });
+              }
+            });
+          }
         });
-      };
+      }
     });
   }
 
-  public async symlink(srcpath: string, dstpath: string, type: string, cb: BFSOneArgCallback) {
+  public symlink(srcpath: string, dstpath: string, type: string, cb: BFSOneArgCallback): void {
     const tx = this.store.beginTransaction('readwrite');
-    this.commitNewFile(tx, srcpath, FileType.SYMLINK, 0o666, Buffer.from(dstpath), (e?: ApiError | null, node?: Inode): void => {
-      // Commit and return any error.
-      tx.commit((e?: ApiError): void => {
-        if (noErrorTx(e, tx, cb)) {
-          cb(null);
-        };
-      });
+    this.resolveParent(tx, dstpath, (e?: ApiError | null, newPath?: string): void => {
+      if (noErrorTx(e, tx, cb)) {
+        this.commitNewFile(tx, newPath!, FileType.SYMLINK, 0o777, Buffer.from(srcpath), (e?: ApiError | null): void => cb(e));
+      }
+    });
+  }
+
+  public readlink(p: string, cb: BFSCallback<string>): void {
+    const tx = this.store.beginTransaction('readonly');
+    this.resolvePath(tx, p, false, (e?: ApiError | null, realPath?: string): void => {
+      if (noError(e, cb)) {
+        this.findINode(tx, realPath!, (e: ApiError, inode?: Inode): void => {
+          if (noError(e, cb)) {
+            if (!inode!.isSymbolicLink()) {
+              cb(ApiError.FileError(ErrorCode.EINVAL, p));
+            } else {
+              this.getLinkTarget(tx, p, inode!, cb);
+            }
+          }
+        });
+      }
     });
   }
 }
@@ -1,9 +1,10 @@
 import Mutex from './mutex';
-import {FileSystem, BFSOneArgCallback, BFSCallback} from '../core/file_system';
+import {FileSystem, BFSOneArgCallback, BFSCallback, BFSThreeArgCallback, CopyOptions, DirentPage, FileSystemTransaction} from '../core/file_system';
 import {ApiError} from '../core/api_error';
 import {FileFlag} from '../core/file_flag';
 import {default as Stats} from '../core/node_fs_stats';
 import {File} from '../core/file';
+import Dirent from '../core/node_fs_dirent';
 
 /**
  * This class serializes access to an underlying async filesystem.
@@ -40,6 +41,10 @@ export default class LockedFS<T extends FileSystem> implements FileSystem {
     return this._fs.isReadOnly();
   }
 
+  public isReadOnlyAt(p: string): boolean {
+    return this._fs.isReadOnlyAt(p);
+  }
+
   public supportsLinks(): boolean {
     return this._fs.supportsLinks();
   }
@@ -164,6 +169,54 @@ export default class LockedFS<T extends FileSystem> implements FileSystem {
     return this._fs.readdirSync(p);
   }
 
+  public readdirWithTypes(p: string, cb: BFSCallback<Dirent[]>): void {
+    this._mu.lock(() => {
+      this._fs.readdirWithTypes(p, (err?: ApiError, files?: Dirent[]) => {
+        this._mu.unlock();
+        cb(err, files);
+      });
+    });
+  }
+
+  public readdirWithTypesSync(p: string): Dirent[] {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.readdirWithTypesSync(p);
+  }
+
+  public readdirPage(p: string, cursor: string | null, limit: number, cb: BFSThreeArgCallback<Dirent[], string | null>): void {
+    this._mu.lock(() => {
+      this._fs.readdirPage(p, cursor, limit, (err?: ApiError | null, entries?: Dirent[], next?: string | null) => {
+        this._mu.unlock();
+        cb(err, entries, next);
+      });
+    });
+  }
+
+  public readdirPageSync(p: string, cursor: string | null, limit: number): DirentPage {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.readdirPageSync(p, cursor, limit);
+  }
+
+  public readdirRecursive(p: string, maxDepth: number, cb: BFSCallback<Dirent[]>): void {
+    this._mu.lock(() => {
+      this._fs.readdirRecursive(p, maxDepth, (err?: ApiError, files?: Dirent[]) => {
+        this._mu.unlock();
+        cb(err, files);
+      });
+    });
+  }
+
+  public readdirRecursiveSync(p: string, maxDepth: number): Dirent[] {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.readdirRecursiveSync(p, maxDepth);
+  }
+
   public exists(p: string, cb: (exists: boolean) => void): void {
     this._mu.lock(() => {
       this._fs.exists(p, (exists: boolean) => {
@@ -260,6 +313,70 @@ export default class LockedFS<T extends FileSystem> implements FileSystem {
     return this._fs.appendFileSync(fname, data, encoding, flag, mode);
   }
 
+  public mkdirp(p: string, mode: number, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.mkdirp(p, mode, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public mkdirpSync(p: string, mode: number): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.mkdirpSync(p, mode);
+  }
+
+  public rimraf(p: string, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.rimraf(p, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public rimrafSync(p: string): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.rimrafSync(p);
+  }
+
+  public copyFile(src: string, dest: string, flags: number, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.copyFile(src, dest, flags, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public copyFileSync(src: string, dest: string, flags: number): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.copyFileSync(src, dest, flags);
+  }
+
+  public cp(src: string, dest: string, options: CopyOptions, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.cp(src, dest, options, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public cpSync(src: string, dest: string, options: CopyOptions): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.cpSync(src, dest, options);
+  }
+
   public chmod(p: string, isLchmod: boolean, mode: number, cb: BFSOneArgCallback): void {
     this._mu.lock(() => {
       this._fs.chmod(p, isLchmod, mode, (err?: ApiError) => {
@@ -355,4 +472,96 @@ export default class LockedFS<T extends FileSystem> implements FileSystem {
     }
     return this._fs.readlinkSync(p);
   }
+
+  public getxattr(p: string, name: string, cb: BFSCallback<Buffer>): void {
+    this._mu.lock(() => {
+      this._fs.getxattr(p, name, (err?: ApiError, value?: Buffer) => {
+        this._mu.unlock();
+        cb(err, value);
+      });
+    });
+  }
+
+  public getxattrSync(p: string, name: string): Buffer {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.getxattrSync(p, name);
+  }
+
+  public setxattr(p: string, name: string, value: Buffer, flags: number, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.setxattr(p, name, value, flags, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public setxattrSync(p: string, name: string, value: Buffer, flags: number): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.setxattrSync(p, name, value, flags);
+  }
+
+  public listxattr(p: string, cb: BFSCallback<string[]>): void {
+    this._mu.lock(() => {
+      this._fs.listxattr(p, (err?: ApiError, names?: string[]) => {
+        this._mu.unlock();
+        cb(err, names);
+      });
+    });
+  }
+
+  public listxattrSync(p: string): string[] {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.listxattrSync(p);
+  }
+
+  public removexattr(p: string, name: string, cb: BFSOneArgCallback): void {
+    this._mu.lock(() => {
+      this._fs.removexattr(p, name, (err?: ApiError) => {
+        this._mu.unlock();
+        cb(err);
+      });
+    });
+  }
+
+  public removexattrSync(p: string, name: string): void {
+    if (this._mu.isLocked()) {
+      throw new Error('invalid sync call');
+    }
+    return this._fs.removexattrSync(p, name);
+  }
+
+  /**
+   * The lock is not held while the transaction runs, as its body may use this
+   * file system too. Changes made in the meantime are detected when the
+   * transaction commits, which does hold the lock.
+   */
+  public transaction(cb: BFSCallback<FileSystemTransaction>): void {
+    this._mu.lock(() => {
+      this._fs.transaction((err?: ApiError | null, tx?: FileSystemTransaction) => {
+        this._mu.unlock();
+        if (err) {
+          return cb(err);
+        }
+        cb(null, {
+          fs: tx!.fs,
+          commit: (cb: BFSOneArgCallback): void => {
+            this._mu.lock(() => {
+              tx!.commit((err?: ApiError | null) => {
+                this._mu.unlock();
+                cb(err);
+              });
+            });
+          },
+          abort: (cb: BFSOneArgCallback): void => tx!.abort(cb)
+        });
+      });
+    });
+  }
 }
@@ -0,0 +1,596 @@
+/**
+ * Contains a reader for the Universal Disk Format (UDF), the file system of
+ * DVDs and Blu-ray discs. Implemented according to ECMA-167 and the OSTA UDF
+ * specification (revision 2.60), which restricts it:
+ * http://www.osta.org/specs/pdf/udf260.pdf
+ *
+ * Only what is needed to read files is implemented. Virtual partitions (used
+ * by incrementally written CD-Rs) are not supported, and sparable partitions
+ * are read as if no blocks were ever remapped.
+ */
+import {ApiError, ErrorCode} from '../core/api_error';
+import {default as Stats, FileType} from '../core/node_fs_stats';
+
+/**
+ * ECMA-167 3/7.2.1 and 4/7.2.1
+ * @hidden
+ */
+const enum TagIdentifier {
+  PrimaryVolumeDescriptor = 1,
+  AnchorVolumeDescriptorPointer = 2,
+  VolumeDescriptorPointer = 3,
+  PartitionDescriptor = 5,
+  LogicalVolumeDescriptor = 6,
+  TerminatingDescriptor = 8,
+  FileSetDescriptor = 256,
+  FileIdentifierDescriptor = 257,
+  AllocationExtentDescriptor = 258,
+  FileEntry = 261,
+  ExtendedFileEntry = 266
+}
+
+/**
+ * ECMA-167 4/14.6.6
+ * @hidden
+ */
+const enum IcbFileType {
+  Directory = 4,
+  File = 5,
+  Symlink = 12
+}
+
+/**
+ * ECMA-167 4/14.6.8: The type of allocation descriptors in an ICB.
+ * @hidden
+ */
+const enum AllocationDescriptorType {
+  Short = 0,
+  Long = 1,
+  Extended = 2,
+  Embedded = 3
+}
+
+/**
+ * ECMA-167 4/14.14.1.1: The two upper bits of an extent's length.
+ * @hidden
+ */
+const enum ExtentType {
+  Recorded = 0,
+  AllocatedNotRecorded = 1,
+  NotAllocated = 2,
+  NextExtentOfDescriptors = 3
+}
+
+/**
+ * ECMA-167 4/14.4.3
+ * @hidden
+ */
+const enum FileCharacteristics {
+  Hidden = 1,
+  Directory = 1 << 1,
+  Deleted = 1 << 2,
+  Parent = 1 << 3
+}
+
+/**
+ * ECMA-167 2/9.1: Volume structure descriptors that may appear in the volume
+ * recognition sequence, which starts at 32K.
+ * @hidden
+ */
+const volumeStructureIdentifiers = ['BEA01', 'BOOT2', 'CD001', 'CDW02', 'NSR02', 'NSR03', 'TEA01'];
+
+/**
+ * Returns true if the image has a UDF file system, which is announced by an
+ * NSR descriptor in the volume recognition sequence.
+ */
+export function hasUDF(data: Buffer): boolean {
+  for (let i = 32768; i + 2048 <= data.length; i += 2048) {
+    const identifier = data.toString('ascii', i + 1, i + 6);
+    if (identifier === 'NSR02' || identifier === 'NSR03') {
+      return true;
+    } else if (volumeStructureIdentifiers.indexOf(identifier) === -1) {
+      return false;
+    }
+  }
+  return false;
+}
+
+/**
+ * Decodes OSTA compressed unicode (UDF 2.1.1), which starts with the number
+ * of bits per character.
+ * @hidden
+ */
+function getDCharacters(data: Buffer, start: number, length: number): string {
+  if (length === 0) {
+    return '';
+  }
+  switch (data[start]) {
+    case 8:
+    case 254:
+      return data.toString('latin1', start + 1, start + length);
+    case 16:
+    case 255: {
+      const chars: string[] = [];
+      for (let i = start + 1; i + 1 < start + length; i += 2) {
+        chars.push(String.fromCharCode(data.readUInt16BE(i)));
+      }
+      return chars.join('');
+    }
+    default:
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Unknown compression ID ${data[start]}.`);
+  }
+}
+
+/**
+ * ECMA-167 1/7.3: Timestamps have their own time zone, or none (-2047).
+ * @hidden
+ */
+function getTimestamp(data: Buffer, start: number): number {
+  const typeAndTimezone = data.readUInt16LE(start);
+  let offset = typeAndTimezone & 0xFFF;
+  // The offset is a signed 12-bit number of minutes.
+  if (offset & 0x800) {
+    offset -= 0x1000;
+  }
+  if ((typeAndTimezone >> 12) !== 1 || offset === -2047) {
+    offset = 0;
+  }
+  const ms = data[start + 9] * 10 + Math.floor(data[start + 10] / 10);
+  return Date.UTC(data.readInt16LE(start + 2), data[start + 4] - 1, data[start + 5], data[start + 6], data[start + 7], data[start + 8], ms) - offset * 60000;
+}
+
+/**
+ * ECMA-167 3/7.2: Checks the descriptor tag at the start of the given data,
+ * and returns its identifier.
+ * @param location The expected location of the descriptor, if known.
+ * @hidden
+ */
+function readTag(data: Buffer, location: number = -1): number {
+  if (data.length < 16) {
+    throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Descriptor is out of bounds.`);
+  }
+  let checksum = 0;
+  for (let i = 0; i < 16; i++) {
+    if (i !== 4) {
+      checksum = (checksum + data[i]) & 0xFF;
+    }
+  }
+  if (checksum !== data[4] || (location !== -1 && data.readUInt32LE(12) !== location)) {
+    throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Bad descriptor tag at ${location}.`);
+  }
+  return data.readUInt16LE(0);
+}
+
+/**
+ * A partition of the logical volume, which is addressed in logical blocks.
+ * @hidden
+ */
+interface UDFPartition {
+  read(lbn: number, length: number): Buffer;
+}
+
+/**
+ * ECMA-167 3/10.7.2: A type 1 partition map, which refers to a partition
+ * descriptor on the volume. Sparable partitions are read the same way.
+ * @hidden
+ */
+class PhysicalPartition implements UDFPartition {
+  constructor(private _data: Buffer, private _start: number, private _blockSize: number) {}
+  public read(lbn: number, length: number): Buffer {
+    const start = this._start + lbn * this._blockSize;
+    if (start + length > this._data.length) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Extent at block ${lbn} is out of bounds.`);
+    }
+    return this._data.slice(start, start + length);
+  }
+}
+
+/**
+ * UDF 2.2.10: A metadata partition, which is stored in a metadata file on
+ * another partition. UDF 2.50 and later keep file entries and directories here.
+ * @hidden
+ */
+class MetadataPartition implements UDFPartition {
+  constructor(private _contents: Buffer, private _blockSize: number) {}
+  public read(lbn: number, length: number): Buffer {
+    const start = lbn * this._blockSize;
+    if (start + length > this._contents.length) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Metadata extent at block ${lbn} is out of bounds.`);
+    }
+    return this._contents.slice(start, start + length);
+  }
+}
+
+/**
+ * A UDF logical volume in a disc image.
+ */
+export class UDFVolume {
+  public readonly root: UDFFile;
+  private _sectorSize: number = 2048;
+  private _blockSize: number = 2048;
+  private _partitions: UDFPartition[] = [];
+  private _volumeIdentifier: string = '';
+
+  constructor(private _data: Buffer) {
+    const avdp = this._findAnchor();
+    // The main volume descriptor sequence, then the reserve one.
+    let fsdLocation: Buffer | null = null, error: ApiError | null = null;
+    for (const offset of [16, 24]) {
+      try {
+        fsdLocation = this._readVolumeDescriptorSequence(avdp.readUInt32LE(offset + 4), avdp.readUInt32LE(offset));
+        break;
+      } catch (e) {
+        error = e;
+      }
+    }
+    if (fsdLocation === null) {
+      throw error;
+    }
+    const fsd = this.read(fsdLocation.readUInt16LE(8), fsdLocation.readUInt32LE(4), this._blockSize);
+    if (readTag(fsd) !== TagIdentifier.FileSetDescriptor) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Missing file set descriptor.`);
+    }
+    this.root = this.getFile(fsd.slice(400, 416));
+    if (!this.root.isDirectory()) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: The root is not a directory.`);
+    }
+  }
+
+  public getVolumeIdentifier(): string {
+    return this._volumeIdentifier;
+  }
+
+  /**
+   * Reads data from a partition.
+   * @param partitionRef The index of the partition's map in the logical
+   *   volume descriptor.
+   */
+  public read(partitionRef: number, lbn: number, length: number): Buffer {
+    const partition = this._partitions[partitionRef];
+    if (!partition) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Unknown partition ${partitionRef}.`);
+    }
+    return partition.read(lbn, length);
+  }
+
+  /**
+   * Reads the file entry that the given long allocation descriptor points to.
+   */
+  public getFile(longAd: Buffer): UDFFile {
+    const partitionRef = longAd.readUInt16LE(8), lbn = longAd.readUInt32LE(4);
+    return new UDFFile(this, this.read(partitionRef, lbn, this._blockSize), partitionRef, lbn);
+  }
+
+  public getBlockSize(): number {
+    return this._blockSize;
+  }
+
+  /**
+   * ECMA-167 3/8.4.2.1: The anchor volume descriptor pointer is in sector 256,
+   * the last sector, or 256 sectors before it. Also determines the sector
+   * size, which is usually 2048, but can be 512 or 4096 on hard disk images.
+   */
+  private _findAnchor(): Buffer {
+    for (const sectorSize of [2048, 512, 4096]) {
+      const sectorCount = Math.floor(this._data.length / sectorSize);
+      for (const sector of [256, sectorCount - 1, sectorCount - 257]) {
+        if (sector < 256) {
+          continue;
+        }
+        const avdp = this._data.slice(sector * sectorSize, (sector + 1) * sectorSize);
+        try {
+          if (readTag(avdp, sector) === TagIdentifier.AnchorVolumeDescriptorPointer) {
+            this._sectorSize = sectorSize;
+            return avdp;
+          }
+        } catch (e) {
+          // Try the next location.
+        }
+      }
+    }
+    throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Unable to find the anchor volume descriptor pointer.`);
+  }
+
+  /**
+   * ECMA-167 3/8.4: Reads the partition descriptors and the logical volume
+   * descriptor, and sets up the partitions.
+   * @return The long allocation descriptor of the file set descriptor.
+   */
+  private _readVolumeDescriptorSequence(sector: number, length: number): Buffer {
+    const sectorSize = this._sectorSize;
+    // Partition number => partition descriptor. Descriptors with a higher
+    // volume descriptor sequence number supersede earlier ones.
+    const partitionDescriptors: {[num: number]: Buffer} = {};
+    let lvd: Buffer | null = null, end = sector + Math.ceil(length / sectorSize), visited = 0;
+    while (sector < end && visited++ < 4096) {
+      const descriptor = this._data.slice(sector * sectorSize, (sector + 1) * sectorSize);
+      const tag = readTag(descriptor, sector);
+      sector++;
+      switch (tag) {
+        case TagIdentifier.PartitionDescriptor: {
+          const num = descriptor.readUInt16LE(22), existing = partitionDescriptors[num];
+          if (!existing || existing.readUInt32LE(16) <= descriptor.readUInt32LE(16)) {
+            partitionDescriptors[num] = descriptor;
+          }
+          break;
+        }
+        case TagIdentifier.LogicalVolumeDescriptor:
+          if (!lvd || lvd.readUInt32LE(16) <= descriptor.readUInt32LE(16)) {
+            lvd = descriptor;
+          }
+          break;
+        case TagIdentifier.VolumeDescriptorPointer:
+          // The sequence continues elsewhere.
+          sector = descriptor.readUInt32LE(24);
+          end = sector + Math.ceil(descriptor.readUInt32LE(20) / sectorSize);
+          break;
+        case TagIdentifier.TerminatingDescriptor:
+          end = sector;
+          break;
+      }
+    }
+    if (lvd === null) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Missing logical volume descriptor.`);
+    }
+    this._blockSize = lvd.readUInt32LE(212);
+    this._volumeIdentifier = getDCharacters(lvd, 84, lvd[84 + 127]);
+
+    const getPhysicalPartition = (num: number): PhysicalPartition => {
+      const pd = partitionDescriptors[num];
+      if (!pd) {
+        throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Missing partition descriptor ${num}.`);
+      }
+      return new PhysicalPartition(this._data, pd.readUInt32LE(188) * sectorSize, this._blockSize);
+    };
+    // Metadata partitions need the other partitions to be read first.
+    const metadataMaps: [number, Buffer][] = [], physicalRefs: {[num: number]: number} = {};
+    const mapCount = lvd.readUInt32LE(268);
+    for (let i = 0, offset = 440; i < mapCount; i++) {
+      const type = lvd[offset], mapLength = lvd[offset + 1];
+      if (type === 1) {
+        physicalRefs[lvd.readUInt16LE(offset + 4)] = i;
+        this._partitions[i] = getPhysicalPartition(lvd.readUInt16LE(offset + 4));
+      } else if (type === 2) {
+        const identifier = lvd.toString('ascii', offset + 5, offset + 28).replace(/\0+$/, '');
+        switch (identifier) {
+          case '*UDF Sparable Partition':
+            this._partitions[i] = getPhysicalPartition(lvd.readUInt16LE(offset + 38));
+            break;
+          case '*UDF Metadata Partition':
+            metadataMaps.push([i, lvd.slice(offset, offset + mapLength)]);
+            break;
+          default:
+            throw new ApiError(ErrorCode.ENOTSUP, `UDF partitions of type '${identifier}' are not supported.`);
+        }
+      } else {
+        throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Unknown partition map type ${type}.`);
+      }
+      if (mapLength === 0) {
+        throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Empty partition map.`);
+      }
+      offset += mapLength;
+    }
+    for (const [i, map] of metadataMaps) {
+      // The metadata file lives on the physical partition with the same number,
+      // and so does the mirror that is used if it is damaged. Its allocation
+      // descriptors refer to that partition's map.
+      const num = map.readUInt16LE(38), physical = getPhysicalPartition(num), blockSize = this._blockSize;
+      const physicalRef = physicalRefs.hasOwnProperty(num) ? physicalRefs[num] : this._partitions.push(physical) - 1;
+      let contents: Buffer | null = null, error: ApiError | null = null;
+      for (const location of [map.readUInt32LE(40), map.readUInt32LE(44)]) {
+        try {
+          contents = new UDFFile(this, physical.read(location, blockSize), physicalRef, location).getData();
+          break;
+        } catch (e) {
+          error = e;
+        }
+      }
+      if (contents === null) {
+        throw error;
+      }
+      this._partitions[i] = new MetadataPartition(contents, blockSize);
+    }
+    // The file set descriptor's location.
+    return lvd.slice(248, 264);
+  }
+}
+
+/**
+ * ECMA-167 4/14.9 and 4/14.17: A file, directory or symbolic link, described
+ * by a file entry or an extended file entry.
+ */
+export class UDFFile {
+  // Name => long allocation descriptor of the file entry.
+  private _children: {[name: string]: Buffer} | null = null;
+  private _childList: string[] = [];
+  private _childCache: {[name: string]: UDFFile} = {};
+
+  /**
+   * @param _partitionRef The partition that holds the entry. Short allocation
+   *   descriptors refer to blocks in this partition.
+   */
+  constructor(private _volume: UDFVolume, private _entry: Buffer, private _partitionRef: number, lbn: number) {
+    const tag = readTag(_entry, lbn);
+    if (tag !== TagIdentifier.FileEntry && tag !== TagIdentifier.ExtendedFileEntry) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Expected a file entry at block ${lbn}, found descriptor ${tag}.`);
+    }
+  }
+
+  public isExtended(): boolean {
+    return this._entry.readUInt16LE(0) === TagIdentifier.ExtendedFileEntry;
+  }
+  public fileType(): number { return this._entry[27]; }
+  public isDirectory(): boolean { return this.fileType() === IcbFileType.Directory; }
+  public isSymlink(): boolean { return this.fileType() === IcbFileType.Symlink; }
+  public uid(): number { return this._entry.readUInt32LE(36); }
+  public gid(): number { return this._entry.readUInt32LE(40); }
+  public permissions(): number { return this._entry.readUInt32LE(44); }
+  public fileLinkCount(): number { return this._entry.readUInt16LE(48); }
+  public informationLength(): number {
+    return this._entry.readUInt32LE(56) + this._entry.readUInt32LE(60) * 0x100000000;
+  }
+  public accessTime(): number { return getTimestamp(this._entry, this.isExtended() ? 80 : 72); }
+  public modificationTime(): number { return getTimestamp(this._entry, this.isExtended() ? 92 : 84); }
+  /**
+   * File entries only have an attribute time, which is the closest to a
+   * change time.
+   */
+  public changeTime(): number { return getTimestamp(this._entry, this.isExtended() ? 116 : 96); }
+  public birthTime(): number { return getTimestamp(this._entry, this.isExtended() ? 104 : 96); }
+
+  /**
+   * Converts the permissions into a UNIX mode. UDF has a group of 5 bits for
+   * the owner, group and others, of which the lower 3 are execute, write and
+   * read like in UNIX.
+   */
+  public mode(): number {
+    const p = this.permissions();
+    return (((p >> 10) & 7) << 6) | (((p >> 5) & 7) << 3) | (p & 7);
+  }
+
+  public getStats(): Stats {
+    const type = this.isDirectory() ? FileType.DIRECTORY : this.isSymlink() ? FileType.SYMLINK : FileType.FILE;
+    // Mask out writeable flags. This is a RO file system.
+    const stats = new Stats(type, this.informationLength(), this.mode() & 0x16D, this.accessTime(), this.modificationTime(), this.changeTime(), this.birthTime());
+    stats.uid = this.uid();
+    stats.gid = this.gid();
+    stats.nlink = Math.max(1, this.fileLinkCount());
+    return stats;
+  }
+
+  /**
+   * Returns the contents of the file. Unrecorded extents read as zeroes.
+   */
+  public getData(): Buffer {
+    const entry = this._entry, extended = this.isExtended();
+    const eaLength = entry.readUInt32LE(extended ? 208 : 168), adLength = entry.readUInt32LE(extended ? 212 : 172);
+    const adStart = (extended ? 216 : 176) + eaLength, size = this.informationLength();
+    const adType: AllocationDescriptorType = entry.readUInt16LE(34) & 7;
+    if (adType === AllocationDescriptorType.Embedded) {
+      return entry.slice(adStart, adStart + Math.min(adLength, size));
+    }
+    const adSize = adType === AllocationDescriptorType.Short ? 8 : adType === AllocationDescriptorType.Long ? 16 : 20;
+    const chunks: Buffer[] = [];
+    let ads = entry.slice(adStart, adStart + adLength), total = 0, offset = 0, continuations = 0;
+    while (offset + adSize <= ads.length && total < size) {
+      const lengthField = ads.readUInt32LE(offset), length = lengthField & 0x3FFFFFFF, type: ExtentType = lengthField >>> 30;
+      if (length === 0) {
+        break;
+      }
+      let lbn: number, partitionRef: number;
+      switch (adType) {
+        case AllocationDescriptorType.Short:
+          lbn = ads.readUInt32LE(offset + 4);
+          partitionRef = this._partitionRef;
+          break;
+        case AllocationDescriptorType.Long:
+          lbn = ads.readUInt32LE(offset + 4);
+          partitionRef = ads.readUInt16LE(offset + 8);
+          break;
+        default:
+          lbn = ads.readUInt32LE(offset + 12);
+          partitionRef = ads.readUInt16LE(offset + 16);
+          break;
+      }
+      offset += adSize;
+      if (type === ExtentType.NextExtentOfDescriptors) {
+        // ECMA-167 4/14.5: The descriptors continue in an allocation extent
+        // descriptor.
+        if (++continuations > 1024) {
+          throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Too many allocation extents.`);
+        }
+        const aed = this._volume.read(partitionRef, lbn, length);
+        if (readTag(aed, lbn) !== TagIdentifier.AllocationExtentDescriptor) {
+          throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Expected an allocation extent descriptor at block ${lbn}.`);
+        }
+        ads = aed.slice(24, 24 + aed.readUInt32LE(20));
+        offset = 0;
+        continue;
+      }
+      const chunkLength = Math.min(length, size - total);
+      chunks.push(type === ExtentType.Recorded ? this._volume.read(partitionRef, lbn, chunkLength) : Buffer.alloc(chunkLength));
+      total += chunkLength;
+    }
+    if (total < size) {
+      throw new ApiError(ErrorCode.EIO, `Invalid UDF image: File data is truncated.`);
+    }
+    return chunks.length === 1 ? chunks[0] : Buffer.concat(chunks);
+  }
+
+  /**
+   * ECMA-167 4/14.16: Reads the target of a symbolic link, which is stored as a
+   * list of path components.
+   */
+  public getSymlinkPath(): string {
+    const data = this.getData(), components: string[] = [];
+    let absolute = false;
+    for (let offset = 0; offset + 4 <= data.length; ) {
+      const type = data[offset], length = data[offset + 1];
+      switch (type) {
+        case 1:
+        case 2:
+          // The root of the file system.
+          absolute = true;
+          components.length = 0;
+          break;
+        case 3:
+          components.push('..');
+          break;
+        case 4:
+          components.push('.');
+          break;
+        case 5:
+          components.push(getDCharacters(data, offset + 4, length));
+          break;
+      }
+      offset += 4 + length;
+    }
+    return (absolute ? '/' : '') + components.join('/');
+  }
+
+  public getChildNames(): string[] {
+    this._readDirectory();
+    return this._childList.slice(0);
+  }
+
+  public getChild(name: string): UDFFile | null {
+    this._readDirectory();
+    if (!this._children!.hasOwnProperty(name)) {
+      return null;
+    }
+    if (!this._childCache.hasOwnProperty(name)) {
+      this._childCache[name] = this._volume.getFile(this._children![name]);
+    }
+    return this._childCache[name];
+  }
+
+  /**
+   * ECMA-167 4/14.4: Reads the file identifier descriptors of a directory.
+   */
+  private _readDirectory(): void {
+    if (this._children !== null) {
+      return;
+    }
+    if (!this.isDirectory()) {
+      throw new ApiError(ErrorCode.ENOTDIR, `Not a directory.`);
+    }
+    const data = this.getData(), children: {[name: string]: Buffer} = {};
+    let offset = 0;
+    while (offset + 38 <= data.length) {
+      if (readTag(data.slice(offset)) !== TagIdentifier.FileIdentifierDescriptor) {
+        throw new ApiError(ErrorCode.EIO, `Invalid UDF image: Expected a file identifier descriptor.`);
+      }
+      const characteristics = data[offset + 18], nameLength = data[offset + 19], implementationUseLength = data.readUInt16LE(offset + 36);
+      if (!(characteristics & (FileCharacteristics.Deleted | FileCharacteristics.Parent))) {
+        const name = getDCharacters(data, offset + 38 + implementationUseLength, nameLength);
+        if (!children.hasOwnProperty(name)) {
+          this._childList.push(name);
+        }
+        children[name] = data.slice(offset + 20, offset + 36);
+      }
+      // Padded to a multiple of 4 bytes.
+      offset += (38 + implementationUseLength + nameLength + 3) & ~3;
+    }
+    this._children = children;
+  }
+}
@@ -224,3 +224,30 @@ export function getFileSizeSync(p: string): number {
 export function getFileSizeAsync(p: string, cb: (err: ApiError, size?: number) => void): void {
   getFileSize(true, p, cb);
 }
+
+/**
+ * Asynchronously download the bytes in [start, end) of a file with a HTTP
+ * Range request. If the server ignores the Range header and returns the whole
+ * file, the requested bytes are sliced out of it.
+ * @hidden
+ */
+export function asyncDownloadFileRange(p: string, start: number, end: number, cb: BFSCallback<Buffer>): void {
+  if (end <= start) {
+    return cb(null, emptyBuffer());
+  }
+  const req = new XMLHttpRequest();
+  req.open('GET', p, true);
+  req.responseType = 'arraybuffer';
+  req.setRequestHeader('Range', `bytes=${start}-${end - 1}`);
+  req.onreadystatechange = function(e) {
+    if (req.readyState === 4) {
+      if (req.status === 206 || req.status === 200) {
+        const data = req.response ? Buffer.from(req.response) : emptyBuffer();
+        return cb(null, req.status === 206 ? data : data.slice(start, end));
+      } else {
+        return cb(new ApiError(ErrorCode.EIO, `XHR error: response returned code ${req.status}`));
+      }
+    }
+  };
+  req.send();
+}
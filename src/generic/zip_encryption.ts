@@ -0,0 +1,372 @@
+import {ApiError, ErrorCode} from '../core/api_error';
+
+/**
+ * Decryption of encrypted zip entries: the traditional PKWARE encryption
+ * (ZipCrypto), and WinZip's AES encryption. ZipFS is synchronous, so these
+ * cannot use the asynchronous Web Crypto API, and are implemented here instead.
+ *
+ * ZipCrypto is described in section 6.1 of the zip specification:
+ * http://www.pkware.com/documents/casestudies/APPNOTE.TXT
+ *
+ * WinZip AES is described at:
+ * https://www.winzip.com/en/support/aes-encryption/
+ */
+
+/**
+ * The header ID of the WinZip AES extra field.
+ */
+export const AES_EXTRA_FIELD_ID = 0x9901;
+
+/**
+ * Table for the CRC-32 steps in the ZipCrypto key schedule.
+ * @hidden
+ */
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c;
+  }
+  return table;
+})();
+
+/**
+ * 6.1.5: The keys of the ZipCrypto cipher.
+ * @hidden
+ */
+class ZipCryptoKeys {
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Buffer) {
+    for (let i = 0; i < password.length; i++) {
+      this.update(password[i]);
+    }
+  }
+
+  /**
+   * Decrypts the given data in place.
+   */
+  public decrypt(data: Buffer): void {
+    for (let i = 0; i < data.length; i++) {
+      const temp = (this.key2 | 2) & 0xFFFF;
+      const c = data[i] ^ ((Math.imul(temp, temp ^ 1) >>> 8) & 0xFF);
+      this.update(c);
+      data[i] = c;
+    }
+  }
+
+  private update(c: number): void {
+    this.key0 = crcTable[(this.key0 ^ c) & 0xFF] ^ (this.key0 >>> 8);
+    this.key1 = (Math.imul((this.key1 + (this.key0 & 0xFF)) >>> 0, 134775813) + 1) >>> 0;
+    this.key2 = crcTable[(this.key2 ^ (this.key1 >>> 24)) & 0xFF] ^ (this.key2 >>> 8);
+  }
+}
+
+/**
+ * 6.1.6: Decrypts data encrypted with ZipCrypto. The data starts with a 12 byte
+ * encryption header, whose last byte must match one of the given check bytes
+ * (usually the high byte of the CRC-32, or of the modification time if the
+ * entry has a data descriptor).
+ * @return The decrypted data, or null if the password is wrong.
+ */
+export function zipCryptoDecrypt(data: Buffer, password: Buffer, checkBytes: number[]): Buffer | null {
+  if (data.length < 12) {
+    throw new ApiError(ErrorCode.EINVAL, 'Invalid Zip file: Encryption header is truncated.');
+  }
+  const decrypted = Buffer.alloc(data.length);
+  data.copy(decrypted);
+  new ZipCryptoKeys(password).decrypt(decrypted);
+  return checkBytes.indexOf(decrypted[11]) === -1 ? null : decrypted.slice(12);
+}
+
+/**
+ * Computes the SHA-1 digest of the given data.
+ * @hidden
+ */
+function sha1(data: Uint8Array): Uint8Array {
+  // Pad to a multiple of 64 bytes: a 1 bit, zeroes, and the length in bits.
+  const padded = new Uint8Array(((data.length + 8) >> 6) * 64 + 64);
+  padded.set(data);
+  padded[data.length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(data.length / 0x20000000));
+  view.setUint32(padded.length - 4, (data.length << 3) >>> 0);
+
+  const w = new Uint32Array(80);
+  let h0 = 0x67452301, h1 = 0xEFCDAB89, h2 = 0x98BADCFE, h3 = 0x10325476, h4 = 0xC3D2E1F0;
+  for (let offset = 0; offset < padded.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      w[i] = view.getUint32(offset + i * 4);
+    }
+    for (let i = 16; i < 80; i++) {
+      const x = w[i - 3] ^ w[i - 8] ^ w[i - 14] ^ w[i - 16];
+      w[i] = (x << 1) | (x >>> 31);
+    }
+    let a = h0, b = h1, c = h2, d = h3, e = h4;
+    for (let i = 0; i < 80; i++) {
+      let f: number, k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5A827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ED9EBA1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8F1BBCDC;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xCA62C1D6;
+      }
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+    h0 = (h0 + a) | 0;
+    h1 = (h1 + b) | 0;
+    h2 = (h2 + c) | 0;
+    h3 = (h3 + d) | 0;
+    h4 = (h4 + e) | 0;
+  }
+
+  const digest = new Uint8Array(20), digestView = new DataView(digest.buffer);
+  [h0, h1, h2, h3, h4].forEach((h, i) => digestView.setUint32(i * 4, h >>> 0));
+  return digest;
+}
+
+/**
+ * HMAC-SHA1 with a fixed key.
+ * @hidden
+ */
+class HmacSha1 {
+  private innerPad = new Uint8Array(64);
+  private outerPad = new Uint8Array(64);
+
+  constructor(key: Uint8Array) {
+    if (key.length > 64) {
+      key = sha1(key);
+    }
+    for (let i = 0; i < 64; i++) {
+      const byte = i < key.length ? key[i] : 0;
+      this.innerPad[i] = byte ^ 0x36;
+      this.outerPad[i] = byte ^ 0x5C;
+    }
+  }
+
+  public digest(data: Uint8Array): Uint8Array {
+    const inner = new Uint8Array(64 + data.length);
+    inner.set(this.innerPad);
+    inner.set(data, 64);
+    const outer = new Uint8Array(64 + 20);
+    outer.set(this.outerPad);
+    outer.set(sha1(inner), 64);
+    return sha1(outer);
+  }
+}
+
+/**
+ * Derives a key from a password with PBKDF2, using HMAC-SHA1.
+ * @hidden
+ */
+function pbkdf2(password: Uint8Array, salt: Uint8Array, iterations: number, length: number): Uint8Array {
+  const hmac = new HmacSha1(password), key = new Uint8Array(Math.ceil(length / 20) * 20);
+  for (let block = 1; block * 20 <= key.length; block++) {
+    const saltBlock = new Uint8Array(salt.length + 4);
+    saltBlock.set(salt);
+    new DataView(saltBlock.buffer).setUint32(salt.length, block);
+    let u = hmac.digest(saltBlock);
+    const t = u.slice(0);
+    for (let i = 1; i < iterations; i++) {
+      u = hmac.digest(u);
+      for (let j = 0; j < 20; j++) {
+        t[j] ^= u[j];
+      }
+    }
+    key.set(t, (block - 1) * 20);
+  }
+  return key.subarray(0, length);
+}
+
+/**
+ * The AES S-box, and lookup tables that combine it with MixColumns for each
+ * row of the state.
+ * @hidden
+ */
+const aesTables = (() => {
+  const xtime = (a: number) => ((a << 1) ^ (a & 0x80 ? 0x1B : 0)) & 0xFF;
+  // Powers and logarithms of the generator 3, to find multiplicative inverses.
+  const exp = new Uint8Array(255), log = new Uint8Array(256);
+  for (let i = 0, x = 1; i < 255; i++) {
+    exp[i] = x;
+    log[x] = i;
+    x ^= xtime(x);
+  }
+  const sbox = new Uint8Array(256), t0 = new Uint32Array(256), t1 = new Uint32Array(256),
+    t2 = new Uint32Array(256), t3 = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    const inverse = i === 0 ? 0 : exp[(255 - log[i]) % 255];
+    let s = inverse, rotated = inverse;
+    for (let k = 0; k < 4; k++) {
+      rotated = ((rotated << 1) | (rotated >>> 7)) & 0xFF;
+      s ^= rotated;
+    }
+    s ^= 0x63;
+    sbox[i] = s;
+    const s2 = xtime(s), word = ((s2 << 24) | (s << 16) | (s << 8) | (s2 ^ s)) >>> 0;
+    t0[i] = word;
+    t1[i] = ((word >>> 8) | (word << 24)) >>> 0;
+    t2[i] = ((word >>> 16) | (word << 16)) >>> 0;
+    t3[i] = ((word >>> 24) | (word << 8)) >>> 0;
+  }
+  return { sbox: sbox, t0: t0, t1: t1, t2: t2, t3: t3, xtime: xtime };
+})();
+
+/**
+ * AES block encryption, which is all that counter mode needs.
+ * @hidden
+ */
+class AesEncryptor {
+  private roundKeys: Uint32Array;
+  private rounds: number;
+
+  constructor(key: Uint8Array) {
+    const nk = key.length / 4, sbox = aesTables.sbox;
+    this.rounds = nk + 6;
+    const w = this.roundKeys = new Uint32Array(4 * (this.rounds + 1));
+    for (let i = 0; i < nk; i++) {
+      w[i] = ((key[4 * i] << 24) | (key[4 * i + 1] << 16) | (key[4 * i + 2] << 8) | key[4 * i + 3]) >>> 0;
+    }
+    for (let i = nk, rcon = 1; i < w.length; i++) {
+      let temp = w[i - 1];
+      if (i % nk === 0) {
+        // RotWord, SubWord, and the round constant.
+        temp = ((sbox[(temp >>> 16) & 0xFF] << 24) | (sbox[(temp >>> 8) & 0xFF] << 16) |
+          (sbox[temp & 0xFF] << 8) | sbox[temp >>> 24]) ^ (rcon << 24);
+        rcon = aesTables.xtime(rcon);
+      } else if (nk > 6 && i % nk === 4) {
+        temp = (sbox[temp >>> 24] << 24) | (sbox[(temp >>> 16) & 0xFF] << 16) |
+          (sbox[(temp >>> 8) & 0xFF] << 8) | sbox[temp & 0xFF];
+      }
+      w[i] = (w[i - nk] ^ temp) >>> 0;
+    }
+  }
+
+  /**
+   * Encrypts the 16 byte block at the start of `input` into `output`.
+   */
+  public encryptBlock(input: Uint8Array, output: Uint8Array): void {
+    const {sbox, t0, t1, t2, t3} = aesTables, w = this.roundKeys;
+    let s0 = (((input[0] << 24) | (input[1] << 16) | (input[2] << 8) | input[3]) ^ w[0]) >>> 0,
+      s1 = (((input[4] << 24) | (input[5] << 16) | (input[6] << 8) | input[7]) ^ w[1]) >>> 0,
+      s2 = (((input[8] << 24) | (input[9] << 16) | (input[10] << 8) | input[11]) ^ w[2]) >>> 0,
+      s3 = (((input[12] << 24) | (input[13] << 16) | (input[14] << 8) | input[15]) ^ w[3]) >>> 0;
+    for (let round = 1; round < this.rounds; round++) {
+      const k = round * 4,
+        n0 = t0[s0 >>> 24] ^ t1[(s1 >>> 16) & 0xFF] ^ t2[(s2 >>> 8) & 0xFF] ^ t3[s3 & 0xFF] ^ w[k],
+        n1 = t0[s1 >>> 24] ^ t1[(s2 >>> 16) & 0xFF] ^ t2[(s3 >>> 8) & 0xFF] ^ t3[s0 & 0xFF] ^ w[k + 1],
+        n2 = t0[s2 >>> 24] ^ t1[(s3 >>> 16) & 0xFF] ^ t2[(s0 >>> 8) & 0xFF] ^ t3[s1 & 0xFF] ^ w[k + 2],
+        n3 = t0[s3 >>> 24] ^ t1[(s0 >>> 16) & 0xFF] ^ t2[(s1 >>> 8) & 0xFF] ^ t3[s2 & 0xFF] ^ w[k + 3];
+      s0 = n0 >>> 0;
+      s1 = n1 >>> 0;
+      s2 = n2 >>> 0;
+      s3 = n3 >>> 0;
+    }
+    // The last round skips MixColumns.
+    const state = [s0, s1, s2, s3], k = this.rounds * 4;
+    for (let i = 0; i < 4; i++) {
+      const word = ((sbox[state[i] >>> 24] << 24) | (sbox[(state[(i + 1) % 4] >>> 16) & 0xFF] << 16) |
+        (sbox[(state[(i + 2) % 4] >>> 8) & 0xFF] << 8) | sbox[state[(i + 3) % 4] & 0xFF]) ^ w[k + i];
+      output[4 * i] = word >>> 24;
+      output[4 * i + 1] = (word >>> 16) & 0xFF;
+      output[4 * i + 2] = (word >>> 8) & 0xFF;
+      output[4 * i + 3] = word & 0xFF;
+    }
+  }
+}
+
+/**
+ * The contents of the WinZip AES extra field.
+ */
+export interface AesExtraField {
+  // 1 for AE-1, which keeps the CRC-32, and 2 for AE-2, which omits it.
+  vendorVersion: number;
+  // 1, 2, or 3, for 128, 192, or 256 bit keys.
+  strength: number;
+  // How the data is compressed before encryption.
+  compressionMethod: number;
+}
+
+/**
+ * Parses the data of a WinZip AES extra field.
+ */
+export function parseAesExtraField(data: Buffer): AesExtraField {
+  if (data.length < 7 || data.readUInt16LE(2) !== 0x4541) {
+    throw new ApiError(ErrorCode.EINVAL, 'Invalid Zip file: Invalid AES extra field.');
+  }
+  return {
+    vendorVersion: data.readUInt16LE(0),
+    strength: data.readUInt8(4),
+    compressionMethod: data.readUInt16LE(5)
+  };
+}
+
+/**
+ * Decrypts data encrypted with WinZip AES. The data consists of a salt, a
+ * 2 byte password verifier, the encrypted data, and a 10 byte authentication
+ * code.
+ * @return The decrypted data, or null if the password is wrong.
+ */
+export function aesDecrypt(data: Buffer, password: Buffer, strength: number): Buffer | null {
+  if (strength < 1 || strength > 3) {
+    throw new ApiError(ErrorCode.ENOTSUP, `Unsupported AES strength: ${strength}`);
+  }
+  const keyLength = 8 + 8 * strength, saltLength = 4 + 4 * strength;
+  if (data.length < saltLength + 2 + 10) {
+    throw new ApiError(ErrorCode.EINVAL, 'Invalid Zip file: AES encrypted data is truncated.');
+  }
+  const salt = data.slice(0, saltLength),
+    verifier = data.slice(saltLength, saltLength + 2),
+    encrypted = data.slice(saltLength + 2, data.length - 10),
+    authCode = data.slice(data.length - 10);
+  // The derived key holds the encryption key, the authentication key, and the
+  // password verifier, in that order.
+  const derived = pbkdf2(password, salt, 1000, 2 * keyLength + 2);
+  if (derived[2 * keyLength] !== verifier[0] || derived[2 * keyLength + 1] !== verifier[1]) {
+    return null;
+  }
+  const mac = new HmacSha1(derived.subarray(keyLength, 2 * keyLength)).digest(encrypted);
+  for (let i = 0; i < 10; i++) {
+    if (mac[i] !== authCode[i]) {
+      throw new ApiError(ErrorCode.EIO, 'Encrypted data failed authentication: the file is corrupt.');
+    }
+  }
+
+  // Counter mode, with a little-endian counter that starts at 1.
+  const aes = new AesEncryptor(derived.subarray(0, keyLength)),
+    counter = new Uint8Array(16), keystream = new Uint8Array(16),
+    decrypted = Buffer.alloc(encrypted.length);
+  for (let offset = 0; offset < encrypted.length; offset += 16) {
+    for (let i = 0; i < 16; i++) {
+      // Carry into the next byte on overflow. (The value of `++counter[i]`
+      // itself would be 256, not 0.)
+      counter[i]++;
+      if (counter[i] !== 0) {
+        break;
+      }
+    }
+    aes.encryptBlock(counter, keystream);
+    const end = Math.min(16, encrypted.length - offset);
+    for (let i = 0; i < end; i++) {
+      decrypted[offset + i] = encrypted[offset + i] ^ keystream[i];
+    }
+  }
+  return decrypted;
+}
@@ -1,13 +1,35 @@
-import WorkerFS from "../../../src/backend/WorkerFS";
+import WorkerFS, {WorkerFSOptions} from "../../../src/backend/WorkerFS";
 import {FileSystem} from '../../../src/core/file_system';
 
 export default function WorkerFSFactory(cb: (name: string, obj: FileSystem[]) => void): void {
   if (WorkerFS.isAvailable()) {
-    // Set up a worker, which will host an in-memory FS.
-    const worker = new Worker("/test/harness/factories/workerfs_worker.js");
-    WorkerFS.Create({ worker: worker }, function(e, workerFs?) {
-      cb("WorkerFS", [workerFs]);
-    });
+    // Set up a worker for each configuration, which will host an in-memory FS.
+    const createWorker = () => new Worker("/test/harness/factories/workerfs_worker.js");
+    // The worker listens on the other end of the channel, too.
+    const channel = new MessageChannel();
+    createWorker().postMessage({ workerfsPort: true }, [channel.port2]);
+    const optionsList: WorkerFSOptions[] = [
+      { worker: createWorker() },
+      // Only synchronous where this page may block on a SharedArrayBuffer.
+      { worker: createWorker(), sync: true },
+      { worker: createWorker(), streaming: true },
+      { worker: channel.port1 }
+    ];
+    const backends: FileSystem[] = [];
+    const next = (): void => {
+      const options = optionsList.shift();
+      if (!options) {
+        return cb("WorkerFS", backends);
+      }
+      WorkerFS.Create(options, function(e, workerFs?) {
+        if (e) {
+          throw e;
+        }
+        backends.push(workerFs);
+        next();
+      });
+    };
+    next();
   } else {
     cb("WorkerFS", []);
   }
@@ -8,5 +8,11 @@ inmemfs_factory((name, objs) => {
   BrowserFS.initialize(objs[0]);
   // Listen for API requests.
   WorkerFS.attachRemoteListener(<Worker> <any> self);
+  // ...and for those on a MessagePort that the page sends over.
+  self.addEventListener('message', (e: MessageEvent) => {
+    if (e.data && e.data.workerfsPort) {
+      WorkerFS.attachRemoteListener(e.ports[0]);
+    }
+  });
 });
 
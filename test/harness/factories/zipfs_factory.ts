@@ -16,7 +16,8 @@ export default function ZipFSFactory(cb: (name: string, objs: FileSystem[]) => v
         rv: FileSystem[] = [], fs: typeof _fs = BrowserFS.BFSRequire('fs');
       // Leverage the HTTPFS to download the fixtures for this FS.
       BrowserFS.initialize(httpdownloadfs[0]);
-      let countdown = zipFiles.length;
+      // One more for the remote variant.
+      let countdown = zipFiles.length + 1;
       function fetchZip(zipFilename: string): void {
         fs.readFile(zipFilename, (e, data?) => {
           if (e) throw e;
@@ -35,9 +36,26 @@ export default function ZipFSFactory(cb: (name: string, objs: FileSystem[]) => v
           });
         });
       }
+      // Reads the zip file straight from the server with range requests.
+      function remoteZip(zipFilename: string): void {
+        ZipFS.Create({
+          url: `..${zipFilename}`,
+          name: `${zipFilename} (remote)`
+        }, (e, fs?) => {
+          if (e) {
+            throw e;
+          }
+          countdown--;
+          rv.push(fs);
+          if (countdown === 0) {
+            cb('ZipFS', rv);
+          }
+        });
+      }
       for (i = 0; i < zipFiles.length; i++) {
         fetchZip(`/test/fixtures/zipfs/zipfs_fixtures_l${zipFiles[i]}.zip`);
       }
+      remoteZip(`/test/fixtures/zipfs/zipfs_fixtures_l9.zip`);
     });
   } else {
     cb('ZipFS', []);
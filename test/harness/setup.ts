@@ -166,6 +166,26 @@ export default function(tests: {
     }
   }
 
+  // Symbolic links that tests expect a previous test run to have left behind.
+  // They point to files, so that tests that walk the file system do not visit
+  // directories twice.
+  const fixtureLinks: {[path: string]: string} = {
+    '/tmp/cycles_link': '/test/fixtures/files/node/cycles/root.js'
+  };
+  function loadFixtureLinks() {
+    const rootFS = fs.getRootFS();
+    if (rootFS.isReadOnly() || !rootFS.supportsLinks()) {
+      return;
+    }
+    Object.keys(fixtureLinks).forEach((p) => {
+      fs.symlink(fixtureLinks[p], p, (err?: NodeJS.ErrnoException) => {
+        if (err && err.code !== 'EEXIST') {
+          throw err;
+        }
+      });
+    });
+  }
+
   function generateBackendTests(name: string, backend: FileSystem) {
     var testName: string;
     generateTest("Load filesystem", function () {
@@ -173,6 +193,7 @@ export default function(tests: {
       BrowserFS.initialize(backend);
     });
     generateTest("Load fixtures", loadFixtures);
+    generateTest("Load fixture links", loadFixtureLinks);
     if (tests.fs.hasOwnProperty(name)) {
       // Generate each unit test specific to this backend.
       for (testName in tests.fs[name]) {
@@ -0,0 +1,38 @@
+/**
+ * Tests synchronous requests whose responses do not fit in the buffer that
+ * WorkerFS starts out with.
+ */
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (!rootFS.supportsSynch() || rootFS.isReadOnly()) {
+    return;
+  }
+  // Larger than the 64 KB buffer for synchronous responses.
+  var dir = path.join(common.tmpDir, 'large-sync-listing'), names: string[] = [], i: number;
+  fs.mkdirSync(dir);
+  for (i = 0; i < 400; i++) {
+    names.push(`${i}-${'x'.repeat(200)}`);
+    fs.writeFileSync(path.join(dir, names[i]), '');
+  }
+  assert.deepEqual(fs.readdirSync(dir).sort(), names.sort());
+  names.forEach((name) => fs.unlinkSync(path.join(dir, name)));
+  fs.rmdirSync(dir);
+
+  // The buffer grows again for larger responses.
+  var data = Buffer.alloc(200 * 1024);
+  for (i = 0; i < data.length; i++) {
+    data[i] = i % 251;
+  }
+  var filename = path.join(common.tmpDir, 'large-sync-response.bin');
+  fs.writeFileSync(filename, data);
+  assert(fs.readFileSync(filename).equals(data));
+  // Once the buffer has grown, it fits both large and small responses.
+  assert(fs.readFileSync(filename).equals(data));
+  assert.equal(fs.statSync(filename).size, data.length);
+  fs.unlinkSync(filename);
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests that files opened one after the other show their own contents, even
+ * when the worker reads them into the buffers of files that were closed.
+ */
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  if (fs.getRootFS().isReadOnly()) {
+    return;
+  }
+  var files = [
+    { name: path.join(common.tmpDir, 'reopen-large.txt'), data: Buffer.alloc(1000, 'a') },
+    { name: path.join(common.tmpDir, 'reopen-medium.txt'), data: Buffer.alloc(600, 'b') },
+    { name: path.join(common.tmpDir, 'reopen-small.txt'), data: Buffer.alloc(10, 'c') },
+    { name: path.join(common.tmpDir, 'reopen-large.txt'), data: Buffer.alloc(900, 'd') }
+  ];
+  var next = function(i: number): void {
+    if (i === files.length) {
+      return files.slice(1).forEach(function(file) {
+        fs.unlink(file.name, function(e) {
+          assert(!e);
+        });
+      });
+    }
+    var file = files[i];
+    fs.writeFile(file.name, file.data, function(e) {
+      assert(!e);
+      fs.open(file.name, 'r', function(e, fd) {
+        assert(!e);
+        fs.fstat(fd, function(e, stats) {
+          assert(!e);
+          assert.equal(stats.size, file.data.length);
+          var buf = Buffer.alloc(file.data.length + 10);
+          fs.read(fd, buf, 0, buf.length, 0, function(e, bytesRead) {
+            assert(!e);
+            assert.equal(bytesRead, file.data.length);
+            assert(buf.slice(0, bytesRead).equals(file.data));
+            fs.close(fd, function(e) {
+              assert(!e);
+              next(i + 1);
+            });
+          });
+        });
+      });
+    });
+  };
+  next(0);
+}
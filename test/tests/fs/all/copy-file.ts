@@ -0,0 +1,90 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (!rootFS.isReadOnly()) {
+    var COPYFILE_EXCL = 1;
+    fs.mkdir('/copyTest', function(e) {
+      assert(!e);
+      fs.writeFile('/copyTest/src.txt', 'copy me', function(e) {
+        assert(!e);
+        fs.copyFile('/copyTest/src.txt', '/copyTest/dest.txt', function(e) {
+          assert(!e);
+          fs.readFile('/copyTest/dest.txt', 'utf8', function(e, data) {
+            assert(!e);
+            assert.equal(data, 'copy me');
+            fs.copyFile('/copyTest/src.txt', '/copyTest/dest.txt', COPYFILE_EXCL, function(e) {
+              assert.equal(e.code, 'EEXIST');
+              fs.copyFile('/copyTest/missing.txt', '/copyTest/other.txt', function(e) {
+                assert.equal(e.code, 'ENOENT');
+
+                fs.mkdir('/copyTest/dir/sub', { recursive: true }, function(e) {
+                  assert(!e);
+                  fs.writeFile('/copyTest/dir/sub/file.txt', 'nested', function(e) {
+                    assert(!e);
+                    fs.cp('/copyTest/dir', '/copyTest/dirCopy', function(e) {
+                      assert.equal(e.code, 'EISDIR');
+                      fs.cp('/copyTest/dir', '/copyTest/dirCopy', { recursive: true }, function(e) {
+                        assert(!e);
+                        fs.readFile('/copyTest/dirCopy/sub/file.txt', 'utf8', function(e, data) {
+                          assert(!e);
+                          assert.equal(data, 'nested');
+                          fs.cp('/copyTest/src.txt', '/copyTest/dirCopy/sub/file.txt', { force: false, errorOnExist: true }, function(e) {
+                            assert.equal(e.code, 'EEXIST');
+                            fs.cp('/copyTest/dir', '/copyTest/dir/sub/inner', { recursive: true }, function(e) {
+                              assert.equal(e.code, 'EINVAL');
+                              fs.cp('/', '/copyTest/rootCopy', { recursive: true }, function(e) {
+                                assert.equal(e.code, 'EINVAL');
+                              });
+                            });
+                          });
+                        });
+                      });
+                    });
+                  });
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+
+    if (rootFS.supportsProps()) {
+      fs.writeFile('/copyPropsSrc.txt', 'props', { mode: 0x180 }, function(e) {
+        assert(!e);
+        var time = new Date('2010-01-01T00:00:00Z');
+        fs.utimes('/copyPropsSrc.txt', time, time, function(e) {
+          assert(!e);
+          fs.cp('/copyPropsSrc.txt', '/copyPropsDest.txt', { preserveTimestamps: true }, function(e) {
+            assert(!e);
+            fs.stat('/copyPropsDest.txt', function(e, stats) {
+              assert(!e);
+              assert.equal(stats.mode & 0x1ff, 0x180);
+              assert.equal(stats.mtime.getTime(), time.getTime());
+            });
+          });
+        });
+      });
+    }
+
+    if (rootFS.supportsSynch()) {
+      fs.writeFileSync('/copySync.txt', 'sync');
+      fs.copyFileSync('/copySync.txt', '/copySync2.txt');
+      assert.equal(fs.readFileSync('/copySync2.txt', 'utf8'), 'sync');
+      assert.throws(function() {
+        fs.copyFileSync('/copySync.txt', '/copySync2.txt', COPYFILE_EXCL);
+      });
+      fs.mkdirSync('/copySyncDir');
+      fs.writeFileSync('/copySyncDir/a.txt', 'a');
+      fs.cpSync('/copySyncDir', '/copySyncDir2', { recursive: true });
+      assert.equal(fs.readFileSync('/copySyncDir2/a.txt', 'utf8'), 'a');
+      assert.throws(function() {
+        fs.cpSync('/', '/copySyncDir/rootCopy', { recursive: true });
+      }, function(e: any) {
+        return e.code === 'EINVAL';
+      });
+    }
+  }
+};
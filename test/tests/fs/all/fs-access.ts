@@ -0,0 +1,58 @@
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  var existing = path.join(common.fixturesDir, 'a.js');
+  var missing = path.join(common.fixturesDir, 'does_not_exist.txt');
+
+  fs.access(existing, function(e) {
+    assert(!e);
+  });
+  fs.access(existing, fs.R_OK, function(e) {
+    assert(!e);
+  });
+  fs.access(missing, fs.F_OK, function(e) {
+    assert.equal(e.code, 'ENOENT');
+  });
+  fs.access(existing, fs.W_OK, function(e) {
+    if (rootFS.isReadOnly()) {
+      assert.equal(e.code, 'EROFS');
+    } else {
+      assert(!e);
+    }
+  });
+
+  // Permission bits are only meaningful on file systems that support properties.
+  if (rootFS.supportsSynch() && rootFS.supportsProps() && !rootFS.isReadOnly()) {
+    var filename = path.join(common.tmpDir, 'access.txt');
+    fs.writeFileSync(filename, 'abc');
+    fs.chmodSync(filename, 0o640);
+    try {
+      // Stats report uid/gid 0, so these IDs fall in the owning group.
+      fs.setCredentials(1000, 0);
+      fs.accessSync(filename, fs.R_OK);
+      assert.throws(function() {
+        fs.accessSync(filename, fs.W_OK);
+      }, function(e: any) {
+        return e.code === 'EACCES';
+      });
+      // ...and these fall under "other".
+      fs.setCredentials(1000, 1000);
+      assert.throws(function() {
+        fs.accessSync(filename, fs.R_OK);
+      }, function(e: any) {
+        return e.code === 'EACCES';
+      });
+    } finally {
+      fs.setCredentials(0, 0);
+    }
+    // root may read and write anything, but not execute a non-executable file.
+    fs.accessSync(filename, fs.R_OK | fs.W_OK);
+    assert.throws(function() {
+      fs.accessSync(filename, fs.X_OK);
+    });
+  }
+};
@@ -0,0 +1,58 @@
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  // Nonexistent files reject with the same error codes as the callback API.
+  fs.promises.stat(path.join(common.fixturesDir, 'does_not_exist.txt')).then(function() {
+    assert(false, 'stat should have failed.');
+  }, function(e) {
+    assert.equal(e.code, 'ENOENT');
+  });
+
+  fs.promises.readFile(path.join(common.fixturesDir, 'a.js'), 'utf8').then(function(data) {
+    assert.equal(typeof data, 'string');
+    assert(data.length > 0);
+  });
+
+  if (!rootFS.isReadOnly()) {
+    var filename = path.join(common.tmpDir, 'promises.txt');
+    fs.promises.writeFile(filename, 'hello').then(function() {
+      return fs.promises.open(filename, 'r+');
+    }).then(function(handle) {
+      // FileHandles share the fd table with the callback API.
+      assert.equal(typeof handle.fd, 'number');
+      var buf = Buffer.alloc(5);
+      return handle.read(buf, 0, 5, 0).then(function(res) {
+        assert.equal(res.bytesRead, 5);
+        assert.equal(res.buffer.toString(), 'hello');
+        return handle.write(Buffer.from(' world'), 0, 6, 5);
+      }).then(function(res) {
+        assert.equal(res.bytesWritten, 6);
+        return handle.close();
+      }).then(function() {
+        return fs.promises.readFile(filename, 'utf8');
+      }).then(function(data) {
+        assert.equal(data, 'hello world');
+        return handle.stat();
+      }).then(function() {
+        assert(false, 'stat on a closed FileHandle should have failed.');
+      }, function(e) {
+        assert.equal(e.code, 'EBADF');
+      });
+    }).then(function() {
+      return fs.promises.open(filename, 'r');
+    }).then(function(handle) {
+      // FileHandles read the rest of the file from the current position.
+      return handle.read(Buffer.alloc(6), 0, 6, null).then(function(res) {
+        assert.equal(res.buffer.toString(), 'hello ');
+        return handle.readFile('utf8');
+      }).then(function(data) {
+        assert.equal(data, 'world');
+        return handle.close();
+      });
+    });
+  }
+};
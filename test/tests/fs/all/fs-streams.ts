@@ -0,0 +1,72 @@
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (!rootFS.isReadOnly()) {
+    var filename = path.join(common.tmpDir, 'streams.txt');
+    var ws = fs.createWriteStream(filename, { highWaterMark: 4 });
+    ws.write('0123');
+    ws.write('4567');
+    ws.end('89');
+    ws.on('close', function() {
+      assert.equal(ws.bytesWritten, 10);
+      fs.readFile(filename, 'utf8', function(e, data) {
+        assert(!e);
+        assert.equal(data, '0123456789');
+        // start and end are inclusive.
+        var rs = fs.createReadStream(filename, { start: 2, end: 6, highWaterMark: 2 });
+        var chunks: string[] = [];
+        rs.on('data', function(chunk) {
+          chunks.push(chunk.toString());
+        });
+        rs.on('close', function() {
+          assert.equal(chunks.join(''), '23456');
+          assert.equal(rs.bytesRead, 5);
+          // The file descriptor is closed automatically.
+          assert.equal(rs.fd, null);
+          fs.stat(filename, function(e) {
+            assert(!e);
+          });
+        });
+      });
+    });
+  }
+
+  // A stream over a file descriptor that it may not close leaves it open.
+  fs.open(path.join(common.fixturesDir, 'x.txt'), 'r', function(e, fd) {
+    assert(!e);
+    var fdStream = fs.createReadStream(null, { fd: fd, autoClose: false }), data = '';
+    fdStream.on('data', function(chunk) {
+      data += chunk.toString();
+    });
+    fdStream.on('end', function() {
+      assert.equal(data, 'xyz\n');
+      fs.exists(common.fixturesDir, function() {
+        assert.equal(fdStream.fd, fd);
+        fs.fstat(fd, function(e, stats) {
+          assert(!e);
+          assert.equal(stats.size, 4);
+          fs.close(fd, function(e) {
+            assert(!e);
+          });
+        });
+      });
+    });
+  });
+
+  // Streams that cannot open their file still close.
+  var missing = fs.createReadStream(path.join(common.fixturesDir, 'does_not_exist.txt')), events: string[] = [];
+  missing.on('close', function() {
+    events.push('close');
+  });
+  missing.on('error', function(e: any) {
+    assert.equal(e.code, 'ENOENT');
+    events.push('error');
+    fs.exists(common.fixturesDir, function() {
+      assert.deepEqual(events, ['error', 'close']);
+    });
+  });
+};
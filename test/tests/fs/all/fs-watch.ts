@@ -0,0 +1,51 @@
+import fs from '../../../../src/core/node_fs';
+import * as path from 'path';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  if (!fs.getRootFS().isReadOnly()) {
+    var dir = path.join(common.tmpDir, 'watchTest');
+    var filename = path.join(dir, 'watched.txt');
+    fs.mkdir(dir, function(e) {
+      assert(!e);
+      var events: string[] = [];
+      var watcher = fs.watch(dir, function(eventType, name) {
+        events.push(eventType + ':' + name);
+      });
+      fs.writeFile(filename, 'abc', function(e) {
+        assert(!e);
+        fs.unlink(filename, function(e) {
+          assert(!e);
+          // Stat to give any pending events a chance to be delivered.
+          fs.stat(dir, function(e) {
+            assert(!e);
+            watcher.close();
+            assert.deepEqual(events, ['rename:watched.txt', 'change:watched.txt', 'rename:watched.txt']);
+            // Closed watchers do not receive further events.
+            fs.writeFile(filename, 'def', function(e) {
+              assert(!e);
+              fs.stat(dir, function(e) {
+                assert(!e);
+                assert.equal(events.length, 3);
+              });
+            });
+          });
+        });
+      });
+    });
+  }
+
+  var missing = path.join(common.tmpDir, 'watchMissing');
+  if (fs.getRootFS().supportsSynch()) {
+    assert.throws(function() {
+      fs.watch(missing);
+    }, function(e: any) {
+      return e.code === 'ENOENT';
+    });
+  } else {
+    fs.watch(missing).on('error', function(e: any) {
+      assert.equal(e.code, 'ENOENT');
+    });
+  }
+};
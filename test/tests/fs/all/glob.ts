@@ -0,0 +1,85 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+
+  // A single-level pattern finds the same files as readdir.
+  fs.readdir(common.fixturesDir, function(e, files) {
+    assert(!e);
+    var expected = files.filter(function(file) {
+      return /\.js$/.test(file) && file[0] !== '.';
+    }).sort();
+    fs.glob('*.js', { cwd: common.fixturesDir }, function(e, matches) {
+      assert(!e);
+      assert.deepEqual(matches, expected);
+    });
+    fs.glob(common.fixturesDir + '/*.js', function(e, matches) {
+      assert(!e);
+      assert.deepEqual(matches, expected.map(function(file) {
+        return common.fixturesDir + '/' + file;
+      }));
+    });
+  });
+
+  fs.glob('*', { cwd: '/does/not/exist' }, function(e, matches) {
+    assert(!e);
+    assert.equal(matches.length, 0);
+  });
+
+  if (!rootFS.isReadOnly()) {
+    var files = ['/globTest/a.ts', '/globTest/b.js', '/globTest/sub/c.ts', '/globTest/sub/deep/d.ts',
+      '/globTest/.hidden/e.ts', '/globTest/skip/f.ts', '/globTest/x1.ts'];
+    fs.mkdir('/globTest/sub/deep', { recursive: true }, function(e) {
+      assert(!e);
+      fs.mkdir('/globTest/.hidden', function(e) {
+        assert(!e);
+        fs.mkdir('/globTest/skip', function(e) {
+          assert(!e);
+          var remaining = files.length;
+          files.forEach(function(file) {
+            fs.writeFile(file, 'file ' + file, function(e) {
+              assert(!e);
+              if (--remaining === 0) {
+                runGlobTests();
+              }
+            });
+          });
+        });
+      });
+    });
+
+    function runGlobTests() {
+      var cwd = { cwd: '/globTest' };
+      fs.glob('**/*.ts', cwd, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['a.ts', 'skip/f.ts', 'sub/c.ts', 'sub/deep/d.ts', 'x1.ts']);
+      });
+      fs.glob('**/*.ts', { cwd: '/globTest', dot: true, ignore: 'skip/**' }, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['.hidden/e.ts', 'a.ts', 'sub/c.ts', 'sub/deep/d.ts', 'x1.ts']);
+      });
+      fs.glob('**/*.ts', { cwd: '/globTest', maxDepth: 2 }, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['a.ts', 'skip/f.ts', 'sub/c.ts', 'x1.ts']);
+      });
+      fs.glob(['[a-b].*', 'x[!a-z].ts'], cwd, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['a.ts', 'b.js', 'x1.ts']);
+      });
+      fs.glob('{sub,skip}/*', { cwd: '/globTest', nodir: true }, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['skip/f.ts', 'sub/c.ts']);
+      });
+      fs.glob('**/*', { cwd: '/globTest', grep: /file .*\/deep\// }, function(e, matches) {
+        assert(!e);
+        assert.deepEqual(matches, ['sub/deep/d.ts']);
+      });
+      if (rootFS.supportsSynch()) {
+        assert.deepEqual(fs.globSync('*/', cwd), ['skip', 'sub']);
+        assert.deepEqual(fs.globSync('**/d.ts', { cwd: '/globTest', grep: 'deep' }), ['sub/deep/d.ts']);
+      }
+    }
+  }
+};
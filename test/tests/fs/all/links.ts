@@ -0,0 +1,183 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (rootFS.isReadOnly() || !rootFS.supportsLinks()) {
+    return;
+  }
+
+  fs.mkdir('/linksTest/dir', { recursive: true }, function(e) {
+    assert(!e);
+    fs.writeFile('/linksTest/dir/file.txt', 'hello', function(e) {
+      assert(!e);
+      runSymlinkTests();
+      runHardLinkTests();
+      runLoopTests();
+      runDanglingLinkTests();
+    });
+  });
+
+  function runSymlinkTests() {
+    // Relative targets are resolved against the link's directory.
+    fs.symlink('dir/file.txt', '/linksTest/rel', function(e) {
+      assert(!e);
+      fs.readlink('/linksTest/rel', function(e, target) {
+        assert(!e);
+        assert.equal(target, 'dir/file.txt');
+      });
+      fs.lstat('/linksTest/rel', function(e, stats) {
+        assert(!e);
+        assert(stats.isSymbolicLink());
+        fs.stat('/linksTest/rel', function(e, stats) {
+          assert(!e);
+          assert(stats.isFile());
+          assert.equal(stats.size, 5);
+        });
+      });
+      fs.realpath('/linksTest/rel', function(e, resolved) {
+        assert(!e);
+        assert.equal(resolved, '/linksTest/dir/file.txt');
+      });
+      fs.readFile('/linksTest/rel', 'utf8', function(e, data) {
+        assert(!e);
+        assert.equal(data, 'hello');
+      });
+      fs.readlink('/linksTest/dir/file.txt', function(e) {
+        assert.equal(e.code, 'EINVAL');
+      });
+    });
+
+    // Links to directories can be traversed, and removing them leaves the
+    // target alone.
+    fs.symlink('/linksTest/dir', '/linksTest/dirLink', 'dir', function(e) {
+      assert(!e);
+      fs.writeFile('/linksTest/dirLink/new.txt', 'new', function(e) {
+        assert(!e);
+        fs.readdir('/linksTest/dir', function(e, files) {
+          assert(!e);
+          assert(files.indexOf('new.txt') !== -1);
+          fs.unlink('/linksTest/dirLink', function(e) {
+            assert(!e);
+            fs.stat('/linksTest/dir/new.txt', function(e, stats) {
+              assert(!e);
+              assert(stats.isFile());
+            });
+          });
+        });
+      });
+    });
+  }
+
+  function runHardLinkTests() {
+    fs.writeFile('/linksTest/original.txt', 'shared', function(e) {
+      assert(!e);
+      fs.link('/linksTest/original.txt', '/linksTest/hard.txt', function(e) {
+        assert(!e);
+        fs.stat('/linksTest/original.txt', function(e, stats) {
+          assert(!e);
+          assert.equal(stats.nlink, 2);
+          // Writes through one name are visible through the other.
+          fs.writeFile('/linksTest/hard.txt', 'changed', function(e) {
+            assert(!e);
+            fs.unlink('/linksTest/original.txt', function(e) {
+              assert(!e);
+              fs.readFile('/linksTest/hard.txt', 'utf8', function(e, data) {
+                assert(!e);
+                assert.equal(data, 'changed');
+                fs.stat('/linksTest/hard.txt', function(e, stats) {
+                  assert(!e);
+                  assert.equal(stats.nlink, 1);
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+
+    fs.link('/linksTest/dir', '/linksTest/dirHard', function(e) {
+      assert.equal(e.code, 'EPERM');
+    });
+    fs.link('/linksTest/missing', '/linksTest/missingHard', function(e) {
+      assert.equal(e.code, 'ENOENT');
+    });
+  }
+
+  function runLoopTests() {
+    fs.symlink('loopB', '/linksTest/loopA', function(e) {
+      assert(!e);
+      fs.symlink('loopA', '/linksTest/loopB', function(e) {
+        assert(!e);
+        fs.stat('/linksTest/loopA', function(e) {
+          assert.equal(e.code, 'ELOOP');
+          fs.realpath('/linksTest/loopB', function(e) {
+            assert.equal(e.code, 'ELOOP');
+            fs.lstat('/linksTest/loopA', function(e, stats) {
+              assert(!e);
+              assert(stats.isSymbolicLink());
+              fs.readFile('/linksTest/loopA', function(e) {
+                assert.equal(e.code, 'ELOOP');
+                fs.open('/linksTest/loopA', 'w', function(e) {
+                  assert.equal(e.code, 'ELOOP');
+                  // Other tests walk the whole file system.
+                  fs.unlink('/linksTest/loopA', function(e) {
+                    assert(!e);
+                    fs.unlink('/linksTest/loopB', function(e) {
+                      assert(!e);
+                    });
+                  });
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+
+    if (rootFS.supportsSynch()) {
+      fs.symlinkSync('selfLoop', '/linksTest/selfLoop');
+      assert.throws(function() {
+        fs.readFileSync('/linksTest/selfLoop');
+      }, function(e: any) { return e.code === 'ELOOP'; });
+      assert.throws(function() {
+        fs.writeFileSync('/linksTest/selfLoop', 'data');
+      }, function(e: any) { return e.code === 'ELOOP'; });
+      assert.equal(fs.readlinkSync('/linksTest/selfLoop'), 'selfLoop');
+      fs.unlinkSync('/linksTest/selfLoop');
+      assert(!fs.existsSync('/linksTest/selfLoop'));
+    }
+  }
+
+  function runDanglingLinkTests() {
+    // Writing through a link to a missing file creates the file.
+    fs.symlink('created.txt', '/linksTest/dangling', function(e) {
+      assert(!e);
+      fs.writeFile('/linksTest/dangling', 'created', function(e) {
+        assert(!e);
+        fs.readFile('/linksTest/created.txt', 'utf8', function(e, data) {
+          assert(!e);
+          assert.equal(data, 'created');
+        });
+        fs.lstat('/linksTest/dangling', function(e, stats) {
+          assert(!e);
+          assert(stats.isSymbolicLink());
+        });
+      });
+    });
+
+    if (rootFS.supportsSynch()) {
+      fs.symlinkSync('/linksTest/dir/createdSync.txt', '/linksTest/danglingSync');
+      fs.writeFileSync('/linksTest/danglingSync', 'created');
+      assert.equal(fs.readFileSync('/linksTest/dir/createdSync.txt', 'utf8'), 'created');
+      assert(fs.lstatSync('/linksTest/danglingSync').isSymbolicLink());
+      // Exclusive creation fails, as the link itself exists.
+      fs.symlinkSync('missing.txt', '/linksTest/danglingExcl');
+      assert.throws(function() {
+        fs.writeFileSync('/linksTest/danglingExcl', 'data', { flag: 'wx' });
+      }, function(e: any) { return e.code === 'EEXIST'; });
+      assert(!fs.existsSync('/linksTest/missing.txt'));
+      fs.unlinkSync('/linksTest/danglingExcl');
+    }
+  }
+};
@@ -35,9 +35,13 @@ export default function() {
 
             fs.unlink(linkPath, function(err) {
               if (err) throw err;
-              assert(!fs.existsSync(linkPath));
-              assert(fs.existsSync(linkData));
-              completed++;
+              fs.exists(linkPath, function(exists) {
+                assert(!exists);
+                fs.exists(linkData, function(exists) {
+                  assert(exists);
+                  completed++;
+                });
+              });
             });
           });
         });
@@ -45,10 +45,14 @@ export default function() {
       fs.link(srcPath, dstPath, function(err) {
         if (err) throw err;
         console.log('hard link done');
-        var srcContent = fs.readFileSync(srcPath, 'utf8');
-        var dstContent = fs.readFileSync(dstPath, 'utf8');
-        assert.equal(srcContent, dstContent);
-        completed++;
+        fs.readFile(srcPath, 'utf8', function(err, srcContent) {
+          if (err) throw err;
+          fs.readFile(dstPath, 'utf8', function(err, dstContent) {
+            if (err) throw err;
+            assert.equal(srcContent, dstContent);
+            completed++;
+          });
+        });
       });
     };
 
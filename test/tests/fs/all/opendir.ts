@@ -0,0 +1,129 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+
+  // Reading a directory entry by entry yields the same names as readdir.
+  fs.readdir(common.fixturesDir, function(e, files) {
+    assert(!e);
+    fs.opendir(common.fixturesDir, { bufferSize: 2 }, function(e, dir) {
+      assert(!e);
+      assert.equal(dir.path, common.fixturesDir);
+      var names: string[] = [];
+      function readNext() {
+        dir.read(function(e, dirent) {
+          assert(!e);
+          if (dirent === null) {
+            assert.deepEqual(names.sort(), files.slice(0).sort());
+            dir.close(function(e) {
+              assert(!e);
+              dir.read(function(e) {
+                assert.equal(e.code, 'EBADF');
+              });
+            });
+          } else {
+            names.push(dirent.name);
+            readNext();
+          }
+        });
+      }
+      readNext();
+    });
+  });
+
+  // The async iterator closes the directory once it is exhausted.
+  fs.opendir(common.fixturesDir, function(e, dir) {
+    assert(!e);
+    var it = dir.entries();
+    var count = 0;
+    function next(): Promise<void> {
+      return it.next().then(function(result) {
+        if (!result.done) {
+          count++;
+          return next();
+        }
+        assert(count > 0);
+        return dir.close().then(function() {
+          assert(false, 'Closing an exhausted directory twice should fail.');
+        }, function(e) {
+          assert.equal(e.code, 'EBADF');
+        });
+      });
+    }
+    next();
+  });
+
+  // Entries that are removed between pages do not shift the rest of the
+  // listing.
+  if (!rootFS.isReadOnly()) {
+    var pagedDir = common.tmpDir + 'opendirPaged', names = ['a', 'b', 'c', 'd', 'e'];
+    var readWhileRemoving = function() {
+      fs.opendir(pagedDir, { bufferSize: 2 }, function(e, dir) {
+        assert(!e);
+        dir.read(function(e, first) {
+          assert(!e);
+          fs.unlink(pagedDir + '/' + first.name, function(e) {
+            assert(!e);
+            var rest: string[] = [];
+            var readRest = function() {
+              dir.read(function(e, dirent) {
+                assert(!e);
+                if (dirent !== null) {
+                  rest.push(dirent.name);
+                  return readRest();
+                }
+                assert.deepEqual(rest.concat([first.name]).sort(), names);
+                dir.close(function(e) {
+                  assert(!e);
+                  var left = rest.length;
+                  rest.forEach(function(name) {
+                    fs.unlink(pagedDir + '/' + name, function(e) {
+                      assert(!e);
+                      if (--left === 0) {
+                        fs.rmdir(pagedDir, function(e) {
+                          assert(!e);
+                        });
+                      }
+                    });
+                  });
+                });
+              });
+            };
+            readRest();
+          });
+        });
+      });
+    };
+    fs.mkdir(pagedDir, function(e) {
+      assert(!e);
+      var written = 0;
+      names.forEach(function(name) {
+        fs.writeFile(pagedDir + '/' + name, '', function(e) {
+          assert(!e);
+          if (++written === names.length) {
+            readWhileRemoving();
+          }
+        });
+      });
+    });
+  }
+
+  fs.opendir(common.fixturesDir + '/a.js', function(e) {
+    assert.equal(e.code, 'ENOTDIR');
+  });
+
+  if (rootFS.supportsSynch()) {
+    var dir = fs.opendirSync(common.fixturesDir, { bufferSize: 1 });
+    var count = 0;
+    while (dir.readSync() !== null) {
+      count++;
+    }
+    dir.closeSync();
+    assert.equal(count, fs.readdirSync(common.fixturesDir).length);
+    assert.throws(function() {
+      dir.readSync();
+    });
+  }
+};
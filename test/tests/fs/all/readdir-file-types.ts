@@ -0,0 +1,64 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+import common from '../../../harness/common';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+
+  // Typed listings must agree with plain listings and stat.
+  fs.readdir(common.fixturesDir, function(e, files) {
+    assert(!e);
+    fs.readdir(common.fixturesDir, { withFileTypes: true }, function(e, dirents) {
+      assert(!e);
+      assert.equal(dirents.length, files.length);
+      dirents.forEach(function(dirent) {
+        assert(files.indexOf(dirent.name) !== -1);
+        assert(dirent instanceof fs.Dirent);
+        fs.lstat(common.fixturesDir + '/' + dirent.name, function(e, stats) {
+          assert(!e);
+          assert.equal(dirent.isFile(), stats.isFile());
+          assert.equal(dirent.isDirectory(), stats.isDirectory());
+        });
+      });
+    });
+  });
+
+  fs.readdir(common.fixturesDir + '/a.js', { withFileTypes: true }, function(e) {
+    assert.equal(e.code, 'ENOTDIR');
+  });
+
+  if (!rootFS.isReadOnly()) {
+    fs.mkdir('/direntTest', function(e) {
+      assert(!e);
+      fs.mkdir('/direntTest/dir', function(e) {
+        assert(!e);
+        fs.writeFile('/direntTest/file.txt', 'abc', function(e) {
+          assert(!e);
+          fs.readdir('/direntTest', { withFileTypes: true }, function(e, dirents) {
+            assert(!e);
+            assert.equal(dirents.length, 2);
+            dirents.forEach(function(dirent) {
+              if (dirent.name === 'dir') {
+                assert(dirent.isDirectory());
+                assert(!dirent.isFile());
+              } else {
+                assert.equal(dirent.name, 'file.txt');
+                assert(dirent.isFile());
+                assert(!dirent.isDirectory());
+              }
+              assert(!dirent.isSymbolicLink());
+            });
+          });
+        });
+      });
+    });
+  }
+
+  if (rootFS.supportsSynch()) {
+    var dirents = fs.readdirSync(common.fixturesDir, { withFileTypes: true });
+    assert.equal(dirents.length, fs.readdirSync(common.fixturesDir).length);
+    dirents.forEach(function(dirent) {
+      assert.equal(dirent.isDirectory(), fs.statSync(common.fixturesDir + '/' + dirent.name).isDirectory());
+    });
+  }
+};
@@ -0,0 +1,56 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (!rootFS.isReadOnly()) {
+    fs.mkdir('/recursiveTest/a/b/c', { recursive: true }, function(e) {
+      assert(!e);
+      // Recursive mkdir does not fail on existing directories.
+      fs.mkdir('/recursiveTest/a', { recursive: true }, function(e) {
+        assert(!e);
+        fs.writeFile('/recursiveTest/a/b/file.txt', 'abc', function(e) {
+          assert(!e);
+          fs.rm('/recursiveTest', function(e) {
+            assert.equal(e.code, 'EISDIR');
+            fs.rmdir('/recursiveTest', function(e) {
+              assert.equal(e.code, 'ENOTEMPTY');
+              fs.rm('/recursiveTest', { recursive: true }, function(e) {
+                assert(!e);
+                fs.exists('/recursiveTest', function(exists) {
+                  assert(!exists);
+                  fs.rm('/recursiveTest', function(e) {
+                    assert.equal(e.code, 'ENOENT');
+                  });
+                  fs.rm('/recursiveTest', { force: true }, function(e) {
+                    assert(!e);
+                  });
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+
+    fs.mkdir('/recursiveTest2/x', { recursive: true }, function(e) {
+      assert(!e);
+      fs.rmdir('/recursiveTest2', { recursive: true }, function(e) {
+        assert(!e);
+        fs.exists('/recursiveTest2', function(exists) {
+          assert(!exists);
+        });
+      });
+    });
+
+    if (rootFS.supportsSynch()) {
+      fs.mkdirSync('/recursiveTest3/x/y', { recursive: true });
+      fs.writeFileSync('/recursiveTest3/x/y/file.txt', 'abc');
+      assert.throws(function() {
+        fs.mkdirSync('/recursiveTest3/x/y/file.txt/z', { recursive: true });
+      });
+      fs.rmSync('/recursiveTest3', { recursive: true });
+      assert(!fs.existsSync('/recursiveTest3'));
+    }
+  }
+};
@@ -0,0 +1,89 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (rootFS.isReadOnly()) {
+    return;
+  }
+  // These file systems must support transactions.
+  var supportsTransactions = ['InMemory', 'IndexedDB', 'LocalStorage', 'MountableFileSystem'].indexOf(rootFS.getName()) !== -1;
+
+  fs.mkdir('/transactionTest', function(e) {
+    assert(!e);
+    fs.writeFile('/transactionTest/old.txt', 'old', function(e) {
+      assert(!e);
+      runCommitTest();
+    });
+  });
+
+  function runCommitTest() {
+    fs.transaction(function(tx) {
+      return tx.writeFile('/transactionTest/a.txt', 'a').then(function() {
+        return tx.rename('/transactionTest/old.txt', '/transactionTest/renamed.txt');
+      }).then(function() {
+        // Changes are only visible inside the transaction until it commits.
+        return fs.promises.stat('/transactionTest/a.txt').then(function() {
+          assert(false, 'The file should not exist outside the transaction yet.');
+        }, function(e) {
+          assert.equal(e.code, 'ENOENT');
+          return tx.readFile('/transactionTest/a.txt', 'utf8');
+        });
+      }).then(function(data) {
+        assert.equal(data, 'a');
+        return 'done';
+      });
+    }).then(function(rv) {
+      assert.equal(rv, 'done');
+      fs.readdir('/transactionTest', function(e, files) {
+        assert(!e);
+        assert.deepEqual(files.sort(), ['a.txt', 'renamed.txt']);
+        runRollbackTest();
+      });
+    }, function(e) {
+      if (e.code !== 'ENOTSUP' || supportsTransactions) {
+        throw e;
+      }
+    });
+  }
+
+  function runRollbackTest() {
+    var failure = new Error('Rolled back.');
+    fs.transaction(function(tx) {
+      return tx.unlink('/transactionTest/a.txt').then(function() {
+        return tx.writeFile('/transactionTest/b.txt', 'b');
+      }).then(function() {
+        throw failure;
+      });
+    }).then(function() {
+      assert(false, 'The transaction should not commit.');
+    }, function(e) {
+      assert.equal(e, failure);
+      fs.readdir('/transactionTest', function(e, files) {
+        assert(!e);
+        assert.deepEqual(files.sort(), ['a.txt', 'renamed.txt']);
+        runConflictTest();
+      });
+    });
+  }
+
+  function runConflictTest() {
+    // The transaction depends on a file that someone else changes before it
+    // commits, even though it does not write to that file.
+    fs.transaction(function(tx) {
+      return tx.readFile('/transactionTest/a.txt', 'utf8').then(function(data) {
+        return fs.promises.writeFile('/transactionTest/a.txt', 'changed').then(function() {
+          return tx.writeFile('/transactionTest/c.txt', data);
+        });
+      });
+    }).then(function() {
+      assert(false, 'The transaction should not commit.');
+    }, function(e) {
+      assert.equal(e.code, 'EBUSY');
+      fs.readdir('/transactionTest', function(e, files) {
+        assert(!e);
+        assert.deepEqual(files.sort(), ['a.txt', 'renamed.txt']);
+      });
+    });
+  }
+};
@@ -0,0 +1,90 @@
+import fs from '../../../../src/core/node_fs';
+import assert from '../../../harness/wrapped-assert';
+
+export default function() {
+  var rootFS = fs.getRootFS();
+  if (rootFS.isReadOnly()) {
+    return;
+  }
+  var file = '/xattrTest.txt';
+
+  fs.writeFile(file, 'abc', function(e) {
+    assert(!e);
+    fs.setxattr(file, 'user.mime_type', 'text/plain', function(e) {
+      if (e && e.code === 'ENOTSUP') {
+        // This file system cannot store extended attributes.
+        return;
+      }
+      assert(!e);
+      fs.getxattr(file, 'user.mime_type', function(e, value) {
+        assert(!e);
+        assert.equal(value.toString(), 'text/plain');
+        fs.setxattr(file, 'user.mime_type', 'text/html', fs.XATTR_CREATE, function(e) {
+          assert.equal(e.code, 'EEXIST');
+          fs.setxattr(file, 'user.etag', 'x', fs.XATTR_REPLACE, function(e) {
+            assert.equal(e.code, 'ENODATA');
+            fs.setxattr(file, 'user.etag', Buffer.from([0, 255, 1]), function(e) {
+              assert(!e);
+              fs.listxattr(file, function(e, names) {
+                assert(!e);
+                assert.deepEqual(names.sort(), ['user.etag', 'user.mime_type']);
+                fs.getxattr(file, 'user.etag', function(e, value) {
+                  assert(!e);
+                  assert.deepEqual(Array.prototype.slice.call(value), [0, 255, 1]);
+                  fs.removexattr(file, 'user.etag', function(e) {
+                    assert(!e);
+                    fs.getxattr(file, 'user.etag', function(e) {
+                      assert.equal(e.code, 'ENODATA');
+                      fs.removexattr(file, 'user.etag', function(e) {
+                        assert.equal(e.code, 'ENODATA');
+                        // Attributes survive writes, but not removal.
+                        fs.writeFile(file, 'def', function(e) {
+                          assert(!e);
+                          fs.listxattr(file, function(e, names) {
+                            assert(!e);
+                            assert.deepEqual(names, ['user.mime_type']);
+                            fs.unlink(file, function(e) {
+                              assert(!e);
+                              fs.writeFile(file, 'ghi', function(e) {
+                                assert(!e);
+                                fs.listxattr(file, function(e, names) {
+                                  assert(!e);
+                                  assert.equal(names.length, 0);
+                                });
+                              });
+                            });
+                          });
+                        });
+                      });
+                    });
+                  });
+                });
+              });
+            });
+          });
+        });
+      });
+    });
+  });
+
+  fs.getxattr('/xattrTest/does/not/exist', 'user.a', function(e) {
+    assert.equal(e.code, 'ENOENT');
+  });
+
+  if (rootFS.supportsSynch()) {
+    fs.mkdirSync('/xattrSyncTest');
+    try {
+      fs.setxattrSync('/xattrSyncTest', 'user.sync', 'yes');
+    } catch (e) {
+      assert.equal(e.code, 'ENOTSUP');
+      return;
+    }
+    assert.equal(fs.getxattrSync('/xattrSyncTest', 'user.sync').toString(), 'yes');
+    assert.deepEqual(fs.listxattrSync('/xattrSyncTest'), ['user.sync']);
+    fs.removexattrSync('/xattrSyncTest', 'user.sync');
+    assert.deepEqual(fs.listxattrSync('/xattrSyncTest'), []);
+    assert.throws(function() {
+      fs.setxattrSync('/xattrSyncTest', '', 'empty');
+    });
+  }
+};
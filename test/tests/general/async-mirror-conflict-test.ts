@@ -0,0 +1,128 @@
+/**
+ * Tests for conflict detection and the queue of AsyncMirror.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+import {FileSystem} from '../../../src/core/file_system';
+import AsyncMirror, {AsyncMirrorConflict} from '../../../src/backend/AsyncMirror';
+
+export default function() {
+  var r = FileFlag.getFileFlag('r'), w = FileFlag.getFileFlag('w');
+
+  /**
+   * Mirrors an in-memory file system that contains /a.txt into another one.
+   * The first file system stands in for e.g. an IndexedDB store that another
+   * tab writes to.
+   */
+  function createMirror(conflictPolicy: any, cb: (mirror: AsyncMirror, remote: FileSystem) => void): void {
+    BrowserFS.FileSystem.InMemory.Create({}, (e, remote) => {
+      assert(!e);
+      remote.writeFileSync('/a.txt', Buffer.from('original'), null, w, 0x1a4);
+      BrowserFS.FileSystem.InMemory.Create({}, (e, local) => {
+        assert(!e);
+        BrowserFS.FileSystem.AsyncMirror.Create({ sync: local, async: remote, conflictPolicy: conflictPolicy }, (e, mirror) => {
+          assert(!e);
+          cb(mirror, remote);
+        });
+      });
+    });
+  }
+
+  // Keeping both leaves the remote version in place, and writes the local one
+  // to a copy.
+  createMirror('keep-both', (mirror, remote) => {
+    const conflicts: AsyncMirrorConflict[] = [];
+    mirror.on('conflict', (conflict: AsyncMirrorConflict, resolution: string) => {
+      assert.equal(resolution, 'both');
+      conflicts.push(conflict);
+    });
+    remote.writeFileSync('/a.txt', Buffer.from('remote'), null, w, 0x1a4);
+    mirror.writeFileSync('/a.txt', Buffer.from('local'), null, w, 0x1a4);
+    mirror.flush().then(() => {
+      assert.equal(conflicts.length, 1);
+      assert.equal(conflicts[0].path, '/a.txt');
+      assert.equal(conflicts[0].remoteStats!.size, 6);
+      assert.equal(mirror.readFileSync('/a.txt', 'utf8', r), 'remote');
+      const names = mirror.readdirSync('/').sort();
+      assert.equal(names.length, 2);
+      assert(/^a \(conflict \d+\)\.txt$/.test(names[0]));
+      assert.equal(mirror.readFileSync('/' + names[0], 'utf8', r), 'local');
+      assert.equal(remote.readFileSync('/' + names[0], 'utf8', r), 'local');
+
+      // Once resolved, later writes do not conflict.
+      mirror.writeFileSync('/a.txt', Buffer.from('local again'), null, w, 0x1a4);
+      return mirror.flush();
+    }).then(() => {
+      assert.equal(conflicts.length, 1);
+      assert.equal(remote.readFileSync('/a.txt', 'utf8', r), 'local again');
+    });
+  });
+
+  // The last writer wins: the local write happens after the remote one.
+  createMirror(undefined, (mirror, remote) => {
+    let conflicts = 0;
+    mirror.on('conflict', (conflict: AsyncMirrorConflict, resolution: string) => {
+      assert.equal(resolution, 'local');
+      conflicts++;
+    });
+    remote.writeFileSync('/a.txt', Buffer.from('remote'), null, w, 0x1a4);
+    remote.writeFileSync('/b.txt', Buffer.from('created remotely'), null, w, 0x1a4);
+    mirror.writeFileSync('/a.txt', Buffer.from('local'), null, w, 0x1a4);
+    mirror.writeFileSync('/b.txt', Buffer.from('created locally'), null, w, 0x1a4);
+    mirror.flush().then(() => {
+      assert.equal(conflicts, 2);
+      assert.equal(remote.readFileSync('/a.txt', 'utf8', r), 'local');
+      assert.equal(remote.readFileSync('/b.txt', 'utf8', r), 'created locally');
+    });
+  });
+
+  // A handler decides, here to keep a file that was changed remotely, but
+  // deleted locally.
+  createMirror((conflict: AsyncMirrorConflict, cb: (resolution: string) => void) => {
+    assert.equal(conflict.apiMethod, 'unlink');
+    setTimeout(() => cb('remote'), 0);
+  }, (mirror, remote) => {
+    const queueLengths: number[] = [];
+    mirror.on('queue', (length: number) => queueLengths.push(length));
+    remote.writeFileSync('/a.txt', Buffer.from('remote'), null, w, 0x1a4);
+    mirror.unlinkSync('/a.txt');
+    assert(!mirror.existsSync('/a.txt'));
+    assert.equal(mirror.getQueueLength(), 1);
+    mirror.flush().then(() => {
+      assert.deepEqual(queueLengths, [1, 0]);
+      assert.equal(mirror.getQueueLength(), 0);
+      assert.equal(mirror.readFileSync('/a.txt', 'utf8', r), 'remote');
+      assert.equal(remote.readFileSync('/a.txt', 'utf8', r), 'remote');
+    });
+  });
+
+  // An operation that fails to replay rejects the flush, but does not hold up
+  // the ones after it. The conflict holds up the queue until the flush is
+  // waiting.
+  createMirror((conflict: AsyncMirrorConflict, cb: (resolution: string) => void) => {
+    setTimeout(() => cb('local'), 0);
+  }, (mirror, remote) => {
+    const errors: string[] = [];
+    mirror.on('error', (e: any, apiMethod: string, p: string) => errors.push(`${e.code} ${apiMethod} ${p}`));
+    remote.writeFileSync('/a.txt', Buffer.from('remote'), null, w, 0x1a4);
+    remote.mkdirSync('/d', 0x1ff);
+    mirror.writeFileSync('/a.txt', Buffer.from('local'), null, w, 0x1a4);
+    mirror.mkdirSync('/d', 0x1ff);
+    mirror.writeFileSync('/b.txt', Buffer.from('local'), null, w, 0x1a4);
+    mirror.flush().then(() => {
+      assert(false, 'The flush should fail.');
+    }, (e: any) => {
+      assert.equal(e.code, 'EEXIST');
+      assert.deepEqual(errors, ['EEXIST mkdir /d']);
+      return mirror.flush();
+    }).then(() => {
+      assert.equal(mirror.getQueueLength(), 0);
+      assert.equal(remote.readFileSync('/b.txt', 'utf8', r), 'local');
+      mirror.writeFileSync('/c.txt', Buffer.from('later'), null, w, 0x1a4);
+      return mirror.flush();
+    }).then(() => {
+      assert.equal(remote.readFileSync('/c.txt', 'utf8', r), 'later');
+    });
+  });
+};
@@ -0,0 +1,41 @@
+/**
+ * Tests the serialization of key-value file system inodes.
+ */
+import assert from '../../harness/wrapped-assert';
+import Inode from '../../../src/generic/inode';
+import {FileType} from '../../../src/core/node_fs_stats';
+
+export default function() {
+  // Inodes written before links were supported have no link count.
+  var id = '8c1f7a52-0c5e-4b8e-9d55-3f7a1a2b9c0d',
+    old = Buffer.alloc(30 + id.length);
+  old.writeUInt32LE(1234, 0);
+  old.writeUInt16LE(0x1a4 | FileType.FILE, 4);
+  old.writeDoubleLE(1000, 6);
+  old.writeDoubleLE(2000, 14);
+  old.writeDoubleLE(3000, 22);
+  old.write(id, 30, id.length, 'ascii');
+  var inode = Inode.fromBuffer(old);
+  assert.equal(inode.id, id);
+  assert.equal(inode.size, 1234);
+  assert.equal(inode.mode, 0x1a4 | FileType.FILE);
+  assert.equal(inode.atime, 1000);
+  assert.equal(inode.mtime, 2000);
+  assert.equal(inode.ctime, 3000);
+  assert.equal(inode.nlink, 1);
+
+  // The root directory's inode has a one-character ID.
+  var oldRoot = Buffer.alloc(31);
+  oldRoot.writeUInt16LE(511 | FileType.DIRECTORY, 4);
+  oldRoot.write('/', 30, 1, 'ascii');
+  assert.equal(Inode.fromBuffer(oldRoot).id, '/');
+  assert.equal(Inode.fromBuffer(oldRoot).nlink, 1);
+
+  // Rewritten inodes keep their link count.
+  inode.nlink = 3;
+  var rewritten = Inode.fromBuffer(inode.toBuffer());
+  assert.equal(rewritten.id, id);
+  assert.equal(rewritten.size, 1234);
+  assert.equal(rewritten.ctime, 3000);
+  assert.equal(rewritten.nlink, 3);
+};
@@ -0,0 +1,73 @@
+/**
+ * Tests for building ISO images with IsoFS.Build.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+export default function() {
+  var r = FileFlag.getFileFlag('r'), w = FileFlag.getFileFlag('w');
+  BrowserFS.FileSystem.InMemory.Create({}, (e, mem) => {
+    assert(!e);
+    var longName = 'a long file name with ünicode characters, which is over 64 characters long.txt';
+    mem.mkdirSync('/dir', 0o755);
+    mem.mkdirSync('/dir/sub dir', 0o700);
+    mem.writeFileSync('/dir/hello.txt', Buffer.from('hello'), null, w, 0o644);
+    mem.writeFileSync('/dir/Hello.TXT', Buffer.from('Hello'), null, w, 0o600);
+    mem.writeFileSync('/dir/sub dir/' + longName, Buffer.alloc(5000, 'x'), null, w, 0o755);
+    mem.writeFileSync('/empty', Buffer.alloc(0), null, w, 0o644);
+    mem.symlinkSync('dir/hello.txt', '/link', 'file');
+    // A target that needs several SL entries and a continuation area.
+    mem.symlinkSync('./'.repeat(150) + 'dir/Hello.TXT', '/long-link', 'file');
+
+    BrowserFS.FileSystem.IsoFS.Build(mem, { volumeIdentifier: 'test' }, (e, image) => {
+      assert(!e);
+      BrowserFS.FileSystem.IsoFS.Create({ data: image }, (e, isofs) => {
+        assert(!e);
+        assert.equal(isofs.getName(), 'IsoFS-ISO9660-RockRidge');
+        assert.deepEqual(isofs.readdirSync('/').sort(), ['dir', 'empty', 'link', 'long-link']);
+        assert.deepEqual(isofs.readdirSync('/dir').sort(), ['Hello.TXT', 'hello.txt', 'sub dir']);
+        assert.equal(isofs.readFileSync('/dir/hello.txt', 'utf8', r), 'hello');
+        assert.equal(isofs.readFileSync('/dir/Hello.TXT', 'utf8', r), 'Hello');
+        assert.equal(isofs.readFileSync('/dir/sub dir/' + longName, 'utf8', r), 'x'.repeat(5000));
+        assert.equal(isofs.readFileSync('/empty', 'utf8', r), '');
+        // Rock Ridge keeps modes, times and link counts.
+        assert.equal(isofs.statSync('/dir/Hello.TXT', false).mode & 0o777, 0o600 & 0o555);
+        assert.equal(isofs.statSync('/dir/sub dir', false).mode & 0o777, 0o700 & 0o555);
+        assert.equal(isofs.statSync('/dir', false).nlink, 3);
+        assert.equal(Math.floor(isofs.statSync('/dir/hello.txt', false).mtime.getTime() / 1000),
+          Math.floor(mem.statSync('/dir/hello.txt', false).mtime.getTime() / 1000));
+        assert.equal(isofs.readFileSync('/link', 'utf8', r), 'hello');
+        assert.equal(isofs.readFileSync('/long-link', 'utf8', r), 'Hello');
+      });
+    });
+
+    // Without Rock Ridge, the Joliet tree is used, which has no symbolic links
+    // and truncates names to 64 characters.
+    BrowserFS.FileSystem.IsoFS.Build(mem, { rockRidge: false, path: '/dir' }, (e, image) => {
+      assert(!e);
+      BrowserFS.FileSystem.IsoFS.Create({ data: image }, (e, isofs) => {
+        assert(!e);
+        assert.equal(isofs.getName(), 'IsoFS-Joliet');
+        assert.deepEqual(isofs.readdirSync('/sub dir'), [longName.slice(0, 64)]);
+      });
+    });
+
+    // Plain ISO9660 names are unique 8.3 upper case names.
+    BrowserFS.FileSystem.IsoFS.Build(mem, { rockRidge: false, joliet: false }, (e, image) => {
+      assert(!e);
+      BrowserFS.FileSystem.IsoFS.Create({ data: image }, (e, isofs) => {
+        assert(!e);
+        assert.deepEqual(isofs.readdirSync('/'), ['DIR', 'EMPTY']);
+        assert.deepEqual(isofs.readdirSync('/DIR'), ['HELLO.TXT', 'HELLO~1.TXT', 'SUB_DIR']);
+      });
+    });
+
+    BrowserFS.FileSystem.IsoFS.Build(mem, { path: '/dir/hello.txt' }, (e) => {
+      assert.equal(e.code, 'ENOTDIR');
+    });
+    BrowserFS.FileSystem.IsoFS.Build(mem, { path: '/missing' }, (e) => {
+      assert.equal(e.code, 'ENOENT');
+    });
+  });
+};
@@ -0,0 +1,106 @@
+/**
+ * Tests for El Torito boot images in IsoFS.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+/**
+ * Writes an ISO9660 directory record at the given offset.
+ */
+function writeRecord(data: Buffer, offset: number, sector: number, length: number, isDir: boolean, name: string): number {
+  const recordLength = 33 + name.length + ((33 + name.length) % 2);
+  data[offset] = recordLength;
+  data.writeUInt32LE(sector, offset + 2);
+  data.writeUInt32BE(sector, offset + 6);
+  data.writeUInt32LE(length, offset + 10);
+  data.writeUInt32BE(length, offset + 14);
+  data[offset + 18] = 120;
+  data[offset + 19] = 1;
+  data[offset + 20] = 1;
+  data[offset + 25] = isDir ? 2 : 0;
+  data.writeUInt16LE(1, offset + 28);
+  data.writeUInt16BE(1, offset + 30);
+  data[offset + 32] = name.length;
+  data.write(name, offset + 33, name.length, 'latin1');
+  return offset + recordLength;
+}
+
+/**
+ * Builds an image with a file in its root directory and an El Torito boot
+ * catalog with an x86 image in its default entry, and an EFI image in a
+ * section.
+ */
+function makeBootableIso(): Buffer {
+  const iso = Buffer.alloc(24 * 2048);
+  // Primary volume descriptor, with the root directory in sector 20.
+  iso.write('\x01CD001\x01', 16 * 2048, 7, 'latin1');
+  writeRecord(iso, 16 * 2048 + 156, 20, 2048, true, '\0');
+  // Boot record, with the boot catalog in sector 19.
+  iso.write('\x00CD001\x01EL TORITO SPECIFICATION', 17 * 2048, 30, 'latin1');
+  iso.writeUInt32LE(19, 17 * 2048 + 71);
+  iso.write('\xffCD001\x01', 18 * 2048, 7, 'latin1');
+
+  const catalog = 19 * 2048;
+  // Validation entry. The checksum makes the entry sum up to zero.
+  iso[catalog] = 1;
+  iso[catalog + 30] = 0x55;
+  iso[catalog + 31] = 0xAA;
+  let sum = 0;
+  for (let i = 0; i < 32; i += 2) {
+    sum += iso.readUInt16LE(catalog + i);
+  }
+  iso.writeUInt16LE((0x10000 - (sum & 0xFFFF)) & 0xFFFF, catalog + 28);
+  // Default entry: a bootable 4-sector image in sector 21.
+  iso[catalog + 32] = 0x88;
+  iso.writeUInt16LE(4, catalog + 32 + 6);
+  iso.writeUInt32LE(21, catalog + 32 + 8);
+  // Final section header for EFI, with one 2-sector image in sector 22.
+  iso[catalog + 64] = 0x91;
+  iso[catalog + 65] = 0xEF;
+  iso.writeUInt16LE(1, catalog + 66);
+  iso[catalog + 96] = 0x88;
+  iso.writeUInt16LE(2, catalog + 96 + 6);
+  iso.writeUInt32LE(22, catalog + 96 + 8);
+
+  let offset = writeRecord(iso, 20 * 2048, 20, 2048, true, '\0');
+  offset = writeRecord(iso, offset, 20, 2048, true, '\x01');
+  writeRecord(iso, offset, 23, 5, false, 'HELLO.TXT;1');
+  iso.fill(1, 21 * 2048, 22 * 2048);
+  iso.fill(2, 22 * 2048, 23 * 2048);
+  iso.write('hello', 23 * 2048);
+  return iso;
+}
+
+export default function() {
+  var r = FileFlag.getFileFlag('r');
+  BrowserFS.FileSystem.IsoFS.Create({ data: makeBootableIso() }, (e, isofs) => {
+    assert(!e);
+    assert.deepEqual(isofs.readdirSync('/').sort(), ['HELLO.TXT', '[BOOT]']);
+    assert.equal(isofs.readFileSync('/HELLO.TXT', 'utf8', r), 'hello');
+    assert(isofs.statSync('/[BOOT]', false).isDirectory());
+    assert.deepEqual(isofs.readdirSync('/[BOOT]'), ['1-x86-NoEmul.img', '2-EFI-NoEmul.img']);
+
+    // Images without emulation are as long as their sector count, in 512-byte
+    // sectors.
+    const x86 = isofs.readFileSync('/[BOOT]/1-x86-NoEmul.img', null, r);
+    assert.equal(x86.length, 2048);
+    assert.equal(isofs.statSync('/[BOOT]/1-x86-NoEmul.img', false).size, 2048);
+    assert(x86.every((b: number) => b === 1));
+    const efi = isofs.readFileSync('/[BOOT]/2-EFI-NoEmul.img', null, r);
+    assert.equal(efi.length, 1024);
+    assert(efi.every((b: number) => b === 2));
+
+    assert.deepEqual(isofs.readdirRecursiveSync('/', 2).map((d) => d.name).sort(),
+      ['HELLO.TXT', '[BOOT]', '[BOOT]/1-x86-NoEmul.img', '[BOOT]/2-EFI-NoEmul.img']);
+    assert.throws(() => isofs.openSync('/[BOOT]/1-x86-NoEmul.img', FileFlag.getFileFlag('w'), 0x1a4), (e: any) => e.code === 'EPERM');
+  });
+
+  // The file system is still readable if the boot catalog is corrupt.
+  const corrupt = makeBootableIso();
+  corrupt[19 * 2048 + 28]++;
+  BrowserFS.FileSystem.IsoFS.Create({ data: corrupt }, (e, isofs) => {
+    assert(!e);
+    assert.deepEqual(isofs.readdirSync('/'), ['HELLO.TXT']);
+  });
+};
@@ -0,0 +1,29 @@
+/**
+ * Tests that access checks ask the file system a path is mounted on.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import FS from '../../../src/core/FS';
+import {FileFlag} from '../../../src/core/file_flag';
+
+export default function() {
+  BrowserFS.FileSystem.ZipFS.Create({ writable: true }, (e, writable) => {
+    assert(!e);
+    writable.writeFileSync('/a.txt', 'abc', 'utf8', FileFlag.getFileFlag('w'), 0x1a4);
+    BrowserFS.FileSystem.ZipFS.Create({ zipData: writable.toBuffer() }, (e, zipfs) => {
+      assert(!e);
+      BrowserFS.FileSystem.MountableFileSystem.Create({ '/zip': zipfs }, (e, mfs) => {
+        assert(!e);
+        var fs = new FS();
+        fs.initialize(mfs);
+        fs.writeFileSync('/b.txt', 'abc');
+        fs.accessSync('/b.txt', fs.W_OK);
+        fs.accessSync('/zip/a.txt', fs.R_OK);
+        assert.throws(() => fs.accessSync('/zip/a.txt', fs.W_OK), (e: any) => e.code === 'EROFS');
+        fs.access('/zip/a.txt', fs.W_OK, (e) => {
+          assert.equal(e.code, 'EROFS');
+        });
+      });
+    });
+  });
+};
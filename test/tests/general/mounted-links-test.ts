@@ -0,0 +1,47 @@
+/**
+ * Tests symbolic links with absolute targets on mounted file systems.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import FS from '../../../src/core/FS';
+
+export default function() {
+  BrowserFS.FileSystem.InMemory.Create({}, (e, inMemory) => {
+    assert(!e);
+    BrowserFS.FileSystem.MountableFileSystem.Create({ '/mnt': inMemory }, (e, mfs) => {
+      assert(!e);
+      var fs = new FS();
+      fs.initialize(mfs);
+      fs.writeFileSync('/mnt/a.txt', 'abc');
+      fs.symlinkSync('/mnt/a.txt', '/mnt/link');
+      assert.equal(fs.readFileSync('/mnt/link', 'utf8'), 'abc');
+      assert.equal(fs.readlinkSync('/mnt/link'), '/mnt/a.txt');
+      assert.equal(fs.realpathSync('/mnt/link'), '/mnt/a.txt');
+      // The mounted file system stores the target relative to its own root.
+      assert.equal(inMemory.readlinkSync('/link'), '/a.txt');
+
+      fs.writeFileSync('/b.txt', 'def');
+      fs.symlinkSync('/b.txt', '/link');
+      assert.equal(fs.readFileSync('/link', 'utf8'), 'def');
+      assert.equal(fs.readlinkSync('/link'), '/b.txt');
+
+      assert.throws(() => fs.symlinkSync('/b.txt', '/mnt/link2'), (e: any) => e.code === 'EXDEV');
+      assert(!fs.existsSync('/mnt/link2'));
+
+      fs.symlink('/mnt/a.txt', '/mnt/link3', (e) => {
+        assert(!e);
+        fs.readlink('/mnt/link3', (e, target) => {
+          assert(!e);
+          assert.equal(target, '/mnt/a.txt');
+          fs.realpath('/mnt/link3', (e, realPath) => {
+            assert(!e);
+            assert.equal(realPath, '/mnt/a.txt');
+          });
+        });
+        fs.symlink('/a.txt', '/mnt/link4', (e) => {
+          assert.equal(e.code, 'EXDEV');
+        });
+      });
+    });
+  });
+};
@@ -0,0 +1,34 @@
+/**
+ * Tests that moving entries between mounted file systems keeps their
+ * timestamps.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import FS from '../../../src/core/FS';
+
+export default function() {
+  BrowserFS.FileSystem.InMemory.Create({}, (e, inMemory) => {
+    assert(!e);
+    BrowserFS.FileSystem.MountableFileSystem.Create({ '/mnt': inMemory }, (e, mfs) => {
+      assert(!e);
+      var fs = new FS();
+      fs.initialize(mfs);
+      var time = new Date('2010-01-01T00:00:00Z');
+      fs.mkdirSync('/dir');
+      fs.writeFileSync('/dir/a.txt', 'a');
+      fs.utimesSync('/dir/a.txt', time, time);
+      fs.renameSync('/dir', '/mnt/dir');
+      assert(!fs.existsSync('/dir'));
+      assert.equal(fs.readFileSync('/mnt/dir/a.txt', 'utf8'), 'a');
+      assert.equal(fs.statSync('/mnt/dir/a.txt').mtime.getTime(), time.getTime());
+
+      fs.rename('/mnt/dir/a.txt', '/b.txt', (e) => {
+        assert(!e);
+        fs.stat('/b.txt', (e, stats) => {
+          assert(!e);
+          assert.equal(stats.mtime.getTime(), time.getTime());
+        });
+      });
+    });
+  });
+};
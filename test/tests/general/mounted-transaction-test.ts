@@ -0,0 +1,41 @@
+/**
+ * Tests transactions over mounted file systems that do not support them.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import FS from '../../../src/core/FS';
+
+export default function() {
+  BrowserFS.FileSystem.InMemory.Create({}, (e, inMemory) => {
+    assert(!e);
+    BrowserFS.FileSystem.FolderAdapter.Create({ folder: '/data', wrapped: inMemory }, (e, folder) => {
+      assert(!e);
+      BrowserFS.FileSystem.MountableFileSystem.Create({ '/folder': folder }, (e, mfs) => {
+        assert(!e);
+        var fs = new FS();
+        fs.initialize(mfs);
+        fs.writeFileSync('/folder/a.txt', 'a');
+        fs.transaction(function(tx) {
+          return tx.readFile('/folder/a.txt', 'utf8').then(function(data) {
+            assert.equal(data, 'a');
+            return tx.writeFile('/b.txt', data);
+          }).then(function() {
+            // The change could not be discarded, so it cannot be made.
+            return tx.writeFile('/folder/b.txt', 'b');
+          });
+        }).then(function() {
+          assert(false, 'The transaction should not commit.');
+        }, function(e) {
+          assert.equal(e.code, 'ENOTSUP');
+          assert(!fs.existsSync('/folder/b.txt'));
+          assert(!fs.existsSync('/b.txt'));
+          return fs.transaction(function(tx) {
+            return tx.writeFile('/c.txt', 'c');
+          });
+        }).then(function() {
+          assert.equal(fs.readFileSync('/c.txt', 'utf8'), 'c');
+        });
+      });
+    });
+  });
+};
@@ -0,0 +1,72 @@
+/**
+ * Tests for the quota of key-value file systems.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+export default function() {
+  var w = FileFlag.getFileFlag('w');
+  BrowserFS.FileSystem.InMemory.Create({ quota: 10 }, (e, ifs) => {
+    assert(!e);
+    ifs.diskSpace('/', (total, free) => {
+      assert.equal(total, 10);
+      assert.equal(free, 10);
+    });
+
+    ifs.writeFileSync('/a.txt', Buffer.from('123456'), null, w, 0x1a4);
+    assert.throws(() => {
+      ifs.writeFileSync('/b.txt', Buffer.from('12345'), null, w, 0x1a4);
+    }, (e: any) => e.code === 'ENOSPC');
+    ifs.diskSpace('/', (total, free) => {
+      assert.equal(free, 4);
+    });
+
+    // Shrinking a file frees its space, and links do not take up more.
+    ifs.writeFileSync('/a.txt', Buffer.from('12'), null, w, 0x1a4);
+    ifs.linkSync('/a.txt', '/link.txt');
+    ifs.writeFileSync('/b.txt', Buffer.from('12345678'), null, w, 0x1a4);
+    ifs.diskSpace('/', (total, free) => {
+      assert.equal(free, 0);
+    });
+    ifs.unlinkSync('/a.txt');
+    ifs.unlinkSync('/link.txt');
+    ifs.diskSpace('/', (total, free) => {
+      assert.equal(free, 2);
+    });
+  });
+
+  // A write that does not fit leaves the file system as it was.
+  BrowserFS.FileSystem.InMemory.Create({ quota: 10 }, (e, ifs) => {
+    assert(!e);
+    ifs.writeFileSync('/a.txt', Buffer.from('12345678'), null, w, 0x1a4);
+    assert.throws(() => {
+      ifs.writeFileSync('/a.txt', Buffer.alloc(20), null, w, 0x1a4);
+    }, (e: any) => e.code === 'ENOSPC');
+    assert.equal(ifs.readFileSync('/a.txt', 'utf8', FileFlag.getFileFlag('r')), '12345678');
+    assert.throws(() => {
+      ifs.writeFileSync('/b.txt', Buffer.alloc(20), null, w, 0x1a4);
+    }, (e: any) => e.code === 'ENOSPC');
+    assert(!ifs.existsSync('/b.txt'));
+
+    ifs.writeFile('/a.txt', Buffer.alloc(20), null, w, 0x1a4, (e) => {
+      assert.equal(e!.code, 'ENOSPC');
+      assert.equal(ifs.readFileSync('/a.txt', 'utf8', FileFlag.getFileFlag('r')), '12345678');
+      ifs.writeFile('/c.txt', Buffer.alloc(20), null, w, 0x1a4, (e) => {
+        assert.equal(e!.code, 'ENOSPC');
+        assert(!ifs.existsSync('/c.txt'));
+        ifs.diskSpace('/', (total, free) => {
+          assert.equal(free, 2);
+        });
+      });
+    });
+  });
+
+  // Without a quota, there is no limit.
+  BrowserFS.FileSystem.InMemory.Create({}, (e, ifs) => {
+    ifs.diskSpace('/', (total, free) => {
+      assert.equal(total, Infinity);
+      assert.equal(free, Infinity);
+    });
+  });
+};
@@ -0,0 +1,54 @@
+/**
+ * Tests for TarFS.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+// A gzipped pax archive with the directory 'pkg', 'pkg/a.txt', a file whose
+// path only fits in a pax header, the symlink 'pkg/link' to 'a.txt' and the
+// hard link 'pkg/hard.txt' to 'pkg/a.txt'.
+var paxArchive = 'H4sIAAAAAAACA+3YTWrDMBAFYK17Cp3A1ui3m0CXXeYKgpg4xEmMo4KPX8WklLglpYtxSvW+jYw3Bo1HT1K/39aCmcqCc9OYzcfpmUzQwdL1vXcuCOnEAt7OKQ75k6JMVV3VL+s4vjZx0wx89f+m7p/11/7mX1CkNBkhR9SfndbykHaHZkX+Y/4r9ySgEH1e/2OVxsS8/ntr76z/brb+B2dy/yv0P7u26boT2qBYfyH/Nemv+a+Q/0sg8yz7mNrVJQi6B7nkD/YcD8t/7vL+nP/2Nv+NzhsA5P8SutNxiy4ovP93xz33/c/9/p/d/5CyygupuQ8m6P+p/m0cNpwz/fv6U/BOSFricFp4/QEAAAAAAAAA4H97B69kLg0AKAAA';
+// A gzipped GNU archive with a file whose name only fits in a GNU long name
+// header, and the symlink 'link' to it.
+var gnuArchive = 'H4sIAAAAAAACA+3VTQrCMBBA4TlKTpBOfmq27s0lXBVRIqi9v0hAUKi7VDHv2yTMNnmMHeywzecy5UM5ShtaLZ3qknve6zylMYrJsoL5ettfjJFOTV8i6Ob9H1FvYlzsXzWIC8mn6Oo8ePWjGKX/9u9fZiLomP3V/R/E7Oif/Y+mTu2yf+n/8/7X9/2f1Ivxa3zEzvsHAAAAAAAAAADAf7kDzhpR+wAoAAA=';
+
+export default function() {
+  var r = FileFlag.getFileFlag('r');
+  BrowserFS.FileSystem.TarFS.Create({ data: Buffer.from(paxArchive, 'base64') }, (e, tarfs) => {
+    assert(!e);
+    assert.deepEqual(tarfs.readdirSync('/pkg').sort(), ['a.txt', 'hard.txt', 'link', 'l'.repeat(120) + '.txt']);
+    assert.equal(tarfs.readFileSync('/pkg/a.txt', 'utf8', r), 'hello');
+    assert.equal(tarfs.readFileSync('/pkg/' + 'l'.repeat(120) + '.txt', 'utf8', r), 'long');
+    // pax headers keep fractional times.
+    assert.equal(tarfs.statSync('/pkg/a.txt', false).mtime.getTime(), 1600000000500);
+    assert.equal(tarfs.statSync('/pkg/a.txt', false).mode & 0o777, 0o444);
+
+    assert(tarfs.statSync('/pkg/link', true).isSymbolicLink());
+    assert.equal(tarfs.readlinkSync('/pkg/link'), 'a.txt');
+    assert.equal(tarfs.readFileSync('/pkg/link', 'utf8', r), 'hello');
+    assert.equal(tarfs.realpathSync('/pkg/link', {}), '/pkg/a.txt');
+
+    assert.equal(tarfs.readFileSync('/pkg/hard.txt', 'utf8', r), 'hello');
+    assert.equal(tarfs.statSync('/pkg/hard.txt', false).nlink, 2);
+
+    assert.throws(() => tarfs.openSync('/pkg/a.txt', FileFlag.getFileFlag('w'), 0x1a4), (e: any) => e.code === 'EPERM');
+    assert.throws(() => tarfs.readlinkSync('/pkg/a.txt'), (e: any) => e.code === 'EINVAL');
+  });
+
+  BrowserFS.FileSystem.TarFS.Create({ data: Buffer.from(gnuArchive, 'base64') }, (e, tarfs) => {
+    assert(!e);
+    assert.equal(tarfs.readFileSync('/' + 'g'.repeat(120), 'utf8', r), 'gnu');
+    assert.equal(tarfs.readlinkSync('/link'), 'g'.repeat(120));
+  });
+
+  // Corrupt archives and missing options are rejected.
+  var corrupt = Buffer.from(paxArchive, 'base64');
+  corrupt[corrupt.length - 5] ^= 1;
+  BrowserFS.FileSystem.TarFS.Create({ data: corrupt }, (e) => {
+    assert.equal(e.code, 'EINVAL');
+  });
+  BrowserFS.FileSystem.TarFS.Create(<any> {}, (e) => {
+    assert.equal(e.code, 'EINVAL');
+  });
+};
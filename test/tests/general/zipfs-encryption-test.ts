@@ -0,0 +1,67 @@
+/**
+ * Tests for encrypted files in ZipFS.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+import {zipCryptoDecrypt} from '../../../src/generic/zip_encryption';
+
+// 'c.txt' ('zip crypto ' five times), encrypted with ZipCrypto using the
+// password 'secret'. It has a data descriptor, so the encryption header is
+// checked against the modification time.
+var zipCryptoArchive = 'UEsDBBQACQAIAB2iUl0tTqVlHAAAADcAAAAFAAAAYy50eHTYeYDZY1qPPPXGMPHMmW+DdqBw87ql9a4rcxVAUEsHCC1OpWUcAAAANwAAAFBLAQIeAxQACQAIAB2iUl0tTqVlHAAAADcAAAAFAAAAAAAAAAEAAACkgQAAAABjLnR4dFBLBQYAAAAAAQABADMAAABPAAAAAAA=';
+// 'aes256.txt' ('AES-256 ' eight times, AE-2) and 'aes128.txt' ('AES-128',
+// AE-1), encrypted with WinZip AES using the password 'secret'.
+var aesArchive = 'UEsDBDMAAQBjAAAAAAAAAAAAKQAAAEAAAAAKAAsAYWVzMjU2LnR4dAGZBwACAEFFAwgAYHyWmyJYX4sNyYxtBgHxRAcmxQixICvvRYSm6FZMY3wtYnAiVwl3WlxQSwMEMwABAGMAAAAAANybte0dAAAABwAAAAoACwBhZXMxMjgudHh0AZkHAAEAQUUBCAAVITlTEKDiCIH/al1F8Z7kVGSYj91rQyqBNkcD+VBLAQIzADMAAQBjAAAAAAAAAAAAKQAAAEAAAAAKAAsAAAAAAAAAAAAAAAAAAABhZXMyNTYudHh0AZkHAAIAQUUDCABQSwECMwAzAAEAYwAAAAAA3Ju17R0AAAAHAAAACgALAAAAAAAAAAAAAABcAAAAYWVzMTI4LnR4dAGZBwABAEFFAQgAUEsFBgAAAAACAAIAhgAAAKwAAAAAAA==';
+
+export default function() {
+  var r = FileFlag.getFileFlag('r');
+  function expectError(zipfs: any, p: string, code: string): void {
+    assert.throws(() => zipfs.readFileSync(p, 'utf8', r), (e: any) => e.code === code);
+  }
+
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(zipCryptoArchive, 'base64'), password: 'secret' }, (e, zipfs) => {
+    assert(!e);
+    assert(zipfs.getCentralDirectoryEntry('/c.txt').isEncrypted());
+    assert.equal(zipfs.readFileSync('/c.txt', 'utf8', r), 'zip crypto '.repeat(5));
+  });
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(zipCryptoArchive, 'base64'), password: 'wrong' }, (e, zipfs) => {
+    assert(!e);
+    expectError(zipfs, '/c.txt', 'EACCES');
+  });
+
+  // Writable archives copy encrypted files as-is, along with the flag that
+  // decides which byte of the encryption header checks the password.
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(zipCryptoArchive, 'base64'), password: 'secret', writable: true }, (e, zipfs) => {
+    assert(!e);
+    zipfs.writeFileSync('/new.txt', 'new', 'utf8', FileFlag.getFileFlag('w'), 0x1a4);
+    var zipData = zipfs.toBuffer(), flag = zipData.readUInt16LE(6),
+      dataStart = 30 + zipData.readUInt16LE(26) + zipData.readUInt16LE(28),
+      encrypted = zipData.slice(dataStart, dataStart + zipData.readUInt32LE(18));
+    assert.equal(flag & 0x9, 0x9);
+    assert(zipCryptoDecrypt(encrypted, Buffer.from('secret'), [(zipData.readUInt16LE(10) >>> 8) & 0xFF]) !== null);
+    // The data descriptor follows the file data.
+    assert.equal(zipData.readUInt32LE(dataStart + encrypted.length), 0x08074b50);
+    BrowserFS.FileSystem.ZipFS.Create({ zipData: zipData, password: 'secret' }, (e, copy) => {
+      assert(!e);
+      assert.equal(copy.readFileSync('/c.txt', 'utf8', r), 'zip crypto '.repeat(5));
+      assert.equal(copy.readFileSync('/new.txt', 'utf8', r), 'new');
+    });
+  });
+
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(aesArchive, 'base64'), password: 'secret' }, (e, zipfs) => {
+    assert(!e);
+    assert.equal(zipfs.readFileSync('/aes256.txt', 'utf8', r), 'AES-256 '.repeat(8));
+    assert.equal(zipfs.readFileSync('/aes128.txt', 'utf8', r), 'AES-128');
+    assert.equal(zipfs.statSync('/aes256.txt', false).size, 64);
+  });
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(aesArchive, 'base64'), password: 'wrong' }, (e, zipfs) => {
+    assert(!e);
+    expectError(zipfs, '/aes256.txt', 'EACCES');
+    expectError(zipfs, '/aes128.txt', 'EACCES');
+  });
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(aesArchive, 'base64') }, (e, zipfs) => {
+    assert(!e);
+    expectError(zipfs, '/aes256.txt', 'EACCES');
+  });
+};
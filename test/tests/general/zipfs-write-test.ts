@@ -0,0 +1,37 @@
+/**
+ * Tests for writable ZipFS instances.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+export default function() {
+  var w = FileFlag.getFileFlag('w'), r = FileFlag.getFileFlag('r');
+  BrowserFS.FileSystem.ZipFS.Create({ writable: true }, (e, zipfs) => {
+    assert(!e);
+    assert(!zipfs.isReadOnly());
+    zipfs.mkdirSync('/dir', 0x1ff);
+    zipfs.mkdirSync('/empty', 0x1ff);
+    zipfs.writeFileSync('/dir/compressible.txt', 'abc'.repeat(1000), 'utf8', w, 0x1a4);
+    zipfs.writeFileSync('/dir/tiny.bin', Buffer.from([0, 1, 2]), null, w, 0x1a4);
+    zipfs.writeFileSync('/removed.txt', 'removed', 'utf8', w, 0x1a4);
+    zipfs.unlinkSync('/removed.txt');
+    zipfs.renameSync('/dir', '/renamed');
+
+    BrowserFS.FileSystem.ZipFS.Create({ zipData: zipfs.toBuffer() }, (e, copy) => {
+      assert(!e);
+      assert.deepEqual(copy.readdirSync('/').sort(), ['empty', 'renamed']);
+      assert.deepEqual(copy.readdirSync('/renamed').sort(), ['compressible.txt', 'tiny.bin']);
+      assert.equal(copy.readFileSync('/renamed/compressible.txt', 'utf8', r), 'abc'.repeat(1000));
+      assert.deepEqual(Array.prototype.slice.call(copy.readFileSync('/renamed/tiny.bin', null, r)), [0, 1, 2]);
+      // Data that shrinks is deflated, and the rest is stored as-is.
+      assert.equal(copy.getCentralDirectoryEntry('/renamed/compressible.txt').compressionMethod(), BrowserFS.FileSystem.ZipFS.CompressionMethod.DEFLATE);
+      assert.equal(copy.getCentralDirectoryEntry('/renamed/tiny.bin').compressionMethod(), BrowserFS.FileSystem.ZipFS.CompressionMethod.STORED);
+      assert(copy.isReadOnly());
+    });
+  });
+
+  BrowserFS.FileSystem.ZipFS.Create({}, (e) => {
+    assert.equal(e.code, 'EINVAL');
+  });
+};
@@ -0,0 +1,33 @@
+/**
+ * Tests for ZIP64 archives in ZipFS.
+ */
+import assert from '../../harness/wrapped-assert';
+import * as BrowserFS from '../../../src/core/browserfs';
+import {FileFlag} from '../../../src/core/file_flag';
+
+// An archive with 'a.txt' and 'dir/b.txt'. The sizes and offset of the latter
+// live in zip64 extra fields, and the central directory is described by a
+// zip64 end of central directory record.
+var zip64Archive = 'UEsDBBQAAAAAAKShUl1X7nGSBQAAAAUAAAAFAAAAYS50eHRmaXJzdFBLAwQtAAAAAACkoVJdoPlac///////////CQAUAGRpci9iLnR4dAEAEAALAAAAAAAAAAsAAAAAAAAAc2Vjb25kIGZpbGVQSwECFAMUAAAAAACkoVJdV+5xkgUAAAAFAAAABQAAAAAAAAAAAAAAgAEAAAAAYS50eHRQSwECLQMtAAAAAACkoVJdoPlac///////////CQAcAAAAAAAAAAAAgAH/////ZGlyL2IudHh0AQAYAAsAAAAAAAAACwAAAAAAAAAoAAAAAAAAAFBLBgYsAAAAAAAAAC0ALQAAAAAAAAAAAAIAAAAAAAAAAgAAAAAAAACGAAAAAAAAAG4AAAAAAAAAUEsGBwAAAAD0AAAAAAAAAAEAAABQSwUGAAAAAAIAAgCGAAAAbgAAAAAA';
+
+export default function() {
+  var r = FileFlag.getFileFlag('r'), w = FileFlag.getFileFlag('w');
+  BrowserFS.FileSystem.ZipFS.Create({ zipData: Buffer.from(zip64Archive, 'base64'), writable: true }, (e, zipfs) => {
+    assert(!e);
+    var cd = zipfs.getCentralDirectoryEntry('/dir/b.txt');
+    assert.equal(cd.uncompressedSize(), 11);
+    assert.equal(cd.compressedSize(), 11);
+    assert.equal(cd.headerRelativeOffset(), 40);
+    assert.equal(zipfs.readFileSync('/a.txt', 'utf8', r), 'first');
+    assert.equal(zipfs.readFileSync('/dir/b.txt', 'utf8', r), 'second file');
+
+    // Archives that fit in 32 bits are saved without zip64 records.
+    zipfs.writeFileSync('/c.txt', 'third', 'utf8', w, 0x1a4);
+    BrowserFS.FileSystem.ZipFS.Create({ zipData: zipfs.toBuffer() }, (e, copy) => {
+      assert(!e);
+      assert.equal(copy.getCentralDirectoryEntry('/dir/b.txt').extraFieldLength(), 0);
+      assert.equal(copy.readFileSync('/dir/b.txt', 'utf8', r), 'second file');
+      assert.equal(copy.readFileSync('/c.txt', 'utf8', r), 'third');
+    });
+  });
+};